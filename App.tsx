@@ -1,23 +1,84 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { analyzeHealthDocument, analyzeHealthText } from './services/geminiService';
-import type { AnalysisResult, PotentialError } from './types';
-import { DisclaimerIcon, UploadIcon, AlertTriangleIcon, PillIcon, LabBeakerIcon, BookOpenIcon, KeyboardIcon, MicrophoneIcon } from './components/Icons';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { AnalysisError } from './services/analysisErrors';
+import type { AnalysisProgress, AnalysisRunOptions } from './services/analysisService';
+import { analyzeHealthDocument, analyzeHealthText, analyzeStructuredRecord } from './services/apiClient';
+import { deleteCase, findPreviousCase, listCases, saveCase } from './services/caseStore';
+import { isLowAgreement } from './services/consensus';
+import { fileToPages, isUnmasked, UNMASKED_UPLOAD_WARNING } from './services/documentPages';
+import { defaultRedactionSettings, resolveRedactions, type RedactionSettings } from './services/deidentify';
+import { datedFileName, downloadFile } from './services/download';
+import { recheckFindings } from './services/interactionEngine';
+import { interventionsToCsv, latestReviews, listInterventions, recordIntervention, type InterventionInput } from './services/interventionLog';
+import { isStructuredRecordEmpty, parseStructuredImport, type StructuredRecord } from './services/importers';
+import { describePatientContext, emptyPatientContext, mergePatientContext } from './services/patientContext';
+import { POLICY_ERROR_TYPE, describePolicy, loadPolicy } from './services/policy';
+import { describeOrder } from './services/sigParser';
+import type { AnalysisResult, CaseInputMode, DocumentPage, FindingSource, InstitutionalPolicy, InterventionAuditEntry, PatientContext, PatientLeaflet, PotentialError, RiskLevel, SavedCase, SourceSpan, TerminologyMapping } from './types';
+import AnalysisProgressPanel from './components/AnalysisProgressPanel';
+import { AgreementBadge, ConsensusSummary } from './components/ConsensusAgreement';
+import BatchPanel from './components/BatchPanel';
+import CaseComparisonView from './components/CaseComparisonView';
+import CaseHistorySidebar from './components/CaseHistorySidebar';
+import DrugTerminology from './components/DrugTerminology';
+import EvidenceTrace, { UnverifiedBadge } from './components/EvidenceTrace';
+import ExportPanel from './components/ExportPanel';
+import FindingReviewPanel from './components/FindingReviewPanel';
+import FollowUpChat from './components/FollowUpChat';
+import HighlightedTextArea from './components/HighlightedTextArea';
+import LabInsightsTable from './components/LabInsightsTable';
+import LeafletPanel from './components/LeafletPanel';
+import OrganFunctionPanel from './components/OrganFunctionPanel';
+import PaediatricDosingTable from './components/PaediatricDosingTable';
+import PageThumbnails from './components/PageThumbnails';
+import PatientContextForm from './components/PatientContextForm';
+import PolicySettings from './components/PolicySettings';
+import RedactionPreview from './components/RedactionPreview';
+import SpecialPopulationsPanel from './components/SpecialPopulationsPanel';
+import StructuredImportInput from './components/StructuredImportInput';
+import { DisclaimerIcon, UploadIcon, AlertTriangleIcon, PillIcon, LabBeakerIcon, BookOpenIcon, KeyboardIcon, MicrophoneIcon, DatabaseImportIcon, LeafletIcon, UsersIcon } from './components/Icons';
 
-type Tab = 'errors' | 'drugs' | 'labs';
-type InputMode = 'upload' | 'text' | 'voice';
+type Tab = 'errors' | 'drugs' | 'labs' | 'populations' | 'leaflet';
+type InputMode = CaseInputMode;
 
 const App: React.FC = () => {
   // Input and State Management
-  const [file, setFile] = useState<File | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [pages, setPages] = useState<DocumentPage[]>([]);
+  const [isReadingFiles, setIsReadingFiles] = useState<boolean>(false);
   const [inputText, setInputText] = useState<string>('');
+  const [importText, setImportText] = useState<string>('');
   const [inputMode, setInputMode] = useState<InputMode>('upload');
+  const [patientContext, setPatientContext] = useState<PatientContext>(emptyPatientContext);
   
   // Analysis and UI State
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  // The run whose results may still be shown; starting another run or cancelling replaces or clears it.
+  const runRef = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<Tab>('errors');
+  // Evidence of the result card under the pointer, highlighted in the input above.
+  const [hoveredEvidence, setHoveredEvidence] = useState<SourceSpan[]>([]);
+  // Generated on request from the Patient Leaflet tab; cleared whenever the analysis changes.
+  const [leaflet, setLeaflet] = useState<PatientLeaflet | null>(null);
+
+  // The batch workspace stays mounted while a case is open, so a running batch and its dashboard survive drill-down.
+  const [workspace, setWorkspace] = useState<'single' | 'batch' | 'settings'>('single');
+
+  // Case History State
+  const [cases, setCases] = useState<SavedCase[]>([]);
+  const [currentCase, setCurrentCase] = useState<SavedCase | null>(null);
+  const [caseLabel, setCaseLabel] = useState<string>('');
+  const [consensusRuns, setConsensusRuns] = useState<number>(1);
+  const [policy, setPolicy] = useState<InstitutionalPolicy | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+  const [comparisonBaseline, setComparisonBaseline] = useState<SavedCase | null>(null);
+  // Bumped whenever the analysis on screen is replaced, so the follow-up conversation starts afresh.
+  const [followUpThread, setFollowUpThread] = useState<number>(0);
+
+  // Intervention Review State
+  const [reviewer, setReviewer] = useState<string>('');
+  const [interventions, setInterventions] = useState<InterventionAuditEntry[]>([]);
 
   // Voice Recording State
   const [isRecording, setIsRecording] = useState<boolean>(false);
@@ -55,17 +116,48 @@ const App: React.FC = () => {
     }
   }, []);
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = event.target.files?.[0];
-    if (selectedFile) {
-      setFile(selectedFile);
-      clearAnalysis();
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setPreviewUrl(reader.result as string);
-      };
-      reader.readAsDataURL(selectedFile);
+  useEffect(() => {
+    listCases()
+      .then(setCases)
+      .catch(err => console.error("Could not load case history", err));
+    loadPolicy()
+      .then(setPolicy)
+      .catch(err => console.error("Could not load the institutional policy", err));
+  }, []);
+
+  useEffect(() => {
+    if (!currentCase) {
+      setInterventions([]);
+      return;
     }
+    let stale = false;
+    listInterventions(currentCase.id)
+      .then(entries => { if (!stale) setInterventions(entries); })
+      .catch(err => console.error("Could not load the intervention audit log", err));
+    return () => { stale = true; };
+  }, [currentCase?.id]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFiles = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (selectedFiles.length === 0) return;
+
+    clearAnalysis();
+    setIsReadingFiles(true);
+    try {
+      const newPages = (await Promise.all(selectedFiles.map(fileToPages))).flat();
+      setPages(prev => [...prev, ...newPages]);
+    } catch (err) {
+      console.error(err);
+      setError(`Could not read the selected file: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsReadingFiles(false);
+    }
+  };
+
+  const handlePagesChange = (next: DocumentPage[]) => {
+    setPages(next);
+    if (analysisResult || error) clearAnalysis();
   };
   
   const handleTextChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -73,44 +165,95 @@ const App: React.FC = () => {
       if(analysisResult || error) clearAnalysis();
   }
 
-  const fileToBase64 = (file: File): Promise<{mimeType: string, data: string}> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => {
-        const result = reader.result as string;
-        const mimeType = result.split(';')[0].split(':')[1];
-        const base64Data = result.split(',')[1];
-        resolve({ mimeType, data: base64Data });
-      };
-      reader.onerror = (error) => reject(error);
-    });
+  // Applied to text and voice input only; uploads are masked page by page instead.
+  const [redactionSettings, setRedactionSettings] = useState<RedactionSettings>(defaultRedactionSettings);
+
+  // Structured imports are parsed as they are pasted so the reviewer sees exactly what will be analyzed.
+  const importParse = useMemo<{ record: StructuredRecord | null; error: string | null }>(() => {
+    if (!importText.trim()) return { record: null, error: null };
+    try {
+      return { record: parseStructuredImport(importText), error: null };
+    } catch (err) {
+      return { record: null, error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [importText]);
+
+  const handleImportChange = (text: string) => {
+    setImportText(text);
+    if (analysisResult || error) clearAnalysis();
+  };
+
+  const cancelAnalysis = () => {
+    runRef.current?.abort();
   };
 
   const handleAnalyze = useCallback(async () => {
+    if (inputMode === 'upload' && pages.length > 0 && isUnmasked(pages)
+      && !window.confirm(`No page has a masked region. ${UNMASKED_UPLOAD_WARNING}`)) return;
+    runRef.current?.abort();
+    const run = new AbortController();
+    runRef.current = run;
+    // A cancelled or superseded run must not touch the screen any more.
+    const isCurrentRun = () => runRef.current === run && !run.signal.aborted;
+
     clearAnalysis();
+    setProgress(null);
     setIsLoading(true);
+    const redactions = resolveRedactions(inputText, redactionSettings);
+
+    const options: AnalysisRunOptions = {
+      signal: run.signal,
+      onProgress: next => { if (isCurrentRun()) setProgress(next); },
+      consensusRuns,
+      policy,
+    };
 
     try {
       let result;
-      if (inputMode === 'upload' && file) {
-        const { mimeType, data } = await fileToBase64(file);
-        result = await analyzeHealthDocument(data, mimeType);
+      if (inputMode === 'upload' && pages.length > 0) {
+        result = await analyzeHealthDocument(pages, patientContext, options);
       } else if ((inputMode === 'text' || inputMode === 'voice') && inputText.trim()) {
-        result = await analyzeHealthText(inputText);
+        result = await analyzeHealthText(inputText, patientContext, { ...options, redactions });
+      } else if (inputMode === 'import' && importParse.record && !isStructuredRecordEmpty(importParse.record)) {
+        // Only the parsed record is sent, never the message with its identifiers. Details typed into the form win
+        // over the EHR export; the export fills in everything else.
+        result = await analyzeStructuredRecord(importParse.record, mergePatientContext(patientContext, importParse.record.patientContext), options);
       } else {
         setError("Please provide input before analyzing.");
-        setIsLoading(false);
         return;
       }
+      if (!isCurrentRun()) return;
       setAnalysisResult(result);
+
+      try {
+        const saved = await saveCase({
+          label: caseLabel.trim(),
+          input: inputMode === 'upload' ? { mode: inputMode, pages }
+            : inputMode === 'import' ? { mode: inputMode, text: importText }
+            : { mode: inputMode, text: inputText, redactions },
+          patientContext: result.patientContext,
+          result,
+        });
+        setCurrentCase(saved);
+        setCases(prev => [saved, ...prev]);
+      } catch (err) {
+        // History is a convenience; never lose the analysis on screen because saving failed.
+        console.error("Could not save case to history", err);
+      }
     } catch (err) {
+      if (!isCurrentRun()) return;
       console.error(err);
-      setError("An error occurred during analysis. The input may be unclear or the format unsupported. Please try again.");
+      setError(err instanceof AnalysisError
+        ? err.message
+        : "An error occurred during analysis. The input may be unclear or the format unsupported. Please try again.");
     } finally {
-      setIsLoading(false);
+      if (runRef.current === run) {
+        runRef.current = null;
+        setIsLoading(false);
+        setProgress(null);
+      }
     }
-  }, [file, inputText, inputMode]);
+  }, [pages, inputText, importText, importParse, inputMode, patientContext, caseLabel, redactionSettings, consensusRuns, policy]);
 
   const toggleRecording = () => {
     if (!recognitionRef.current) {
@@ -128,34 +271,123 @@ const App: React.FC = () => {
   };
   
   const clearInput = () => {
-    setFile(null);
-    setPreviewUrl(null);
+    setPages([]);
     setInputText('');
+    setImportText('');
     clearAnalysis();
-    const fileInput = document.getElementById('file-upload') as HTMLInputElement;
-    if(fileInput) fileInput.value = '';
   };
   
   const clearAnalysis = () => {
       setAnalysisResult(null);
       setError(null);
       setActiveTab('errors');
+      setHoveredEvidence([]);
+      setLeaflet(null);
+      setCurrentCase(null);
+      setComparisonBaseline(null);
+      setFollowUpThread(thread => thread + 1);
   }
 
-  const riskColorMap: Record<PotentialError['riskLevel'], string> = {
+  const openCase = (saved: SavedCase) => {
+    cancelAnalysis();
+    clearAnalysis();
+    setInputMode(saved.input.mode);
+    setPages(saved.input.pages ?? []);
+    setInputText(saved.input.mode === 'import' ? '' : saved.input.text ?? '');
+    setImportText(saved.input.mode === 'import' ? saved.input.text ?? '' : '');
+    setPatientContext(saved.patientContext ?? emptyPatientContext);
+    setCaseLabel(saved.label);
+    setAnalysisResult(saved.result);
+    setCurrentCase(saved);
+    setIsHistoryOpen(false);
+    setWorkspace('single');
+  };
+
+  const handleRecordIntervention = async (findingIndex: number, finding: PotentialError, input: InterventionInput) => {
+    if (!currentCase) return;
+    const entry = await recordIntervention(currentCase, findingIndex, finding, input);
+    setInterventions(prev => [...prev, entry]);
+  };
+
+  /** Saves a changed result (an accepted follow-up update or a corrected drug mapping) as a new version of the case. */
+  const saveResultVersion = async (result: AnalysisResult) => {
+    if (!currentCase) return;
+    const saved = await saveCase({ label: currentCase.label, input: currentCase.input, patientContext: result.patientContext, result });
+    setCases(prev => [saved, ...prev]);
+    setCurrentCase(saved);
+    setAnalysisResult(result);
+    setComparisonBaseline(null);
+    setLeaflet(null);
+  };
+
+  const correctDrugMapping = (index: number, terminology: TerminologyMapping) => {
+    if (!analysisResult) return;
+    const drugInformation = analysisResult.drugInformation.map((drug, i) => (i === index ? { ...drug, terminology } : drug));
+    saveResultVersion(recheckFindings({ ...analysisResult, drugInformation }, policy)).catch(err => {
+      console.error("Could not save the corrected mapping", err);
+      setError("The corrected drug mapping could not be saved.");
+    });
+  };
+
+  const exportInterventions = async () => {
+    try {
+      const entries = await listInterventions();
+      downloadFile(datedFileName('pharmacist-interventions', 'csv'), interventionsToCsv(entries), 'text/csv');
+    } catch (err) {
+      console.error("Could not export the intervention audit log", err);
+      setError("The intervention audit log could not be exported.");
+    }
+  };
+
+  const removeCase = async (saved: SavedCase) => {
+    if (!window.confirm(`Delete the saved case "${saved.label || 'Unlabelled case'}"?`)) return;
+    try {
+      await deleteCase(saved.id);
+      setCases(prev => prev.filter(other => other.id !== saved.id));
+      if (currentCase?.id === saved.id) setCurrentCase(null);
+      if (comparisonBaseline?.id === saved.id) setComparisonBaseline(null);
+    } catch (err) {
+      console.error("Could not delete case", err);
+    }
+  };
+
+  // Cases with the same label are treated as the same patient; unlabelled cases can be compared with anything older.
+  const comparisonCandidates = currentCase
+    ? cases.filter(other =>
+        other.id !== currentCase.id &&
+        other.createdAt < currentCase.createdAt &&
+        (!currentCase.label || other.label.trim().toLowerCase() === currentCase.label.trim().toLowerCase()))
+    : [];
+
+  const riskColorMap: Record<RiskLevel, string> = {
     'High': 'bg-red-100 text-red-800 border-red-400',
     'Moderate': 'bg-yellow-100 text-yellow-800 border-yellow-400',
     'Low': 'bg-blue-100 text-blue-800 border-blue-400',
   };
 
-  const labStatusColorMap: Record<string, string> = {
-    'High': 'text-red-600 font-semibold',
-    'Low': 'text-blue-600 font-semibold',
-    'Abnormal': 'text-yellow-700 font-semibold',
-    'Normal': 'text-green-700',
-  }
+  const findingSourceStyles: Record<FindingSource, { label: string; className: string }> = {
+    'rule-confirmed': { label: 'Rule-confirmed', className: 'bg-green-100 text-green-800 border border-green-300' },
+    'ai-only': { label: 'AI-only', className: 'bg-slate-100 text-slate-600 border border-slate-300' },
+    'rule-only': { label: 'Rule-only', className: 'bg-purple-100 text-purple-800 border border-purple-300' },
+  };
+
+  // While streaming, the tabs show the items received so far; comparison, history and export wait for the final result.
+  const shownResult: AnalysisResult | null = analysisResult ?? (isLoading && progress ? progress.result : null);
+  const isSectionPending = (section: keyof AnalysisProgress['sections']) =>
+    !analysisResult && progress?.sections[section].status !== 'done';
 
-  const isAnalyzeDisabled = isLoading || (inputMode === 'upload' && !file) || (inputMode !== 'upload' && !inputText.trim());
+  const evidenceHover = (evidence: SourceSpan[] | undefined) => ({
+    onMouseEnter: () => setHoveredEvidence(evidence ?? []),
+    onMouseLeave: () => setHoveredEvidence([]),
+  });
+
+  // Paediatric doses are checked per kg, so the weight is required; an imported record may supply it.
+  const needsPaediatricWeight = patientContext.paediatric && !patientContext.weightKg
+    && !(inputMode === 'import' && importParse.record?.patientContext?.weightKg);
+  const isAnalyzeDisabled = isLoading || needsPaediatricWeight
+    || (inputMode === 'upload' && (pages.length === 0 || isReadingFiles))
+    || ((inputMode === 'text' || inputMode === 'voice') && !inputText.trim())
+    || (inputMode === 'import' && (!importParse.record || isStructuredRecordEmpty(importParse.record)));
   
   return (
     <div className="min-h-screen bg-slate-100 text-slate-800 font-sans">
@@ -165,9 +397,28 @@ const App: React.FC = () => {
             <svg className="w-8 h-8 text-teal-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth="1.5" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" d="M12 9v6m3-3H9m12 0a9 9 0 1 1-18 0 9 9 0 0 1 18 0Z" /></svg>
             <h1 className="text-2xl md:text-3xl font-bold text-slate-700 tracking-tight">AI Clinical Pharmacist</h1>
           </div>
+          <div className="flex items-center gap-1">
+            <button onClick={() => setWorkspace(workspace === 'batch' ? 'single' : 'batch')} className={`px-3 py-2 text-sm font-medium rounded-md ${workspace === 'batch' ? 'bg-teal-50 text-teal-700' : 'text-slate-600 hover:bg-slate-100'}`}>
+              {workspace === 'batch' ? 'Single case' : 'Batch'}
+            </button>
+            <button onClick={() => setWorkspace(workspace === 'settings' ? 'single' : 'settings')} className={`px-3 py-2 text-sm font-medium rounded-md ${workspace === 'settings' ? 'bg-teal-50 text-teal-700' : 'text-slate-600 hover:bg-slate-100'}`}>
+              {workspace === 'settings' ? 'Single case' : 'Settings'}
+            </button>
+            <button onClick={() => setIsHistoryOpen(true)} className="flex items-center px-3 py-2 text-sm font-medium text-slate-600 rounded-md hover:bg-slate-100">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+              History{cases.length > 0 && <span className="ml-1 text-slate-400">({cases.length})</span>}
+            </button>
+          </div>
         </div>
       </header>
 
+      {isHistoryOpen && (
+        <>
+          <div className="fixed inset-0 z-20 bg-black/20" onClick={() => setIsHistoryOpen(false)} />
+          <CaseHistorySidebar cases={cases} activeCaseId={currentCase?.id ?? null} onSelect={openCase} onDelete={removeCase} onClose={() => setIsHistoryOpen(false)} />
+        </>
+      )}
+
       <main className="container mx-auto p-4 md:p-8">
         <div className="max-w-4xl mx-auto">
           <div className="bg-orange-100 border-l-4 border-orange-500 text-orange-700 p-4 rounded-md mb-8" role="alert">
@@ -180,153 +431,265 @@ const App: React.FC = () => {
             </div>
           </div>
 
-          <div className="bg-white p-6 rounded-xl shadow-lg transition-all">
-            <h2 className="text-xl font-semibold mb-2 text-slate-600">Provide Medical Information</h2>
-            <p className="text-sm text-slate-500 mb-6">Choose your input method: upload a document, type text, or use your voice.</p>
+          <div className={workspace === 'batch' ? undefined : 'hidden'}>
+            <BatchPanel redactionSettings={redactionSettings} policy={policy} onCaseSaved={saved => setCases(prev => [saved, ...prev])} onOpenCase={openCase} />
+          </div>
 
-            <div className="mb-4 flex justify-center border-b border-slate-200">
-                <div className="flex space-x-1 rounded-t-lg bg-slate-100 p-1">
-                    <button onClick={() => setInputMode('upload')} className={`flex items-center px-4 py-2 text-sm font-medium rounded-md transition-colors ${inputMode === 'upload' ? 'bg-white text-teal-600 shadow-sm' : 'text-slate-600 hover:bg-slate-200'}`}><UploadIcon className="w-5 h-5 mr-2" /> Upload</button>
-                    <button onClick={() => setInputMode('text')} className={`flex items-center px-4 py-2 text-sm font-medium rounded-md transition-colors ${inputMode === 'text' ? 'bg-white text-teal-600 shadow-sm' : 'text-slate-600 hover:bg-slate-200'}`}><KeyboardIcon /> Text</button>
-                    <button onClick={() => setInputMode('voice')} className={`flex items-center px-4 py-2 text-sm font-medium rounded-md transition-colors ${inputMode === 'voice' ? 'bg-white text-teal-600 shadow-sm' : 'text-slate-600 hover:bg-slate-200'}`}><MicrophoneIcon /> Voice</button>
-                </div>
-            </div>
+          {workspace === 'settings' && <PolicySettings policy={policy} onChange={setPolicy} />}
 
-            {inputMode === 'upload' && (
-              !previewUrl ? (
-                <label htmlFor="file-upload" className="flex flex-col items-center justify-center w-full h-48 border-2 border-dashed border-slate-300 rounded-lg cursor-pointer bg-slate-50 hover:bg-slate-100 transition-colors">
-                  <UploadIcon />
-                  <p className="mb-2 text-sm text-slate-500"><span className="font-semibold">Click to upload</span> or drag and drop</p>
-                  <p className="text-xs text-slate-400">PNG, JPG, etc.</p>
-                  <input id="file-upload" type="file" className="hidden" accept="image/*" onChange={handleFileChange} />
-                </label>
-              ) : (
-                <div className="relative group w-full md:w-2/3 lg:w-1/2 mx-auto">
-                  <img src={previewUrl} alt="Document Preview" className="rounded-lg shadow-md w-full" />
-                  <button onClick={clearInput} className="absolute top-2 right-2 bg-black bg-opacity-50 text-white rounded-full p-2 hover:bg-opacity-75 transition-all opacity-0 group-hover:opacity-100 focus:opacity-100">
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
-                  </button>
-                </div>
-              )
-            )}
+          <div className={workspace === 'single' ? undefined : 'hidden'}>
+            <div className="bg-white p-6 rounded-xl shadow-lg transition-all">
+              <h2 className="text-xl font-semibold mb-2 text-slate-600">Provide Medical Information</h2>
+              <p className="text-sm text-slate-500 mb-6">Choose your input method: upload a document, type text, use your voice, or import structured data from the EHR.</p>
 
-            {(inputMode === 'text' || inputMode === 'voice') && (
-              <div>
-                <textarea 
-                  value={inputText}
-                  onChange={handleTextChange}
-                  className="w-full h-40 p-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 transition-shadow"
-                  placeholder={inputMode === 'text' ? 'Type or paste medical text here (e.g., Rx: Metformin 500mg PO BID...)' : 'Click the microphone to start dictating medical text...'}
-                />
-                 {inputMode === 'voice' && (
-                    <div className='flex justify-center mt-3'>
-                        <button onClick={toggleRecording} className={`flex items-center justify-center px-4 py-2 rounded-lg font-semibold text-white transition-colors ${isRecording ? 'bg-red-500 hover:bg-red-600' : 'bg-blue-500 hover:bg-blue-600'}`}>
-                            <MicrophoneIcon className={`w-5 h-5 mr-2 ${isRecording ? 'animate-pulse' : ''}`} />
-                            {isRecording ? 'Stop Recording' : 'Start Recording'}
-                        </button>
-                    </div>
-                )}
+              <div className="mb-4 flex justify-center border-b border-slate-200">
+                  <div className="flex space-x-1 rounded-t-lg bg-slate-100 p-1">
+                      <button onClick={() => setInputMode('upload')} className={`flex items-center px-4 py-2 text-sm font-medium rounded-md transition-colors ${inputMode === 'upload' ? 'bg-white text-teal-600 shadow-sm' : 'text-slate-600 hover:bg-slate-200'}`}><UploadIcon className="w-5 h-5 mr-2" /> Upload</button>
+                      <button onClick={() => setInputMode('text')} className={`flex items-center px-4 py-2 text-sm font-medium rounded-md transition-colors ${inputMode === 'text' ? 'bg-white text-teal-600 shadow-sm' : 'text-slate-600 hover:bg-slate-200'}`}><KeyboardIcon /> Text</button>
+                      <button onClick={() => setInputMode('voice')} className={`flex items-center px-4 py-2 text-sm font-medium rounded-md transition-colors ${inputMode === 'voice' ? 'bg-white text-teal-600 shadow-sm' : 'text-slate-600 hover:bg-slate-200'}`}><MicrophoneIcon /> Voice</button>
+                      <button onClick={() => setInputMode('import')} className={`flex items-center px-4 py-2 text-sm font-medium rounded-md transition-colors ${inputMode === 'import' ? 'bg-white text-teal-600 shadow-sm' : 'text-slate-600 hover:bg-slate-200'}`}><DatabaseImportIcon /> Structured import</button>
+                  </div>
               </div>
-            )}
+
+              {inputMode === 'upload' && (
+                pages.length === 0 ? (
+                  <label htmlFor="file-upload" className="flex flex-col items-center justify-center w-full h-48 border-2 border-dashed border-slate-300 rounded-lg cursor-pointer bg-slate-50 hover:bg-slate-100 transition-colors">
+                    <UploadIcon />
+                    <p className="mb-2 text-sm text-slate-500">{isReadingFiles ? 'Reading files…' : <><span className="font-semibold">Click to upload</span> one or more pages</>}</p>
+                    <p className="text-xs text-slate-400">PNG, JPG or PDF; several files are analyzed as one case</p>
+                    <input id="file-upload" type="file" className="hidden" accept="image/*,application/pdf" multiple onChange={handleFileChange} />
+                  </label>
+                ) : (
+                  <div>
+                    <PageThumbnails pages={pages} onChange={handlePagesChange} onAddFiles={handleFileChange} isReading={isReadingFiles} highlights={hoveredEvidence} />
+                    <div className="text-right mt-1">
+                      <button onClick={clearInput} className="text-xs text-slate-500 hover:text-slate-700 underline">Remove all pages</button>
+                    </div>
+                  </div>
+                )
+              )}
+
+              {(inputMode === 'text' || inputMode === 'voice') && (
+                <div>
+                  <HighlightedTextArea
+                    value={inputText}
+                    onChange={handleTextChange}
+                    highlights={hoveredEvidence}
+                    placeholder={inputMode === 'text' ? 'Type or paste medical text here (e.g., Rx: Metformin 500mg PO BID...)' : 'Click the microphone to start dictating medical text...'}
+                  />
+                  <RedactionPreview text={inputText} settings={redactionSettings} onChange={setRedactionSettings} />
+                   {inputMode === 'voice' && (
+                      <div className='flex justify-center mt-3'>
+                          <button onClick={toggleRecording} className={`flex items-center justify-center px-4 py-2 rounded-lg font-semibold text-white transition-colors ${isRecording ? 'bg-red-500 hover:bg-red-600' : 'bg-blue-500 hover:bg-blue-600'}`}>
+                              <MicrophoneIcon className={`w-5 h-5 mr-2 ${isRecording ? 'animate-pulse' : ''}`} />
+                              {isRecording ? 'Stop Recording' : 'Start Recording'}
+                          </button>
+                      </div>
+                  )}
+                </div>
+              )}
+            
+              {inputMode === 'import' && (
+                <StructuredImportInput value={importText} onChange={handleImportChange} record={importParse.record} parseError={importParse.error} />
+              )}
+
+              <PatientContextForm value={patientContext} onChange={setPatientContext} />
+
+              <label className="mt-4 block text-sm text-slate-600">Case label <span className="text-xs text-slate-400">(bed, initials or local reference; saved in this browser only, never sent for analysis)</span>
+                <input value={caseLabel} onChange={e => setCaseLabel(e.target.value)} placeholder="e.g. Ward 4 Bed 12" className="mt-1 w-full p-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-teal-500 focus:border-teal-500" />
+              </label>
+
+              <label className="mt-4 block text-sm text-slate-600">Consensus runs <span className="text-xs text-slate-400">(repeats the analysis and reports how many runs agree on each finding; slower and uses more quota)</span>
+                <select value={consensusRuns} onChange={e => setConsensusRuns(Number(e.target.value))} className="mt-1 block p-2 border border-slate-300 rounded-md text-sm bg-white focus:ring-2 focus:ring-teal-500 focus:border-teal-500">
+                  <option value={1}>Off (single run)</option>
+                  <option value={3}>3 runs</option>
+                  <option value={5}>5 runs</option>
+                </select>
+              </label>
             
-            <div className="flex justify-center mt-6">
-              <button onClick={handleAnalyze} disabled={isAnalyzeDisabled} className="w-full sm:w-auto flex items-center justify-center px-8 py-3 bg-teal-500 text-white font-bold rounded-lg shadow-md hover:bg-teal-600 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 disabled:bg-slate-300 disabled:cursor-not-allowed transition-all">
-                {isLoading ? (
-                  <><svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>Analyzing...</>
-                ) : 'Run Clinical Analysis'}
-              </button>
+              <div className="flex justify-center mt-6">
+                <button onClick={handleAnalyze} disabled={isAnalyzeDisabled} className="w-full sm:w-auto flex items-center justify-center px-8 py-3 bg-teal-500 text-white font-bold rounded-lg shadow-md hover:bg-teal-600 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 disabled:bg-slate-300 disabled:cursor-not-allowed transition-all">
+                  {isLoading ? (
+                    <><svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>Analyzing...</>
+                  ) : 'Run Clinical Analysis'}
+                </button>
+              </div>
+              {needsPaediatricWeight && <p className="mt-2 text-center text-xs text-red-600">Enter the patient's weight under Patient Context to run a paediatric analysis.</p>}
+
+              {isLoading && <AnalysisProgressPanel progress={progress} onCancel={cancelAnalysis} />}
             </div>
-          </div>
           
-          {error && (
-            <div className="mt-8 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg relative" role="alert">
-              <strong className="font-bold">Error: </strong>
-              <span className="block sm:inline">{error}</span>
-            </div>
-          )}
-
-          {analysisResult && (
-            <div className="mt-8 bg-white p-4 sm:p-6 rounded-xl shadow-lg">
-              <div className="border-b border-slate-200 mb-4">
-                <nav className="-mb-px flex space-x-4 sm:space-x-8" aria-label="Tabs">
-                  <button onClick={() => setActiveTab('errors')} className={`whitespace-nowrap flex items-center py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'errors' ? 'border-teal-500 text-teal-600' : 'border-transparent text-slate-500 hover:text-slate-700 hover:border-slate-300'}`}><AlertTriangleIcon /> <span className='ml-2'>Error Analysis</span></button>
-                  <button onClick={() => setActiveTab('drugs')} className={`whitespace-nowrap flex items-center py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'drugs' ? 'border-teal-500 text-teal-600' : 'border-transparent text-slate-500 hover:text-slate-700 hover:border-slate-300'}`}><PillIcon /> <span className='ml-2'>Drug Deep-Dive</span></button>
-                  <button onClick={() => setActiveTab('labs')} className={`whitespace-nowrap flex items-center py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'labs' ? 'border-teal-500 text-teal-600' : 'border-transparent text-slate-500 hover:text-slate-700 hover:border-slate-300'}`}><LabBeakerIcon /> <span className='ml-2'>Lab Insights</span></button>
-                </nav>
+            {error && (
+              <div className="mt-8 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg relative" role="alert">
+                <strong className="font-bold">Error: </strong>
+                <span className="block sm:inline">{error}</span>
               </div>
+            )}
 
-              <div>
-                {activeTab === 'errors' && (
-                  <div className="space-y-4">
-                    <h3 className="text-lg font-semibold text-slate-800">Potential Medication Errors</h3>
-                    {(analysisResult.potentialErrors?.length || 0) > 0 ? (
-                      analysisResult.potentialErrors.map((item, index) => (
-                        <div key={index} className={`p-4 rounded-lg border-l-4 ${riskColorMap[item.riskLevel]}`}>
-                          <div className='flex justify-between items-start'>
-                             <p className="font-bold">{item.errorType}</p>
-                             <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${riskColorMap[item.riskLevel]}`}>{item.riskLevel} Risk</span>
-                          </div>
-                          <p className="mt-2 text-sm">{item.error}</p>
-                          <div className='mt-3 border-t border-slate-300/50 pt-3'>
-                            <p className='font-semibold text-sm flex items-center'><BookOpenIcon/> <span className='ml-2'>Clinical Rationale</span></p>
-                            <p className="mt-1 text-sm">{item.explanation}</p>
-                          </div>
-                        </div>
-                      ))
-                    ) : ( <p className="text-slate-500 text-sm p-4 bg-green-50 border border-green-200 rounded-md">No potential medication errors were identified based on the provided document.</p> )}
+            {shownResult && (
+              <div className="mt-8 bg-white p-4 sm:p-6 rounded-xl shadow-lg">
+                {currentCase && comparisonCandidates.length > 0 && !comparisonBaseline && (
+                  <div className="mb-4 flex justify-end">
+                    <button
+                      onClick={() => setComparisonBaseline(findPreviousCase(cases, currentCase) ?? comparisonCandidates[0])}
+                      className="px-3 py-1.5 text-sm font-medium text-indigo-700 bg-indigo-50 border border-indigo-200 rounded-md hover:bg-indigo-100"
+                    >Compare with previous</button>
                   </div>
                 )}
-                {activeTab === 'drugs' && (
-                  <div className="space-y-6">
-                    <h3 className="text-lg font-semibold text-slate-800">Prescribed Drug Information</h3>
-                    {(analysisResult.drugInformation?.length || 0) > 0 ? (
-                       analysisResult.drugInformation.map((drug, index) => (
-                        <div key={index} className="border border-slate-200 rounded-lg p-4">
-                           <h4 className="font-bold text-lg text-slate-800">{drug.drugName}</h4>
-                           <p className='text-sm text-slate-500 italic'>{drug.drugClass}</p>
-                           <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
-                              <div><strong className="font-semibold text-slate-600 block">Indication:</strong> {drug.indication}</div>
-                              <div><strong className="font-semibold text-slate-600 block">Mechanism:</strong> {drug.mechanismOfAction}</div>
-                              <div><strong className="font-semibold text-slate-600 block">Dosing:</strong> Prescribed: {drug.prescribedDose} (Standard: {drug.standardDose})</div>
-                              <div><strong className="font-semibold text-slate-600 block">Monitoring:</strong> {drug.monitoring}</div>
-                              <div className='md:col-span-2'><strong className="font-semibold text-slate-600 block">Adverse Effects:</strong> {drug.adverseEffects}</div>
-                              <div className='md:col-span-2'><strong className="font-semibold text-slate-600 block">Precautions:</strong> {drug.precautions}</div>
-                           </div>
-                        </div>
-                      ))
-                    ) : ( <p className="text-slate-500 text-sm">No specific drug information could be extracted from the document.</p> )}
+                {currentCase && comparisonBaseline && (
+                  <CaseComparisonView
+                    previous={comparisonBaseline}
+                    current={currentCase}
+                    candidates={comparisonCandidates}
+                    onSelectPrevious={setComparisonBaseline}
+                    onClose={() => setComparisonBaseline(null)}
+                  />
+                )}
+                {!analysisResult ? null : analysisResult.patientContext ? (
+                  <div className="mb-4 p-3 bg-slate-50 border border-slate-200 rounded-md text-sm">
+                    <p className="font-semibold text-slate-600 mb-1">Patient context used for this analysis</p>
+                    <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-0.5">
+                      {describePatientContext(analysisResult.patientContext).map(([label, value]) => (
+                        <div key={label} className="flex"><dt className="text-slate-500 shrink-0 mr-2">{label}:</dt><dd className="text-slate-700">{value}</dd></div>
+                      ))}
+                    </dl>
                   </div>
+                ) : (
+                  <p className="mb-4 text-xs text-slate-400">No patient context was provided; the analysis used only the document.</p>
                 )}
-                {activeTab === 'labs' && (
-                  <div>
-                    <h3 className="text-lg font-semibold text-slate-800 mb-4">Lab Value Interpretation</h3>
-                    {(analysisResult.labInterpretation?.length || 0) > 0 ? (
-                      <div className="overflow-x-auto">
-                        <table className="min-w-full divide-y divide-slate-200">
-                          <thead className="bg-slate-50">
-                            <tr>
-                              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Parameter</th>
-                              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Result</th>
-                              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Interpretation</th>
-                            </tr>
-                          </thead>
-                          <tbody className="bg-white divide-y divide-slate-200">
-                            {analysisResult.labInterpretation.map((lab, index) => (
-                              <tr key={index}>
-                                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">{lab.parameter}</td>
-                                <td className={`px-6 py-4 whitespace-nowrap text-sm ${labStatusColorMap[lab.status] || 'text-slate-600'}`}>{lab.value} {lab.unit}</td>
-                                <td className="px-6 py-4 text-sm text-slate-600">{lab.interpretation}</td>
-                              </tr>
-                            ))}
-                          </tbody>
-                        </table>
+                <div className="border-b border-slate-200 mb-4">
+                  <nav className="-mb-px flex space-x-4 sm:space-x-8" aria-label="Tabs">
+                    <button onClick={() => setActiveTab('errors')} className={`whitespace-nowrap flex items-center py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'errors' ? 'border-teal-500 text-teal-600' : 'border-transparent text-slate-500 hover:text-slate-700 hover:border-slate-300'}`}><AlertTriangleIcon /> <span className='ml-2'>Error Analysis</span></button>
+                    <button onClick={() => setActiveTab('drugs')} className={`whitespace-nowrap flex items-center py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'drugs' ? 'border-teal-500 text-teal-600' : 'border-transparent text-slate-500 hover:text-slate-700 hover:border-slate-300'}`}><PillIcon /> <span className='ml-2'>Drug Deep-Dive</span></button>
+                    <button onClick={() => setActiveTab('labs')} className={`whitespace-nowrap flex items-center py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'labs' ? 'border-teal-500 text-teal-600' : 'border-transparent text-slate-500 hover:text-slate-700 hover:border-slate-300'}`}><LabBeakerIcon /> <span className='ml-2'>Lab Insights</span></button>
+                    <button onClick={() => setActiveTab('populations')} className={`whitespace-nowrap flex items-center py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'populations' ? 'border-teal-500 text-teal-600' : 'border-transparent text-slate-500 hover:text-slate-700 hover:border-slate-300'}`}><UsersIcon /> <span className='ml-2'>Special populations</span></button>
+                    {analysisResult && <button onClick={() => setActiveTab('leaflet')} className={`whitespace-nowrap flex items-center py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'leaflet' ? 'border-teal-500 text-teal-600' : 'border-transparent text-slate-500 hover:text-slate-700 hover:border-slate-300'}`}><LeafletIcon /> <span className='ml-2'>Patient Leaflet</span></button>}
+                  </nav>
+                </div>
+
+                <div>
+                  {activeTab === 'errors' && (
+                    <div className="space-y-4">
+                      <div className="flex justify-between items-baseline">
+                        <h3 className="text-lg font-semibold text-slate-800">Potential Medication Errors</h3>
+                        <span className="text-xs text-slate-400">
+                          {shownResult.ruleBaseVersion && `Interaction rules v${shownResult.ruleBaseVersion}`}
+                          {shownResult.policy && ` · Policy: ${describePolicy(shownResult.policy)}`}
+                        </span>
                       </div>
-                    ) : ( <p className="text-slate-500 text-sm">No lab values were identified or interpreted from the document.</p> )}
-                  </div>
+                      {analysisResult && <ConsensusSummary consensus={analysisResult.consensus} />}
+                      {analysisResult && (
+                        <div className="flex flex-wrap items-end justify-between gap-3 p-3 bg-slate-50 border border-slate-200 rounded-md">
+                          <label className="text-sm text-slate-600">Reviewer
+                            <input value={reviewer} onChange={e => setReviewer(e.target.value)} placeholder="Name recorded on each intervention" className="mt-1 block w-64 p-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-teal-500 focus:border-teal-500" />
+                          </label>
+                          <span className="text-xs text-slate-500">{latestReviews(interventions).size} of {analysisResult.potentialErrors.length} findings reviewed</span>
+                          <button onClick={exportInterventions} className="px-3 py-2 text-sm font-medium text-teal-700 bg-teal-50 border border-teal-200 rounded-md hover:bg-teal-100">Export intervention log (CSV)</button>
+                        </div>
+                      )}
+                      {(shownResult.potentialErrors?.length || 0) > 0 ? (
+                        shownResult.potentialErrors.map((item, index) => (
+                          <div key={index} {...evidenceHover(item.evidence)} className={`p-4 rounded-lg border-l-4 ${riskColorMap[item.riskLevel]} ${item.agreement && isLowAgreement(item.agreement) ? 'border-dashed opacity-75' : ''}`}>
+                            <div className='flex justify-between items-start'>
+                               <p className="font-bold">{item.errorType}</p>
+                               <div className="flex items-center gap-2 shrink-0">
+                                 {analysisResult && <UnverifiedBadge evidence={item.evidence} />}
+                                 <AgreementBadge agreement={item.agreement} />
+                                 {item.errorType === POLICY_ERROR_TYPE && (
+                                   <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-indigo-100 text-indigo-800 border border-indigo-300">Local policy</span>
+                                 )}
+                                 {item.source && (
+                                   <span title={item.ruleIds?.join(', ')} className={`px-2 py-0.5 text-xs font-semibold rounded-full ${findingSourceStyles[item.source].className}`}>{findingSourceStyles[item.source].label}</span>
+                                 )}
+                                 <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${riskColorMap[item.riskLevel]}`}>{item.riskLevel} Risk</span>
+                               </div>
+                            </div>
+                            <p className="mt-2 text-sm">{item.error}</p>
+                            <div className='mt-3 border-t border-slate-300/50 pt-3'>
+                              <p className='font-semibold text-sm flex items-center'><BookOpenIcon/> <span className='ml-2'>Clinical Rationale</span></p>
+                              <p className="mt-1 text-sm">{item.explanation}</p>
+                            </div>
+                            <EvidenceTrace evidence={item.evidence} />
+                            {analysisResult && (
+                              <FindingReviewPanel
+                                history={interventions.filter(entry => entry.findingIndex === index)}
+                                reviewer={reviewer}
+                                canRecord={Boolean(currentCase)}
+                                onRecord={input => handleRecordIntervention(index, item, input)}
+                              />
+                            )}
+                          </div>
+                        ))
+                      ) : isSectionPending('potentialErrors') ? ( <p className="text-slate-400 text-sm animate-pulse">Waiting for this section…</p>
+                      ) : ( <p className="text-slate-500 text-sm p-4 bg-green-50 border border-green-200 rounded-md">No potential medication errors were identified based on the provided document.</p> )}
+                    </div>
+                  )}
+                  {activeTab === 'drugs' && (
+                    <div className="space-y-6">
+                      <h3 className="text-lg font-semibold text-slate-800">Prescribed Drug Information</h3>
+                      {shownResult.patientContext?.paediatric && <PaediatricDosingTable drugs={shownResult.drugInformation} patientContext={shownResult.patientContext} />}
+                      <OrganFunctionPanel labs={shownResult.labInterpretation} drugs={shownResult.drugInformation} patientContext={shownResult.patientContext} />
+                      {(shownResult.drugInformation?.length || 0) > 0 ? (
+                         shownResult.drugInformation.map((drug, index) => (
+                          <div key={index} {...evidenceHover(drug.evidence)} className="border border-slate-200 rounded-lg p-4 hover:border-teal-300">
+                             <div className="flex justify-between items-start">
+                               <h4 className="font-bold text-lg text-slate-800">{drug.drugName}</h4>
+                               <div className="flex items-center gap-2 shrink-0">
+                                 {analysisResult && <UnverifiedBadge evidence={drug.evidence} />}
+                                 {drug.sourcePage && <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-slate-100 text-slate-600">Page {drug.sourcePage}</span>}
+                               </div>
+                             </div>
+                             <p className='text-sm text-slate-500 italic'>{drug.drugClass}</p>
+                             <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                                <div><strong className="font-semibold text-slate-600 block">Indication:</strong> {drug.indication}</div>
+                                <div><strong className="font-semibold text-slate-600 block">Mechanism:</strong> {drug.mechanismOfAction}</div>
+                                <div><strong className="font-semibold text-slate-600 block">Dosing:</strong> Prescribed: {drug.prescribedDose} (Standard: {drug.standardDose})
+                                  {drug.medicationOrder && <span className="block mt-1 text-xs text-slate-500" title="Read locally from the prescription text">Parsed sig: {describeOrder(drug.medicationOrder)}</span>}
+                                </div>
+                                <div><strong className="font-semibold text-slate-600 block">Monitoring:</strong> {drug.monitoring}</div>
+                                <div className='md:col-span-2'><strong className="font-semibold text-slate-600 block">Adverse Effects:</strong> {drug.adverseEffects}</div>
+                                <div className='md:col-span-2'><strong className="font-semibold text-slate-600 block">Precautions:</strong> {drug.precautions}</div>
+                             </div>
+                             <DrugTerminology mapping={drug.terminology} onCorrect={analysisResult && currentCase ? mapping => correctDrugMapping(index, mapping) : undefined} />
+                             <EvidenceTrace evidence={drug.evidence} />
+                          </div>
+                        ))
+                      ) : isSectionPending('drugInformation') ? ( <p className="text-slate-400 text-sm animate-pulse">Waiting for this section…</p>
+                      ) : ( <p className="text-slate-500 text-sm">No specific drug information could be extracted from the document.</p> )}
+                    </div>
+                  )}
+                  {activeTab === 'labs' && (
+                    <div>
+                      <h3 className="text-lg font-semibold text-slate-800 mb-4">Lab Value Interpretation</h3>
+                      {(shownResult.labInterpretation?.length || 0) > 0 ? (
+                        <LabInsightsTable labs={shownResult.labInterpretation} patientContext={shownResult.patientContext} onHoverEvidence={setHoveredEvidence} showVerification={Boolean(analysisResult)} />
+                      ) : isSectionPending('labInterpretation') ? ( <p className="text-slate-400 text-sm animate-pulse">Waiting for this section…</p>
+                      ) : ( <p className="text-slate-500 text-sm">No lab values were identified or interpreted from the document.</p> )}
+                    </div>
+                  )}
+                  {activeTab === 'populations' && (
+                    <div>
+                      <h3 className="text-lg font-semibold text-slate-800 mb-2">Special Populations</h3>
+                      <SpecialPopulationsPanel drugs={shownResult.drugInformation ?? []} labs={shownResult.labInterpretation ?? []} patientContext={shownResult.patientContext} />
+                    </div>
+                  )}
+                  {activeTab === 'leaflet' && analysisResult && (
+                    <LeafletPanel result={analysisResult} leaflet={leaflet} onLeafletChange={setLeaflet} caseLabel={currentCase?.label || caseLabel.trim() || undefined} />
+                  )}
+                </div>
+
+                {analysisResult && currentCase && (
+                  <FollowUpChat
+                    key={followUpThread}
+                    context={{ input: currentCase.input, patientContext: currentCase.patientContext, result: analysisResult, policy }}
+                    onApplyUpdate={saveResultVersion}
+                  />
                 )}
+
+                {analysisResult && <ExportPanel result={analysisResult} caseLabel={currentCase?.label || caseLabel.trim() || undefined} />}
               </div>
-            </div>
-          )}
+            )}
+          </div>
         </div>
       </main>
     </div>
@@ -0,0 +1,143 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { loadDotEnv } from '../server/env';
+import { AnalysisError } from '../services/analysisErrors';
+import { analyzeHealthDocument, analyzeHealthText, analyzeStructuredRecord, type AnalysisRunOptions } from '../services/analysisService';
+import { detectImportFormat, parseStructuredImport } from '../services/importers';
+import { describePatientContext, emptyPatientContext, mergePatientContext } from '../services/patientContext';
+import { parsePolicyFile } from '../services/policy';
+import { describeOrder } from '../services/sigParser';
+import { RISK_LEVELS, type AnalysisResult, type PatientContext } from '../types';
+
+// Command-line front end to the same analysis service the API server uses. Usage (see the README):
+//   pharmacist analyze <file | -> [--format json|text] [--context <patient.json>] [--policy <policy.json|csv>] [--consensus <runs>] [--out <file>]
+
+const usage = 'Usage: pharmacist analyze <file | -> [--format json|text] [--context <patient.json>] [--policy <policy.json|csv>] [--consensus <runs>] [--out <file>]';
+
+const imageTypes: Record<string, string> = { '.png': 'image/png', '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.webp': 'image/webp', '.gif': 'image/gif' };
+
+class UsageError extends Error {}
+
+interface CliOptions {
+  file: string;
+  format: 'json' | 'text';
+  context?: string;
+  policy?: string;
+  consensusRuns: number;
+  out?: string;
+}
+
+function parseArgs(args: string[]): CliOptions {
+  const [command, ...rest] = args;
+  if (command !== 'analyze') throw new UsageError(command ? `Unknown command "${command}".` : 'No command given.');
+  const options: Partial<CliOptions> = { format: 'text', consensusRuns: 1 };
+  for (let i = 0; i < rest.length; i++) {
+    const value = () => {
+      if (i + 1 >= rest.length) throw new UsageError(`${rest[i]} needs a value.`);
+      return rest[++i];
+    };
+    switch (rest[i]) {
+      case '--format': {
+        const format = value();
+        if (format !== 'json' && format !== 'text') throw new UsageError(`--format must be "json" or "text", not "${format}".`);
+        options.format = format;
+        break;
+      }
+      case '--context': options.context = value(); break;
+      case '--policy': options.policy = value(); break;
+      case '--consensus': {
+        const runs = Number(value());
+        if (!Number.isInteger(runs) || runs < 1 || runs > 5) throw new UsageError('--consensus must be a whole number from 1 to 5.');
+        options.consensusRuns = runs;
+        break;
+      }
+      case '--out': options.out = value(); break;
+      default:
+        if (rest[i].startsWith('--') || options.file) throw new UsageError(`Unexpected argument "${rest[i]}".`);
+        options.file = rest[i];
+    }
+  }
+  if (!options.file) throw new UsageError('No input file given; use "-" to read text from standard input.');
+  return options as CliOptions;
+}
+
+/** Images are analysed as one page; FHIR Bundles and HL7 v2 messages as structured records; anything else as text. */
+async function analyzeFile(options: CliOptions): Promise<AnalysisResult> {
+  // Like the API, a context file only needs the fields it has, e.g. { "age": 81, "weightKg": 62 }.
+  const patientContext: PatientContext | undefined = options.context
+    ? { ...emptyPatientContext, ...JSON.parse(readFileSync(options.context, 'utf8')) }
+    : undefined;
+  const runOptions: AnalysisRunOptions = {
+    consensusRuns: options.consensusRuns,
+    policy: options.policy ? parsePolicyFile(readFileSync(options.policy, 'utf8'), path.basename(options.policy)) : null,
+  };
+
+  const extension = path.extname(options.file).toLowerCase();
+  if (extension === '.pdf') throw new UsageError('PDFs are rasterised in the browser app; export the pages as images and analyse those.');
+  if (imageTypes[extension]) {
+    const data = readFileSync(options.file).toString('base64');
+    return analyzeHealthDocument([{ data, mimeType: imageTypes[extension] }], patientContext, runOptions);
+  }
+
+  const text = readFileSync(options.file === '-' ? 0 : options.file, 'utf8');
+  if (!text.trim()) throw new UsageError(`${options.file === '-' ? 'Standard input' : options.file} is empty.`);
+  if (detectImportFormat(text)) {
+    const record = parseStructuredImport(text);
+    return analyzeStructuredRecord(record, patientContext ? mergePatientContext(patientContext, record.patientContext) : record.patientContext, runOptions);
+  }
+  return analyzeHealthText(text, patientContext, runOptions);
+}
+
+function formatText(result: AnalysisResult): string {
+  const findings = [...result.potentialErrors].sort((a, b) => RISK_LEVELS.indexOf(b.riskLevel) - RISK_LEVELS.indexOf(a.riskLevel));
+  const lines = [
+    `${findings.length} potential error(s) · ${result.drugInformation.length} drug(s) · ${result.labInterpretation.length} lab value(s)`
+      + `${result.ruleBaseVersion ? ` · rules v${result.ruleBaseVersion}` : ''}${result.policy ? ` · policy ${result.policy.name}` : ''}`,
+  ];
+  if (result.patientContext) {
+    lines.push('', 'Patient context:', ...describePatientContext(result.patientContext).map(([label, value]) => `  ${label}: ${value}`));
+  }
+  if (findings.length > 0) {
+    lines.push('', 'Potential errors:');
+    for (const finding of findings) {
+      const source = finding.source ? ` (${finding.source})` : '';
+      lines.push(`  [${finding.riskLevel}] ${finding.errorType}${source}: ${finding.error}`, `      ${finding.explanation}`);
+    }
+  }
+  if (result.drugInformation.length > 0) {
+    lines.push('', 'Drugs:');
+    for (const drug of result.drugInformation) {
+      lines.push(`  ${drug.drugName}: ${drug.prescribedDose}${drug.medicationOrder ? ` (parsed: ${describeOrder(drug.medicationOrder)})` : ''}`);
+    }
+  }
+  if (result.labInterpretation.length > 0) {
+    lines.push('', 'Labs:');
+    for (const lab of result.labInterpretation) {
+      lines.push(`  ${lab.parameter}: ${lab.value} ${lab.unit} (${lab.status}) ${lab.interpretation}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+async function main(): Promise<number> {
+  loadDotEnv();
+  const options = parseArgs(process.argv.slice(2));
+  const result = await analyzeFile(options);
+  const output = options.format === 'json' ? JSON.stringify(result, null, 2) : formatText(result);
+  if (options.out) writeFileSync(options.out, `${output}\n`);
+  else console.log(output);
+  return 0;
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n${usage}`);
+      process.exit(2);
+    }
+    console.error(error instanceof AnalysisError ? `Analysis failed (${error.category}): ${error.message}` : error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,52 @@
+import React from 'react';
+import type { AnalysisProgress } from '../services/analysisService';
+import { ANALYSIS_SECTIONS, type AnalysisSection, type SectionProgress } from '../services/partialAnalysis';
+
+interface AnalysisProgressPanelProps {
+  progress: AnalysisProgress | null;
+  onCancel: () => void;
+}
+
+export const sectionLabels: Record<AnalysisSection, string> = {
+  potentialErrors: 'Error Analysis',
+  drugInformation: 'Drug Deep-Dive',
+  labInterpretation: 'Lab Insights',
+};
+
+const statusStyles: Record<SectionProgress['status'], string> = {
+  waiting: 'bg-slate-100 text-slate-500 border-slate-200',
+  streaming: 'bg-teal-50 text-teal-700 border-teal-300 animate-pulse',
+  done: 'bg-green-50 text-green-700 border-green-300',
+};
+
+const describeSection = ({ status, count }: SectionProgress) =>
+  status === 'waiting' ? 'waiting' : `${count} item${count === 1 ? '' : 's'}${status === 'done' ? ' ✓' : '…'}`;
+
+const AnalysisProgressPanel: React.FC<AnalysisProgressPanelProps> = ({ progress, onCancel }) => (
+  <div className="mt-6 p-4 border border-teal-200 bg-teal-50/40 rounded-lg">
+    <div className="flex justify-between items-center gap-4">
+      <div className="text-sm text-slate-600">
+        <p className="font-semibold">{progress ? 'Receiving analysis…' : 'Sending to the model…'}</p>
+        {progress && progress.attempt > 1 && (
+          <p className="text-xs text-orange-700">The previous response did not match the expected format; retrying (attempt {progress.attempt} of {progress.maxAttempts}).</p>
+        )}
+        {progress?.consensus && (
+          <p className="text-xs">Consensus mode: {progress.consensus.completedRuns} of {progress.consensus.totalRuns} runs finished; the sections below follow the first run.</p>
+        )}
+      </div>
+      <button onClick={onCancel} className="px-3 py-1.5 text-sm font-medium text-red-700 bg-white border border-red-200 rounded-md hover:bg-red-50">Cancel</button>
+    </div>
+    {progress && (
+      <div className="mt-3 grid grid-cols-1 sm:grid-cols-3 gap-2">
+        {ANALYSIS_SECTIONS.map(section => (
+          <div key={section} className={`px-3 py-2 text-xs border rounded-md flex justify-between ${statusStyles[progress.sections[section].status]}`}>
+            <span className="font-semibold">{sectionLabels[section]}</span>
+            <span>{describeSection(progress.sections[section])}</span>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export default AnalysisProgressPanel;
@@ -0,0 +1,259 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AnalysisError } from '../services/analysisErrors';
+import { analyzeBatchCase, batchCaseInput, compareTriage, filesToBatchCases, isRetryableAnalysisError, riskCounts, type BatchEntry, type BatchStatus } from '../services/batchCases';
+import { runQueue } from '../services/batchQueue';
+import { saveCase } from '../services/caseStore';
+import type { RedactionSettings } from '../services/deidentify';
+import { isUnmasked, maskPage, UNMASKED_UPLOAD_WARNING } from '../services/documentPages';
+import type { AnalysisResult, InstitutionalPolicy, SavedCase } from '../types';
+import { UploadIcon } from './Icons';
+import PageMaskEditor from './PageMaskEditor';
+
+interface BatchPanelProps {
+  redactionSettings: RedactionSettings;
+  policy: InstitutionalPolicy | null;
+  /** Called as each analysed case is saved to history. */
+  onCaseSaved: (saved: SavedCase) => void;
+  /** Opens a saved case in the normal three-tab view. */
+  onOpenCase: (saved: SavedCase) => void;
+}
+
+// Retries after the provider's own schema retries, for rate limits and dropped connections.
+const MAX_RETRIES = 3;
+
+const statusStyles: Record<BatchStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-slate-100 text-slate-500' },
+  running: { label: 'Analyzing…', className: 'bg-teal-50 text-teal-700 animate-pulse' },
+  retrying: { label: 'Waiting to retry', className: 'bg-yellow-50 text-yellow-800' },
+  done: { label: 'Done', className: 'bg-green-50 text-green-700' },
+  failed: { label: 'Failed', className: 'bg-red-50 text-red-700' },
+  cancelled: { label: 'Cancelled', className: 'bg-slate-100 text-slate-500' },
+};
+
+const countClass = (count: number, className: string) => (count > 0 ? `font-bold ${className}` : 'text-slate-300');
+
+/** Uploaded cases with no masked region on any page; text de-identification cannot reach them. */
+const isUnmaskedUpload = (entry: BatchEntry) => entry.source.kind === 'pages' && isUnmasked(entry.source.pages);
+
+/**
+ * Ward-round mode: queue many cases, analyse them a few at a time, and triage the results by risk.
+ * Each result is saved to history, so opening it shows the usual tabs, review and export tools.
+ */
+const BatchPanel: React.FC<BatchPanelProps> = ({ redactionSettings, policy, onCaseSaved, onOpenCase }) => {
+  const [entries, setEntries] = useState<BatchEntry[]>([]);
+  const [concurrency, setConcurrency] = useState<number>(2);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [isReading, setIsReading] = useState<boolean>(false);
+  const [batchError, setBatchError] = useState<string | null>(null);
+  const [masking, setMasking] = useState<{ entryId: string; pageIndex: number } | null>(null);
+  const runRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => runRef.current?.abort(), []);
+
+  const update = (id: string, patch: Partial<BatchEntry>) =>
+    setEntries(prev => prev.map(entry => (entry.id === id ? { ...entry, ...patch } : entry)));
+
+  const addFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+    setIsReading(true);
+    setBatchError(null);
+    try {
+      const cases = await filesToBatchCases(files);
+      if (cases.length === 0) setBatchError('No images, PDFs, CSV or JSONL files were found in the selection.');
+      setEntries(prev => [...prev, ...cases.map(batchCase => ({ ...batchCase, status: 'queued' as const, attempts: 0 }))]);
+    } catch (err) {
+      console.error(err);
+      setBatchError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const maskingEntry = masking && entries.find(entry => entry.id === masking.entryId);
+  const maskingPage = maskingEntry?.source.kind === 'pages' ? maskingEntry.source.pages[masking!.pageIndex] : undefined;
+
+  const saveMasks = async (masks: [number, number, number, number][]) => {
+    const masked = await maskPage(maskingPage!, masks);
+    setEntries(prev => prev.map(entry => (entry.id === maskingEntry!.id && entry.source.kind === 'pages'
+      ? { ...entry, source: { kind: 'pages', pages: entry.source.pages.map(page => (page.id === masked.id ? masked : page)) } }
+      : entry)));
+  };
+
+  const saveEntry = async (entry: BatchEntry, input: SavedCase['input'], result: AnalysisResult) => {
+    try {
+      const saved = await saveCase({ label: entry.label, input, patientContext: result.patientContext, result });
+      update(entry.id, { savedCase: saved, error: undefined });
+      onCaseSaved(saved);
+    } catch (err) {
+      console.error("Could not save batch case to history", err);
+      update(entry.id, { error: 'Analysed, but could not be saved to history.' });
+    }
+  };
+
+  const run = async (pending: BatchEntry[]) => {
+    const unmasked = pending.filter(isUnmaskedUpload).length;
+    if (unmasked > 0 && !window.confirm(`${unmasked} uploaded case${unmasked === 1 ? ' has' : 's have'} no masked regions. ${UNMASKED_UPLOAD_WARNING}`)) return;
+
+    const controller = new AbortController();
+    runRef.current = controller;
+    setIsRunning(true);
+    setBatchError(null);
+    pending.forEach(entry => update(entry.id, { status: 'queued', error: undefined }));
+
+    const inputs = new Map(pending.map(entry => [entry.id, batchCaseInput(entry, redactionSettings)]));
+
+    await runQueue(pending, entry => analyzeBatchCase(inputs.get(entry.id)!, entry.patientContext, { signal: controller.signal, policy }), {
+      concurrency,
+      maxRetries: MAX_RETRIES,
+      signal: controller.signal,
+      isRetryable: isRetryableAnalysisError,
+      onStart: (entry, attempt) => update(entry.id, { status: 'running', attempts: attempt }),
+      onRetry: (entry, retry, delayMs, error) => update(entry.id, {
+        status: 'retrying',
+        error: `${error instanceof Error ? error.message : String(error)} Retry ${retry} of ${MAX_RETRIES} in ${Math.round(delayMs / 1000)} s.`,
+      }),
+      onSettled: async (entry, outcome) => {
+        if (outcome.status === 'rejected') {
+          const cancelled = controller.signal.aborted || (outcome.reason instanceof AnalysisError && outcome.reason.category === 'cancelled');
+          update(entry.id, cancelled
+            ? { status: 'cancelled', error: undefined }
+            : { status: 'failed', error: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason) });
+          return;
+        }
+        const result = outcome.value;
+        const input = inputs.get(entry.id)!;
+        update(entry.id, { status: 'done', result, input, error: undefined });
+        await saveEntry(entry, input, result);
+      },
+    });
+
+    // Cases the queue never reached are left queued; mark them so the dashboard does not look stuck.
+    if (controller.signal.aborted) {
+      setEntries(prev => prev.map(entry => (entry.status === 'queued' || entry.status === 'running' || entry.status === 'retrying' ? { ...entry, status: 'cancelled' } : entry)));
+    }
+    if (runRef.current === controller) runRef.current = null;
+    setIsRunning(false);
+  };
+
+  const pendingEntries = entries.filter(entry => entry.status !== 'done');
+  const doneCount = entries.filter(entry => entry.status === 'done').length;
+  const failedCount = entries.filter(entry => entry.status === 'failed').length;
+  const unmaskedCount = pendingEntries.filter(isUnmaskedUpload).length;
+  const triaged = [...entries].sort(compareTriage);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg">
+      <h2 className="text-xl font-semibold mb-2 text-slate-600">Batch Analysis</h2>
+      <p className="text-sm text-slate-500 mb-4">Add a folder of prescription images, PDFs, or a CSV/JSONL file with one case per row (a "text" column, plus optional "label", "age", "sex", "weight" and "diagnoses" columns). Cases are analyzed a few at a time and sorted by risk as they finish.</p>
+
+      <div className="flex flex-wrap gap-3 items-center">
+        <label className="flex items-center px-4 py-2 text-sm font-medium text-teal-700 bg-teal-50 border border-teal-200 rounded-md hover:bg-teal-100 cursor-pointer">
+          <UploadIcon className="w-5 h-5 mr-2" /> Add files
+          <input type="file" className="hidden" accept="image/*,application/pdf,.csv,.jsonl,.ndjson" multiple onChange={addFiles} disabled={isRunning} />
+        </label>
+        <label className="flex items-center px-4 py-2 text-sm font-medium text-teal-700 bg-teal-50 border border-teal-200 rounded-md hover:bg-teal-100 cursor-pointer">
+          Add folder
+          {/* webkitdirectory is not in React's input typings, so it is passed through as a plain attribute. */}
+          <input type="file" className="hidden" multiple onChange={addFiles} disabled={isRunning} {...{ webkitdirectory: '' }} />
+        </label>
+        <label className="text-sm text-slate-600">Parallel analyses
+          <select value={concurrency} onChange={e => setConcurrency(Number(e.target.value))} disabled={isRunning} className="ml-2 p-1.5 border border-slate-300 rounded-md text-sm">
+            {[1, 2, 3, 4].map(value => <option key={value} value={value}>{value}</option>)}
+          </select>
+        </label>
+        <div className="flex-1" />
+        {isRunning ? (
+          <button onClick={() => runRef.current?.abort()} className="px-4 py-2 text-sm font-medium text-red-700 bg-white border border-red-200 rounded-md hover:bg-red-50">Cancel batch</button>
+        ) : (
+          <>
+            {entries.length > 0 && <button onClick={() => setEntries([])} className="text-xs text-slate-500 hover:text-slate-700 underline">Clear list</button>}
+            <button
+              onClick={() => run(pendingEntries)}
+              disabled={pendingEntries.length === 0 || isReading}
+              className="px-6 py-2 bg-teal-500 text-white font-bold rounded-lg shadow-md hover:bg-teal-600 disabled:bg-slate-300 disabled:cursor-not-allowed"
+            >{failedCount > 0 && pendingEntries.length === failedCount ? `Retry ${failedCount} failed` : `Analyze ${pendingEntries.length} case${pendingEntries.length === 1 ? '' : 's'}`}</button>
+          </>
+        )}
+      </div>
+      {isReading && <p className="mt-2 text-sm text-slate-500">Reading files…</p>}
+      {batchError && <p className="mt-2 text-sm text-red-600">{batchError}</p>}
+      {unmaskedCount > 0 && !isRunning && (
+        <p className="mt-3 p-3 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md">
+          {unmaskedCount} uploaded case{unmaskedCount === 1 ? ' is' : 's are'} not masked. Text de-identification does not apply to images and PDFs,
+          so use Mask on each page to black out names, record numbers and barcodes before analyzing.
+        </p>
+      )}
+
+      {entries.length > 0 && (
+        <div className="mt-6">
+          <p className="text-xs text-slate-500 mb-2">{doneCount} of {entries.length} analyzed{failedCount > 0 && `, ${failedCount} failed`}. Sorted by the number of High, then Moderate, then Low risk findings.</p>
+          <div className="overflow-x-auto border border-slate-200 rounded-lg">
+            <table className="min-w-full divide-y divide-slate-200 text-sm">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-slate-500">Case</th>
+                  <th className="px-3 py-2 text-left font-medium text-slate-500">Status</th>
+                  <th className="px-3 py-2 text-center font-medium text-red-700">High</th>
+                  <th className="px-3 py-2 text-center font-medium text-yellow-700">Moderate</th>
+                  <th className="px-3 py-2 text-center font-medium text-blue-700">Low</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {triaged.map(entry => {
+                  const counts = entry.result && riskCounts(entry.result);
+                  return (
+                    <tr key={entry.id} className={counts && counts.High > 0 ? 'bg-red-50/40' : undefined}>
+                      <td className="px-3 py-2">
+                        <p className="font-medium text-slate-700">{entry.label}</p>
+                        {entry.source.kind === 'pages' ? (
+                          <p className="text-xs text-slate-400">
+                            {entry.source.pages.length} page{entry.source.pages.length === 1 ? '' : 's'}
+                            {isUnmaskedUpload(entry) ? <span className="text-yellow-700"> · not masked</span> : ` · ${entry.source.pages.reduce((sum, page) => sum + (page.masks?.length ?? 0), 0)} masked`}
+                            {!isRunning && entry.status !== 'done' && entry.source.pages.map((page, index, pages) => (
+                              <button key={page.id} onClick={() => setMasking({ entryId: entry.id, pageIndex: index })} className="ml-2 text-teal-700 hover:text-teal-900 underline" aria-label={`Mask identifiers on page ${index + 1} of ${entry.label}`}>
+                                Mask{pages.length > 1 ? ` p. ${index + 1}` : ''}
+                              </button>
+                            ))}
+                          </p>
+                        ) : <p className="text-xs text-slate-400">Text</p>}
+                      </td>
+                      <td className="px-3 py-2">
+                        <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${statusStyles[entry.status].className}`}>{statusStyles[entry.status].label}</span>
+                        {entry.attempts > 1 && <span className="ml-1 text-xs text-slate-400">attempt {entry.attempts}</span>}
+                        {entry.error && <p className="mt-1 text-xs text-red-600">{entry.error}</p>}
+                      </td>
+                      <td className={`px-3 py-2 text-center ${counts ? countClass(counts.High, 'text-red-700') : 'text-slate-300'}`}>{counts ? counts.High : '–'}</td>
+                      <td className={`px-3 py-2 text-center ${counts ? countClass(counts.Moderate, 'text-yellow-700') : 'text-slate-300'}`}>{counts ? counts.Moderate : '–'}</td>
+                      <td className={`px-3 py-2 text-center ${counts ? countClass(counts.Low, 'text-blue-700') : 'text-slate-300'}`}>{counts ? counts.Low : '–'}</td>
+                      <td className="px-3 py-2 text-right">
+                        {entry.savedCase ? (
+                          <button onClick={() => onOpenCase(entry.savedCase!)} className="px-3 py-1 text-xs font-medium text-teal-700 bg-teal-50 border border-teal-200 rounded-md hover:bg-teal-100">Open</button>
+                        ) : entry.status === 'done' && entry.error && entry.result && entry.input ? (
+                          // The analysis finished but the history write failed: offer to save it again, or drop it.
+                          <div className="flex justify-end gap-3">
+                            <button onClick={() => saveEntry(entry, entry.input!, entry.result!)} className="px-3 py-1 text-xs font-medium text-teal-700 bg-teal-50 border border-teal-200 rounded-md hover:bg-teal-100">Save again</button>
+                            <button onClick={() => setEntries(prev => prev.filter(other => other.id !== entry.id))} className="text-xs text-slate-400 hover:text-slate-600" aria-label={`Remove ${entry.label}`}>Remove</button>
+                          </div>
+                        ) : !isRunning && entry.status !== 'done' && (
+                          <button onClick={() => setEntries(prev => prev.filter(other => other.id !== entry.id))} className="text-xs text-slate-400 hover:text-slate-600" aria-label={`Remove ${entry.label}`}>Remove</button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+      {maskingPage && (
+        <PageMaskEditor page={maskingPage} pageNumber={masking!.pageIndex + 1} onSave={saveMasks} onClose={() => setMasking(null)} />
+      )}
+    </div>
+  );
+};
+
+export default BatchPanel;
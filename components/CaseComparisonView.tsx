@@ -0,0 +1,118 @@
+import React, { useMemo } from 'react';
+import type { SavedCase } from '../types';
+import { compareAnalyses, type DrugChange, type FindingChange, type LabTrend } from '../services/caseComparison';
+
+interface CaseComparisonViewProps {
+  previous: SavedCase;
+  current: SavedCase;
+  candidates: SavedCase[];
+  onSelectPrevious: (saved: SavedCase) => void;
+  onClose: () => void;
+}
+
+const drugChangeStyles: Record<DrugChange, { label: string; className: string }> = {
+  'added': { label: 'Added', className: 'bg-green-100 text-green-800' },
+  'stopped': { label: 'Stopped', className: 'bg-slate-200 text-slate-700' },
+  'dose-changed': { label: 'Dose changed', className: 'bg-yellow-100 text-yellow-800' },
+  'unchanged': { label: 'Unchanged', className: 'bg-white text-slate-500 border border-slate-200' },
+};
+
+const labTrendStyles: Record<LabTrend, { label: string; className: string }> = {
+  'up': { label: '▲ Up', className: 'text-red-600' },
+  'down': { label: '▼ Down', className: 'text-blue-600' },
+  'unchanged': { label: '= Stable', className: 'text-slate-500' },
+  'new': { label: 'New', className: 'text-green-700' },
+  'not-repeated': { label: 'Not repeated', className: 'text-slate-400' },
+  'not-comparable': { label: 'Units differ', className: 'text-slate-400' },
+};
+
+const findingChangeStyles: Record<FindingChange, { label: string; className: string }> = {
+  'new': { label: 'Newly raised', className: 'bg-red-100 text-red-800' },
+  'resolved': { label: 'Resolved', className: 'bg-green-100 text-green-800' },
+  'persisting': { label: 'Persisting', className: 'bg-yellow-100 text-yellow-800' },
+};
+
+const badgeClass = 'px-2 py-0.5 text-xs font-semibold rounded-full whitespace-nowrap';
+
+const CaseComparisonView: React.FC<CaseComparisonViewProps> = ({ previous, current, candidates, onSelectPrevious, onClose }) => {
+  const comparison = useMemo(() => compareAnalyses(previous.result, current.result), [previous, current]);
+
+  return (
+    <div className="mb-6 border border-indigo-200 bg-indigo-50/40 rounded-lg p-4">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <div>
+          <h3 className="font-bold text-slate-800">Compared with previous analysis</h3>
+          <label className="text-xs text-slate-500">
+            Baseline:{' '}
+            <select
+              value={previous.id}
+              onChange={e => { const next = candidates.find(c => c.id === e.target.value); if (next) onSelectPrevious(next); }}
+              className="ml-1 p-1 border border-slate-300 rounded text-xs"
+            >
+              {candidates.map(candidate => (
+                <option key={candidate.id} value={candidate.id}>{candidate.label || 'Unlabelled'} · {new Date(candidate.createdAt).toLocaleString()}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <button onClick={onClose} className="text-xs text-slate-500 hover:text-slate-700 underline">Close comparison</button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 text-sm">
+        <section>
+          <h4 className="font-semibold text-slate-700 mb-2">Regimen</h4>
+          <ul className="space-y-1">
+            {comparison.drugs.map((diff, index) => (
+              <li key={index} className="flex justify-between items-start gap-2 bg-white rounded-md border border-slate-200 px-2 py-1.5">
+                <span>
+                  <span className="font-medium">{diff.name}</span>
+                  <span className="block text-xs text-slate-500">
+                    {diff.change === 'dose-changed' ? `${diff.previousDose} → ${diff.currentDose}` : diff.currentDose ?? diff.previousDose}
+                  </span>
+                </span>
+                <span className={`${badgeClass} ${drugChangeStyles[diff.change].className}`}>{drugChangeStyles[diff.change].label}</span>
+              </li>
+            ))}
+            {comparison.drugs.length === 0 && <li className="text-slate-500">No drugs in either analysis.</li>}
+          </ul>
+        </section>
+
+        <section>
+          <h4 className="font-semibold text-slate-700 mb-2">Labs</h4>
+          <ul className="space-y-1">
+            {comparison.labs.map((diff, index) => (
+              <li key={index} className="flex justify-between items-start gap-2 bg-white rounded-md border border-slate-200 px-2 py-1.5">
+                <span>
+                  <span className="font-medium">{diff.parameter}</span>
+                  <span className="block text-xs text-slate-500">
+                    {[diff.previous, diff.current].filter(Boolean).join(' → ')}{diff.delta && ` (${diff.delta})`}
+                  </span>
+                </span>
+                <span className={`text-xs font-semibold whitespace-nowrap ${labTrendStyles[diff.trend].className}`}>{labTrendStyles[diff.trend].label}</span>
+              </li>
+            ))}
+            {comparison.labs.length === 0 && <li className="text-slate-500">No labs in either analysis.</li>}
+          </ul>
+        </section>
+
+        <section>
+          <h4 className="font-semibold text-slate-700 mb-2">Findings</h4>
+          <ul className="space-y-1">
+            {comparison.findings.map((diff, index) => (
+              <li key={index} className="flex justify-between items-start gap-2 bg-white rounded-md border border-slate-200 px-2 py-1.5">
+                <span>
+                  <span className="font-medium">{diff.finding.errorType}</span>
+                  <span className="block text-xs text-slate-500">{diff.finding.error}</span>
+                </span>
+                <span className={`${badgeClass} ${findingChangeStyles[diff.change].className}`}>{findingChangeStyles[diff.change].label}</span>
+              </li>
+            ))}
+            {comparison.findings.length === 0 && <li className="text-slate-500">No findings in either analysis.</li>}
+          </ul>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default CaseComparisonView;
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import type { SavedCase } from '../types';
+import { matchesSearch } from '../services/caseStore';
+
+interface CaseHistorySidebarProps {
+  cases: SavedCase[];
+  activeCaseId: string | null;
+  onSelect: (saved: SavedCase) => void;
+  onDelete: (saved: SavedCase) => void;
+  onClose: () => void;
+}
+
+const CaseHistorySidebar: React.FC<CaseHistorySidebarProps> = ({ cases, activeCaseId, onSelect, onDelete, onClose }) => {
+  const [query, setQuery] = useState<string>('');
+  const visible = cases.filter(saved => matchesSearch(saved, query));
+
+  return (
+    <aside className="fixed inset-y-0 left-0 z-20 w-80 bg-white shadow-xl flex flex-col">
+      <div className="flex items-center justify-between px-4 py-4 border-b border-slate-200">
+        <h2 className="text-lg font-semibold text-slate-700">Case History</h2>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600" aria-label="Close case history">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+      </div>
+      <div className="p-4 border-b border-slate-200">
+        <input
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="Search label, drug, finding…"
+          className="w-full p-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+        />
+        <p className="mt-2 text-xs text-slate-400">Stored in this browser only.</p>
+      </div>
+      <ul className="flex-1 overflow-y-auto divide-y divide-slate-100">
+        {visible.length === 0 && <li className="p-4 text-sm text-slate-500">{cases.length === 0 ? 'No saved cases yet.' : 'No cases match your search.'}</li>}
+        {visible.map(saved => {
+          const highRisk = saved.result.potentialErrors.filter(finding => finding.riskLevel === 'High').length;
+          return (
+            <li key={saved.id} className={`group px-4 py-3 cursor-pointer hover:bg-slate-50 ${saved.id === activeCaseId ? 'bg-teal-50' : ''}`} onClick={() => onSelect(saved)}>
+              <div className="flex justify-between items-start">
+                <p className="font-medium text-sm text-slate-800 truncate">{saved.label || 'Unlabelled case'}</p>
+                <button
+                  onClick={e => { e.stopPropagation(); onDelete(saved); }}
+                  className="ml-2 text-xs text-slate-400 hover:text-red-600 opacity-0 group-hover:opacity-100"
+                  aria-label="Delete case"
+                >Delete</button>
+              </div>
+              <p className="text-xs text-slate-500">{new Date(saved.createdAt).toLocaleString()} · {saved.input.mode}</p>
+              <p className="text-xs text-slate-500 mt-0.5">
+                {saved.result.drugInformation.length} drugs · {saved.result.potentialErrors.length} findings
+                {highRisk > 0 && <span className="ml-1 text-red-600 font-semibold">({highRisk} high)</span>}
+              </p>
+            </li>
+          );
+        })}
+      </ul>
+    </aside>
+  );
+};
+
+export default CaseHistorySidebar;
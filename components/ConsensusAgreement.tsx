@@ -0,0 +1,36 @@
+import React from 'react';
+import { RISK_LEVELS, type AnalysisResult, type FindingAgreement } from '../types';
+import { hasRiskSplit, isLowAgreement } from '../services/consensus';
+
+function agreementStyle(agreement: FindingAgreement): { label: string; className: string } {
+  if (agreement.runs === agreement.totalRuns) return { label: 'Unanimous', className: 'bg-green-100 text-green-800 border-green-300' };
+  if (!isLowAgreement(agreement)) return { label: 'Majority', className: 'bg-yellow-100 text-yellow-800 border-yellow-300' };
+  return { label: 'Low agreement', className: 'bg-orange-100 text-orange-800 border-orange-300' };
+}
+
+const describeRiskVotes = (agreement: FindingAgreement) =>
+  [...RISK_LEVELS].reverse().filter(level => agreement.riskVotes[level]).map(level => `${agreement.riskVotes[level]} ${level}`).join(' · ');
+
+/** How many consensus runs reported a finding, and how they rated its risk when they disagreed. */
+export const AgreementBadge: React.FC<{ agreement?: FindingAgreement }> = ({ agreement }) => {
+  if (!agreement) return null;
+  const { label, className } = agreementStyle(agreement);
+  return (
+    <span title={`Risk given by the runs that reported it: ${describeRiskVotes(agreement)}`} className={`px-2 py-0.5 text-xs font-semibold rounded-full border ${className}`}>
+      {label} {agreement.runs}/{agreement.totalRuns}{hasRiskSplit(agreement) && ` · risk split ${describeRiskVotes(agreement)}`}
+    </span>
+  );
+};
+
+/** One line above the findings saying how many runs were merged and which providers produced them. */
+export const ConsensusSummary: React.FC<{ consensus?: AnalysisResult['consensus'] }> = ({ consensus }) => {
+  if (!consensus) return null;
+  const providers = [...new Set(consensus.providers)];
+  return (
+    <p className="text-xs text-slate-500">
+      Consensus of {consensus.runs} run{consensus.runs === 1 ? '' : 's'} ({providers.join(', ')}).
+      {consensus.failedRuns > 0 && <span className="text-orange-700"> {consensus.failedRuns} further run{consensus.failedRuns === 1 ? '' : 's'} failed and {consensus.failedRuns === 1 ? 'was' : 'were'} left out.</span>}
+      {' '}Findings reported by half of the runs or fewer are marked low agreement.
+    </p>
+  );
+};
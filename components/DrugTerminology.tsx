@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import type { TerminologyMapping } from '../types';
+import { atcClassName, knownIngredients, manualMapping } from '../services/terminology';
+
+interface DrugTerminologyProps {
+  mapping?: TerminologyMapping;
+  /** Saves a pharmacist's correction; omitted while the analysis is still streaming. */
+  onCorrect?: (mapping: TerminologyMapping) => void;
+}
+
+const matchStyles: Record<TerminologyMapping['match'], string> = {
+  exact: 'bg-green-50 text-green-700 border-green-200',
+  fuzzy: 'bg-yellow-50 text-yellow-800 border-yellow-300',
+  manual: 'bg-blue-50 text-blue-700 border-blue-200',
+  unmapped: 'bg-slate-100 text-slate-600 border-slate-300',
+};
+
+function matchLabel(mapping: TerminologyMapping): string {
+  if (mapping.match === 'fuzzy') return `Fuzzy match ${Math.round(mapping.confidence * 100)}%`;
+  if (mapping.match === 'manual') return mapping.codings.length > 0 ? 'Corrected' : 'Marked unmapped';
+  return mapping.match === 'exact' ? 'Exact match' : 'Unmapped';
+}
+
+/** The ingredient codes a drug name was mapped to, with a control to correct a wrong or missing mapping. */
+const DrugTerminology: React.FC<DrugTerminologyProps> = ({ mapping, onCorrect }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [draftError, setDraftError] = useState<string | null>(null);
+  if (!mapping) return null;
+
+  const startEditing = () => {
+    setDraft(mapping.codings.map(coding => coding.ingredient).join(', '));
+    setDraftError(null);
+    setIsEditing(true);
+  };
+
+  const save = () => {
+    const names = draft.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+    const unknown = names.filter(name => !knownIngredients.includes(name));
+    if (unknown.length > 0) {
+      setDraftError(`Not in the terminology index: ${unknown.join(', ')}.`);
+      return;
+    }
+    onCorrect?.(manualMapping(names));
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="mt-3 text-xs text-slate-600">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className={`px-2 py-0.5 font-semibold rounded-full border ${matchStyles[mapping.match]}`} title={mapping.matchedText ? `Matched on "${mapping.matchedText}"` : undefined}>{matchLabel(mapping)}</span>
+        {mapping.codings.map(coding => (
+          <span key={coding.ingredient}>
+            <strong className="font-semibold">{coding.ingredient}</strong>
+            {coding.rxcui && <> · RxNorm {coding.rxcui}</>}
+            {coding.atc.map(code => <span key={code} title={atcClassName(code)}> · ATC {code}</span>)}
+          </span>
+        ))}
+        {onCorrect && !isEditing && <button onClick={startEditing} className="text-teal-700 hover:text-teal-900 underline">Correct</button>}
+      </div>
+      {isEditing && (
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          <input
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && save()}
+            list="terminology-ingredients"
+            placeholder="Ingredient, or several separated by commas"
+            className="flex-1 min-w-[12rem] p-1.5 border border-slate-300 rounded-md text-sm"
+            aria-label="Ingredients"
+          />
+          <datalist id="terminology-ingredients">
+            {knownIngredients.map(name => <option key={name} value={name} />)}
+          </datalist>
+          <button onClick={save} className="px-3 py-1 font-medium text-white bg-teal-500 rounded-md hover:bg-teal-600">Save</button>
+          <button onClick={() => { onCorrect?.(manualMapping([])); setIsEditing(false); }} className="px-3 py-1 font-medium text-slate-600 bg-white border border-slate-300 rounded-md hover:bg-slate-50">Leave unmapped</button>
+          <button onClick={() => setIsEditing(false)} className="text-slate-500 hover:text-slate-700">Cancel</button>
+          {draftError && <p className="w-full text-red-600">{draftError}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DrugTerminology;
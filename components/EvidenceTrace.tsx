@@ -0,0 +1,28 @@
+import React from 'react';
+import type { SourceSpan } from '../types';
+import { isUnverified } from '../services/evidence';
+
+interface EvidenceTraceProps {
+  evidence?: SourceSpan[];
+}
+
+export const UnverifiedBadge: React.FC<EvidenceTraceProps> = ({ evidence }) =>
+  isUnverified({ evidence }) ? (
+    <span title="No supporting text could be located in the input; verify this against the source before acting on it." className="px-2 py-0.5 text-xs font-semibold rounded-full bg-orange-100 text-orange-800 border border-orange-300">Unverified</span>
+  ) : null;
+
+/** The quoted source text behind an item; hovering the card highlights it in the input. */
+const EvidenceTrace: React.FC<EvidenceTraceProps> = ({ evidence }) => {
+  if (!evidence || evidence.length === 0) return null;
+  const quotes = [...new Set(evidence.map(span => span.quote))];
+  return (
+    <p className="mt-2 text-xs text-slate-500">
+      <span className="font-semibold">Source:</span>{' '}
+      {quotes.map((quote, index) => (
+        <span key={index}>{index > 0 && ' · '}<q className="italic">{quote}</q></span>
+      ))}
+    </p>
+  );
+};
+
+export default EvidenceTrace;
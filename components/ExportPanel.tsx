@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import type { AnalysisResult, ReviewSignOff } from '../types';
+import { buildReviewReportHtml, printHtmlDocument } from '../services/reportExport';
+import { buildFhirBundle } from '../services/fhirExport';
+import { datedFileName, downloadFile } from '../services/download';
+
+interface ExportPanelProps {
+  result: AnalysisResult;
+  caseLabel?: string;
+}
+
+const inputClass = 'mt-1 w-full p-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-teal-500 focus:border-teal-500';
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ result, caseLabel }) => {
+  const [pharmacistName, setPharmacistName] = useState<string>('');
+  const [registrationNumber, setRegistrationNumber] = useState<string>('');
+  const [comments, setComments] = useState<string>('');
+  const [reviewed, setReviewed] = useState<boolean>(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const canExport = reviewed && pharmacistName.trim().length > 0;
+
+  // The sign-off time is the moment of export, so a re-export after edits carries the new time.
+  const signOff = (): ReviewSignOff => ({
+    pharmacistName: pharmacistName.trim(),
+    registrationNumber: registrationNumber.trim() || undefined,
+    signedAt: new Date().toISOString(),
+    comments: comments.trim() || undefined,
+  });
+
+  const handlePrint = () => {
+    setExportError(null);
+    try {
+      printHtmlDocument(buildReviewReportHtml(result, signOff(), caseLabel));
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'The report could not be opened.');
+    }
+  };
+
+  const handleFhir = () => {
+    setExportError(null);
+    const bundle = buildFhirBundle(result, signOff());
+    downloadFile(datedFileName('pharmacist-review-fhir', 'json'), JSON.stringify(bundle, null, 2), 'application/fhir+json');
+  };
+
+  return (
+    <div className="mt-8 border-t border-slate-200 pt-6">
+      <h3 className="text-lg font-semibold text-slate-800">Sign Off &amp; Export</h3>
+      <p className="text-xs text-slate-500 mb-4">Exports carry the reviewing pharmacist's name. Print the report (choose "Save as PDF" to file it) or download a FHIR R4 Bundle for the EHR.</p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+        <label className="text-slate-600">Pharmacist name
+          <input value={pharmacistName} onChange={e => setPharmacistName(e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-slate-600">Registration number <span className="text-slate-400">(optional)</span>
+          <input value={registrationNumber} onChange={e => setRegistrationNumber(e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-slate-600 md:col-span-2">Review comments <span className="text-slate-400">(optional)</span>
+          <textarea value={comments} onChange={e => setComments(e.target.value)} className={`${inputClass} h-20`} />
+        </label>
+      </div>
+
+      <label className="mt-3 flex items-center text-sm text-slate-600">
+        <input type="checkbox" checked={reviewed} onChange={e => setReviewed(e.target.checked)} className="mr-2 rounded text-teal-600 focus:ring-teal-500" />
+        I have reviewed these findings and take responsibility for the recommendations.
+      </label>
+
+      <div className="mt-4 flex flex-wrap gap-3">
+        <button onClick={handlePrint} disabled={!canExport} className="px-4 py-2 text-sm font-semibold text-white bg-teal-600 rounded-md hover:bg-teal-700 disabled:bg-slate-400 disabled:cursor-not-allowed">Print / Save as PDF</button>
+        <button onClick={handleFhir} disabled={!canExport} className="px-4 py-2 text-sm font-semibold text-teal-700 bg-teal-50 border border-teal-200 rounded-md hover:bg-teal-100 disabled:text-slate-400 disabled:bg-slate-50 disabled:border-slate-200 disabled:cursor-not-allowed">Download FHIR Bundle</button>
+      </div>
+      {exportError && <p className="mt-2 text-sm text-red-600">{exportError}</p>}
+    </div>
+  );
+};
+
+export default ExportPanel;
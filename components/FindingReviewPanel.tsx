@@ -0,0 +1,126 @@
+import React, { useId, useState } from 'react';
+import { INTERVENTION_CATEGORIES, REVIEW_DECISIONS, type InterventionAuditEntry, type InterventionCategory, type ReviewDecision } from '../types';
+import type { InterventionInput } from '../services/interventionLog';
+
+interface FindingReviewPanelProps {
+  /** Audit entries for this finding, oldest first. */
+  history: InterventionAuditEntry[];
+  reviewer: string;
+  /** False until the case has been saved, since entries are tied to a saved case. */
+  canRecord: boolean;
+  onRecord: (input: InterventionInput) => Promise<void>;
+}
+
+const decisionStyles: Record<ReviewDecision | 'pending', { label: string; className: string }> = {
+  pending: { label: 'Pending review', className: 'bg-white/70 text-slate-600 border border-slate-300' },
+  accepted: { label: 'Accepted', className: 'bg-green-100 text-green-800 border border-green-300' },
+  rejected: { label: 'Rejected', className: 'bg-slate-200 text-slate-700 border border-slate-400' },
+  modified: { label: 'Modified', className: 'bg-indigo-100 text-indigo-800 border border-indigo-300' },
+  escalated: { label: 'Escalated to prescriber', className: 'bg-orange-100 text-orange-800 border border-orange-300' },
+};
+
+const categoryLabel = (category: InterventionCategory) => category.replace(/-/g, ' ');
+
+const inputClass = 'mt-1 w-full p-2 border border-slate-300 rounded-md text-sm bg-white focus:ring-2 focus:ring-teal-500 focus:border-teal-500';
+
+const FindingReviewPanel: React.FC<FindingReviewPanelProps> = ({ history, reviewer, canRecord, onRecord }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [decision, setDecision] = useState<ReviewDecision>('accepted');
+  const [category, setCategory] = useState<InterventionCategory | ''>('');
+  const [reason, setReason] = useState<string>('');
+  const [notes, setNotes] = useState<string>('');
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const radioGroup = useId();
+
+  const latest = history[history.length - 1];
+  const state = decisionStyles[latest?.decision ?? 'pending'];
+
+  const save = async () => {
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onRecord({ decision, category: category || undefined, reason, notes, reviewer });
+      setIsOpen(false);
+      setReason('');
+      setNotes('');
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'The intervention could not be recorded.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 border-t border-slate-300/50 pt-3 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${state.className}`}>{state.label}</span>
+          {latest && (
+            <span className="text-xs opacity-80">
+              {latest.category && `${categoryLabel(latest.category)} · `}{latest.reviewer}, {new Date(latest.recordedAt).toLocaleString()}
+            </span>
+          )}
+        </div>
+        <button
+          onClick={() => setIsOpen(open => !open)}
+          disabled={!canRecord}
+          title={canRecord ? undefined : 'Interventions can be recorded once the case is saved to history.'}
+          className="px-3 py-1 text-xs font-semibold rounded-md bg-white/80 border border-slate-300 text-slate-700 hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed"
+        >{isOpen ? 'Close' : latest ? 'Update review' : 'Review'}</button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-3 p-3 bg-white/80 rounded-md border border-slate-200 text-slate-700 space-y-3">
+          <div className="flex flex-wrap gap-3">
+            {REVIEW_DECISIONS.map(option => (
+              <label key={option} className="flex items-center">
+                <input type="radio" name={radioGroup} checked={decision === option} onChange={() => setDecision(option)} className="mr-1 text-teal-600 focus:ring-teal-500" />
+                {decisionStyles[option].label}
+              </label>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <label className="text-slate-600">Intervention
+              <select value={category} onChange={e => setCategory(e.target.value as InterventionCategory | '')} className={inputClass}>
+                <option value="">Not specified</option>
+                {INTERVENTION_CATEGORIES.map(option => <option key={option} value={option}>{categoryLabel(option)}</option>)}
+              </select>
+            </label>
+            {decision === 'rejected' && (
+              <label className="text-slate-600">Reason for rejecting
+                <input value={reason} onChange={e => setReason(e.target.value)} placeholder="e.g. Combination intended; INR monitored weekly" className={inputClass} />
+              </label>
+            )}
+          </div>
+          <label className="block text-slate-600">Notes
+            <textarea value={notes} onChange={e => setNotes(e.target.value)} className={`${inputClass} h-16`} placeholder="e.g. Discussed with Dr Smith; ibuprofen stopped, paracetamol started" />
+          </label>
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-slate-500">{reviewer.trim() ? `Recorded as ${reviewer.trim()}` : 'Enter the reviewer name above the findings first.'}</span>
+            <button onClick={save} disabled={isSaving || !reviewer.trim()} className="px-4 py-1.5 text-sm font-semibold text-white bg-teal-600 rounded-md hover:bg-teal-700 disabled:bg-slate-400 disabled:cursor-not-allowed">{isSaving ? 'Saving…' : 'Record'}</button>
+          </div>
+          {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+        </div>
+      )}
+
+      {history.length > 1 && (
+        <details className="mt-2 text-xs">
+          <summary className="cursor-pointer opacity-80">Audit trail ({history.length} entries)</summary>
+          <ol className="mt-1 space-y-1">
+            {history.map(entry => (
+              <li key={entry.id}>
+                {new Date(entry.recordedAt).toLocaleString()} · {entry.reviewer} · {decisionStyles[entry.decision].label}
+                {entry.category && ` · ${categoryLabel(entry.category)}`}
+                {entry.reason && ` · Reason: ${entry.reason}`}
+                {entry.notes && ` · ${entry.notes}`}
+              </li>
+            ))}
+          </ol>
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default FindingReviewPanel;
@@ -0,0 +1,147 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AnalysisError } from '../services/analysisErrors';
+import type { FollowUpContext, FollowUpTurn } from '../services/analysisService';
+import { askFollowUp } from '../services/apiClient';
+import { compareAnalyses } from '../services/caseComparison';
+import type { AnalysisResult } from '../types';
+
+interface FollowUpChatProps {
+  context: FollowUpContext;
+  /** Saves a revised analysis proposed by the model as the case's new result. */
+  onApplyUpdate: (result: AnalysisResult) => Promise<void>;
+}
+
+interface ChatMessage extends FollowUpTurn {
+  updatedResult?: AnalysisResult;
+  /** The analysis the update was proposed against, so the diff stays meaningful after applying it. */
+  basedOn?: AnalysisResult;
+  applied?: boolean;
+}
+
+const ProposedUpdate: React.FC<{ current: AnalysisResult; updated: AnalysisResult }> = ({ current, updated }) => {
+  const { drugs, findings } = compareAnalyses(current, updated);
+  const drugChanges = drugs.filter(diff => diff.change !== 'unchanged');
+  const findingChanges = findings.filter(diff => diff.change !== 'persisting');
+
+  if (drugChanges.length === 0 && findingChanges.length === 0) {
+    return <p className="text-xs text-slate-500">The revised analysis has the same drugs and findings; wording or lab interpretation may differ.</p>;
+  }
+  return (
+    <ul className="text-xs text-slate-600 space-y-0.5">
+      {drugChanges.map(diff => (
+        <li key={`drug-${diff.name}`}>
+          <span className="font-semibold">{diff.change === 'dose-changed' ? 'Dose changed' : diff.change === 'added' ? 'Drug added' : 'Drug stopped'}:</span> {diff.name}
+          {diff.change === 'dose-changed' && ` (${diff.previousDose} → ${diff.currentDose})`}
+        </li>
+      ))}
+      {findingChanges.map((diff, index) => (
+        <li key={`finding-${index}`}>
+          <span className="font-semibold">{diff.change === 'new' ? 'New finding' : 'Finding resolved'}:</span> {diff.finding.errorType} ({diff.finding.riskLevel})
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+/**
+ * Lets the reviewer ask questions about the analysis on screen. The model sees the original input,
+ * the patient context and the current analysis with every question, so answers stay tied to this case.
+ */
+const FollowUpChat: React.FC<FollowUpChatProps> = ({ context, onApplyUpdate }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [question, setQuestion] = useState<string>('');
+  const [isAsking, setIsAsking] = useState<boolean>(false);
+  const [chatError, setChatError] = useState<string | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  const ask = async () => {
+    const text = question.trim();
+    if (!text || isAsking) return;
+    const request = new AbortController();
+    requestRef.current = request;
+    const history = messages.map(({ role, text }) => ({ role, text }));
+
+    setMessages(prev => [...prev, { role: 'user', text }]);
+    setQuestion('');
+    setChatError(null);
+    setIsAsking(true);
+    try {
+      const answer = await askFollowUp(context, history, text, { signal: request.signal });
+      setMessages(prev => [...prev, { role: 'assistant', text: answer.reply, updatedResult: answer.updatedResult, basedOn: context.result }]);
+    } catch (err) {
+      if (err instanceof AnalysisError && err.category === 'cancelled') {
+        // Put the question back so it can be edited and sent again.
+        setMessages(prev => prev.slice(0, -1));
+        setQuestion(text);
+      } else {
+        console.error(err);
+        setChatError(err instanceof AnalysisError ? err.message : 'The question could not be answered. Please try again.');
+      }
+    } finally {
+      if (requestRef.current === request) requestRef.current = null;
+      setIsAsking(false);
+    }
+  };
+
+  const apply = async (index: number, result: AnalysisResult) => {
+    setChatError(null);
+    try {
+      await onApplyUpdate(result);
+      setMessages(prev => prev.map((message, i) => (i === index ? { ...message, applied: true } : message)));
+    } catch (err) {
+      console.error(err);
+      setChatError('The revised analysis could not be saved.');
+    }
+  };
+
+  return (
+    <div className="mt-6 border-t border-slate-200 pt-4">
+      <h3 className="text-lg font-semibold text-slate-800">Follow-up questions</h3>
+      <p className="text-xs text-slate-500 mb-3">Ask about this case, e.g. "What if the eGFR is actually 25?" or "Is there an alternative to ibuprofen?". If an answer revises the analysis, you can apply it as a new version of the case.</p>
+
+      {messages.length > 0 && (
+        <div className="space-y-3 mb-3 max-h-96 overflow-y-auto">
+          {messages.map((message, index) => (
+            <div key={index} className={message.role === 'user' ? 'flex justify-end' : 'flex justify-start'}>
+              <div className={`max-w-[85%] p-3 rounded-lg text-sm whitespace-pre-wrap ${message.role === 'user' ? 'bg-teal-600 text-white' : 'bg-slate-100 text-slate-800'}`}>
+                {message.text}
+                {message.updatedResult && (
+                  <div className="mt-3 p-2 bg-white border border-indigo-200 rounded-md whitespace-normal">
+                    <p className="text-xs font-semibold text-indigo-700 mb-1">Proposed update to the analysis</p>
+                    <ProposedUpdate current={message.basedOn ?? context.result} updated={message.updatedResult} />
+                    <button
+                      onClick={() => apply(index, message.updatedResult!)}
+                      disabled={message.applied}
+                      className="mt-2 px-3 py-1 text-xs font-semibold text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-slate-400 disabled:cursor-not-allowed"
+                    >{message.applied ? 'Applied' : 'Apply update'}</button>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+          {isAsking && <p className="text-sm text-slate-400 animate-pulse">Thinking…</p>}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <textarea
+          value={question}
+          onChange={e => setQuestion(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); ask(); } }}
+          placeholder="Ask a follow-up question…"
+          className="flex-1 h-16 p-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+        />
+        {isAsking ? (
+          <button onClick={() => requestRef.current?.abort()} className="px-4 text-sm font-medium text-red-700 bg-white border border-red-200 rounded-md hover:bg-red-50">Cancel</button>
+        ) : (
+          <button onClick={ask} disabled={!question.trim()} className="px-4 text-sm font-semibold text-white bg-teal-600 rounded-md hover:bg-teal-700 disabled:bg-slate-400 disabled:cursor-not-allowed">Send</button>
+        )}
+      </div>
+      {chatError && <p className="mt-2 text-sm text-red-600">{chatError}</p>}
+    </div>
+  );
+};
+
+export default FollowUpChat;
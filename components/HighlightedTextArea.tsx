@@ -0,0 +1,70 @@
+import React, { useRef } from 'react';
+import type { SourceSpan } from '../types';
+
+interface HighlightedTextAreaProps {
+  value: string;
+  onChange: (event: React.ChangeEvent<HTMLTextAreaElement>) => void;
+  placeholder?: string;
+  /** Character ranges to highlight; spans without offsets are ignored. */
+  highlights: SourceSpan[];
+}
+
+// Shared by the textarea and the backdrop so the highlighted text lines up character for character.
+const textLayout = 'w-full h-40 p-3 text-base leading-6 whitespace-pre-wrap break-words font-sans';
+
+type Segment = { text: string; highlighted: boolean };
+
+function splitByHighlights(text: string, highlights: SourceSpan[]): Segment[] {
+  const ranges = highlights
+    .filter((span): span is SourceSpan & { start: number; end: number } => span.start !== undefined && span.end !== undefined)
+    .map(span => [Math.max(0, span.start), Math.min(text.length, span.end)] as const)
+    .filter(([start, end]) => start < end)
+    .sort((a, b) => a[0] - b[0]);
+
+  const segments: Segment[] = [];
+  let cursor = 0;
+  for (const [start, end] of ranges) {
+    if (end <= cursor) continue;
+    const from = Math.max(start, cursor);
+    if (from > cursor) segments.push({ text: text.slice(cursor, from), highlighted: false });
+    segments.push({ text: text.slice(from, end), highlighted: true });
+    cursor = end;
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), highlighted: false });
+  return segments;
+}
+
+/**
+ * A textarea that can highlight ranges of its own text. The highlights are drawn on a backdrop
+ * behind a transparent textarea, since a textarea cannot style parts of its content.
+ */
+const HighlightedTextArea: React.FC<HighlightedTextAreaProps> = ({ value, onChange, placeholder, highlights }) => {
+  const backdropRef = useRef<HTMLDivElement>(null);
+
+  const syncScroll = (event: React.UIEvent<HTMLTextAreaElement>) => {
+    if (backdropRef.current) backdropRef.current.scrollTop = event.currentTarget.scrollTop;
+  };
+
+  return (
+    <div className="relative">
+      <div ref={backdropRef} aria-hidden="true" className={`${textLayout} absolute inset-0 overflow-hidden border border-transparent rounded-lg text-transparent bg-white`}>
+        {splitByHighlights(value, highlights).map((segment, index) =>
+          segment.highlighted
+            ? <mark key={index} className="bg-yellow-200 text-transparent rounded-sm">{segment.text}</mark>
+            : <span key={index}>{segment.text}</span>
+        )}
+        {/* A trailing newline needs content after it to take up a line. */}
+        {value.endsWith('\n') && ' '}
+      </div>
+      <textarea
+        value={value}
+        onChange={onChange}
+        onScroll={syncScroll}
+        className={`${textLayout} relative bg-transparent border border-slate-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 transition-shadow`}
+        placeholder={placeholder}
+      />
+    </div>
+  );
+};
+
+export default HighlightedTextArea;
@@ -0,0 +1,126 @@
+import React, { useMemo, useState } from 'react';
+import type { LabStatus, LabValue, PatientContext, SourceSpan } from '../types';
+import { UnverifiedBadge } from './EvidenceTrace';
+import { checkLabValue, formatLabNumber, formatReferenceRange, type LabCheck, type UnitSystem } from '../services/labValues';
+
+interface LabInsightsTableProps {
+  labs: LabValue[];
+  patientContext?: PatientContext;
+  /** Called with a row's evidence when it is hovered, and with [] when the pointer leaves. */
+  onHoverEvidence?: (evidence: SourceSpan[]) => void;
+  /** Flag rows without located evidence; off while the result is still streaming. */
+  showVerification?: boolean;
+}
+
+type DisplayUnits = 'reported' | UnitSystem;
+
+const labStatusColorMap: Record<LabStatus, string> = {
+  'High': 'text-red-600 font-semibold',
+  'Low': 'text-blue-600 font-semibold',
+  'Abnormal': 'text-yellow-700 font-semibold',
+  'Normal': 'text-green-700',
+};
+
+const displayOptions: { value: DisplayUnits; label: string }[] = [
+  { value: 'reported', label: 'As reported' },
+  { value: 'conventional', label: 'Conventional' },
+  { value: 'si', label: 'SI' },
+];
+
+const headerClass = 'px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider';
+
+function displayedResult(check: LabCheck, units: DisplayUnits): { text: string; converted: boolean } {
+  const reported = `${check.lab.value} ${check.lab.unit}`.trim();
+  const target = units === 'si' ? check.si : units === 'conventional' ? check.conventional : undefined;
+  if (!target || units === check.reportedSystem) {
+    return { text: reported, converted: false };
+  }
+  const comparator = check.parsed?.comparator ?? '';
+  return { text: `${comparator}${formatLabNumber(target.value)} ${target.unit}`.trim(), converted: true };
+}
+
+const LabInsightsTable: React.FC<LabInsightsTableProps> = ({ labs, patientContext, onHoverEvidence, showVerification = false }) => {
+  const [units, setUnits] = useState<DisplayUnits>('reported');
+
+  const checks = useMemo(
+    () => labs.map(lab => checkLabValue(lab, { age: patientContext?.age, sex: patientContext?.sex })),
+    [labs, patientContext]
+  );
+  const discrepancies = checks.filter(check => check.discrepancy).length;
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+        <p className="text-xs text-slate-500">
+          Reference ranges and status are computed locally{patientContext?.sex || patientContext?.age !== undefined ? ' for the patient’s age and sex' : ''}.
+          {discrepancies > 0 && <span className="ml-1 font-semibold text-orange-600">{discrepancies} result{discrepancies === 1 ? '' : 's'} disagree with the model.</span>}
+        </p>
+        <div className="flex space-x-1 rounded-lg bg-slate-100 p-1 text-xs">
+          {displayOptions.map(option => (
+            <button key={option.value} onClick={() => setUnits(option.value)} className={`px-3 py-1 rounded-md font-medium transition-colors ${units === option.value ? 'bg-white text-teal-600 shadow-sm' : 'text-slate-600 hover:bg-slate-200'}`}>{option.label}</button>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-slate-200">
+          <thead className="bg-slate-50">
+            <tr>
+              <th scope="col" className={headerClass}>Parameter</th>
+              <th scope="col" className={headerClass}>Result</th>
+              <th scope="col" className={headerClass}>Reference</th>
+              <th scope="col" className={headerClass}>Status</th>
+              <th scope="col" className={headerClass}>Interpretation</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-slate-200">
+            {checks.map((check, index) => {
+              const { lab, analyte, range, computedStatus, discrepancy } = check;
+              const result = displayedResult(check, units);
+              const status = computedStatus ?? lab.status;
+              return (
+                <tr
+                  key={index}
+                  className={discrepancy ? 'bg-orange-50' : undefined}
+                  title={lab.evidence?.length ? `Source: ${lab.evidence.map(span => `“${span.quote}”`).join(' · ')}` : undefined}
+                  onMouseEnter={() => onHoverEvidence?.(lab.evidence ?? [])}
+                  onMouseLeave={() => onHoverEvidence?.([])}
+                >
+                  <td className="px-4 py-4 whitespace-nowrap text-sm font-medium text-slate-900">
+                    {lab.parameter}
+                    {lab.sourcePage && <span className="ml-2 text-xs font-normal text-slate-400">p.{lab.sourcePage}</span>}
+                    {analyte && <span className="block text-xs font-normal text-slate-400" title={analyte.name}>LOINC {analyte.code}</span>}
+                    {showVerification && <span className="block mt-1"><UnverifiedBadge evidence={lab.evidence} /></span>}
+                  </td>
+                  <td className={`px-4 py-4 whitespace-nowrap text-sm ${labStatusColorMap[status] || 'text-slate-600'}`}>
+                    {result.text}
+                    {result.converted && <span className="block text-xs font-normal text-slate-400">reported {lab.value} {lab.unit}</span>}
+                  </td>
+                  <td className="px-4 py-4 whitespace-nowrap text-xs text-slate-500">
+                    {analyte && range ? formatReferenceRange(analyte, range, units === 'si' || (units === 'reported' && check.reportedSystem === 'si') ? 'si' : 'conventional') : '—'}
+                  </td>
+                  <td className="px-4 py-4 whitespace-nowrap text-sm">
+                    {discrepancy ? (
+                      <span className="text-orange-700" title="The locally computed status differs from the model's">
+                        <span className="font-semibold">⚠ {computedStatus}</span>
+                        <span className="block text-xs">model said {lab.status}</span>
+                      </span>
+                    ) : (
+                      <span className={labStatusColorMap[status]}>
+                        {status}
+                        {!computedStatus && <span className="block text-xs font-normal text-slate-400">model only</span>}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-4 text-sm text-slate-600">{lab.interpretation}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default LabInsightsTable;
@@ -0,0 +1,98 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AnalysisError } from '../services/analysisErrors';
+import { generatePatientLeaflet } from '../services/apiClient';
+import { buildLeafletHtml } from '../services/leafletExport';
+import { printHtmlDocument } from '../services/reportExport';
+import { READING_LEVELS, type AnalysisResult, type PatientLeaflet, type ReadingLevel } from '../types';
+
+interface LeafletPanelProps {
+  result: AnalysisResult;
+  leaflet: PatientLeaflet | null;
+  onLeafletChange: (leaflet: PatientLeaflet | null) => void;
+  caseLabel?: string;
+}
+
+// Suggestions only; any language the model can write is accepted.
+const commonLanguages = ['English', 'Spanish', 'French', 'Portuguese', 'Arabic', 'Chinese (Simplified)', 'Hindi', 'Urdu', 'Bengali', 'Polish', 'Romanian', 'Turkish', 'Russian', 'Vietnamese', 'Tagalog', 'Swahili'];
+
+const readingLevelLabels: Record<ReadingLevel, string> = {
+  simple: 'Simple (low health literacy)',
+  standard: 'Standard',
+  detailed: 'Detailed',
+};
+
+const inputClass = 'mt-1 block p-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-teal-500 focus:border-teal-500';
+
+/** Generates a plain-language counselling handout from the analysed regimen, previewed here and printed as one page. */
+const LeafletPanel: React.FC<LeafletPanelProps> = ({ result, leaflet, onLeafletChange, caseLabel }) => {
+  const [language, setLanguage] = useState<string>(leaflet?.language ?? 'English');
+  const [readingLevel, setReadingLevel] = useState<ReadingLevel>(leaflet?.readingLevel ?? 'standard');
+  const [isGenerating, setIsGenerating] = useState<boolean>(false);
+  const [leafletError, setLeafletError] = useState<string | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
+  const html = useMemo(() => (leaflet ? buildLeafletHtml(leaflet, caseLabel) : ''), [leaflet, caseLabel]);
+
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  const generate = async () => {
+    const request = new AbortController();
+    requestRef.current = request;
+    setIsGenerating(true);
+    setLeafletError(null);
+    try {
+      onLeafletChange(await generatePatientLeaflet(result, { language: language.trim() || 'English', readingLevel }, { signal: request.signal }));
+    } catch (err) {
+      if (!(err instanceof AnalysisError && err.category === 'cancelled')) {
+        console.error(err);
+        setLeafletError(err instanceof AnalysisError ? err.message : 'The leaflet could not be generated. Please try again.');
+      }
+    } finally {
+      if (requestRef.current === request) requestRef.current = null;
+      setIsGenerating(false);
+    }
+  };
+
+  const print = () => {
+    try {
+      printHtmlDocument(html);
+    } catch (err) {
+      setLeafletError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-slate-800">Patient Leaflet</h3>
+      <p className="text-sm text-slate-500 mb-4">A plain-language handout for the patient: what each medicine is for, when to take it, side effects and when to get help. Only the drug list and patient context are sent; check the wording before handing it out.</p>
+
+      <div className="flex flex-wrap items-end gap-3 p-3 bg-slate-50 border border-slate-200 rounded-md">
+        <label className="text-sm text-slate-600">Language
+          <input value={language} onChange={e => setLanguage(e.target.value)} list="leaflet-languages" className={`${inputClass} w-48`} />
+          <datalist id="leaflet-languages">{commonLanguages.map(option => <option key={option} value={option} />)}</datalist>
+        </label>
+        <label className="text-sm text-slate-600">Reading level
+          <select value={readingLevel} onChange={e => setReadingLevel(e.target.value as ReadingLevel)} className={inputClass}>
+            {READING_LEVELS.map(level => <option key={level} value={level}>{readingLevelLabels[level]}</option>)}
+          </select>
+        </label>
+        {isGenerating ? (
+          <button onClick={() => requestRef.current?.abort()} className="px-4 py-2 text-sm font-medium text-red-700 bg-white border border-red-200 rounded-md hover:bg-red-50">Cancel</button>
+        ) : (
+          <button onClick={generate} disabled={result.drugInformation.length === 0} className="px-4 py-2 text-sm font-semibold text-white bg-teal-600 rounded-md hover:bg-teal-700 disabled:bg-slate-400 disabled:cursor-not-allowed">{leaflet ? 'Regenerate' : 'Generate leaflet'}</button>
+        )}
+        {leaflet && !isGenerating && (
+          <button onClick={print} className="px-4 py-2 text-sm font-medium text-teal-700 bg-white border border-teal-200 rounded-md hover:bg-teal-50">Print / Save as PDF</button>
+        )}
+      </div>
+
+      {result.drugInformation.length === 0 && <p className="mt-3 text-sm text-slate-500">There are no drugs in this analysis to write a leaflet for.</p>}
+      {isGenerating && <p className="mt-3 text-sm text-slate-400 animate-pulse">Writing the leaflet…</p>}
+      {leafletError && <p className="mt-3 text-sm text-red-600">{leafletError}</p>}
+      {leaflet && (
+        <iframe title="Patient leaflet preview" srcDoc={html} sandbox="" className="mt-4 w-full h-[36rem] border border-slate-200 rounded-md bg-white" />
+      )}
+    </div>
+  );
+};
+
+export default LeafletPanel;
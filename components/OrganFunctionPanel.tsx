@@ -0,0 +1,184 @@
+import React, { useMemo, useState } from 'react';
+import type { DrugInfo, LabValue, PatientContext, Sex } from '../types';
+import {
+  assessOrganFunction,
+  checkOrganDosing,
+  extractOrganFunctionInputs,
+  type ClinicalGrade,
+  type DoseAdjustmentFlag,
+  type OrganFunctionInputs,
+  type SourcedValue,
+} from '../services/organFunction';
+
+interface OrganFunctionPanelProps {
+  labs: LabValue[];
+  drugs: DrugInfo[];
+  patientContext?: PatientContext;
+}
+
+interface ManualInputs {
+  age: string;
+  weightKg: string;
+  sex: '' | Sex;
+  ascites: '' | ClinicalGrade;
+  encephalopathy: '' | ClinicalGrade;
+}
+
+const emptyManualInputs: ManualInputs = { age: '', weightKg: '', sex: '', ascites: '', encephalopathy: '' };
+
+const flagStyles: Record<DoseAdjustmentFlag['status'], { label: string; className: string }> = {
+  avoid: { label: 'Avoid', className: 'bg-red-100 text-red-800 border-red-400' },
+  exceeds: { label: 'Exceeds ceiling', className: 'bg-yellow-100 text-yellow-800 border-yellow-400' },
+  unparsed: { label: 'Check dose', className: 'bg-blue-100 text-blue-800 border-blue-400' },
+};
+
+const manual = <T,>(value: T | undefined): SourcedValue<T> | undefined =>
+  value === undefined ? undefined : { value, source: 'manual' };
+
+const fromContext = <T,>(value: T | undefined): SourcedValue<T> | undefined =>
+  value === undefined ? undefined : { value, source: 'context' };
+
+const toNumber = (text: string): number | undefined => (text.trim() && !isNaN(Number(text)) ? Number(text) : undefined);
+
+const round = (value: number, digits = 1) => Number(value.toFixed(digits));
+
+const formatMg = (mg: number) => (mg < 1 ? `${round(mg * 1000, 1)} mcg` : `${round(mg, 1)} mg`);
+
+const SourceTag: React.FC<{ value?: SourcedValue<unknown> }> = ({ value }) =>
+  value ? <span className="ml-1 text-xs text-slate-400">({value.source === 'lab' ? `lab: ${value.raw}` : value.source === 'context' ? 'patient context' : 'entered'})</span> : null;
+
+const OrganFunctionPanel: React.FC<OrganFunctionPanelProps> = ({ labs, drugs, patientContext }) => {
+  const [manualInputs, setManualInputs] = useState<ManualInputs>(emptyManualInputs);
+
+  // Patient context entered before the analysis takes precedence over values found in the labs.
+  const extracted = useMemo<OrganFunctionInputs>(() => {
+    const fromLabs = extractOrganFunctionInputs(labs);
+    return {
+      ...fromLabs,
+      age: fromContext(patientContext?.age) ?? fromLabs.age,
+      weightKg: fromContext(patientContext?.weightKg) ?? fromLabs.weightKg,
+      sex: fromContext(patientContext?.sex) ?? fromLabs.sex,
+    };
+  }, [labs, patientContext]);
+
+  // Values typed by the reviewer here override both.
+  const inputs: OrganFunctionInputs = {
+    ...extracted,
+    age: manual(toNumber(manualInputs.age)) ?? extracted.age,
+    weightKg: manual(toNumber(manualInputs.weightKg)) ?? extracted.weightKg,
+    sex: manual(manualInputs.sex || undefined) ?? extracted.sex,
+    ascites: manual(manualInputs.ascites || undefined),
+    encephalopathy: manual(manualInputs.encephalopathy || undefined),
+  };
+  const assessment = assessOrganFunction(inputs);
+  const flags = checkOrganDosing(drugs, assessment);
+
+  const update = (key: keyof ManualInputs) => (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setManualInputs(prev => ({ ...prev, [key]: event.target.value }));
+
+  const { age, weightKg, sex, creatinineMgDl, bilirubinMgDl, albuminGDl, inr } = assessment.inputs;
+  const inputClass = 'mt-1 w-full p-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-teal-500 focus:border-teal-500';
+  const gradeOptions = (
+    <>
+      <option value="">Unknown</option>
+      <option value="none">None</option>
+      <option value="mild">Mild / controlled</option>
+      <option value="severe">Moderate–severe</option>
+    </>
+  );
+
+  return (
+    <div className="border border-teal-200 bg-teal-50/40 rounded-lg p-4">
+      <h4 className="font-bold text-slate-800">Renal &amp; Hepatic Dose Check</h4>
+      <p className="text-xs text-slate-500 mb-4">Calculated locally from the lab results, the patient context and the values below. Values entered here override the others.</p>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+        <label className="text-slate-600">Age (years)
+          <input type="number" min="0" value={manualInputs.age} onChange={update('age')} placeholder={extracted.age ? String(extracted.age.value) : ''} className={inputClass} />
+        </label>
+        <label className="text-slate-600">Weight (kg)
+          <input type="number" min="0" step="0.1" value={manualInputs.weightKg} onChange={update('weightKg')} placeholder={extracted.weightKg ? String(round(extracted.weightKg.value)) : ''} className={inputClass} />
+        </label>
+        <label className="text-slate-600">Sex
+          <select value={manualInputs.sex} onChange={update('sex')} className={inputClass}>
+            <option value="">{extracted.sex ? `${extracted.sex.source === 'lab' ? 'From labs' : 'From context'} (${extracted.sex.value})` : 'Unknown'}</option>
+            <option value="female">Female</option>
+            <option value="male">Male</option>
+          </select>
+        </label>
+        <label className="text-slate-600">Ascites
+          <select value={manualInputs.ascites} onChange={update('ascites')} className={inputClass}>{gradeOptions}</select>
+        </label>
+        <label className="text-slate-600">Encephalopathy
+          <select value={manualInputs.encephalopathy} onChange={update('encephalopathy')} className={inputClass}>{gradeOptions}</select>
+        </label>
+      </div>
+
+      <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+        <div className="bg-white rounded-md border border-slate-200 p-3">
+          <p className="font-semibold text-slate-600">CrCl (Cockcroft-Gault)</p>
+          {assessment.crcl !== undefined ? (
+            <>
+              <p className="text-2xl font-bold text-slate-800">{round(assessment.crcl, 0)} <span className="text-sm font-normal">mL/min</span></p>
+              <p className="text-xs text-slate-500 mt-1">
+                ((140 − {age!.value}) × {round(weightKg!.value)} kg) / (72 × {round(creatinineMgDl!.value, 2)} mg/dL){sex!.value === 'female' ? ' × 0.85' : ''}
+              </p>
+            </>
+          ) : <p className="text-xs text-slate-500 mt-1">Needs: {assessment.missing.renal.join(', ')}</p>}
+        </div>
+        <div className="bg-white rounded-md border border-slate-200 p-3">
+          <p className="font-semibold text-slate-600">eGFR (CKD-EPI 2021)</p>
+          {assessment.egfr !== undefined ? (
+            <>
+              <p className="text-2xl font-bold text-slate-800">{round(assessment.egfr, 0)} <span className="text-sm font-normal">mL/min/1.73m²</span></p>
+              <p className="text-xs text-slate-500 mt-1">SCr {round(creatinineMgDl!.value, 2)} mg/dL, age {age!.value}, {sex!.value}; race-free equation</p>
+            </>
+          ) : <p className="text-xs text-slate-500 mt-1">Needs: {assessment.missing.renal.filter(item => item !== 'weight').join(', ')}</p>}
+        </div>
+        <div className="bg-white rounded-md border border-slate-200 p-3">
+          <p className="font-semibold text-slate-600">Child-Pugh</p>
+          {assessment.childPugh ? (
+            <>
+              <p className="text-2xl font-bold text-slate-800">Class {assessment.childPugh.class} <span className="text-sm font-normal">({assessment.childPugh.score} points)</span></p>
+              <p className="text-xs text-slate-500 mt-1">
+                {Object.entries(assessment.childPugh.points).map(([key, points]) => `${key} ${points}`).join(' · ')}
+              </p>
+            </>
+          ) : <p className="text-xs text-slate-500 mt-1">Needs: {assessment.missing.hepatic.join(', ')}</p>}
+        </div>
+      </div>
+
+      <div className="mt-4 text-xs text-slate-500 space-y-0.5">
+        {creatinineMgDl && <p>Creatinine: {round(creatinineMgDl.value, 2)} mg/dL<SourceTag value={creatinineMgDl} /></p>}
+        {bilirubinMgDl && <p>Bilirubin: {round(bilirubinMgDl.value, 2)} mg/dL<SourceTag value={bilirubinMgDl} /></p>}
+        {albuminGDl && <p>Albumin: {round(albuminGDl.value, 2)} g/dL<SourceTag value={albuminGDl} /></p>}
+        {inr && <p>INR: {inr.value}<SourceTag value={inr} /></p>}
+        {age && <p>Age: {age.value}<SourceTag value={age} /></p>}
+        {weightKg && <p>Weight: {round(weightKg.value)} kg<SourceTag value={weightKg} /></p>}
+        {sex && <p>Sex: {sex.value}<SourceTag value={sex} /></p>}
+      </div>
+
+      {flags.length > 0 && (
+        <div className="mt-4 space-y-2">
+          <p className="font-semibold text-sm text-slate-700">Dose adjustments needed</p>
+          {flags.map((flag, index) => (
+            <div key={index} className={`p-3 rounded-md border-l-4 text-sm ${flagStyles[flag.status].className}`}>
+              <div className="flex justify-between items-start">
+                <p className="font-bold">{flag.drugName}</p>
+                <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-white/60">{flagStyles[flag.status].label}</span>
+              </div>
+              <p className="mt-1">
+                Prescribed: {flag.prescribedDose}
+                {flag.dailyDoseMg !== undefined && ` (≈ ${formatMg(flag.dailyDoseMg)}/day)`}
+                {flag.maxDailyMg > 0 && ` · Ceiling: ${formatMg(flag.maxDailyMg)}/day`}
+              </p>
+              <p className="mt-1 text-xs">{flag.basis}: {flag.note}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrganFunctionPanel;
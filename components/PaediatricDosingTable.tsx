@@ -0,0 +1,99 @@
+import React from 'react';
+import type { DrugInfo, PatientContext } from '../types';
+import { PAEDIATRIC_DOSE_TABLE_VERSION } from '../services/knowledge/paediatricDoseTable';
+import { calculatePaediatricDoses, formatRange, mostellerBsa, type PaediatricDoseStatus } from '../services/paediatricDosing';
+import { describeSig } from '../services/sigParser';
+
+interface PaediatricDosingTableProps {
+  drugs: DrugInfo[];
+  patientContext: PatientContext;
+}
+
+const statusStyles: Record<PaediatricDoseStatus, { label: string; className: string }> = {
+  'tenfold-over': { label: 'Tenfold overdose?', className: 'bg-red-100 text-red-800' },
+  'tenfold-under': { label: 'Tenfold underdose?', className: 'bg-red-100 text-red-800' },
+  above: { label: 'Above range', className: 'bg-yellow-100 text-yellow-800' },
+  below: { label: 'Below range', className: 'bg-blue-100 text-blue-800' },
+  within: { label: 'Within range', className: 'bg-green-100 text-green-800' },
+  'not-checked': { label: 'Not checked', className: 'bg-slate-100 text-slate-600' },
+};
+
+const round = (value: number | undefined, digits = 1) => (value === undefined ? '—' : String(+value.toFixed(digits)));
+
+const formatAge = (years: number) => (years < 1 ? `${Math.round(years * 12)} months` : `${years} years`);
+
+/** Per-drug weight- and surface-area-based dose calculations for a paediatric patient, shown in the Drug Deep-Dive tab. */
+const PaediatricDosingTable: React.FC<PaediatricDosingTableProps> = ({ drugs, patientContext }) => {
+  const { weightKg, heightCm, age } = patientContext;
+  const bsa = weightKg && heightCm ? mostellerBsa(weightKg, heightCm) : undefined;
+  const calculations = calculatePaediatricDoses(drugs, patientContext);
+
+  return (
+    <div className="border border-indigo-200 bg-indigo-50/40 rounded-lg p-4">
+      <h4 className="font-bold text-slate-800">Paediatric Dose Check</h4>
+      <p className="text-xs text-slate-500 mb-3">
+        Daily doses divided by the weight (and body surface area) from the patient context, compared locally with the usual oral range for the age
+        (paediatric dose table v{PAEDIATRIC_DOSE_TABLE_VERSION}).
+      </p>
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-slate-700">
+        <span>Age: {age !== undefined ? formatAge(age) : <span className="text-slate-400">not recorded</span>}</span>
+        <span>Weight: {weightKg !== undefined ? `${weightKg} kg` : <span className="text-red-600">not recorded</span>}</span>
+        <span>Height: {heightCm !== undefined ? `${heightCm} cm` : <span className="text-slate-400">not recorded</span>}</span>
+        {bsa !== undefined && (
+          <span title="Mosteller: √(height × weight / 3600)">BSA: √({heightCm} cm × {weightKg} kg / 3600) = <strong>{round(bsa, 2)} m²</strong></span>
+        )}
+      </div>
+
+      {calculations.length > 0 && (
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-sm bg-white border border-slate-200">
+            <thead className="bg-slate-50 text-left text-xs text-slate-500">
+              <tr>
+                <th className="px-2 py-1 font-semibold">Drug</th>
+                <th className="px-2 py-1 font-semibold">Order</th>
+                <th className="px-2 py-1 font-semibold text-right">mg/day</th>
+                <th className="px-2 py-1 font-semibold text-right">mg/kg/day</th>
+                <th className="px-2 py-1 font-semibold text-right">mg/m²/day</th>
+                <th className="px-2 py-1 font-semibold">Usual range</th>
+                <th className="px-2 py-1 font-semibold">Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {calculations.map((calculation, index) => {
+                const order = drugs[index].medicationOrder;
+                const { band } = calculation;
+                return (
+                  <tr key={index} className="border-t border-slate-100 align-top">
+                    <td className="px-2 py-1 font-semibold text-slate-700">{calculation.drugName}</td>
+                    <td className="px-2 py-1 text-slate-600">
+                      {order ? describeSig(order) : drugs[index].prescribedDose}
+                      {calculation.writtenAs && <span className="block text-xs text-slate-400">written as {calculation.writtenAs}</span>}
+                    </td>
+                    <td className="px-2 py-1 text-right">{round(calculation.dailyDoseMg)}</td>
+                    <td className={`px-2 py-1 text-right ${band?.basis === 'kg' ? 'font-semibold' : ''}`}>{round(calculation.mgPerKgDay, 2)}</td>
+                    <td className={`px-2 py-1 text-right ${band?.basis === 'm2' ? 'font-semibold' : ''}`}>{round(calculation.mgPerM2Day, 1)}</td>
+                    <td className="px-2 py-1 text-slate-600">
+                      {band ? (
+                        <>
+                          {formatRange(band)}
+                          {band.maxDailyMg !== undefined && <span className="block text-xs text-slate-400">at most {band.maxDailyMg} mg/day</span>}
+                          <span className="block text-xs text-slate-400">{formatAge(band.minAgeYears)}–{formatAge(band.maxAgeYears)}</span>
+                        </>
+                      ) : '—'}
+                    </td>
+                    <td className="px-2 py-1">
+                      <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${statusStyles[calculation.status].className}`}>{statusStyles[calculation.status].label}</span>
+                      <span className="block mt-1 text-xs text-slate-600">{calculation.message}</span>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PaediatricDosingTable;
@@ -0,0 +1,115 @@
+import React, { useRef, useState } from 'react';
+import type { DocumentPage } from '../types';
+
+type Box = [number, number, number, number];
+
+interface PageMaskEditorProps {
+  page: DocumentPage;
+  pageNumber: number;
+  onSave: (masks: Box[]) => Promise<void>;
+  onClose: () => void;
+}
+
+// Regions smaller than this (on the 0–1000 scale) are treated as a stray click rather than a mask.
+const MIN_SIZE = 5;
+
+const boxStyle = ([ymin, xmin, ymax, xmax]: Box): React.CSSProperties => ({
+  top: `${ymin / 10}%`,
+  left: `${xmin / 10}%`,
+  height: `${(ymax - ymin) / 10}%`,
+  width: `${(xmax - xmin) / 10}%`,
+});
+
+/** Lets the reviewer drag boxes over names, numbers or labels on a page to black them out before it is sent. */
+const PageMaskEditor: React.FC<PageMaskEditorProps> = ({ page, pageNumber, onSave, onClose }) => {
+  const [masks, setMasks] = useState<Box[]>(page.masks ?? []);
+  const [draft, setDraft] = useState<Box | null>(null);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const originRef = useRef<[number, number] | null>(null);
+
+  const pointAt = (event: React.PointerEvent): [number, number] => {
+    const rect = surfaceRef.current!.getBoundingClientRect();
+    const clamp = (value: number) => Math.min(1000, Math.max(0, Math.round(value)));
+    return [clamp(((event.clientY - rect.top) / rect.height) * 1000), clamp(((event.clientX - rect.left) / rect.width) * 1000)];
+  };
+
+  const boxFrom = ([y1, x1]: [number, number], [y2, x2]: [number, number]): Box =>
+    [Math.min(y1, y2), Math.min(x1, x2), Math.max(y1, y2), Math.max(x1, x2)];
+
+  const startDraw = (event: React.PointerEvent) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    originRef.current = pointAt(event);
+    setDraft(boxFrom(originRef.current, originRef.current));
+  };
+
+  const draw = (event: React.PointerEvent) => {
+    if (originRef.current) setDraft(boxFrom(originRef.current, pointAt(event)));
+  };
+
+  const endDraw = () => {
+    if (draft && draft[2] - draft[0] >= MIN_SIZE && draft[3] - draft[1] >= MIN_SIZE) {
+      setMasks(prev => [...prev, draft]);
+    }
+    originRef.current = null;
+    setDraft(null);
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onSave(masks);
+      onClose();
+    } catch (err) {
+      console.error(err);
+      setSaveError(err instanceof Error ? err.message : 'The masks could not be applied.');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 bg-black/60 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label={`Mask page ${pageNumber}`}>
+      <div className="bg-white rounded-xl shadow-xl max-w-4xl w-full max-h-full flex flex-col">
+        <div className="px-4 py-3 border-b border-slate-200">
+          <h3 className="font-semibold text-slate-700">Mask identifiers on page {pageNumber}</h3>
+          <p className="text-xs text-slate-500">Drag over names, record numbers, addresses or barcodes. Masked regions are painted black before the page is sent to the model. Click a box to remove it.</p>
+        </div>
+        <div className="flex-1 overflow-auto p-4 flex justify-center bg-slate-100">
+          <div
+            ref={surfaceRef}
+            onPointerDown={startDraw}
+            onPointerMove={draw}
+            onPointerUp={endDraw}
+            className="relative inline-block cursor-crosshair select-none touch-none"
+          >
+            <img src={page.unmaskedUrl ?? page.previewUrl} alt={`Page ${pageNumber}`} draggable={false} className="block max-h-[70vh] max-w-full" />
+            {masks.map((mask, index) => (
+              <button
+                key={index}
+                onPointerDown={event => event.stopPropagation()}
+                onClick={() => setMasks(prev => prev.filter((_, i) => i !== index))}
+                style={boxStyle(mask)}
+                className="absolute bg-black/80 hover:bg-red-700/70"
+                aria-label={`Remove mask ${index + 1}`}
+              />
+            ))}
+            {draft && <div style={boxStyle(draft)} className="absolute border-2 border-dashed border-teal-400 bg-black/40 pointer-events-none" />}
+          </div>
+        </div>
+        <div className="px-4 py-3 border-t border-slate-200 flex items-center justify-between gap-3">
+          <span className="text-xs text-slate-500">{masks.length} masked region{masks.length === 1 ? '' : 's'}</span>
+          {saveError && <span className="text-xs text-red-600">{saveError}</span>}
+          <div className="flex gap-2">
+            {masks.length > 0 && <button onClick={() => setMasks([])} className="px-3 py-1.5 text-sm text-slate-600 hover:text-slate-800 underline">Clear all</button>}
+            <button onClick={onClose} className="px-3 py-1.5 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50">Cancel</button>
+            <button onClick={save} disabled={isSaving} className="px-4 py-1.5 text-sm font-semibold text-white bg-teal-600 rounded-md hover:bg-teal-700 disabled:bg-slate-400">{isSaving ? 'Applying…' : 'Apply masks'}</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PageMaskEditor;
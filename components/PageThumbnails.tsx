@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import type { DocumentPage, SourceSpan } from '../types';
+import { describePageSource, maskPage } from '../services/documentPages';
+import PageMaskEditor from './PageMaskEditor';
+
+interface PageThumbnailsProps {
+  pages: DocumentPage[];
+  onChange: (pages: DocumentPage[]) => void;
+  onAddFiles: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  isReading: boolean;
+  /** Evidence boxes to draw; `page` is the 1-based position in `pages`. */
+  highlights?: SourceSpan[];
+}
+
+const controlClass = 'bg-black bg-opacity-50 text-white rounded-full w-7 h-7 flex items-center justify-center hover:bg-opacity-75 disabled:opacity-20 disabled:cursor-not-allowed';
+
+// Boxes are [ymin, xmin, ymax, xmax] on a 0–1000 scale, so they map straight onto percentages of the image.
+const boxStyle = ([ymin, xmin, ymax, xmax]: [number, number, number, number]): React.CSSProperties => ({
+  top: `${ymin / 10}%`,
+  left: `${xmin / 10}%`,
+  height: `${(ymax - ymin) / 10}%`,
+  width: `${(xmax - xmin) / 10}%`,
+});
+
+const PageThumbnails: React.FC<PageThumbnailsProps> = ({ pages, onChange, onAddFiles, isReading, highlights = [] }) => {
+  const [maskingId, setMaskingId] = useState<string | null>(null);
+  const maskingIndex = pages.findIndex(page => page.id === maskingId);
+
+  const move = (index: number, offset: number) => {
+    const next = [...pages];
+    const [page] = next.splice(index, 1);
+    next.splice(index + offset, 0, page);
+    onChange(next);
+  };
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+        {pages.map((page, index) => (
+          <figure key={page.id} className="relative group border border-slate-200 rounded-lg overflow-hidden bg-slate-50">
+            <div className="h-40 flex items-center justify-center bg-white">
+              <div className="relative inline-block">
+                <img src={page.previewUrl} alt={`Page ${index + 1}`} className="block max-h-40 max-w-full" />
+                {highlights
+                  .filter(span => span.box && (span.page ?? 1) === index + 1)
+                  .map((span, spanIndex) => (
+                    <div key={spanIndex} title={span.quote} style={boxStyle(span.box!)} className="absolute border-2 border-yellow-400 bg-yellow-300/30 rounded-sm pointer-events-none" />
+                  ))}
+              </div>
+            </div>
+            <figcaption className="px-2 py-1 text-xs text-slate-600 border-t border-slate-200">
+              <span className="font-semibold">Page {index + 1}</span>
+              {page.masks && <span className="ml-1 text-slate-500">· {page.masks.length} masked</span>}
+              <span className="block truncate text-slate-400" title={describePageSource(page)}>{describePageSource(page)}</span>
+            </figcaption>
+            <div className="absolute top-2 inset-x-2 flex justify-between opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+              <div className="flex gap-1">
+                <button onClick={() => move(index, -1)} disabled={index === 0} className={controlClass} aria-label={`Move page ${index + 1} earlier`}>←</button>
+                <button onClick={() => move(index, 1)} disabled={index === pages.length - 1} className={controlClass} aria-label={`Move page ${index + 1} later`}>→</button>
+              </div>
+              <div className="flex gap-1">
+                <button onClick={() => setMaskingId(page.id)} className={controlClass} title="Mask identifiers" aria-label={`Mask identifiers on page ${index + 1}`}>▮</button>
+                <button onClick={() => onChange(pages.filter(other => other.id !== page.id))} className={controlClass} aria-label={`Remove page ${index + 1}`}>×</button>
+              </div>
+            </div>
+          </figure>
+        ))}
+
+        <label htmlFor="file-upload-more" className="flex flex-col items-center justify-center h-full min-h-[12rem] border-2 border-dashed border-slate-300 rounded-lg cursor-pointer bg-slate-50 hover:bg-slate-100 transition-colors text-sm text-slate-500">
+          {isReading ? 'Reading…' : <><span className="text-2xl">+</span>Add pages</>}
+          <input id="file-upload-more" type="file" className="hidden" accept="image/*,application/pdf" multiple onChange={onAddFiles} />
+        </label>
+      </div>
+      <p className="mt-2 text-xs text-slate-400">All pages are analyzed together as one case, in the order shown. Use ▮ on a page to black out patient identifiers before it is sent.</p>
+      {maskingIndex !== -1 && (
+        <PageMaskEditor
+          page={pages[maskingIndex]}
+          pageNumber={maskingIndex + 1}
+          onSave={async masks => {
+            const masked = await maskPage(pages[maskingIndex], masks);
+            onChange(pages.map(page => (page.id === masked.id ? masked : page)));
+          }}
+          onClose={() => setMaskingId(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PageThumbnails;
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { ALLERGY_REACTIONS, type Allergy, type PatientContext, type PregnancyStatus, type Sex } from '../types';
+import { emptyPatientContext, isPatientContextEmpty } from '../services/patientContext';
+
+interface PatientContextFormProps {
+  value: PatientContext;
+  onChange: (value: PatientContext) => void;
+}
+
+const inputClass = 'mt-1 w-full p-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-teal-500 focus:border-teal-500';
+
+const toOptionalNumber = (text: string): number | undefined => (text.trim() && !isNaN(Number(text)) ? Number(text) : undefined);
+
+const PatientContextForm: React.FC<PatientContextFormProps> = ({ value, onChange }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [newAllergy, setNewAllergy] = useState<Allergy>({ substance: '', reaction: 'unknown' });
+
+  const set = <K extends keyof PatientContext>(key: K, next: PatientContext[K]) => onChange({ ...value, [key]: next });
+
+  const addAllergy = () => {
+    if (!newAllergy.substance.trim()) return;
+    set('allergies', [...value.allergies, { ...newAllergy, substance: newAllergy.substance.trim() }]);
+    setNewAllergy({ substance: '', reaction: 'unknown' });
+  };
+
+  const filled = !isPatientContextEmpty(value);
+  const needsWeight = value.paediatric && !value.weightKg;
+
+  return (
+    <div className="mt-6 border border-slate-200 rounded-lg">
+      <button onClick={() => setIsOpen(open => !open)} className="w-full flex justify-between items-center px-4 py-3 text-sm font-semibold text-slate-600 hover:bg-slate-50 rounded-lg">
+        <span>Patient Context {filled ? <span className="ml-2 text-xs font-normal text-teal-600">(provided)</span> : <span className="ml-2 text-xs font-normal text-slate-400">(optional)</span>}</span>
+        <svg xmlns="http://www.w3.org/2000/svg" className={`h-4 w-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" /></svg>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4 text-sm">
+          <label className="flex items-center text-slate-600">
+            <input type="checkbox" checked={value.paediatric ?? false} onChange={e => set('paediatric', e.target.checked || undefined)} className="mr-2 rounded text-teal-600 focus:ring-teal-500" />
+            Paediatric patient: check doses per kg and per m² against paediatric ranges
+          </label>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <label className="text-slate-600">Age (years{value.paediatric ? '; 0.5 = 6 months' : ''})
+              <input type="number" min="0" step="any" value={value.age ?? ''} onChange={e => set('age', toOptionalNumber(e.target.value))} className={inputClass} />
+            </label>
+            <label className="text-slate-600">Sex
+              <select value={value.sex ?? ''} onChange={e => set('sex', (e.target.value || undefined) as Sex | undefined)} className={inputClass}>
+                <option value="">Not recorded</option>
+                <option value="female">Female</option>
+                <option value="male">Male</option>
+              </select>
+            </label>
+            <label className="text-slate-600">Weight (kg){value.paediatric && <span className="text-red-600"> *</span>}
+              <input type="number" min="0" step="0.1" value={value.weightKg ?? ''} onChange={e => set('weightKg', toOptionalNumber(e.target.value))} className={`${inputClass} ${needsWeight ? 'border-red-400' : ''}`} />
+              {needsWeight && <span className="block mt-1 text-xs text-red-600">Required for paediatric dosing</span>}
+            </label>
+            <label className="text-slate-600">Height (cm)
+              <input type="number" min="0" value={value.heightCm ?? ''} onChange={e => set('heightCm', toOptionalNumber(e.target.value))} className={inputClass} />
+              {value.paediatric && <span className="block mt-1 text-xs text-slate-400">Optional; for mg/m² doses</span>}
+            </label>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+            <label className="text-slate-600">Pregnancy
+              <select value={value.pregnancy} onChange={e => set('pregnancy', e.target.value as PregnancyStatus)} className={inputClass}>
+                <option value="unknown">Unknown / not applicable</option>
+                <option value="not-pregnant">Not pregnant</option>
+                <option value="pregnant">Pregnant</option>
+              </select>
+            </label>
+            {value.pregnancy === 'pregnant' && (
+              <label className="text-slate-600">Gestation (weeks)
+                <input type="number" min="0" max="45" value={value.gestationWeeks ?? ''} onChange={e => set('gestationWeeks', toOptionalNumber(e.target.value))} className={inputClass} />
+              </label>
+            )}
+            <label className="flex items-center text-slate-600 pb-2">
+              <input type="checkbox" checked={value.lactating} onChange={e => set('lactating', e.target.checked)} className="mr-2 rounded text-teal-600 focus:ring-teal-500" />
+              Breastfeeding
+            </label>
+          </div>
+
+          <div>
+            <p className="text-slate-600">Allergies</p>
+            {value.allergies.length > 0 && (
+              <ul className="mt-1 flex flex-wrap gap-2">
+                {value.allergies.map((allergy, index) => (
+                  <li key={index} className="flex items-center px-2 py-1 bg-red-50 border border-red-200 text-red-800 rounded-full text-xs">
+                    {allergy.substance} · {allergy.reaction}
+                    <button onClick={() => set('allergies', value.allergies.filter((_, i) => i !== index))} className="ml-1 text-red-500 hover:text-red-700" aria-label={`Remove ${allergy.substance}`}>×</button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="mt-2 flex gap-2">
+              <input
+                value={newAllergy.substance}
+                onChange={e => setNewAllergy(prev => ({ ...prev, substance: e.target.value }))}
+                onKeyDown={e => { if (e.key === 'Enter') addAllergy(); }}
+                placeholder="e.g. Penicillin"
+                className={`${inputClass} mt-0 flex-1`}
+              />
+              <select value={newAllergy.reaction} onChange={e => setNewAllergy(prev => ({ ...prev, reaction: e.target.value as Allergy['reaction'] }))} className={`${inputClass} mt-0 w-40`}>
+                {ALLERGY_REACTIONS.map(reaction => <option key={reaction} value={reaction}>{reaction}</option>)}
+              </select>
+              <button onClick={addAllergy} className="px-3 py-2 bg-slate-200 text-slate-700 rounded-md hover:bg-slate-300">Add</button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <label className="text-slate-600">Diagnoses (one per line)
+              <textarea value={value.diagnoses.join('\n')} onChange={e => set('diagnoses', e.target.value.split('\n'))} className={`${inputClass} h-20`} placeholder={'e.g. Atrial fibrillation\nCKD stage 4'} />
+            </label>
+            <label className="text-slate-600">Current home medications (one per line)
+              <textarea value={value.homeMedications.join('\n')} onChange={e => set('homeMedications', e.target.value.split('\n'))} className={`${inputClass} h-20`} placeholder="e.g. Warfarin 5 mg daily" />
+            </label>
+          </div>
+
+          {filled && (
+            <div className="text-right">
+              <button onClick={() => onChange(emptyPatientContext)} className="text-xs text-slate-500 hover:text-slate-700 underline">Clear patient context</button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PatientContextForm;
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import type { InstitutionalPolicy } from '../types';
+import { datedFileName, downloadFile } from '../services/download';
+import { clearPolicy, describePolicy, parsePolicyFile, savePolicy } from '../services/policy';
+import { UploadIcon } from './Icons';
+
+interface PolicySettingsProps {
+  policy: InstitutionalPolicy | null;
+  onChange: (policy: InstitutionalPolicy | null) => void;
+}
+
+const RuleTable: React.FC<{ title: string; columns: string[]; rows: string[][] }> = ({ title, columns, rows }) =>
+  rows.length === 0 ? null : (
+    <div className="mt-4">
+      <h4 className="text-sm font-semibold text-slate-700 mb-1">{title} <span className="font-normal text-slate-400">({rows.length})</span></h4>
+      <table className="w-full text-sm border border-slate-200">
+        <thead className="bg-slate-50 text-left text-xs text-slate-500">
+          <tr>{columns.map(column => <th key={column} className="px-2 py-1 font-semibold">{column}</th>)}</tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => (
+            <tr key={index} className="border-t border-slate-100">{row.map((cell, i) => <td key={i} className="px-2 py-1 align-top">{cell}</td>)}</tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+/** Imports, shows and removes the hospital's formulary and local prescribing rules; stored in this browser only. */
+const PolicySettings: React.FC<PolicySettingsProps> = ({ policy, onChange }) => {
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const importFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setImportError(null);
+    try {
+      const imported = parsePolicyFile(await file.text(), file.name);
+      await savePolicy(imported);
+      onChange(imported);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'The policy file could not be imported.');
+    }
+  };
+
+  const remove = async () => {
+    try {
+      await clearPolicy();
+      onChange(null);
+    } catch (err) {
+      console.error("Could not remove the institutional policy", err);
+      setImportError('The policy could not be removed.');
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg">
+      <h2 className="text-xl font-semibold mb-2 text-slate-600">Institutional policy</h2>
+      <p className="text-sm text-slate-500 mb-4">
+        Import your hospital's formulary, restricted drugs, preferred substitutes and local renal protocols as JSON or CSV (see the README for the format).
+        Every analysis then checks the drug list against them and includes them in the prompt; breaches appear in the Error Analysis tab as "Institutional Policy" findings.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center px-4 py-2 text-sm font-medium text-teal-700 bg-teal-50 border border-teal-200 rounded-md hover:bg-teal-100 cursor-pointer">
+          <UploadIcon className="w-4 h-4 mr-2" />
+          {policy ? 'Replace policy…' : 'Import policy…'}
+          <input type="file" accept=".json,.csv,application/json,text/csv" onChange={importFile} className="hidden" />
+        </label>
+        {policy && (
+          <>
+            <button onClick={() => downloadFile(datedFileName('institutional-policy', 'json'), JSON.stringify(policy, null, 2), 'application/json')} className="px-4 py-2 text-sm font-medium text-slate-600 bg-white border border-slate-300 rounded-md hover:bg-slate-50">Download as JSON</button>
+            <button onClick={remove} className="px-4 py-2 text-sm font-medium text-red-700 bg-white border border-red-200 rounded-md hover:bg-red-50">Remove policy</button>
+          </>
+        )}
+      </div>
+      {importError && <p className="mt-3 text-sm text-red-600">{importError}</p>}
+
+      {policy ? (
+        <div className="mt-6">
+          <p className="text-sm text-slate-700"><strong className="font-semibold">{describePolicy(policy)}</strong> <span className="text-slate-400">· imported {new Date(policy.importedAt).toLocaleString()}</span></p>
+          {policy.formulary.length > 0 ? (
+            <div className="mt-4">
+              <h4 className="text-sm font-semibold text-slate-700 mb-1">Formulary <span className="font-normal text-slate-400">({policy.formulary.length})</span></h4>
+              <p className="text-sm text-slate-600">{policy.formulary.join(', ')}</p>
+            </div>
+          ) : (
+            <p className="mt-4 text-xs text-slate-500">No formulary list: drugs are not checked for formulary status.</p>
+          )}
+          <RuleTable title="Restricted drugs" columns={['Drug', 'Approval', 'Note']} rows={policy.restricted.map(entry => [entry.drug, entry.approval, entry.note ?? ''])} />
+          <RuleTable title="Therapeutic substitutions" columns={['Drug', 'Substitute', 'Note']} rows={policy.substitutions.map(entry => [entry.drug, entry.substitute, entry.note ?? ''])} />
+          <RuleTable title="Local renal protocols" columns={['Drug', 'Below eGFR', 'Protocol']} rows={policy.renalProtocols.map(entry => [entry.drug, String(entry.belowEgfr), entry.note])} />
+        </div>
+      ) : (
+        <p className="mt-6 text-sm text-slate-500">No policy is loaded; analyses use the bundled guidelines and rules only.</p>
+      )}
+    </div>
+  );
+};
+
+export default PolicySettings;
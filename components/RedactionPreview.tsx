@@ -0,0 +1,114 @@
+import React, { useMemo, useState } from 'react';
+import { detectPhi, pseudonymize, redactionKey, resolveRedactions, type RedactionSettings } from '../services/deidentify';
+import type { PhiCategory } from '../types';
+
+interface RedactionPreviewProps {
+  text: string;
+  settings: RedactionSettings;
+  onChange: (settings: RedactionSettings) => void;
+}
+
+const categoryLabels: Record<PhiCategory, string> = {
+  name: 'Name',
+  id: 'Record number',
+  date: 'Date',
+  phone: 'Phone',
+  email: 'Email',
+  other: 'Custom',
+};
+
+/**
+ * Shows which identifiers will be replaced by placeholders before the text is sent, and lets the reviewer
+ * send a detected value unchanged or redact something the patterns missed.
+ */
+const RedactionPreview: React.FC<RedactionPreviewProps> = ({ text, settings, onChange }) => {
+  const [term, setTerm] = useState<string>('');
+  const detected = useMemo(() => detectPhi(text), [text]);
+  const redactions = useMemo(() => resolveRedactions(text, settings, detected), [text, settings, detected]);
+  const preview = useMemo(() => pseudonymize(text, redactions).text, [text, redactions]);
+
+  // One chip per distinct identifier, however often it appears.
+  const identifiers = useMemo(() => {
+    const byKey = new Map<string, { value: string; category: PhiCategory; count: number }>();
+    for (const redaction of detected) {
+      const key = redactionKey(text, redaction);
+      const entry = byKey.get(key);
+      if (entry) entry.count++;
+      else byKey.set(key, { value: text.slice(redaction.start, redaction.end), category: redaction.category, count: 1 });
+    }
+    return [...byKey];
+  }, [text, detected]);
+
+  const toggle = (key: string) => onChange({
+    ...settings,
+    excluded: settings.excluded.includes(key) ? settings.excluded.filter(other => other !== key) : [...settings.excluded, key],
+  });
+
+  const addTerm = () => {
+    const value = term.trim();
+    if (!value || settings.added.includes(value)) return;
+    onChange({ ...settings, added: [...settings.added, value] });
+    setTerm('');
+  };
+
+  return (
+    <div className="mt-3 p-3 bg-slate-50 border border-slate-200 rounded-md text-sm">
+      <label className="flex items-center font-semibold text-slate-600">
+        <input type="checkbox" checked={settings.enabled} onChange={e => onChange({ ...settings, enabled: e.target.checked })} className="mr-2 rounded text-teal-600 focus:ring-teal-500" />
+        De-identify before sending
+      </label>
+      {settings.enabled ? (
+        <>
+          <p className="mt-1 text-xs text-slate-500">Identifiers are replaced by placeholders such as [NAME-1] before the text leaves this browser, and put back into the results locally. Click an identifier to send it unchanged.</p>
+          {identifiers.length > 0 ? (
+            <div className="mt-2 flex flex-wrap gap-1.5">
+              {identifiers.map(([key, { value, category, count }]) => {
+                const isExcluded = settings.excluded.includes(key);
+                return (
+                  <button
+                    key={key}
+                    onClick={() => toggle(key)}
+                    title={isExcluded ? 'Will be sent unchanged; click to redact' : 'Will be redacted; click to send unchanged'}
+                    className={`px-2 py-0.5 text-xs rounded-full border ${isExcluded ? 'bg-white text-slate-400 border-slate-300 line-through' : 'bg-amber-100 text-amber-900 border-amber-300'}`}
+                  >{categoryLabels[category]}: {value}{count > 1 && ` ×${count}`}</button>
+                );
+              })}
+            </div>
+          ) : (
+            text.trim() && <p className="mt-2 text-xs text-slate-400">No identifiers were detected. Add any the patterns missed below.</p>
+          )}
+          {settings.added.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-1.5">
+              {settings.added.map(value => (
+                <span key={value} className="px-2 py-0.5 text-xs rounded-full bg-amber-100 text-amber-900 border border-amber-300">
+                  {categoryLabels.other}: {value}
+                  <button onClick={() => onChange({ ...settings, added: settings.added.filter(other => other !== value) })} className="ml-1 font-bold" aria-label={`Stop redacting ${value}`}>×</button>
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="mt-2 flex gap-2">
+            <input
+              value={term}
+              onChange={e => setTerm(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') addTerm(); }}
+              placeholder="Also redact, e.g. an address or ward name"
+              className="flex-1 p-1.5 border border-slate-300 rounded-md text-xs focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+            />
+            <button onClick={addTerm} disabled={!term.trim()} className="px-3 text-xs font-medium text-teal-700 bg-white border border-teal-200 rounded-md hover:bg-teal-50 disabled:opacity-50">Redact</button>
+          </div>
+          {text.trim() && (
+            <details className="mt-2">
+              <summary className="cursor-pointer text-xs text-slate-500">Preview the text that will be sent</summary>
+              <pre className="mt-1 p-2 max-h-48 overflow-y-auto bg-white border border-slate-200 rounded text-xs whitespace-pre-wrap font-sans">{preview}</pre>
+            </details>
+          )}
+        </>
+      ) : (
+        <p className="mt-1 text-xs text-orange-700">The text will be sent to the model exactly as entered, including any patient identifiers.</p>
+      )}
+    </div>
+  );
+};
+
+export default RedactionPreview;
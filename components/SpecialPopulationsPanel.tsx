@@ -0,0 +1,117 @@
+import React, { useMemo } from 'react';
+import type { DrugInfo, LabValue, PatientContext, RiskLevel } from '../types';
+import { OLDER_ADULT_AGE, SPECIAL_POPULATION_CRITERIA_VERSION } from '../services/knowledge/specialPopulationCriteria';
+import { screenSpecialPopulations, type SpecialPopulationFinding, type SpecialPopulationSection } from '../services/specialPopulations';
+
+interface SpecialPopulationsPanelProps {
+  drugs: DrugInfo[];
+  labs: LabValue[];
+  patientContext?: PatientContext;
+}
+
+const riskStyles: Record<RiskLevel, string> = {
+  High: 'bg-red-100 text-red-800 border-red-400',
+  Moderate: 'bg-yellow-100 text-yellow-800 border-yellow-400',
+  Low: 'bg-blue-100 text-blue-800 border-blue-400',
+};
+
+const sectionTitles: Record<SpecialPopulationSection, string> = {
+  'Beers 2023': 'Beers Criteria 2023 — potentially inappropriate medications',
+  'STOPP v2': 'STOPP v2 — potentially inappropriate prescriptions',
+  'START v2': 'START v2 — potential prescribing omissions',
+  Pregnancy: 'Pregnancy',
+  Lactation: 'Breastfeeding',
+};
+
+const emptyText: Record<SpecialPopulationSection, string> = {
+  'Beers 2023': 'No Beers criteria were met.',
+  'STOPP v2': 'No STOPP criteria were met.',
+  'START v2': 'No START omissions were found.',
+  Pregnancy: 'None of the drugs is in the pregnancy risk table.',
+  Lactation: 'None of the drugs is in the lactation risk table.',
+};
+
+const FindingCard: React.FC<{ finding: SpecialPopulationFinding }> = ({ finding }) => (
+  <div className={`p-3 rounded-lg border-l-4 ${riskStyles[finding.riskLevel]}`}>
+    <div className="flex justify-between items-start gap-2">
+      <p className="font-semibold text-sm">
+        {finding.kind === 'omission' ? 'Omission' : finding.drugNames.join(', ')}
+        {finding.kind === 'omission' && finding.drugNames.length > 0 && <span className="font-normal"> (with {finding.drugNames.join(', ')})</span>}
+      </p>
+      <div className="flex items-center gap-2 shrink-0">
+        <span className="px-2 py-0.5 text-xs font-mono rounded bg-white/70 border border-slate-300 text-slate-700">{finding.criterionId}</span>
+        <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${riskStyles[finding.riskLevel]}`}>{finding.riskLevel} Risk</span>
+      </div>
+    </div>
+    <p className="mt-1 text-sm">{finding.description}</p>
+    <p className="mt-1 text-sm"><strong className="font-semibold">Recommendation:</strong> {finding.recommendation}</p>
+  </div>
+);
+
+/** Beers, STOPP/START and pregnancy and lactation screening of the drug list, shown in the Special populations tab. */
+const SpecialPopulationsPanel: React.FC<SpecialPopulationsPanelProps> = ({ drugs, labs, patientContext }) => {
+  const screen = useMemo(() => (patientContext ? screenSpecialPopulations(drugs, patientContext, labs) : undefined), [drugs, labs, patientContext]);
+
+  const intro = (
+    <p className="text-xs text-slate-500">
+      Screened locally against bundled Beers 2023, STOPP/START v2 and pregnancy and lactation tables (criteria v{SPECIAL_POPULATION_CRITERIA_VERSION}),
+      using the drug list, home medications, diagnoses and eGFR. A drug that is not flagged has not thereby been shown to be safe.
+    </p>
+  );
+
+  if (!screen) {
+    return (
+      <div className="space-y-3">
+        {intro}
+        <p className="text-slate-500 text-sm">No patient context was provided. Enter the age, pregnancy status or breastfeeding before analysing to screen for special populations.</p>
+      </div>
+    );
+  }
+
+  const { age, gestationWeeks } = patientContext!;
+  const sections: { section: SpecialPopulationSection; applies: boolean }[] = [
+    { section: 'Beers 2023', applies: screen.olderAdult },
+    { section: 'STOPP v2', applies: screen.olderAdult },
+    { section: 'START v2', applies: screen.olderAdult },
+    { section: 'Pregnancy', applies: screen.pregnant },
+    { section: 'Lactation', applies: screen.lactating },
+  ];
+  const screened = sections.filter(({ applies }) => applies);
+
+  return (
+    <div className="space-y-4">
+      {intro}
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-slate-700">
+        <span>Age: {age !== undefined ? `${age} years` : <span className="text-slate-400">not recorded</span>}</span>
+        <span>Pregnancy: {screen.pregnant ? `pregnant${gestationWeeks ? ` (${gestationWeeks} weeks)` : ', gestation not recorded'}` : <span className="text-slate-400">not pregnant or not recorded</span>}</span>
+        <span>Breastfeeding: {screen.lactating ? 'yes' : <span className="text-slate-400">no</span>}</span>
+        <span>eGFR: {screen.egfr !== undefined ? Math.round(screen.egfr) : <span className="text-slate-400">unknown; renal criteria skipped</span>}</span>
+      </div>
+
+      {screened.length === 0 && (
+        <p className="text-slate-500 text-sm p-4 bg-slate-50 border border-slate-200 rounded-md">
+          No special-population screen applies: Beers and STOPP/START are for patients aged {OLDER_ADULT_AGE} and over, and the pregnancy and
+          lactation tables need pregnancy or breastfeeding to be recorded in the patient context.
+        </p>
+      )}
+
+      {screened.map(({ section }) => {
+        const findings = screen.findings.filter(finding => finding.section === section);
+        return (
+          <div key={section}>
+            <h4 className="font-bold text-slate-800 mb-2">{sectionTitles[section]} <span className="font-normal text-sm text-slate-500">({findings.length})</span></h4>
+            {findings.length > 0 ? (
+              <div className="space-y-2">
+                {findings.map(finding => <FindingCard key={finding.criterionId} finding={finding} />)}
+              </div>
+            ) : (
+              <p className="text-slate-500 text-sm p-3 bg-green-50 border border-green-200 rounded-md">{emptyText[section]}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SpecialPopulationsPanel;
@@ -0,0 +1,133 @@
+import React from 'react';
+import type { StructuredRecord } from '../services/importers';
+import { describePatientContext } from '../services/patientContext';
+
+interface StructuredImportInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  record: StructuredRecord | null;
+  parseError: string | null;
+}
+
+const headerClass = 'px-3 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider';
+const cellClass = 'px-3 py-2 text-sm text-slate-700';
+
+const formatLabels: Record<StructuredRecord['format'], string> = {
+  fhir: 'FHIR R4',
+  hl7v2: 'HL7 v2',
+};
+
+const StructuredImportInput: React.FC<StructuredImportInputProps> = ({ value, onChange, record, parseError }) => {
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) onChange(await file.text());
+  };
+
+  const contextLines = record ? describePatientContext(record.patientContext) : [];
+
+  return (
+    <div>
+      <textarea
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        className="w-full h-40 p-3 font-mono text-xs border border-slate-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 transition-shadow"
+        placeholder={'Paste a FHIR Bundle (JSON) or an HL7 v2 RDE/ORU message, e.g.\nMSH|^~\\&|PHARM|HOSP|...|RDE^O11|...'}
+        spellCheck={false}
+      />
+      <div className="mt-1 flex justify-between items-center text-xs text-slate-500">
+        <label className="cursor-pointer text-teal-600 hover:text-teal-700 underline">
+          Load from file
+          <input type="file" className="hidden" accept=".json,.hl7,.txt,application/json,application/fhir+json,text/plain" onChange={handleFile} />
+        </label>
+        <span>Parsed in this browser; only the extracted data below is sent for analysis.</span>
+      </div>
+
+      {parseError && <p className="mt-3 text-sm text-red-600">{parseError}</p>}
+
+      {record && (
+        <div className="mt-4 space-y-4">
+          <p className="text-sm font-semibold text-slate-600">
+            {formatLabels[record.format]} preview: {record.medications.length} medication{record.medications.length === 1 ? '' : 's'}, {record.labs.length} lab result{record.labs.length === 1 ? '' : 's'}
+          </p>
+
+          {contextLines.length > 0 && (
+            <div className="p-3 bg-slate-50 border border-slate-200 rounded-md text-sm">
+              <p className="font-semibold text-slate-600 mb-1">Patient details (merged into the patient context; values entered in the form take precedence)</p>
+              <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-0.5">
+                {contextLines.map(([label, text]) => (
+                  <div key={label} className="flex"><dt className="text-slate-500 shrink-0 mr-2">{label}:</dt><dd className="text-slate-700">{text}</dd></div>
+                ))}
+              </dl>
+            </div>
+          )}
+
+          {record.medications.length > 0 && (
+            <div className="overflow-x-auto border border-slate-200 rounded-md">
+              <table className="min-w-full divide-y divide-slate-200">
+                <thead className="bg-slate-50">
+                  <tr>
+                    <th scope="col" className={headerClass}>Medication</th>
+                    <th scope="col" className={headerClass}>Dose</th>
+                    <th scope="col" className={headerClass}>Route</th>
+                    <th scope="col" className={headerClass}>Frequency</th>
+                    <th scope="col" className={headerClass}>Instructions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-slate-200">
+                  {record.medications.map((medication, index) => (
+                    <tr key={index}>
+                      <td className={`${cellClass} font-medium`}>{medication.name}</td>
+                      <td className={cellClass}>{medication.dose ?? '—'}</td>
+                      <td className={cellClass}>{medication.route ?? '—'}</td>
+                      <td className={cellClass}>{medication.frequency ?? '—'}</td>
+                      <td className={cellClass}>{medication.instructions ?? '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {record.labs.length > 0 && (
+            <div className="overflow-x-auto border border-slate-200 rounded-md">
+              <table className="min-w-full divide-y divide-slate-200">
+                <thead className="bg-slate-50">
+                  <tr>
+                    <th scope="col" className={headerClass}>Test</th>
+                    <th scope="col" className={headerClass}>Result</th>
+                    <th scope="col" className={headerClass}>Reference</th>
+                    <th scope="col" className={headerClass}>Flag</th>
+                    <th scope="col" className={headerClass}>Observed</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-slate-200">
+                  {record.labs.map((lab, index) => (
+                    <tr key={index}>
+                      <td className={`${cellClass} font-medium`}>
+                        {lab.parameter}
+                        {lab.code && <span className="block text-xs font-normal text-slate-400">{lab.code}</span>}
+                      </td>
+                      <td className={cellClass}>{`${lab.value} ${lab.unit}`.trim()}</td>
+                      <td className={cellClass}>{lab.referenceRange ?? '—'}</td>
+                      <td className={cellClass}>{lab.flag ?? '—'}</td>
+                      <td className={cellClass}>{lab.observedAt ?? '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {record.warnings.length > 0 && (
+            <ul className="text-xs text-orange-700 list-disc list-inside">
+              {record.warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StructuredImportInput;
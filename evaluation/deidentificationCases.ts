@@ -0,0 +1,65 @@
+import type { PhiCategory } from '../types';
+
+export interface DeidentificationCase {
+  id: string;
+  text: string;
+  /** Identifiers that must be replaced, each exactly as it appears in the text. */
+  redacted: { value: string; category: PhiCategory }[];
+  /** Clinical text that must be sent unchanged. */
+  kept: string[];
+}
+
+/**
+ * Inputs for `detectPhi` with what it must and must not redact. They run offline with every `npm run eval`; add a case
+ * for each identifier format that got through, or clinical text that was redacted by mistake.
+ */
+export const DEIDENTIFICATION_CASES: DeidentificationCase[] = [
+  {
+    id: 'labelled-name-and-mrn',
+    text: 'Patient: Mary Jones, MRN 40112233. Warfarin 5 mg daily.',
+    redacted: [{ value: 'Mary Jones', category: 'name' }, { value: '40112233', category: 'id' }],
+    kept: ['Warfarin 5 mg daily'],
+  },
+  {
+    id: 'email-and-date',
+    text: 'Seen 12/03/2026. GP email: surgery.reception@example.nhs.uk. Amlodipine 10 mg daily.',
+    redacted: [{ value: '12/03/2026', category: 'date' }, { value: 'surgery.reception@example.nhs.uk', category: 'email' }],
+    kept: ['Amlodipine 10 mg daily'],
+  },
+  {
+    id: 'uk-mobile-spaced',
+    text: 'Contact daughter on 07700 900123 if any concerns.',
+    redacted: [{ value: '07700 900123', category: 'phone' }],
+    kept: ['if any concerns'],
+  },
+  {
+    id: 'uk-mobile-unspaced',
+    text: 'Contact daughter on 07700900123 if any concerns.',
+    redacted: [{ value: '07700900123', category: 'phone' }],
+    kept: ['if any concerns'],
+  },
+  {
+    id: 'international-mobile',
+    text: 'Next of kin: +44 7700 900123.',
+    redacted: [{ value: '+44 7700 900123', category: 'phone' }],
+    kept: ['Next of kin'],
+  },
+  {
+    id: 'landline-with-area-code',
+    text: 'Pharmacy (020) 7946 0958, open until 6pm.',
+    redacted: [{ value: '(020) 7946 0958', category: 'phone' }],
+    kept: ['open until 6pm'],
+  },
+  {
+    id: 'dose-digit-run',
+    text: 'Heparin 1000 1000 1000 units at 08:00, 14:00 and 20:00.',
+    redacted: [],
+    kept: ['1000 1000 1000 units'],
+  },
+  {
+    id: 'short-numbers',
+    text: 'Metformin 500 mg BD. eGFR 45, HbA1c 62 mmol/mol, BP 142 88.',
+    redacted: [],
+    kept: ['Metformin 500 mg BD. eGFR 45, HbA1c 62 mmol/mol, BP 142 88.'],
+  },
+];
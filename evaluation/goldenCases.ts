@@ -0,0 +1,140 @@
+import type { PatientContext, RiskLevel } from '../types';
+import { emptyPatientContext } from '../services/patientContext';
+
+export const FINDING_CATEGORIES = ['interaction', 'dose', 'contraindication', 'duplication', 'allergy', 'monitoring', 'other'] as const;
+export type FindingCategory = typeof FINDING_CATEGORIES[number];
+
+export interface ExpectedFinding {
+  category: FindingCategory;
+  riskLevel: RiskLevel;
+  /** Ingredients a returned finding must name to count as this one. */
+  drugs: string[];
+  /** What a reviewer would expect flagged, for the report. */
+  description: string;
+}
+
+export interface GoldenCase {
+  id: string;
+  text: string;
+  patientContext?: PatientContext;
+  /** Every finding a competent pharmacist would raise; an empty list makes the case a false-positive check. */
+  expected: ExpectedFinding[];
+}
+
+const context = (details: Partial<PatientContext>): PatientContext => ({ ...emptyPatientContext, ...details });
+
+/**
+ * Curated scenarios with the findings they must produce. Keep each case to one or two clear problems so a miss is
+ * unambiguous, and include negative controls: a plausible regimen with nothing to flag.
+ */
+export const GOLDEN_CASES: GoldenCase[] = [
+  {
+    id: 'metformin-egfr-25',
+    text: 'Rx: Metformin 1 g PO BD for type 2 diabetes. Labs today: eGFR 25 mL/min/1.73m2, HbA1c 62 mmol/mol.',
+    patientContext: context({ age: 74, sex: 'female', diagnoses: ['Type 2 diabetes', 'CKD stage 4'] }),
+    expected: [
+      { category: 'contraindication', riskLevel: 'High', drugs: ['metformin'], description: 'Metformin contraindicated at eGFR 25' },
+    ],
+  },
+  {
+    id: 'warfarin-aspirin',
+    text: 'Warfarin 5 mg PO once daily (AF). Aspirin 75 mg PO once daily. INR 2.6.',
+    expected: [
+      { category: 'interaction', riskLevel: 'High', drugs: ['warfarin', 'aspirin'], description: 'Bleeding risk from warfarin with aspirin' },
+    ],
+  },
+  {
+    id: 'simvastatin-clarithromycin',
+    text: 'Simvastatin 40 mg PO at night. New: Clarithromycin 500 mg PO BD for 7 days for community-acquired pneumonia.',
+    expected: [
+      { category: 'interaction', riskLevel: 'High', drugs: ['simvastatin', 'clarithromycin'], description: 'Myopathy risk: CYP3A4 inhibition raises simvastatin levels' },
+    ],
+  },
+  {
+    id: 'sildenafil-nitrate',
+    text: 'Isosorbide mononitrate MR 60 mg PO mane for angina. Sildenafil 50 mg PO as required before sexual activity.',
+    patientContext: context({ age: 68, sex: 'male', diagnoses: ['Stable angina'] }),
+    expected: [
+      { category: 'interaction', riskLevel: 'High', drugs: ['sildenafil'], description: 'Severe hypotension with a PDE5 inhibitor and a nitrate' },
+    ],
+  },
+  {
+    id: 'tramadol-sertraline',
+    text: 'Sertraline 100 mg PO daily. Tramadol 100 mg PO QDS for back pain.',
+    expected: [
+      { category: 'interaction', riskLevel: 'Moderate', drugs: ['tramadol', 'sertraline'], description: 'Serotonin syndrome and seizure risk' },
+    ],
+  },
+  {
+    id: 'spironolactone-ace-hyperkalaemia',
+    text: 'Lisinopril 20 mg PO daily. Spironolactone 50 mg PO daily. Potassium 5.9 mmol/L, creatinine 168 umol/L.',
+    patientContext: context({ age: 81, sex: 'male', diagnoses: ['Heart failure'] }),
+    expected: [
+      { category: 'interaction', riskLevel: 'High', drugs: ['lisinopril', 'spironolactone'], description: 'Hyperkalaemia with an ACE inhibitor and spironolactone at K 5.9' },
+    ],
+  },
+  {
+    id: 'paracetamol-q4h',
+    text: 'Paracetamol 1 g PO every 4 hours regularly.',
+    patientContext: context({ age: 45, weightKg: 70 }),
+    expected: [
+      { category: 'dose', riskLevel: 'High', drugs: ['paracetamol'], description: '6 g/day exceeds the 4 g/day maximum' },
+    ],
+  },
+  {
+    id: 'methotrexate-daily',
+    text: 'Methotrexate 10 mg PO once daily for rheumatoid arthritis. Folic acid 5 mg PO once weekly.',
+    expected: [
+      { category: 'dose', riskLevel: 'High', drugs: ['methotrexate'], description: 'Methotrexate prescribed daily instead of weekly' },
+    ],
+  },
+  {
+    id: 'levothyroxine-tenfold',
+    text: 'Levothyroxine 1000 micrograms PO once daily for hypothyroidism. TSH 3.1 mU/L.',
+    expected: [
+      { category: 'dose', riskLevel: 'High', drugs: ['levothyroxine'], description: 'Tenfold levothyroxine dose' },
+    ],
+  },
+  {
+    id: 'ibuprofen-ckd',
+    text: 'Ibuprofen 400 mg PO TDS for knee pain. eGFR 22 mL/min/1.73m2.',
+    patientContext: context({ age: 79, diagnoses: ['CKD stage 4'] }),
+    expected: [
+      { category: 'contraindication', riskLevel: 'High', drugs: ['ibuprofen'], description: 'NSAID in severe renal impairment' },
+    ],
+  },
+  {
+    id: 'penicillin-allergy-amoxicillin',
+    text: 'Amoxicillin 500 mg PO TDS for 5 days for a chest infection.',
+    patientContext: context({ age: 52, allergies: [{ substance: 'Penicillin', reaction: 'anaphylaxis' }] }),
+    expected: [
+      { category: 'allergy', riskLevel: 'High', drugs: ['amoxicillin'], description: 'Amoxicillin in a patient with penicillin anaphylaxis' },
+    ],
+  },
+  {
+    id: 'dual-ppi',
+    text: 'Omeprazole 20 mg PO daily. Pantoprazole 40 mg PO daily started on admission.',
+    expected: [
+      { category: 'duplication', riskLevel: 'Moderate', drugs: ['omeprazole', 'pantoprazole'], description: 'Two proton pump inhibitors' },
+    ],
+  },
+  {
+    id: 'dual-dihydropyridine',
+    text: 'Amlodipine 10 mg PO daily. Nifedipine MR 30 mg PO daily.',
+    expected: [
+      { category: 'duplication', riskLevel: 'Moderate', drugs: ['amlodipine', 'nifedipine'], description: 'Two dihydropyridine calcium channel blockers' },
+    ],
+  },
+  {
+    id: 'control-cardiovascular',
+    text: 'Amlodipine 5 mg PO daily. Atorvastatin 20 mg PO at night. Ramipril 5 mg PO daily. eGFR 78 mL/min/1.73m2, potassium 4.3 mmol/L.',
+    patientContext: context({ age: 63, sex: 'male', diagnoses: ['Hypertension', 'Hypercholesterolaemia'] }),
+    expected: [],
+  },
+  {
+    id: 'control-diabetes',
+    text: 'Metformin 500 mg PO BD with meals. eGFR 82 mL/min/1.73m2, HbA1c 54 mmol/mol.',
+    patientContext: context({ age: 58, sex: 'female', diagnoses: ['Type 2 diabetes'] }),
+    expected: [],
+  },
+];
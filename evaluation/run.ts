@@ -0,0 +1,184 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { loadDotEnv } from '../server/env';
+import { analyzeHealthText, setAnalysisProvider } from '../services/analysisService';
+import { getAnalysisConfig } from '../services/config';
+import { detectPhi } from '../services/deidentify';
+import { createAnalysisProvider } from '../services/providers';
+import { createReplayProvider, withRecording } from '../services/providers/replayProvider';
+import { DEIDENTIFICATION_CASES, type DeidentificationCase } from './deidentificationCases';
+import { FINDING_CATEGORIES, GOLDEN_CASES, type GoldenCase } from './goldenCases';
+import { buildReport, scoreCase, type CaseOutcome, type CategoryScore, type EvaluationReport } from './scoring';
+
+// Headless runner for the golden cases. Usage (see the README):
+//   npm run eval -- [--replay | --record] [--case <id>]... [--label <text>] [--out <report.json>] [--baseline <report.json>]
+
+const RECORDINGS_DIR = path.resolve('evaluation/recordings');
+
+interface Recording {
+  caseId: string;
+  provider: string;
+  recordedAt: string;
+  /** Raw model responses in call order, including any rejected by validation. */
+  responses: string[];
+}
+
+interface RunOptions {
+  mode: 'live' | 'replay' | 'record';
+  caseIds: string[];
+  label?: string;
+  out?: string;
+  baseline?: string;
+}
+
+function parseArgs(args: string[]): RunOptions {
+  const options: RunOptions = { mode: 'live', caseIds: [] };
+  for (let i = 0; i < args.length; i++) {
+    const value = () => {
+      if (i + 1 >= args.length) throw new Error(`${args[i]} needs a value.`);
+      return args[++i];
+    };
+    switch (args[i]) {
+      case '--replay': options.mode = 'replay'; break;
+      case '--record': options.mode = 'record'; break;
+      case '--case': options.caseIds.push(value()); break;
+      case '--label': options.label = value(); break;
+      case '--out': options.out = value(); break;
+      case '--baseline': options.baseline = value(); break;
+      default: throw new Error(`Unknown option "${args[i]}".`);
+    }
+  }
+  return options;
+}
+
+const recordingPath = (caseId: string) => path.join(RECORDINGS_DIR, `${caseId}.json`);
+
+async function runCase(goldenCase: GoldenCase, mode: RunOptions['mode']): Promise<{ outcome: CaseOutcome; ruleBaseVersion?: string }> {
+  const responses: string[] = [];
+  if (mode === 'replay') {
+    if (!existsSync(recordingPath(goldenCase.id))) throw new Error('no recording for this case; run it once with --record');
+    const recording: Recording = JSON.parse(readFileSync(recordingPath(goldenCase.id), 'utf8'));
+    setAnalysisProvider(createReplayProvider(recording.responses, `replay of ${recording.provider}`));
+  } else if (mode === 'record') {
+    setAnalysisProvider(withRecording(createAnalysisProvider(), text => responses.push(text)));
+  }
+
+  const result = await analyzeHealthText(goldenCase.text, goldenCase.patientContext);
+  if (mode === 'record') {
+    const recording: Recording = { caseId: goldenCase.id, provider: getAnalysisConfig().provider, recordedAt: new Date().toISOString(), responses };
+    mkdirSync(RECORDINGS_DIR, { recursive: true });
+    writeFileSync(recordingPath(goldenCase.id), `${JSON.stringify(recording, null, 2)}\n`);
+  }
+  return { outcome: scoreCase(goldenCase, result.potentialErrors), ruleBaseVersion: result.ruleBaseVersion };
+}
+
+/** What `detectPhi` got wrong for a case: identifiers it left in, or clinical text it redacted. */
+function checkDeidentification({ text, redacted, kept }: DeidentificationCase): string[] {
+  const redactions = detectPhi(text);
+  const problems: string[] = [];
+  for (const { value, category } of redacted) {
+    const start = text.indexOf(value);
+    if (!redactions.some(redaction => redaction.start === start && redaction.end === start + value.length && redaction.category === category)) {
+      const found = redactions.filter(redaction => redaction.start < start + value.length && redaction.end > start).map(redaction => `"${text.slice(redaction.start, redaction.end)}" (${redaction.category})`);
+      problems.push(`  not redacted as ${category}: "${value}"${found.length > 0 ? `; found ${found.join(', ')}` : ''}`);
+    }
+  }
+  for (const value of kept) {
+    const start = text.indexOf(value);
+    for (const redaction of redactions.filter(redaction => redaction.start < start + value.length && redaction.end > start)) {
+      problems.push(`  redacted as ${redaction.category}: "${text.slice(redaction.start, redaction.end)}"`);
+    }
+  }
+  return problems;
+}
+
+const percent = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+
+function withDelta(current: number | null, previous: number | null | undefined): string {
+  if (current === null || previous === null || previous === undefined) return percent(current);
+  const delta = Math.round((current - previous) * 100);
+  return delta === 0 ? percent(current) : `${percent(current)} (${delta > 0 ? '+' : ''}${delta})`;
+}
+
+function formatScoreRow(name: string, score: CategoryScore, baseline?: CategoryScore): string {
+  return [
+    name.padEnd(18),
+    String(score.expected).padStart(8),
+    String(score.returned).padStart(9),
+    withDelta(score.precision, baseline?.precision).padStart(14),
+    withDelta(score.recall, baseline?.recall).padStart(14),
+    withDelta(score.riskAccuracy, baseline?.riskAccuracy).padStart(14),
+  ].join('');
+}
+
+function formatReport(report: EvaluationReport, baseline?: EvaluationReport): string {
+  const lines = [
+    `Golden cases: ${report.cases.length} · provider ${report.provider}${report.label ? ` · ${report.label}` : ''}${report.ruleBaseVersion ? ` · rules v${report.ruleBaseVersion}` : ''}`,
+    ...(baseline ? [`Compared with ${baseline.label ?? baseline.provider} (${baseline.runAt}); changes in percentage points.`] : []),
+    '',
+    `${'category'.padEnd(18)}${'expected'.padStart(8)}${'returned'.padStart(9)}${'precision'.padStart(14)}${'recall'.padStart(14)}${'risk level'.padStart(14)}`,
+    ...FINDING_CATEGORIES
+      .filter(category => report.categories[category].expected > 0 || report.categories[category].returned > 0)
+      .map(category => formatScoreRow(category, report.categories[category], baseline?.categories[category])),
+    formatScoreRow('overall', report.overall, baseline?.overall),
+    `Category agreement on matched findings: ${withDelta(report.overall.categoryAccuracy, baseline?.overall.categoryAccuracy)}`,
+  ];
+
+  for (const outcome of report.cases) {
+    const problems = [
+      ...(outcome.error ? [`  failed: ${outcome.error}`] : []),
+      ...outcome.missed.map(miss => `  missed (${miss.category}, ${miss.riskLevel}): ${miss.description}`),
+      ...outcome.matched.filter(match => !match.riskCorrect).map(match => `  risk ${match.finding.riskLevel}, expected ${match.expected.riskLevel}: ${match.expected.description}`),
+      ...outcome.unexpected.map(finding => `  unexpected (${finding.errorType}, ${finding.riskLevel}): ${finding.error}`),
+    ];
+    if (problems.length > 0) lines.push('', outcome.caseId, ...problems);
+  }
+  return lines.join('\n');
+}
+
+async function main(): Promise<number> {
+  loadDotEnv();
+  const options = parseArgs(process.argv.slice(2));
+
+  // De-identification needs no model, so it is checked on every run.
+  const deidentification = DEIDENTIFICATION_CASES.map(deidCase => ({ id: deidCase.id, problems: checkDeidentification(deidCase) }));
+  const deidFailures = deidentification.filter(outcome => outcome.problems.length > 0);
+  console.log(`De-identification: ${deidentification.length - deidFailures.length} of ${deidentification.length} cases pass`);
+  for (const outcome of deidFailures) console.log([outcome.id, ...outcome.problems].join('\n'));
+  console.log('');
+
+  const unknown = options.caseIds.filter(id => !GOLDEN_CASES.some(goldenCase => goldenCase.id === id));
+  if (unknown.length > 0) throw new Error(`Unknown case id(s): ${unknown.join(', ')}.`);
+  const cases = options.caseIds.length > 0 ? GOLDEN_CASES.filter(goldenCase => options.caseIds.includes(goldenCase.id)) : GOLDEN_CASES;
+
+  const outcomes: CaseOutcome[] = [];
+  let ruleBaseVersion: string | undefined;
+  for (const goldenCase of cases) {
+    process.stderr.write(`${goldenCase.id}… `);
+    try {
+      const run = await runCase(goldenCase, options.mode);
+      outcomes.push(run.outcome);
+      ruleBaseVersion ??= run.ruleBaseVersion;
+      process.stderr.write('done\n');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      outcomes.push({ caseId: goldenCase.id, matched: [], missed: goldenCase.expected, unexpected: [], error: message });
+      process.stderr.write(`failed: ${message}\n`);
+    }
+  }
+
+  const provider = options.mode === 'replay' ? 'replay' : getAnalysisConfig().provider;
+  const report = buildReport(outcomes, { label: options.label, provider, ruleBaseVersion });
+  const baseline: EvaluationReport | undefined = options.baseline ? JSON.parse(readFileSync(options.baseline, 'utf8')) : undefined;
+  console.log(formatReport(report, baseline));
+  if (options.out) writeFileSync(options.out, `${JSON.stringify(report, null, 2)}\n`);
+  return outcomes.some(outcome => outcome.error) || deidFailures.length > 0 ? 1 : 0;
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(2);
+  }
+);
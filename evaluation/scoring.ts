@@ -0,0 +1,122 @@
+import type { PotentialError } from '../types';
+import { containsTerm, ingredientTerms } from '../services/terminology';
+import { FINDING_CATEGORIES, type ExpectedFinding, type FindingCategory, type GoldenCase } from './goldenCases';
+
+export interface MatchedFinding {
+  expected: ExpectedFinding;
+  finding: PotentialError;
+  categoryCorrect: boolean;
+  riskCorrect: boolean;
+}
+
+export interface CaseOutcome {
+  caseId: string;
+  matched: MatchedFinding[];
+  missed: ExpectedFinding[];
+  /** Returned findings that match nothing expected. */
+  unexpected: PotentialError[];
+  /** Set when the analysis itself failed; every expected finding then counts as missed. */
+  error?: string;
+}
+
+export interface CategoryScore {
+  expected: number;
+  /** Returned findings classified into this category. */
+  returned: number;
+  /** Expected findings that were found. */
+  found: number;
+  /** Returned findings that match an expected one. */
+  correct: number;
+  /** null when there is nothing to divide by. */
+  precision: number | null;
+  recall: number | null;
+  /** Share of found findings given the expected risk level. */
+  riskAccuracy: number | null;
+}
+
+export interface EvaluationReport {
+  label?: string;
+  provider: string;
+  runAt: string;
+  ruleBaseVersion?: string;
+  cases: CaseOutcome[];
+  categories: Record<FindingCategory, CategoryScore>;
+  overall: CategoryScore & { categoryAccuracy: number | null };
+}
+
+// Checked in order: "Duplicate therapy (interaction risk)" is a duplication.
+const categoryPatterns: [FindingCategory, RegExp][] = [
+  ['allergy', /allerg|hypersensitiv|anaphyla/],
+  ['duplication', /duplicat|same (class|ingredient)|therapeutic overlap/],
+  ['interaction', /interact/],
+  ['contraindication', /contraindicat|renal|hepatic|disease|caution/],
+  ['dose', /dose|dosing|frequency|overdose|duration|strength/],
+  ['monitoring', /monitor/],
+];
+
+/** Buckets the model's free-text `errorType` into a scoring category. */
+export function classifyFinding(finding: PotentialError): FindingCategory {
+  const errorType = finding.errorType.toLowerCase();
+  return categoryPatterns.find(([, pattern]) => pattern.test(errorType))?.[0] ?? 'other';
+}
+
+const namesDrug = (finding: PotentialError, ingredient: string) =>
+  ingredientTerms(ingredient).some(term => containsTerm(`${finding.errorType} ${finding.error} ${finding.explanation}`, term));
+
+/**
+ * Pairs returned findings with expected ones. A finding matches when it names every expected drug; among several,
+ * one of the expected category is preferred. Each finding is used at most once.
+ */
+export function scoreCase(goldenCase: GoldenCase, findings: PotentialError[]): CaseOutcome {
+  const unused = new Set(findings);
+  const matched: MatchedFinding[] = [];
+  const missed: ExpectedFinding[] = [];
+
+  for (const expected of goldenCase.expected) {
+    const candidates = [...unused].filter(finding => expected.drugs.every(drug => namesDrug(finding, drug)));
+    const finding = candidates.find(candidate => classifyFinding(candidate) === expected.category) ?? candidates[0];
+    if (!finding) {
+      missed.push(expected);
+      continue;
+    }
+    unused.delete(finding);
+    matched.push({
+      expected,
+      finding,
+      categoryCorrect: classifyFinding(finding) === expected.category,
+      riskCorrect: finding.riskLevel === expected.riskLevel,
+    });
+  }
+  return { caseId: goldenCase.id, matched, missed, unexpected: [...unused] };
+}
+
+const ratio = (part: number, whole: number) => (whole === 0 ? null : part / whole);
+
+function score(outcomes: CaseOutcome[], category?: FindingCategory): CategoryScore {
+  const inCategory = (value: FindingCategory) => !category || value === category;
+  const found = outcomes.flatMap(outcome => outcome.matched.filter(match => inCategory(match.expected.category)));
+  const correct = outcomes.flatMap(outcome => outcome.matched.filter(match => inCategory(classifyFinding(match.finding))));
+  const expected = found.length + outcomes.flatMap(outcome => outcome.missed.filter(miss => inCategory(miss.category))).length;
+  const returned = correct.length + outcomes.flatMap(outcome => outcome.unexpected.filter(finding => inCategory(classifyFinding(finding)))).length;
+  return {
+    expected,
+    returned,
+    found: found.length,
+    correct: correct.length,
+    precision: ratio(correct.length, returned),
+    recall: ratio(found.length, expected),
+    riskAccuracy: ratio(found.filter(match => match.riskCorrect).length, found.length),
+  };
+}
+
+/** Precision and recall per category (by the returned finding's category and the expected one respectively) and overall. */
+export function buildReport(outcomes: CaseOutcome[], run: Pick<EvaluationReport, 'label' | 'provider' | 'ruleBaseVersion'>): EvaluationReport {
+  const matches = outcomes.flatMap(outcome => outcome.matched);
+  return {
+    ...run,
+    runAt: new Date().toISOString(),
+    cases: outcomes,
+    categories: Object.fromEntries(FINDING_CATEGORIES.map(category => [category, score(outcomes, category)])) as Record<FindingCategory, CategoryScore>,
+    overall: { ...score(outcomes), categoryAccuracy: ratio(matches.filter(match => match.categoryCorrect).length, matches.length) },
+  };
+}
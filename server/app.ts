@@ -0,0 +1,141 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { AnalysisError, toAnalysisError, type AnalysisErrorCategory } from '../services/analysisErrors';
+import { getAnalysisConfig } from '../services/config';
+import { INTERACTION_KB_VERSION } from '../services/knowledge/interactionKnowledgeBase';
+import type { ServerConfig } from './config';
+import { HttpError, clientAddress, readJsonBody, sendJson, type ErrorBody } from './http';
+import { createRateLimiter } from './rateLimiter';
+import { routes } from './routes';
+
+interface Outcome {
+  status: number;
+  category?: AnalysisErrorCategory;
+}
+
+const statusByCategory: Record<AnalysisErrorCategory, number> = {
+  timeout: 504,
+  quota: 429,
+  schema: 502,
+  refusal: 422,
+  config: 500,
+  network: 502,
+  // Nginx's "client closed request"; only ever logged, as the client is gone.
+  cancelled: 499,
+  'invalid-request': 400,
+  unknown: 500,
+};
+
+function httpErrorCategory(status: number): AnalysisErrorCategory {
+  if (status === 429) return 'quota';
+  return status >= 400 && status < 500 ? 'invalid-request' : 'unknown';
+}
+
+function toErrorResponse(error: unknown): { status: number; body: ErrorBody; headers: Record<string, string> } {
+  if (error instanceof HttpError) {
+    return {
+      status: error.status,
+      body: { error: { category: httpErrorCategory(error.status), message: error.message } },
+      headers: error.retryAfterSeconds ? { 'Retry-After': String(error.retryAfterSeconds) } : {},
+    };
+  }
+  const analysisError = toAnalysisError(error);
+  return {
+    status: statusByCategory[analysisError.category],
+    body: { error: { category: analysisError.category, message: analysisError.message, details: analysisError.details } },
+    headers: {},
+  };
+}
+
+/**
+ * The HTTP API in front of the analysis service, which holds the model credentials so the browser never does.
+ * Bodies are never logged: they contain patient data.
+ */
+export function createApiServer(config: ServerConfig): Server {
+  const limiter = createRateLimiter(config.rateLimitPerMinute);
+
+  /** Serves one request and returns what to log; errors thrown before any output are answered by the caller. */
+  const handle = async (req: IncomingMessage, res: ServerResponse, client: string): Promise<Outcome> => {
+    const path = (req.url ?? '/').split('?')[0];
+    const origin = req.headers.origin;
+    if (origin && config.corsOrigins.includes(origin)) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, { 'Access-Control-Allow-Methods': 'GET, POST', 'Access-Control-Allow-Headers': 'Content-Type, Accept', 'Access-Control-Max-Age': '600' });
+      res.end();
+      return { status: 204 };
+    }
+
+    if (path === '/health') {
+      if (req.method !== 'GET') throw new HttpError(405, 'Use GET for /health.');
+      const analysis = getAnalysisConfig();
+      sendJson(res, 200, { status: 'ok', provider: analysis.provider, ruleBaseVersion: INTERACTION_KB_VERSION, uptimeSeconds: Math.round(process.uptime()) });
+      return { status: 200 };
+    }
+
+    const route = routes.find(candidate => candidate.path === path);
+    if (!route) throw new HttpError(404, `There is no ${path} endpoint.`);
+    if (req.method !== route.method) throw new HttpError(405, `Use ${route.method} for ${path}.`);
+    const decision = limiter.take(client);
+    if (!decision.allowed) {
+      throw new HttpError(429, `Too many requests to the analysis server. Try again in ${decision.retryAfterSeconds} seconds.`, decision.retryAfterSeconds);
+    }
+
+    const body = await readJsonBody(req, config.maxBodyBytes);
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) throw new HttpError(400, 'The request body must be a JSON object.');
+    // Every validation error is thrown here, while the response can still carry its status.
+    const run = route.prepare(body as Record<string, unknown>);
+
+    // The analysis stops (and the provider call is aborted) as soon as the client goes away.
+    const controller = new AbortController();
+    res.on('close', () => { if (!res.writableFinished) controller.abort(); });
+
+    if (!route.streams || !String(req.headers.accept ?? '').includes('application/x-ndjson')) {
+      sendJson(res, 200, await run({ signal: controller.signal }));
+      return { status: 200 };
+    }
+
+    // Progress is streamed as newline-delimited JSON from the first progress report, i.e. once the model has started
+    // to respond. Failures before then get a normal error response; failures after it become an "error" line.
+    let streaming = false;
+    const write = (line: unknown) => {
+      if (!streaming) res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-cache' });
+      streaming = true;
+      res.write(`${JSON.stringify(line)}\n`);
+    };
+    try {
+      const result = await run({ signal: controller.signal, onProgress: progress => write({ type: 'progress', progress }) });
+      write({ type: 'result', result });
+      return { status: 200 };
+    } catch (error) {
+      if (!streaming) throw error;
+      const { status, body: errorBody } = toErrorResponse(error);
+      write({ type: 'error', ...errorBody });
+      return { status, category: errorBody.error.category };
+    } finally {
+      if (streaming) res.end();
+    }
+  };
+
+  return createServer((req, res) => {
+    const startedAt = Date.now();
+    const client = clientAddress(req, config.trustProxy);
+    handle(req, res, client).then(
+      outcome => logLine(req, outcome, client, startedAt),
+      error => {
+        const { status, body, headers } = toErrorResponse(error);
+        if (!res.headersSent) sendJson(res, status, body, headers);
+        else res.end();
+        if (!(error instanceof HttpError) && !(error instanceof AnalysisError)) console.error(error);
+        logLine(req, { status, category: body.error.category }, client, startedAt);
+      }
+    );
+  });
+}
+
+/** One access-log line per request: time, method, path, status (the streamed outcome for progress streams), duration, client and error category. */
+function logLine(req: IncomingMessage, { status, category }: Outcome, client: string, startedAt: number): void {
+  const path = (req.url ?? '/').split('?')[0];
+  console.log(`${new Date().toISOString()} ${req.method} ${path} ${status} ${Date.now() - startedAt}ms ${client}${category ? ` ${category}` : ''}`);
+}
@@ -0,0 +1,25 @@
+export interface ServerConfig {
+  port: number;
+  host: string;
+  /** Analysis requests allowed per client per minute; the health endpoint is not limited. */
+  rateLimitPerMinute: number;
+  /** Largest accepted request body; uploaded pages arrive base64-encoded inside it. */
+  maxBodyBytes: number;
+  /** Origins allowed to call the API from a browser; empty to allow same-origin (or proxied) calls only. */
+  corsOrigins: string[];
+  /** Read the client address from X-Forwarded-For, for deployments behind a reverse proxy. */
+  trustProxy: boolean;
+}
+
+const positiveNumber = (value: string | undefined, fallback: number) => (Number(value) > 0 ? Number(value) : fallback);
+
+export function getServerConfig(): ServerConfig {
+  return {
+    port: positiveNumber(process.env.PORT, 8787),
+    host: process.env.HOST || '127.0.0.1',
+    rateLimitPerMinute: positiveNumber(process.env.RATE_LIMIT_PER_MINUTE, 30),
+    maxBodyBytes: positiveNumber(process.env.MAX_BODY_MB, 25) * 1024 * 1024,
+    corsOrigins: (process.env.CORS_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean),
+    trustProxy: process.env.TRUST_PROXY === 'true',
+  };
+}
@@ -0,0 +1,11 @@
+import { existsSync } from 'fs';
+
+/**
+ * Loads `.env.local` and then `.env` from the working directory, as Vite does; a variable that is already set, or set
+ * by the earlier file, is kept.
+ */
+export function loadDotEnv(files = ['.env.local', '.env']): void {
+  for (const file of files) {
+    if (existsSync(file)) process.loadEnvFile(file);
+  }
+}
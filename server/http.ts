@@ -0,0 +1,47 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { AnalysisErrorCategory } from '../services/analysisErrors';
+
+/** A request the server refuses before any analysis starts: bad input, unknown route, too large, too many. */
+export class HttpError extends Error {
+  readonly status: number;
+  readonly retryAfterSeconds?: number;
+
+  constructor(status: number, message: string, retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/** The error body every endpoint returns; `category` matches `AnalysisError` so clients can handle both the same way. */
+export interface ErrorBody {
+  error: { category: AnalysisErrorCategory; message: string; details?: string[] };
+}
+
+export async function readJsonBody(req: IncomingMessage, maxBytes: number): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > maxBytes) throw new HttpError(413, `The request body is larger than ${Math.round(maxBytes / 1024 / 1024)} MB.`);
+    chunks.push(chunk as Buffer);
+  }
+  if (size === 0) throw new HttpError(400, 'The request body is empty; send a JSON object.');
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'The request body is not valid JSON.');
+  }
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+/** Client address for logging and rate limiting; X-Forwarded-For is only trusted behind a configured proxy. */
+export function clientAddress(req: IncomingMessage, trustProxy: boolean): string {
+  const forwarded = trustProxy ? String(req.headers['x-forwarded-for'] ?? '').split(',')[0].trim() : '';
+  return forwarded || req.socket.remoteAddress || 'unknown';
+}
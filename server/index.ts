@@ -0,0 +1,15 @@
+import { getAnalysisConfig } from '../services/config';
+import { createApiServer } from './app';
+import { getServerConfig } from './config';
+import { loadDotEnv } from './env';
+
+// Entry point of `npm run server`. Settings are read from the environment, `.env.local` or `.env` (see the README).
+
+loadDotEnv();
+const config = getServerConfig();
+// Fail at start-up, not on the first request, when ANALYSIS_PROVIDER or CONSENSUS_PROVIDERS is wrong.
+const { provider } = getAnalysisConfig();
+
+createApiServer(config).listen(config.port, config.host, () => {
+  console.log(`Analysis API listening on http://${config.host}:${config.port} (provider: ${provider}, ${config.rateLimitPerMinute} requests/min per client)`);
+});
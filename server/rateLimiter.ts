@@ -0,0 +1,36 @@
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** Seconds until the client's window resets; set when the request is refused. */
+  retryAfterSeconds?: number;
+}
+
+export interface RateLimiter {
+  take(key: string, now?: number): RateLimitDecision;
+}
+
+/**
+ * Fixed-window limiter kept in memory: at most `limit` requests per key in each `windowMs`. Enough for a single
+ * server process; a deployment running several would need a shared store.
+ */
+export function createRateLimiter(limit: number, windowMs = 60_000): RateLimiter {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+
+  return {
+    take(key, now = Date.now()) {
+      // Drop expired windows as we go so the map does not grow with every client ever seen.
+      if (windows.size > 10_000) {
+        for (const [other, window] of windows) if (now - window.startedAt >= windowMs) windows.delete(other);
+      }
+      const window = windows.get(key);
+      if (!window || now - window.startedAt >= windowMs) {
+        windows.set(key, { startedAt: now, count: 1 });
+        return { allowed: true };
+      }
+      if (window.count >= limit) {
+        return { allowed: false, retryAfterSeconds: Math.ceil((window.startedAt + windowMs - now) / 1000) };
+      }
+      window.count++;
+      return { allowed: true };
+    },
+  };
+}
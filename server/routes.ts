@@ -0,0 +1,236 @@
+import {
+  analyzeHealthDocument,
+  analyzeHealthText,
+  analyzeStructuredRecord,
+  askFollowUp,
+  generatePatientLeaflet,
+  type AnalysisProgress,
+  type AnalysisRunOptions,
+  type FollowUpContext,
+  type FollowUpTurn,
+} from '../services/analysisService';
+import { parseStructuredImport, type StructuredRecord } from '../services/importers';
+import { emptyPatientContext, mergePatientContext } from '../services/patientContext';
+import {
+  ALLERGY_REACTIONS,
+  PHI_CATEGORIES,
+  READING_LEVELS,
+  type AnalysisResult,
+  type InstitutionalPolicy,
+  type PatientContext,
+  type PregnancyStatus,
+  type ReadingLevel,
+  type Sex,
+  type TextRedaction,
+} from '../types';
+import { HttpError } from './http';
+
+export interface RouteContext {
+  /** Aborted when the client disconnects before the response is complete. */
+  signal: AbortSignal;
+  /** Set when the client asked for a progress stream (`Accept: application/x-ndjson`). */
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+/** Runs the validated request. */
+export type RouteRun = (context: RouteContext) => Promise<unknown>;
+
+export interface Route {
+  method: 'POST';
+  path: string;
+  /** Whether the endpoint reports streamed progress when asked to. */
+  streams: boolean;
+  /** Reads and validates the whole body, throwing a 400 `HttpError`, before anything is sent back. */
+  prepare(body: Record<string, unknown>): RouteRun;
+}
+
+const MAX_CONSENSUS_RUNS = 5;
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function requireString(body: Record<string, unknown>, key: string): string {
+  const value = body[key];
+  if (typeof value !== 'string' || !value.trim()) throw new HttpError(400, `"${key}" must be a non-empty string.`);
+  return value;
+}
+
+const SEXES: Sex[] = ['male', 'female'];
+const PREGNANCY_STATUSES: PregnancyStatus[] = ['unknown', 'not-pregnant', 'pregnant'];
+
+/** Plausible bounds for the numeric patient details, in the units the form uses. */
+const patientContextRanges: [key: 'age' | 'weightKg' | 'heightCm' | 'gestationWeeks', min: number, max: number][] = [
+  ['age', 0, 130],
+  ['weightKg', 0.2, 500],
+  ['heightCm', 20, 275],
+  ['gestationWeeks', 0, 45],
+];
+
+/** Missing list fields default to empty, so an EHR can send just the values it has, e.g. `{ "age": 81, "weightKg": 62 }`. */
+function readPatientContext(value: unknown): PatientContext | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isObject(value)) throw new HttpError(400, '"patientContext" must be an object.');
+  const context = { ...emptyPatientContext, ...value } as PatientContext;
+  // These feed the prompt and the CrCl and paediatric dose checks, so a wrong type or unit must not get through.
+  for (const [key, min, max] of patientContextRanges) {
+    const number = context[key];
+    if (number === null) delete context[key];
+    else if (number !== undefined && (typeof number !== 'number' || !Number.isFinite(number) || number < min || number > max)) {
+      throw new HttpError(400, `"patientContext.${key}" must be a number from ${min} to ${max}.`);
+    }
+  }
+  if (context.sex === null) delete context.sex;
+  else if (context.sex !== undefined && !SEXES.includes(context.sex)) throw new HttpError(400, `"patientContext.sex" must be one of ${SEXES.join(', ')}.`);
+  if (!PREGNANCY_STATUSES.includes(context.pregnancy)) {
+    throw new HttpError(400, `"patientContext.pregnancy" must be one of ${PREGNANCY_STATUSES.join(', ')}.`);
+  }
+  for (const key of ['lactating', 'paediatric'] as const) {
+    if (context[key] !== undefined && typeof context[key] !== 'boolean') throw new HttpError(400, `"patientContext.${key}" must be true or false.`);
+  }
+  const validAllergies = Array.isArray(context.allergies)
+    && context.allergies.every(allergy => isObject(allergy) && typeof allergy.substance === 'string' && ALLERGY_REACTIONS.includes(allergy.reaction));
+  if (!validAllergies) throw new HttpError(400, `"patientContext.allergies" must be a list of { substance, reaction } with a reaction of ${ALLERGY_REACTIONS.join(', ')}.`);
+  for (const key of ['diagnoses', 'homeMedications'] as const) {
+    if (!Array.isArray(context[key]) || !context[key].every(item => typeof item === 'string')) {
+      throw new HttpError(400, `"patientContext.${key}" must be a list of strings.`);
+    }
+  }
+  return context;
+}
+
+function readPolicy(value: unknown): InstitutionalPolicy | null {
+  if (value === undefined || value === null) return null;
+  const lists = ['formulary', 'restricted', 'substitutions', 'renalProtocols'];
+  if (!isObject(value) || typeof value.name !== 'string' || lists.some(key => !Array.isArray(value[key]))) {
+    throw new HttpError(400, `"policy" must be an institutional policy object with a name and ${lists.join(', ')} lists.`);
+  }
+  return value as unknown as InstitutionalPolicy;
+}
+
+function readRunOptions(body: Record<string, unknown>): AnalysisRunOptions {
+  const runs = body.consensusRuns ?? 1;
+  if (!Number.isInteger(runs) || (runs as number) < 1 || (runs as number) > MAX_CONSENSUS_RUNS) {
+    throw new HttpError(400, `"consensusRuns" must be a whole number from 1 to ${MAX_CONSENSUS_RUNS}.`);
+  }
+  return { consensusRuns: runs as number, policy: readPolicy(body.policy) };
+}
+
+function readRedactions(value: unknown): TextRedaction[] {
+  if (value === undefined) return [];
+  const valid = Array.isArray(value) && value.every(item =>
+    isObject(item) && Number.isInteger(item.start) && Number.isInteger(item.end) && PHI_CATEGORIES.includes(item.category as TextRedaction['category']));
+  if (!valid) throw new HttpError(400, '"redactions" must be a list of { start, end, category } objects.');
+  return value as TextRedaction[];
+}
+
+function readPages(value: unknown): { data: string; mimeType: string }[] {
+  const valid = Array.isArray(value) && value.length > 0 && value.every(page =>
+    isObject(page) && typeof page.data === 'string' && page.data.length > 0 && typeof page.mimeType === 'string' && page.mimeType.startsWith('image/'));
+  if (!valid) throw new HttpError(400, '"pages" must be a non-empty list of { data, mimeType } images, with the data base64-encoded.');
+  return (value as { data: string; mimeType: string }[]).map(({ data, mimeType }) => ({ data, mimeType }));
+}
+
+function readResult(value: unknown): AnalysisResult {
+  const lists = ['potentialErrors', 'drugInformation', 'labInterpretation'];
+  if (!isObject(value) || lists.some(key => !Array.isArray(value[key]))) throw new HttpError(400, '"result" must be an analysis result.');
+  return value as unknown as AnalysisResult;
+}
+
+function readFollowUpContext(value: unknown): FollowUpContext {
+  if (!isObject(value) || !isObject(value.input) || typeof value.input.mode !== 'string') {
+    throw new HttpError(400, '"context" must hold the case "input" and its analysis "result".');
+  }
+  return {
+    input: value.input as unknown as FollowUpContext['input'],
+    patientContext: readPatientContext(value.patientContext),
+    result: readResult(value.result),
+    policy: readPolicy(value.policy),
+    pseudonymized: value.pseudonymized === true,
+    record: value.record === undefined ? undefined : readRecord(value.record),
+  };
+}
+
+function readHistory(value: unknown): FollowUpTurn[] {
+  if (value === undefined) return [];
+  const valid = Array.isArray(value) && value.every(turn => isObject(turn) && (turn.role === 'user' || turn.role === 'assistant') && typeof turn.text === 'string');
+  if (!valid) throw new HttpError(400, '"history" must be a list of { role, text } turns.');
+  return value as FollowUpTurn[];
+}
+
+function readStructuredRecord(message: string): StructuredRecord {
+  try {
+    return parseStructuredImport(message);
+  } catch (error) {
+    throw new HttpError(400, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/** A record already parsed by the caller, as the browser sends it so that the message's identifiers stay local. */
+function readRecord(value: unknown): StructuredRecord {
+  const lists = ['medications', 'labs', 'warnings'];
+  if (!isObject(value) || (value.format !== 'fhir' && value.format !== 'hl7v2') || lists.some(key => !Array.isArray(value[key]))) {
+    throw new HttpError(400, `"record" must be a parsed structured record with a format and ${lists.join(', ')} lists.`);
+  }
+  return { ...(value as unknown as StructuredRecord), patientContext: readPatientContext(value.patientContext) ?? emptyPatientContext };
+}
+
+/** The analysis endpoints. Each takes a JSON object and returns what the matching `analysisService` function returns. */
+export const routes: Route[] = [
+  {
+    method: 'POST',
+    path: '/analyze/text',
+    streams: true,
+    prepare: body => {
+      const text = requireString(body, 'text');
+      const patientContext = readPatientContext(body.patientContext);
+      const options = { ...readRunOptions(body), redactions: readRedactions(body.redactions), pseudonymized: body.pseudonymized === true };
+      return context => analyzeHealthText(text, patientContext, { ...options, ...context });
+    },
+  },
+  {
+    method: 'POST',
+    path: '/analyze/document',
+    streams: true,
+    prepare: body => {
+      const pages = readPages(body.pages);
+      const patientContext = readPatientContext(body.patientContext);
+      const options = readRunOptions(body);
+      return context => analyzeHealthDocument(pages, patientContext, { ...options, ...context });
+    },
+  },
+  {
+    // A FHIR Bundle or HL7 v2 message as sent by the EHR, or a `record` already parsed from one; the record's patient
+    // details fill any gaps in `patientContext`.
+    method: 'POST',
+    path: '/analyze/record',
+    streams: true,
+    prepare: body => {
+      const record = body.record !== undefined ? readRecord(body.record) : readStructuredRecord(requireString(body, 'message'));
+      const patientContext = readPatientContext(body.patientContext);
+      const options = readRunOptions(body);
+      return context => analyzeStructuredRecord(record, patientContext ? mergePatientContext(patientContext, record.patientContext) : record.patientContext, { ...options, ...context });
+    },
+  },
+  {
+    method: 'POST',
+    path: '/follow-up',
+    streams: false,
+    prepare: body => {
+      const followUpContext = readFollowUpContext(body.context);
+      const history = readHistory(body.history);
+      const question = requireString(body, 'question');
+      return ({ signal }) => askFollowUp(followUpContext, history, question, { signal });
+    },
+  },
+  {
+    method: 'POST',
+    path: '/leaflet',
+    streams: false,
+    prepare: body => {
+      const readingLevel = body.readingLevel ?? 'standard';
+      if (!READING_LEVELS.includes(readingLevel as ReadingLevel)) throw new HttpError(400, `"readingLevel" must be one of: ${READING_LEVELS.join(', ')}.`);
+      const language = typeof body.language === 'string' && body.language.trim() ? body.language.trim() : 'English';
+      const result = readResult(body.result);
+      return ({ signal }) => generatePatientLeaflet(result, { language, readingLevel: readingLevel as ReadingLevel }, { signal });
+    },
+  },
+];
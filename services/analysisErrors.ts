@@ -0,0 +1,43 @@
+/** `invalid-request` is a request the server rejected as malformed, oversized or misrouted; sending it again cannot help. */
+export type AnalysisErrorCategory = 'timeout' | 'quota' | 'schema' | 'refusal' | 'config' | 'network' | 'cancelled' | 'invalid-request' | 'unknown';
+
+/** Error surfaced to the UI; `category` lets callers explain what went wrong instead of a generic failure. */
+export class AnalysisError extends Error {
+  readonly category: AnalysisErrorCategory;
+  readonly details?: string[];
+
+  constructor(category: AnalysisErrorCategory, message: string, details?: string[]) {
+    super(message);
+    this.name = 'AnalysisError';
+    this.category = category;
+    this.details = details;
+  }
+}
+
+const refusalPattern = /\b(I can(?:no|')t|I(?:'m| am) (?:unable|not able)|cannot (?:assist|help|provide)|not able to (?:assist|help|provide))\b/i;
+
+export function looksLikeRefusal(text: string): boolean {
+  return !text.includes('{') && refusalPattern.test(text);
+}
+
+/** Maps whatever a provider threw onto an `AnalysisError`. */
+export function toAnalysisError(error: unknown): AnalysisError {
+  if (error instanceof AnalysisError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof error === 'object' && error !== null ? (error as { status?: unknown }).status : undefined;
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new AnalysisError('quota', "The model's usage quota or rate limit was reached. Wait a moment and try again.");
+  }
+  if (/API_KEY|ANALYSIS_PROVIDER/.test(message) || status === 401 || status === 403) {
+    return new AnalysisError('config', `The analysis provider is not configured correctly: ${message}`);
+  }
+  if ((error instanceof Error && error.name === 'AbortError') || /timed? ?out|deadline/i.test(message)) {
+    return new AnalysisError('timeout', 'The analysis took too long to complete. Try again, or shorten the input.');
+  }
+  if (error instanceof TypeError || /fetch|network/i.test(message)) {
+    return new AnalysisError('network', 'The analysis service could not be reached. Check your connection or the provider endpoint.');
+  }
+  return new AnalysisError('unknown', "Failed to analyze the document. The API could not process the request.");
+}
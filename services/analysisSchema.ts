@@ -0,0 +1,153 @@
+import { Type } from "@google/genai";
+import { DOSE_TIMES, LAB_STATUSES, LEAFLET_HEADINGS, READING_LEVELS, RISK_LEVELS } from '../types';
+
+const evidenceSchema = {
+  type: Type.ARRAY,
+  description: "Where this item is supported in the input. Quote the exact source text; never paraphrase.",
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      quote: { type: Type.STRING, description: "Verbatim text copied from the input (e.g. 'Metformin 1g BD')." },
+      start: { type: Type.INTEGER, description: "For text input, 0-based character offset where the quote starts." },
+      end: { type: Type.INTEGER, description: "For text input, character offset just after the quote." },
+      page: { type: Type.INTEGER, description: "For multi-page documents, the 1-based page the quote is on." },
+      box: {
+        type: Type.ARRAY,
+        items: { type: Type.NUMBER },
+        description: "For images, the bounding box of the quote as [ymin, xmin, ymax, xmax] normalized to 0-1000.",
+      },
+    },
+    required: ["quote"],
+  },
+};
+
+export const analysisSchema = {
+  type: Type.OBJECT,
+  properties: {
+    potentialErrors: {
+      type: Type.ARRAY,
+      description: "List of potential medication errors with clinical explanations.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          errorType: { type: Type.STRING, description: "Category of error (e.g., 'Drug-Drug Interaction', 'Incorrect Dose', 'Contraindication')." },
+          riskLevel: { type: Type.STRING, enum: [...RISK_LEVELS], description: "Clinical risk level of the error." },
+          error: { type: Type.STRING, description: "Concise description of the identified medication error." },
+          explanation: { type: Type.STRING, description: "Detailed clinical rationale for the error, referencing guidelines (e.g., WHO, KDIGO) and patient data (e.g., lab values) where applicable." },
+          evidence: evidenceSchema,
+        },
+        required: ["errorType", "riskLevel", "error", "explanation"],
+      },
+    },
+    drugInformation: {
+      type: Type.ARRAY,
+      description: "Professional explanation for each prescribed drug.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          drugName: { type: Type.STRING, description: "Generic and (if available) brand name." },
+          drugClass: { type: Type.STRING, description: "Pharmacological class of the drug." },
+          mechanismOfAction: { type: Type.STRING, description: "Brief explanation of how the drug works." },
+          indication: { type: Type.STRING, description: "Primary reason for prescription." },
+          prescribedDose: { type: Type.STRING, description: "Dose and frequency found in the document." },
+          standardDose: { type: Type.STRING, description: "Typical standard dose for the indication." },
+          adverseEffects: { type: Type.STRING, description: "Common and significant adverse effects." },
+          monitoring: { type: Type.STRING, description: "Key lab parameters or signs to monitor." },
+          precautions: { type: Type.STRING, description: "Important precautions (e.g., pregnancy, renal/hepatic impairment)." },
+          sourcePage: { type: Type.INTEGER, description: "For multi-page documents, the 1-based page number where the drug appears. Omit for text input." },
+          evidence: evidenceSchema,
+        },
+        required: ["drugName", "drugClass", "mechanismOfAction", "indication", "prescribedDose", "standardDose", "adverseEffects", "monitoring", "precautions"],
+      },
+    },
+    labInterpretation: {
+      type: Type.ARRAY,
+      description: "Interpretation of lab values found in the document.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          parameter: { type: Type.STRING, description: "Name of the lab parameter (e.g., 'Creatinine', 'Hemoglobin')." },
+          value: { type: Type.STRING, description: "The reported value of the lab parameter." },
+          unit: { type: Type.STRING, description: "The unit of measurement (e.g., 'mg/dL', 'g/dL')." },
+          status: { type: Type.STRING, enum: [...LAB_STATUSES], description: "Status of the lab value." },
+          interpretation: { type: Type.STRING, description: "Clinical significance of the value and its potential impact on drug therapy." },
+          sourcePage: { type: Type.INTEGER, description: "For multi-page documents, the 1-based page number where the value appears. Omit for text input." },
+          evidence: evidenceSchema,
+        },
+        required: ["parameter", "value", "unit", "status", "interpretation"],
+      },
+    },
+  },
+  required: ["potentialErrors", "drugInformation", "labInterpretation"],
+};
+
+export const followUpSchema = {
+  type: Type.OBJECT,
+  properties: {
+    reply: { type: Type.STRING, description: "Plain-text answer to the pharmacist's question." },
+    updatedAnalysis: {
+      ...analysisSchema,
+      description: "The complete revised analysis, only when the question changes the assumptions or the current analysis needs correcting. Omit otherwise.",
+    },
+  },
+  required: ["reply"],
+};
+
+/**
+ * Converts the Gemini-flavoured schema (upper-case `Type` values) into plain JSON Schema
+ * for backends that accept a standard `response_format`.
+ */
+export function toJsonSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (schema && typeof schema === 'object') {
+    return Object.fromEntries(
+      Object.entries(schema).map(([key, value]) => [
+        key,
+        key === 'type' && typeof value === 'string' ? value.toLowerCase() : toJsonSchema(value),
+      ])
+    );
+  }
+  return schema;
+}
+
+const plainList = (description: string) => ({ type: Type.ARRAY, items: { type: Type.STRING }, description });
+
+export const leafletSchema = {
+  type: Type.OBJECT,
+  properties: {
+    language: { type: Type.STRING, description: "The language the leaflet is written in." },
+    readingLevel: { type: Type.STRING, enum: [...READING_LEVELS], description: "The reading level the leaflet was written for." },
+    title: { type: Type.STRING, description: "Leaflet heading in the target language, e.g. 'Your medicines'." },
+    headings: {
+      type: Type.OBJECT,
+      description: "Short headings in the target language for: the medicine column; morning, noon, evening and night; what it is for; how to take it; side effects; get help urgently if; food and alcohol; general advice.",
+      properties: Object.fromEntries(LEAFLET_HEADINGS.map(heading => [heading, { type: Type.STRING }])),
+      required: [...LEAFLET_HEADINGS],
+    },
+    drugs: {
+      type: Type.ARRAY,
+      description: "One entry per medicine, in the order given.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          drugName: { type: Type.STRING, description: "The medicine name as the patient will see it on the box; keep the generic name." },
+          purpose: { type: Type.STRING, description: "What the medicine is for, in everyday words." },
+          howToTake: { type: Type.STRING, description: "How and when to take it, e.g. with food, swallow whole." },
+          schedule: {
+            type: Type.OBJECT,
+            description: "What to take at each time of day, e.g. '1 tablet'. Use an empty string when nothing is taken at that time.",
+            properties: Object.fromEntries(DOSE_TIMES.map(time => [time, { type: Type.STRING }])),
+            required: [...DOSE_TIMES],
+          },
+          scheduleNote: { type: Type.STRING, description: "Only for doses that do not fit a daily schedule, e.g. 'only when needed for pain' or 'once a week'." },
+          sideEffects: plainList("Common side effects and what to do about them."),
+          seekHelpIf: plainList("Warning signs that need urgent medical help."),
+          foodAndAlcohol: plainList("Interactions with food, drink, alcohol or over-the-counter products."),
+        },
+        required: ["drugName", "purpose", "howToTake", "schedule", "sideEffects", "seekHelpIf", "foodAndAlcohol"],
+      },
+    },
+    generalAdvice: plainList("Short advice that applies to all the medicines, e.g. keep a list, do not share them."),
+  },
+  required: ["language", "readingLevel", "title", "headings", "drugs", "generalAdvice"],
+};
@@ -0,0 +1,475 @@
+import { LAB_STATUSES, RISK_LEVELS, type AnalysisResult, type InstitutionalPolicy, type PatientContext, type PatientLeaflet, type ReadingLevel, type SavedCase, type TextRedaction } from '../types';
+import { AnalysisError, looksLikeRefusal, toAnalysisError } from './analysisErrors';
+import { analysisSchema, followUpSchema, leafletSchema } from './analysisSchema';
+import { parseModelJson, validateAnalysisResult, validateFollowUpReply, validatePatientLeaflet, type ValidationOutcome } from './analysisValidator';
+import { getAnalysisConfig } from './config';
+import { mergeConsensusRuns, type ConsensusRun } from './consensus';
+import { applyPlaceholders, pseudonymize, pseudonymizeStrings, reidentify } from './deidentify';
+import { resolveEvidence } from './evidence';
+import { crossCheckFindings } from './interactionEngine';
+import { formatStructuredRecordForPrompt, parseStructuredImport, type StructuredRecord } from './importers';
+import { formatPatientContextForPrompt, isPatientContextEmpty, normalizePatientContext } from './patientContext';
+import { readPartialAnalysis, type PartialAnalysis } from './partialAnalysis';
+import { formatPolicyForPrompt } from './policy';
+import { createAnalysisProvider, type AnalysisContents, type AnalysisProvider } from './providers';
+
+export { AnalysisError } from './analysisErrors';
+export type { AnalysisErrorCategory } from './analysisErrors';
+
+const MAX_ATTEMPTS = 3;
+
+export interface AnalysisProgress extends PartialAnalysis {
+  /** 1-based; a new attempt starts from an empty response after the previous one failed validation. */
+  attempt: number;
+  maxAttempts: number;
+  /** Set in consensus mode; the streamed sections are those of the first run. */
+  consensus?: { completedRuns: number; totalRuns: number };
+}
+
+export interface AnalysisRunOptions {
+  /** Cancels the run; the analysis then rejects with a 'cancelled' `AnalysisError`. */
+  signal?: AbortSignal;
+  /** Streams the response and reports the sections received so far. */
+  onProgress?: (progress: AnalysisProgress) => void;
+  /** Runs the analysis this many times and merges the findings by agreement; 1 or unset for a single run. */
+  consensusRuns?: number;
+  /** The hospital's formulary and local rules: added to the prompt and checked by the rule engine. */
+  policy?: InstitutionalPolicy | null;
+}
+
+/** Run options plus the patient context, which the rules need before the result is returned. */
+type AnalysisCallOptions = AnalysisRunOptions & { patientContext?: PatientContext };
+
+export interface TextAnalysisOptions extends AnalysisRunOptions {
+  /** Identifiers to replace with placeholders before the text is sent; the response is re-identified locally. */
+  redactions?: TextRedaction[];
+  /** The caller has already replaced identifiers with placeholders (the browser does, before posting); the model is told so. */
+  pseudonymized?: boolean;
+}
+
+let provider: AnalysisProvider | null = null;
+
+function getProvider(): AnalysisProvider {
+  provider ??= createAnalysisProvider();
+  return provider;
+}
+
+/** The providers consensus runs rotate through: those in CONSENSUS_PROVIDERS, or the configured provider repeated. */
+function getConsensusProviders(): AnalysisProvider[] {
+  const config = getAnalysisConfig();
+  if (config.consensusProviders.length === 0) return [getProvider()];
+  return config.consensusProviders.map(kind => (kind === config.provider ? getProvider() : createAnalysisProvider({ ...config, provider: kind })));
+}
+
+/** Overrides the configured provider, e.g. to inject a fixture in demos or headless runs. */
+export function setAnalysisProvider(next: AnalysisProvider | null): void {
+  provider = next;
+}
+
+const basePrompt = `
+  Act as an expert AI Clinical Pharmacist. Your task is to analyze the provided medical information with the highest degree of clinical accuracy.
+  Your analysis must be structured according to the provided JSON schema and based on established clinical guidelines (e.g., WHO, NICE, KDIGO).
+
+  1.  **Medication Error Detection:** Scrutinize all prescribed medications. Identify and report any potential errors including, but not limited to:
+      -   Incorrect drug, dose, frequency, or duration.
+      -   Significant drug-drug interactions.
+      -   Contraindications based on diagnosis or lab values (e.g., Metformin with low eGFR).
+      -   Duplicate therapy.
+      -   Allergy-related errors if information is available.
+      For each error, specify the type, assess the clinical risk level (Low, Moderate, High), and provide a clear, concise explanation referencing clinical principles or guidelines.
+
+  2.  **Lab Value Interpretation:** If lab results are present, identify any abnormal values. For each, state the parameter, its value, status (Normal, Low, High), and its clinical significance, especially in relation to the prescribed medications.
+
+  3.  **Drug-wise Professional Explanation:** For EACH drug identified, provide a comprehensive professional summary covering:
+      -   Drug Name (Generic/Brand)
+      -   Class
+      -   Mechanism of Action
+      -   Indication (why it's used)
+      -   Prescribed Dose vs. Standard Dose
+      -   Key Adverse Effects
+      -   Essential Lab Monitoring
+      -   Special Precautions (e.g., renal/hepatic adjustments).
+
+  4.  **Evidence:** For every error, drug and lab value, fill "evidence" with the exact text from the input that supports it, copied verbatim (not paraphrased). A finding that relies on several items (e.g., an interaction) should quote each of them. If nothing in the input supports an item, return an empty evidence array rather than inventing a quote.
+
+  If a section is not applicable (e.g., no lab results), return an empty array for that key. Your output must be nothing but a valid JSON object that strictly conforms to the schema.
+`;
+
+
+/** One provider call, aborted when it exceeds `ms` or when the caller cancels. */
+function generateWithDeadline(
+  provider: AnalysisProvider,
+  contents: AnalysisContents,
+  ms: number,
+  signal: AbortSignal | undefined,
+  onText: ((textSoFar: string) => void) | undefined,
+  schema: unknown
+): Promise<string> {
+  const controller = new AbortController();
+  return new Promise((resolve, reject) => {
+    const cancel = () => {
+      controller.abort();
+      reject(new AnalysisError('cancelled', 'The analysis was cancelled.'));
+    };
+    if (signal?.aborted) {
+      cancel();
+      return;
+    }
+    signal?.addEventListener('abort', cancel, { once: true });
+    const timer = setTimeout(() => {
+      controller.abort();
+      reject(new AnalysisError('timeout', `The analysis did not complete within ${Math.round(ms / 1000)} seconds. Try again, or shorten the input.`));
+    }, ms);
+    const settle = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', cancel);
+    };
+    provider.generate(contents, { signal: controller.signal, onText, schema }).then(
+      value => { settle(); resolve(value); },
+      error => { settle(); reject(error); }
+    );
+  });
+}
+
+function withCorrection(contents: AnalysisContents, previousResponse: string, issues: string[]): AnalysisContents {
+  const correction = `
+  Your previous response could not be used because it did not conform to the required JSON schema:
+${issues.slice(0, 20).map(issue => `  - ${issue}`).join('\n')}
+
+  Allowed values: riskLevel must be one of ${RISK_LEVELS.join(', ')}; status must be one of ${LAB_STATUSES.join(', ')}.
+  Every field listed as required must be present. Return your complete response again as a single valid JSON object and nothing else.
+
+  Previous response:
+  ${previousResponse.slice(0, 4000)}
+`;
+  return { parts: [...contents.parts, { text: correction }] };
+}
+
+interface ValidatedCall<T> {
+  schema: unknown;
+  validate: (raw: unknown) => ValidationOutcome<T>;
+  signal?: AbortSignal;
+  /** Defaults to the configured provider. */
+  provider?: AnalysisProvider;
+  /** Reports the streamed text of the given attempt; omit to make a single non-streaming call. */
+  onText?: (textSoFar: string, attempt: number) => void;
+}
+
+/** Calls the provider, retrying with a corrective prompt until the response passes `validate`. */
+async function performValidatedCall<T>(contents: AnalysisContents, call: ValidatedCall<T>): Promise<T> {
+  let activeProvider: AnalysisProvider;
+  let timeoutMs: number;
+  try {
+    activeProvider = call.provider ?? getProvider();
+    timeoutMs = getAnalysisConfig().timeoutMs;
+  } catch (error) {
+    throw toAnalysisError(error);
+  }
+
+  let attemptContents = contents;
+  let issues: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const onText = call.onText ? (textSoFar: string) => call.onText!(textSoFar, attempt) : undefined;
+    onText?.('');
+
+    let text: string;
+    try {
+      text = await generateWithDeadline(activeProvider, attemptContents, timeoutMs, call.signal, onText, call.schema);
+    } catch (error) {
+      const analysisError = toAnalysisError(error);
+      if (analysisError.category !== 'cancelled') {
+        console.error(`Error calling ${activeProvider.name} provider:`, error);
+      }
+      throw analysisError;
+    }
+
+    if (looksLikeRefusal(text)) {
+      throw new AnalysisError('refusal', 'The model declined to analyze this input. Check that it contains medication or lab information.', [text]);
+    }
+
+    try {
+      const outcome = call.validate(parseModelJson(text));
+      if ('issues' in outcome) {
+        issues = outcome.issues;
+      } else {
+        if (outcome.repairs.length > 0) {
+          console.warn('Repaired model response:', outcome.repairs);
+        }
+        return outcome.value;
+      }
+    } catch {
+      issues = ['response is not valid JSON'];
+    }
+
+    console.warn(`Attempt ${attempt} of ${MAX_ATTEMPTS} returned an invalid response:`, issues);
+    attemptContents = withCorrection(contents, text, issues);
+  }
+
+  throw new AnalysisError(
+    'schema',
+    `The model returned a response that did not match the expected format after ${MAX_ATTEMPTS} attempts.`,
+    issues
+  );
+}
+
+async function performSingleAnalysis(
+  contents: AnalysisContents,
+  options: Omit<AnalysisCallOptions, 'consensusRuns'> & { provider?: AnalysisProvider }
+): Promise<AnalysisResult> {
+  const { onProgress } = options;
+  const result = await performValidatedCall(contents, {
+    schema: analysisSchema,
+    validate: validateAnalysisResult,
+    signal: options.signal,
+    provider: options.provider,
+    onText: onProgress
+      ? (textSoFar, attempt) => onProgress({ ...readPartialAnalysis(textSoFar), attempt, maxAttempts: MAX_ATTEMPTS })
+      : undefined,
+  });
+  return crossCheckFindings(withPatientContext(result, options.patientContext), options.policy);
+}
+
+/** Runs the analysis `consensusRuns` times in parallel, rotating through the consensus providers, and merges the runs. */
+async function performConsensusAnalysis(contents: AnalysisContents, options: AnalysisCallOptions): Promise<AnalysisResult> {
+  const { signal, onProgress, consensusRuns, ...runOptions } = options;
+  const totalRuns = consensusRuns!;
+  let providers: AnalysisProvider[];
+  try {
+    providers = getConsensusProviders();
+  } catch (error) {
+    throw toAnalysisError(error);
+  }
+
+  // Only the first run streams; the others report in as they finish.
+  let latest: AnalysisProgress | undefined;
+  let completedRuns = 0;
+  const report = () => latest && onProgress?.({ ...latest, consensus: { completedRuns, totalRuns } });
+
+  const runs = Array.from({ length: totalRuns }, (_, index) => {
+    const provider = providers[index % providers.length];
+    return performSingleAnalysis(contents, {
+      ...runOptions,
+      signal,
+      provider,
+      onProgress: onProgress && index === 0 ? progress => { latest = progress; report(); } : undefined,
+    })
+      .then(result => ({ result, provider: provider.name }))
+      .finally(() => { completedRuns++; report(); });
+  });
+  const settled = await Promise.allSettled(runs);
+
+  if (signal?.aborted) throw new AnalysisError('cancelled', 'The analysis was cancelled.');
+  const succeeded = settled.filter((run): run is PromiseFulfilledResult<ConsensusRun> => run.status === 'fulfilled').map(run => run.value);
+  if (succeeded.length === 0) throw toAnalysisError((settled[0] as PromiseRejectedResult).reason);
+  return mergeConsensusRuns(succeeded, totalRuns - succeeded.length);
+}
+
+async function performAnalysis(contents: AnalysisContents, options: AnalysisCallOptions): Promise<AnalysisResult> {
+  return (options.consensusRuns ?? 1) > 1 ? performConsensusAnalysis(contents, options) : performSingleAnalysis(contents, options);
+}
+
+function buildPrompt(instructions: string, patientContext?: PatientContext, policy?: InstitutionalPolicy | null): string {
+  const contextBlock = patientContext ? formatPatientContextForPrompt(patientContext) : '';
+  const policyBlock = policy ? formatPolicyForPrompt(policy) : '';
+  return `${basePrompt}${contextBlock}${policyBlock}\n\n${instructions}`;
+}
+
+const redactionNote = ' Patient identifiers in the text have been replaced by placeholders such as [NAME-1] or [DATE-1]; refer to them by the placeholder, exactly as written.';
+
+function withPatientContext(result: AnalysisResult, patientContext?: PatientContext): AnalysisResult {
+  if (!patientContext || isPatientContextEmpty(patientContext)) return result;
+  return { ...result, patientContext: normalizePatientContext(patientContext) };
+}
+
+export async function analyzeHealthDocument(
+  pages: { data: string; mimeType: string }[],
+  patientContext?: PatientContext,
+  options: AnalysisRunOptions = {}
+): Promise<AnalysisResult> {
+  
+  const instructions = (pages.length === 1
+    ? 'The medical information is in the attached image.'
+    : `The medical information is in the ${pages.length} attached page images, which belong to the same patient case and are given in order, each preceded by its page label. Analyze them together as one case, and set "sourcePage" on every drug and lab value to the page it was read from.`)
+    + ` For each evidence quote, give its "box" on the image${pages.length === 1 ? '' : ' and its "page"'}.`;
+  const prompt = buildPrompt(instructions, patientContext, options.policy);
+
+  const pageParts = pages.flatMap((page, index) => [
+    { text: `Page ${index + 1}:` },
+    { inlineData: { data: page.data, mimeType: page.mimeType } },
+  ]);
+  const textPart = { text: prompt };
+  
+  const result = await performAnalysis({ parts: [...pageParts, textPart] }, { ...options, patientContext });
+  return resolveEvidence(result, { kind: 'pages', pageCount: pages.length });
+}
+
+
+export async function analyzeHealthText(
+  text: string,
+  patientContext?: PatientContext,
+  options: TextAnalysisOptions = {}
+): Promise<AnalysisResult> {
+  const { redactions = [], pseudonymized = false, onProgress, ...runOptions } = options;
+  const { text: sentText, placeholders } = pseudonymize(text, redactions);
+  const prompt = buildPrompt(
+    `Here is the medical text to analyze. For each evidence quote, give its "start" and "end" character offsets within the text between the --- markers.`
+      + (placeholders.size > 0 || pseudonymized ? redactionNote : '')
+      + `\n\n---\n${sentText}\n---`,
+    patientContext,
+    runOptions.policy
+  );
+
+  const textPart = { text: prompt };
+
+  const result = await performAnalysis({ parts: [textPart] }, {
+    ...runOptions,
+    patientContext,
+    onProgress: onProgress && (progress => onProgress({ ...progress, result: reidentify(progress.result, placeholders) })),
+  });
+  // Quotes are matched against the original text once the identifiers are back in them.
+  return resolveEvidence(reidentify(result, placeholders), { kind: 'text', text });
+}
+
+
+export async function analyzeStructuredRecord(
+  record: StructuredRecord,
+  patientContext?: PatientContext,
+  options: AnalysisRunOptions = {}
+): Promise<AnalysisResult> {
+  const recordText = formatStructuredRecordForPrompt(record);
+  const prompt = buildPrompt(recordText, patientContext, options.policy);
+
+  // Imported data has no document to point at; quotes are only checked against the parsed record.
+  const result = await performAnalysis({ parts: [{ text: prompt }] }, { ...options, patientContext });
+  return resolveEvidence(result, { kind: 'text', text: recordText });
+}
+
+export interface FollowUpTurn {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+/** What the follow-up conversation is grounded in: the analysed case as it was saved. */
+export interface FollowUpContext {
+  input: SavedCase['input'];
+  patientContext?: PatientContext;
+  result: AnalysisResult;
+  /** The institutional policy loaded now, applied to any revised analysis. */
+  policy?: InstitutionalPolicy | null;
+  /** The input text, analysis and conversation already carry placeholders in place of identifiers. */
+  pseudonymized?: boolean;
+  /** For an imported case, the parsed record, sent instead of the message so that its identifiers are not. */
+  record?: StructuredRecord;
+}
+
+export interface FollowUpAnswer {
+  reply: string;
+  /** A revised analysis, present only when the question changed the assumptions behind the current one. */
+  updatedResult?: AnalysisResult;
+}
+
+const followUpPrompt = `
+  You previously analyzed the patient case below as an expert AI Clinical Pharmacist. The pharmacist reviewing your analysis is now asking follow-up questions.
+  Answer the latest question concisely and specifically for this patient, grounded in the original input and your analysis; say so plainly when the input does not contain what is needed to answer.
+
+  If the question changes the assumptions behind the analysis (e.g., a corrected dose, a new lab value, a drug that has been stopped or started), also return "updatedAnalysis": the complete revised analysis in the same format as before, with evidence quotes copied verbatim from the original input.
+  Otherwise leave "updatedAnalysis" out. Your output must be nothing but a valid JSON object that strictly conforms to the schema.
+`;
+
+function withoutEvidence(result: AnalysisResult): AnalysisResult {
+  const strip = <T extends { evidence?: unknown }>({ evidence: _evidence, ...item }: T) => item;
+  return {
+    potentialErrors: result.potentialErrors.map(strip),
+    drugInformation: result.drugInformation.map(strip),
+    labInterpretation: result.labInterpretation.map(strip),
+  };
+}
+
+/** Answers a question about an analysed case, optionally proposing a revised analysis for the reviewer to apply. */
+export async function askFollowUp(
+  context: FollowUpContext,
+  history: FollowUpTurn[],
+  question: string,
+  options: Pick<AnalysisRunOptions, 'signal'> = {}
+): Promise<FollowUpAnswer> {
+  const { input, patientContext, result, policy, pseudonymized, record } = context;
+  const pages = input.mode === 'upload' ? input.pages ?? [] : [];
+  const sourceText = input.mode === 'import'
+    ? formatStructuredRecordForPrompt(record ?? parseStructuredImport(input.text ?? ''))
+    : input.text ?? '';
+
+  // Text cases analysed with redactions keep them for every follow-up; the analysis and the conversation are
+  // redacted with the same placeholders, since they quote the identifiers back.
+  const { text: sentText, placeholders } = pseudonymize(sourceText, pages.length > 0 ? [] : input.redactions ?? []);
+  const redact = (text: string) => applyPlaceholders(text, placeholders);
+
+  const sourceParts = pages.length > 0
+    ? pages.flatMap((page, index) => [{ text: `Page ${index + 1}:` }, { inlineData: { data: page.data, mimeType: page.mimeType } }])
+    : [{ text: `Original input:${placeholders.size > 0 || pseudonymized ? redactionNote : ''}\n---\n${sentText}\n---` }];
+  const transcript = history.map(turn => `${turn.role === 'user' ? 'Pharmacist' : 'You'}: ${redact(turn.text)}`).join('\n');
+  const prompt = [
+    followUpPrompt,
+    patientContext ? formatPatientContextForPrompt(patientContext) : '',
+    policy ? formatPolicyForPrompt(policy) : '',
+    `\nYour current analysis:\n${JSON.stringify(pseudonymizeStrings(withoutEvidence(result), placeholders))}`,
+    transcript && `\nConversation so far:\n${transcript}`,
+    `\nPharmacist: ${redact(question)}`,
+  ].join('\n');
+
+  const reply = reidentify(await performValidatedCall({ parts: [...sourceParts, { text: prompt }] }, {
+    schema: followUpSchema,
+    validate: validateFollowUpReply,
+    signal: options.signal,
+  }), placeholders);
+  if (!reply.updatedAnalysis) return { reply: reply.reply };
+
+  const evidenceInput = pages.length > 0
+    ? { kind: 'pages' as const, pageCount: pages.length }
+    : { kind: 'text' as const, text: sourceText };
+  const updatedResult = resolveEvidence(crossCheckFindings(withPatientContext(reply.updatedAnalysis, patientContext), policy), evidenceInput);
+  return { reply: reply.reply, updatedResult };
+}
+
+export interface LeafletOptions {
+  language: string;
+  readingLevel: ReadingLevel;
+}
+
+const readingLevelGuidance: Record<ReadingLevel, string> = {
+  simple: 'Write for a reading age of about 9 to 11: short sentences, everyday words, no medical terms. Prefer "blood thinner" to "anticoagulant".',
+  standard: 'Write for a general adult audience: plain language, and explain any medical term the first time it is used.',
+  detailed: 'Write for a patient who wants more detail: plain language, but include the reasons behind the advice and name relevant tests.',
+};
+
+/**
+ * Turns the analysed regimen into a patient counselling leaflet. Only the drug list and the patient
+ * context are sent; findings stay with the professional review.
+ */
+export async function generatePatientLeaflet(
+  result: AnalysisResult,
+  leafletOptions: LeafletOptions,
+  options: Pick<AnalysisRunOptions, 'signal'> = {}
+): Promise<PatientLeaflet> {
+  const drugs = result.drugInformation.map(({ drugName, indication, prescribedDose, adverseEffects, precautions }) =>
+    ({ drugName, indication, prescribedDose, adverseEffects, precautions }));
+  const prompt = `
+  Act as a clinical pharmacist counselling a patient about their medicines. Write a patient information leaflet in ${leafletOptions.language} for the medicines below.
+  ${readingLevelGuidance[leafletOptions.readingLevel]}
+  Address the patient directly ("you"). For each medicine, explain what it is for, how and when to take it, common side effects, when to seek help urgently, and interactions with food, alcohol or over-the-counter products.
+  Fill the schedule from the prescribed dose and frequency: put the amount taken (e.g. "1 tablet") under morning, noon, evening and/or night, and leave the other times empty. Use "scheduleNote" for as-needed, weekly or tapering doses.
+  Do not mention medication errors, doses you disagree with, or anything that would alarm the patient; those are handled by the care team. Keep medicine names unchanged.
+${result.patientContext ? formatPatientContextForPrompt(result.patientContext) : ''}
+
+  Medicines:
+  ${JSON.stringify(drugs)}
+
+  Set "language" to "${leafletOptions.language}" and "readingLevel" to "${leafletOptions.readingLevel}". Your output must be nothing but a valid JSON object that strictly conforms to the schema.
+`;
+
+  return performValidatedCall({ parts: [{ text: prompt }] }, {
+    schema: leafletSchema,
+    validate: validatePatientLeaflet,
+    signal: options.signal,
+  });
+}
@@ -0,0 +1,155 @@
+import type { AnalysisResult, PatientLeaflet } from '../types';
+import { analysisSchema, followUpSchema, leafletSchema } from './analysisSchema';
+import type { AnalysisSection } from './partialAnalysis';
+
+interface SchemaNode {
+  type: string;
+  properties?: Record<string, SchemaNode>;
+  items?: SchemaNode;
+  enum?: string[];
+  required?: string[];
+}
+
+export type ValidationOutcome<T = AnalysisResult> =
+  | { ok: true; value: T; repairs: string[] }
+  | { ok: false; issues: string[] };
+
+export interface FollowUpReply {
+  reply: string;
+  updatedAnalysis?: AnalysisResult;
+}
+
+// Near-miss values models commonly emit, keyed by field name and then by lower-cased value.
+const enumSynonyms: Record<string, Record<string, string>> = {
+  riskLevel: {
+    severe: 'High', critical: 'High', major: 'High', serious: 'High', 'very high': 'High',
+    medium: 'Moderate', intermediate: 'Moderate', significant: 'Moderate',
+    minor: 'Low', mild: 'Low', minimal: 'Low',
+  },
+  status: {
+    elevated: 'High', increased: 'High', raised: 'High', 'critically high': 'High', 'above normal': 'High',
+    decreased: 'Low', reduced: 'Low', 'critically low': 'Low', 'below normal': 'Low',
+    critical: 'Abnormal', borderline: 'Abnormal', positive: 'Abnormal',
+    'within normal limits': 'Normal', wnl: 'Normal', 'within range': 'Normal', negative: 'Normal',
+  },
+};
+
+function normalizeEnum(field: string, raw: string, allowed: string[]): string | undefined {
+  const key = raw.trim().toLowerCase().replace(/\s+risk$/, '');
+  const direct = allowed.find(option => option.toLowerCase() === key);
+  if (direct) return direct;
+  const synonym = enumSynonyms[field]?.[key];
+  return synonym && allowed.includes(synonym) ? synonym : undefined;
+}
+
+function validateNode(node: SchemaNode, value: unknown, path: string, field: string, issues: string[], repairs: string[]): unknown {
+  switch (node.type) {
+    case 'STRING': {
+      let text: string;
+      if (typeof value === 'string') {
+        text = value.trim();
+      } else if (typeof value === 'number' || typeof value === 'boolean') {
+        text = String(value);
+        repairs.push(`${path}: converted ${typeof value} to string`);
+      } else {
+        issues.push(`${path}: expected a string`);
+        return value;
+      }
+      if (node.enum && !node.enum.includes(text)) {
+        const normalized = normalizeEnum(field, text, node.enum);
+        if (!normalized) {
+          issues.push(`${path}: "${text}" is not one of ${node.enum.join(', ')}`);
+          return text;
+        }
+        repairs.push(`${path}: normalized "${text}" to "${normalized}"`);
+        return normalized;
+      }
+      return text;
+    }
+    case 'INTEGER':
+    case 'NUMBER': {
+      const number = typeof value === 'string' ? Number(value.trim()) : value;
+      if (typeof number !== 'number' || isNaN(number)) {
+        issues.push(`${path}: expected a number`);
+        return value;
+      }
+      if (number !== value) repairs.push(`${path}: converted string to number`);
+      return node.type === 'INTEGER' ? Math.round(number) : number;
+    }
+    case 'ARRAY': {
+      if (!Array.isArray(value)) {
+        issues.push(`${path}: expected an array`);
+        return value;
+      }
+      return value.map((item, index) => validateNode(node.items!, item, `${path}[${index}]`, field, issues, repairs));
+    }
+    case 'OBJECT': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push(`${path || 'response'}: expected an object`);
+        return value;
+      }
+      const source = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(node.properties ?? {})) {
+        const childPath = path ? `${path}.${key}` : key;
+        if (source[key] === undefined || source[key] === null) {
+          if (child.type === 'ARRAY') {
+            // The prompt asks for empty arrays when a section does not apply; treat omission the same way.
+            result[key] = [];
+            if (node.required?.includes(key)) repairs.push(`${childPath}: missing, defaulted to []`);
+          } else if (node.required?.includes(key)) {
+            issues.push(`${childPath}: missing required field`);
+          }
+          continue;
+        }
+        result[key] = validateNode(child, source[key], childPath, key, issues, repairs);
+      }
+      return result;
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Checks a parsed model response against `analysisSchema`, repairing what can be repaired safely
+ * (enum near-misses, scalar types, omitted sections) and reporting everything else as issues.
+ */
+export function validateAnalysisResult(raw: unknown): ValidationOutcome {
+  return validateAgainst<AnalysisResult>(analysisSchema as SchemaNode, raw);
+}
+
+/**
+ * Checks one fully received item of a section while the response is still streaming, with the same rules and repairs
+ * as the final pass; undefined when the item would fail them, so it is not shown.
+ */
+export function validateAnalysisItem<S extends AnalysisSection>(section: S, raw: unknown): AnalysisResult[S][number] | undefined {
+  const itemSchema = (analysisSchema as SchemaNode).properties![section].items!;
+  const outcome = validateAgainst<AnalysisResult[S][number]>(itemSchema, raw);
+  return outcome.ok ? outcome.value : undefined;
+}
+
+/** Same checks for a follow-up answer, including the optional revised analysis inside it. */
+export function validateFollowUpReply(raw: unknown): ValidationOutcome<FollowUpReply> {
+  return validateAgainst<FollowUpReply>(followUpSchema as SchemaNode, raw);
+}
+
+export function validatePatientLeaflet(raw: unknown): ValidationOutcome<PatientLeaflet> {
+  return validateAgainst<PatientLeaflet>(leafletSchema as SchemaNode, raw);
+}
+
+function validateAgainst<T>(schema: SchemaNode, raw: unknown): ValidationOutcome<T> {
+  const issues: string[] = [];
+  const repairs: string[] = [];
+  const value = validateNode(schema, raw, '', '', issues, repairs);
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+  return { ok: true, value: value as T, repairs };
+}
+
+/** Strips Markdown code fences and parses the model output. */
+export function parseModelJson(text: string): unknown {
+  const cleanedJson = text.replace(/```json/g, '').replace(/```/g, '').trim();
+  return JSON.parse(cleanedJson);
+}
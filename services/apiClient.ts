@@ -0,0 +1,151 @@
+import type { AnalysisResult, PatientContext, PatientLeaflet } from '../types';
+import { AnalysisError, type AnalysisErrorCategory } from './analysisErrors';
+import { applyPlaceholders, pseudonymize, pseudonymizeStrings, reidentify } from './deidentify';
+import { resolveEvidence } from './evidence';
+import { parseStructuredImport, type StructuredRecord } from './importers';
+import type {
+  AnalysisProgress,
+  AnalysisRunOptions,
+  FollowUpAnswer,
+  FollowUpContext,
+  FollowUpTurn,
+  LeafletOptions,
+  TextAnalysisOptions,
+} from './analysisService';
+
+// The browser's side of the analysis API (`server/`). The functions mirror those in `analysisService.ts`, which run on
+// the server with the model credentials; the browser bundle never holds a key. Identifiers are replaced with
+// placeholders here, before anything is posted, and put back into the response; the placeholder map never leaves the
+// browser.
+
+/** Where the API is served; the dev server proxies `/api` to it (see `vite.config.ts`). */
+const API_BASE_URL = (process.env.API_BASE_URL || '/api').replace(/\/+$/, '');
+
+type ErrorBody = { error?: { category?: AnalysisErrorCategory; message?: string; details?: string[] } };
+
+type StreamLine =
+  | { type: 'progress'; progress: AnalysisProgress }
+  | { type: 'result'; result: unknown }
+  | ({ type: 'error' } & ErrorBody);
+
+function toClientError(body: ErrorBody | undefined, status?: number): AnalysisError {
+  // A 4xx without a category (e.g. from a proxy) is still a request the server will not accept if sent again.
+  const category = body?.error?.category ?? (status !== undefined && status >= 400 && status < 500 && status !== 429 ? 'invalid-request' : 'unknown');
+  const message = body?.error?.message ?? `The analysis server returned ${status ?? 'an unexpected response'}.`;
+  return new AnalysisError(category, message, body?.error?.details);
+}
+
+/** Reads the newline-delimited progress stream of an analysis endpoint up to its "result" or "error" line. */
+async function readProgressStream(body: ReadableStream<Uint8Array>, onProgress: (progress: AnalysisProgress) => void): Promise<unknown> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines.filter(Boolean)) {
+      const message: StreamLine = JSON.parse(line);
+      if (message.type === 'progress') onProgress(message.progress);
+      else if (message.type === 'result') return message.result;
+      else throw toClientError(message);
+    }
+    if (done) throw new AnalysisError('network', 'The connection to the analysis server closed before the analysis finished.');
+  }
+}
+
+async function post<T>(path: string, payload: unknown, options: Pick<AnalysisRunOptions, 'signal' | 'onProgress'> = {}): Promise<T> {
+  const { signal, onProgress } = options;
+  try {
+    const response = await fetch(`${API_BASE_URL}${path}`, {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json', Accept: onProgress ? 'application/x-ndjson' : 'application/json' },
+      body: JSON.stringify(payload),
+    });
+    if (!response.ok) {
+      throw toClientError(await response.json().catch(() => undefined), response.status);
+    }
+    if (onProgress && response.body && response.headers.get('Content-Type')?.includes('application/x-ndjson')) {
+      return (await readProgressStream(response.body, onProgress)) as T;
+    }
+    return (await response.json()) as T;
+  } catch (error) {
+    if (signal?.aborted) throw new AnalysisError('cancelled', 'The analysis was cancelled.');
+    if (error instanceof AnalysisError) throw error;
+    throw new AnalysisError('network', 'The analysis server could not be reached. Check that it is running (npm run server) and try again.');
+  }
+}
+
+const runPayload = ({ consensusRuns, policy }: AnalysisRunOptions) => ({ consensusRuns, policy: policy ?? undefined });
+
+export function analyzeHealthDocument(
+  pages: { data: string; mimeType: string }[],
+  patientContext?: PatientContext,
+  options: AnalysisRunOptions = {}
+): Promise<AnalysisResult> {
+  return post('/analyze/document', { pages: pages.map(({ data, mimeType }) => ({ data, mimeType })), patientContext, ...runPayload(options) }, options);
+}
+
+export async function analyzeHealthText(text: string, patientContext?: PatientContext, options: TextAnalysisOptions = {}): Promise<AnalysisResult> {
+  const { text: sentText, placeholders } = pseudonymize(text, options.redactions ?? []);
+  const pseudonymized = placeholders.size > 0;
+  const onProgress = options.onProgress;
+  const result = await post<AnalysisResult>('/analyze/text', { text: sentText, pseudonymized, patientContext, ...runPayload(options) }, {
+    signal: options.signal,
+    onProgress: onProgress && (progress => onProgress({ ...progress, result: reidentify(progress.result, placeholders) })),
+  });
+  // The server located the quotes in the placeholder text; locate them again in the original.
+  return pseudonymized ? resolveEvidence(reidentify(result, placeholders), { kind: 'text', text }) : result;
+}
+
+/** Sends the record parsed from a FHIR Bundle or HL7 v2 message; the message itself, with its identifiers, stays here. */
+export function analyzeStructuredRecord(record: StructuredRecord, patientContext?: PatientContext, options: AnalysisRunOptions = {}): Promise<AnalysisResult> {
+  return post('/analyze/record', { record, patientContext, ...runPayload(options) }, options);
+}
+
+export async function askFollowUp(
+  context: FollowUpContext,
+  history: FollowUpTurn[],
+  question: string,
+  options: Pick<AnalysisRunOptions, 'signal'> = {}
+): Promise<FollowUpAnswer> {
+  const { input, result } = context;
+  // Page previews stay in the browser; the server only needs the images that were analysed.
+  const pages = input.pages?.map(({ previewUrl: _preview, unmaskedUrl: _unmasked, ...page }) => page);
+  if (input.mode === 'import') {
+    const record = parseStructuredImport(input.text ?? '');
+    return post('/follow-up', { context: { ...context, input: { mode: input.mode }, record, policy: context.policy ?? undefined }, history, question }, options);
+  }
+  // A text case analysed with redactions keeps them for every follow-up. The analysis and the conversation quote the
+  // identifiers back, so they get the same placeholders.
+  const { text: sentText, placeholders } = pseudonymize(input.text ?? '', pages?.length ? [] : input.redactions ?? []);
+  const pseudonymized = placeholders.size > 0;
+  const redact = (text: string) => applyPlaceholders(text, placeholders);
+  const sentContext = {
+    ...context,
+    input: { ...input, pages, ...(pseudonymized && { text: sentText, redactions: undefined }) },
+    result: pseudonymizeStrings(result, placeholders),
+    policy: context.policy ?? undefined,
+    pseudonymized,
+  };
+  const answer = await post<FollowUpAnswer>('/follow-up', {
+    context: sentContext,
+    history: history.map(turn => ({ ...turn, text: redact(turn.text) })),
+    question: redact(question),
+  }, options);
+  if (!pseudonymized) return answer;
+
+  const reply = reidentify(answer.reply, placeholders);
+  const updatedResult = answer.updatedResult && resolveEvidence(reidentify(answer.updatedResult, placeholders), { kind: 'text', text: input.text ?? '' });
+  return { reply, ...(updatedResult && { updatedResult }) };
+}
+
+export function generatePatientLeaflet(
+  result: AnalysisResult,
+  leafletOptions: LeafletOptions,
+  options: Pick<AnalysisRunOptions, 'signal'> = {}
+): Promise<PatientLeaflet> {
+  return post('/leaflet', { result, ...leafletOptions }, options);
+}
@@ -0,0 +1,182 @@
+import { RISK_LEVELS, type AnalysisResult, type DocumentPage, type PatientContext, type RiskLevel, type SavedCase, type Sex } from '../types';
+import { AnalysisError } from './analysisErrors';
+import type { AnalysisRunOptions } from './analysisService';
+import { analyzeHealthDocument, analyzeHealthText } from './apiClient';
+import { parseCsv } from './csv';
+import { resolveRedactions, type RedactionSettings } from './deidentify';
+import { fileToPages } from './documentPages';
+import { emptyPatientContext, isPatientContextEmpty, normalizePatientContext } from './patientContext';
+
+export type BatchSource = { kind: 'pages'; pages: DocumentPage[] } | { kind: 'text'; text: string };
+
+/** One case of a ward-round batch: an uploaded image or PDF, or one row of a CSV/JSONL file. */
+export interface BatchCase {
+  id: string;
+  /** Saved as the case label; never sent to the model. */
+  label: string;
+  source: BatchSource;
+  patientContext?: PatientContext;
+}
+
+export type BatchStatus = 'queued' | 'running' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchEntry extends BatchCase {
+  status: BatchStatus;
+  attempts: number;
+  result?: AnalysisResult;
+  /** The input as analysed, kept so that saving to history can be retried if it fails. */
+  input?: SavedCase['input'];
+  /** The history entry the result was saved to, used to open the case in the normal view. */
+  savedCase?: SavedCase;
+  error?: string;
+}
+
+let nextCaseId = 0;
+const newCaseId = () => `batch-${++nextCaseId}`;
+
+const labelColumns = ['label', 'case', 'id', 'bed', 'reference'];
+const textColumns = ['text', 'prescription', 'note', 'notes', 'medications'];
+
+const numberOrUndefined = (value: unknown) => {
+  const number = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(number) ? number : undefined;
+};
+
+function sexFrom(value: unknown): Sex | undefined {
+  const text = String(value ?? '').trim().toLowerCase();
+  if (text === 'm' || text === 'male') return 'male';
+  if (text === 'f' || text === 'female') return 'female';
+  return undefined;
+}
+
+const listFrom = (value: unknown) => Array.isArray(value) ? value.map(String) : String(value ?? '').split(/[;|]/);
+
+/**
+ * Builds a case from one row's fields. Recognised patient-context columns fill the context; any other column
+ * is appended to the text as "column: value" so nothing in the row is silently dropped.
+ */
+function rowToCase(fields: Record<string, unknown>, rowNumber: number, fileName: string): BatchCase {
+  const byKey = new Map(Object.entries(fields).map(([key, value]) => [key.trim().toLowerCase().replace(/[\s_-]+/g, ''), value]));
+  const take = (keys: string[]) => {
+    const key = keys.find(candidate => byKey.has(candidate) && String(byKey.get(candidate) ?? '').trim());
+    if (!key) return undefined;
+    const value = byKey.get(key);
+    keys.forEach(candidate => byKey.delete(candidate));
+    return value;
+  };
+
+  const label = String(take(labelColumns) ?? `${fileName} row ${rowNumber}`).trim();
+  const body = take(textColumns);
+  const embedded = byKey.get('patientcontext');
+  byKey.delete('patientcontext');
+  const patientContext = normalizePatientContext({
+    ...emptyPatientContext,
+    ...(embedded && typeof embedded === 'object' ? embedded as Partial<PatientContext> : {}),
+    ...Object.fromEntries(Object.entries({
+      age: numberOrUndefined(take(['age'])),
+      sex: sexFrom(take(['sex', 'gender'])),
+      weightKg: numberOrUndefined(take(['weightkg', 'weight'])),
+      heightCm: numberOrUndefined(take(['heightcm', 'height'])),
+    }).filter(([, value]) => value !== undefined)),
+  });
+  const diagnoses = take(['diagnoses', 'diagnosis']);
+  if (diagnoses !== undefined) patientContext.diagnoses = listFrom(diagnoses).map(item => item.trim()).filter(Boolean);
+
+  const extra = [...byKey]
+    .filter(([, value]) => String(value ?? '').trim())
+    .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : value}`);
+  const text = [String(body ?? '').trim(), ...extra].filter(Boolean).join('\n');
+  if (!text) throw new Error(`${fileName} row ${rowNumber} has no prescription text.`);
+
+  return {
+    id: newCaseId(),
+    label,
+    source: { kind: 'text', text },
+    patientContext: isPatientContextEmpty(patientContext) ? undefined : patientContext,
+  };
+}
+
+/** Parses a CSV (with a header row) or JSONL file into one case per row. */
+export function parseBatchRows(text: string, fileName: string): BatchCase[] {
+  if (/\.(jsonl|ndjson)$/i.test(fileName)) {
+    return text.split(/\r?\n/).flatMap((line, index) => {
+      if (!line.trim()) return [];
+      let fields: unknown;
+      try {
+        fields = JSON.parse(line);
+      } catch {
+        throw new Error(`${fileName} line ${index + 1} is not valid JSON.`);
+      }
+      if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+        throw new Error(`${fileName} line ${index + 1} is not a JSON object.`);
+      }
+      return [rowToCase(fields as Record<string, unknown>, index + 1, fileName)];
+    });
+  }
+
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  if (!header.some(column => textColumns.includes(column.trim().toLowerCase()))) {
+    throw new Error(`${fileName} needs a header row with a ${textColumns.map(column => `"${column}"`).join(' or ')} column.`);
+  }
+  return rows.map((cells, index) => rowToCase(Object.fromEntries(header.map((column, i) => [column, cells[i] ?? ''])), index + 2, fileName));
+}
+
+/** Each image or PDF becomes one case; each row of a CSV or JSONL file becomes one case. */
+export async function filesToBatchCases(files: File[]): Promise<BatchCase[]> {
+  const cases = await Promise.all(files.map(async file => {
+    if (/\.(csv|jsonl|ndjson)$/i.test(file.name)) {
+      return parseBatchRows(await file.text(), file.name);
+    }
+    if (file.type.startsWith('image/') || file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) {
+      const batchCase: BatchCase = { id: newCaseId(), label: file.name.replace(/\.[^.]+$/, ''), source: { kind: 'pages', pages: await fileToPages(file) } };
+      return [batchCase];
+    }
+    // Folders often contain stray files (thumbnails, .DS_Store); skip anything that is not a case.
+    return [];
+  }));
+  return cases.flat();
+}
+
+/** The case input as saved to history; text cases carry the redactions applied with the current settings. */
+export function batchCaseInput(batchCase: BatchCase, redactionSettings: RedactionSettings): SavedCase['input'] {
+  const { source } = batchCase;
+  return source.kind === 'pages'
+    ? { mode: 'upload', pages: source.pages }
+    : { mode: 'text', text: source.text, redactions: resolveRedactions(source.text, redactionSettings) };
+}
+
+/** Analyses one batch case the same way the single-case view would. */
+export function analyzeBatchCase(input: SavedCase['input'], patientContext: PatientContext | undefined, options: AnalysisRunOptions): Promise<AnalysisResult> {
+  return input.mode === 'upload'
+    ? analyzeHealthDocument(input.pages ?? [], patientContext, options)
+    : analyzeHealthText(input.text ?? '', patientContext, { ...options, redactions: input.redactions });
+}
+
+/** Rate limits, timeouts and dropped connections are worth retrying; a refusal or bad configuration is not. */
+export function isRetryableAnalysisError(error: unknown): boolean {
+  return !(error instanceof AnalysisError) || ['timeout', 'quota', 'network', 'unknown'].includes(error.category);
+}
+
+export function riskCounts(result: AnalysisResult): Record<RiskLevel, number> {
+  const counts = Object.fromEntries(RISK_LEVELS.map(level => [level, 0])) as Record<RiskLevel, number>;
+  result.potentialErrors.forEach(finding => counts[finding.riskLevel]++);
+  return counts;
+}
+
+const statusOrder: Record<BatchStatus, number> = { done: 0, failed: 1, running: 2, retrying: 2, queued: 3, cancelled: 4 };
+
+/**
+ * Triage order: analysed cases first, most High-risk findings first, ties broken by Moderate then Low counts;
+ * then failures, so they are not missed, then anything still in the queue.
+ */
+export function compareTriage(a: BatchEntry, b: BatchEntry): number {
+  if (statusOrder[a.status] !== statusOrder[b.status]) return statusOrder[a.status] - statusOrder[b.status];
+  if (!a.result || !b.result) return 0;
+  const countsA = riskCounts(a.result);
+  const countsB = riskCounts(b.result);
+  for (const level of [...RISK_LEVELS].reverse()) {
+    if (countsA[level] !== countsB[level]) return countsB[level] - countsA[level];
+  }
+  return 0;
+}
@@ -0,0 +1,83 @@
+export interface QueueOptions<T, R> {
+  /** How many tasks run at once. */
+  concurrency: number;
+  /** Retries per task after its first attempt. */
+  maxRetries: number;
+  /** Stops starting new tasks and wakes any task waiting to retry; running tasks see it through their own signal. */
+  signal?: AbortSignal;
+  isRetryable: (error: unknown) => boolean;
+  /** Delay before the given retry (1-based). Defaults to exponential backoff with jitter. */
+  backoffMs?: (retry: number) => number;
+  onStart?: (task: T, attempt: number) => void;
+  onRetry?: (task: T, retry: number, delayMs: number, error: unknown) => void;
+  /** Awaited before the lane picks up its next task. */
+  onSettled?: (task: T, outcome: PromiseSettledResult<R>) => void | Promise<void>;
+}
+
+const BASE_BACKOFF_MS = 2_000;
+const MAX_BACKOFF_MS = 30_000;
+
+/** 2 s, 4 s, 8 s… capped at 30 s, each ±25% so parallel tasks hitting a rate limit do not retry in lockstep. */
+export function exponentialBackoff(retry: number): number {
+  const delay = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (retry - 1));
+  return Math.round(delay * (0.75 + Math.random() * 0.5));
+}
+
+class QueueCancelled extends Error {}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new QueueCancelled());
+      return;
+    }
+    const cancel = () => {
+      clearTimeout(timer);
+      reject(new QueueCancelled());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', cancel);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', cancel, { once: true });
+  });
+}
+
+/**
+ * Runs `worker` over `tasks` with at most `concurrency` in flight, retrying transient failures with backoff.
+ * Tasks not started before the signal aborts are never settled; the returned promise resolves once every
+ * started task has settled.
+ */
+export async function runQueue<T, R>(tasks: T[], worker: (task: T) => Promise<R>, options: QueueOptions<T, R>): Promise<void> {
+  const { signal, maxRetries, isRetryable, backoffMs = exponentialBackoff } = options;
+  let next = 0;
+
+  const runTask = async (task: T): Promise<PromiseSettledResult<R>> => {
+    for (let attempt = 1; ; attempt++) {
+      options.onStart?.(task, attempt);
+      try {
+        return { status: 'fulfilled', value: await worker(task) };
+      } catch (error) {
+        if (attempt > maxRetries || signal?.aborted || !isRetryable(error)) {
+          return { status: 'rejected', reason: error };
+        }
+        const delayMs = backoffMs(attempt);
+        options.onRetry?.(task, attempt, delayMs, error);
+        try {
+          await sleep(delayMs, signal);
+        } catch {
+          return { status: 'rejected', reason: error };
+        }
+      }
+    }
+  };
+
+  const lane = async () => {
+    while (next < tasks.length && !signal?.aborted) {
+      const task = tasks[next++];
+      await options.onSettled?.(task, await runTask(task));
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(options.concurrency, tasks.length)) }, lane));
+}
@@ -0,0 +1,137 @@
+import type { AnalysisResult, DrugInfo, LabValue, PotentialError } from '../types';
+import { codedIngredients } from './terminology';
+import { checkLabValue, formatLabNumber } from './labValues';
+
+export type DrugChange = 'added' | 'stopped' | 'dose-changed' | 'unchanged';
+export type LabTrend = 'up' | 'down' | 'unchanged' | 'new' | 'not-repeated' | 'not-comparable';
+export type FindingChange = 'new' | 'resolved' | 'persisting';
+
+export interface DrugDiff {
+  change: DrugChange;
+  name: string;
+  previousDose?: string;
+  currentDose?: string;
+}
+
+export interface LabDiff {
+  trend: LabTrend;
+  parameter: string;
+  previous?: string;
+  current?: string;
+  /** Signed change in the analyte's conventional unit, when both values could be converted. */
+  delta?: string;
+}
+
+export interface FindingDiff {
+  change: FindingChange;
+  finding: PotentialError;
+}
+
+export interface CaseComparison {
+  drugs: DrugDiff[];
+  labs: LabDiff[];
+  findings: FindingDiff[];
+}
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+function drugKey(drug: DrugInfo): string {
+  const ingredients = codedIngredients(drug);
+  return ingredients.length > 0 ? ingredients.sort().join('+') : normalizeText(drug.drugName.replace(/\(.*?\)/g, ''));
+}
+
+function labKey(lab: LabValue): string {
+  return checkLabValue(lab).analyte?.code ?? normalizeText(lab.parameter);
+}
+
+function tokens(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[a-z0-9]{3,}/g) ?? []);
+}
+
+/** 0–1 overlap between two findings' wording; 1 when they share a rule. */
+export function findingSimilarity(a: PotentialError, b: PotentialError): number {
+  if (a.ruleIds?.length && b.ruleIds?.length && a.ruleIds.some(id => b.ruleIds!.includes(id))) return 1;
+  const left = tokens(`${a.errorType} ${a.error}`);
+  const right = tokens(`${b.errorType} ${b.error}`);
+  const shared = [...left].filter(token => right.has(token)).length;
+  return shared / Math.max(1, new Set([...left, ...right]).size);
+}
+
+// Findings are free text, so two runs describing the same problem rarely match word for word.
+export const FINDING_SIMILARITY_THRESHOLD = 0.45;
+
+function diffDrugs(previous: DrugInfo[], current: DrugInfo[]): DrugDiff[] {
+  const before = new Map(previous.map(drug => [drugKey(drug), drug]));
+  const diffs: DrugDiff[] = [];
+
+  for (const drug of current) {
+    const key = drugKey(drug);
+    const earlier = before.get(key);
+    before.delete(key);
+    if (!earlier) {
+      diffs.push({ change: 'added', name: drug.drugName, currentDose: drug.prescribedDose });
+    } else {
+      const changed = normalizeText(earlier.prescribedDose) !== normalizeText(drug.prescribedDose);
+      diffs.push({ change: changed ? 'dose-changed' : 'unchanged', name: drug.drugName, previousDose: earlier.prescribedDose, currentDose: drug.prescribedDose });
+    }
+  }
+  for (const drug of before.values()) {
+    diffs.push({ change: 'stopped', name: drug.drugName, previousDose: drug.prescribedDose });
+  }
+  return diffs;
+}
+
+function diffLabs(previous: LabValue[], current: LabValue[]): LabDiff[] {
+  const before = new Map(previous.map(lab => [labKey(lab), lab]));
+  const diffs: LabDiff[] = [];
+  const show = (lab: LabValue) => `${lab.value} ${lab.unit}`.trim();
+
+  for (const lab of current) {
+    const key = labKey(lab);
+    const earlier = before.get(key);
+    before.delete(key);
+    if (!earlier) {
+      diffs.push({ trend: 'new', parameter: lab.parameter, current: show(lab) });
+      continue;
+    }
+    const now = checkLabValue(lab).conventional;
+    const then = checkLabValue(earlier).conventional;
+    if (!now || !then) {
+      diffs.push({ trend: 'not-comparable', parameter: lab.parameter, previous: show(earlier), current: show(lab) });
+      continue;
+    }
+    const delta = now.value - then.value;
+    // Ignore changes below 2% of the previous value as analytical noise.
+    const trend: LabTrend = Math.abs(delta) <= Math.abs(then.value) * 0.02 ? 'unchanged' : delta > 0 ? 'up' : 'down';
+    diffs.push({
+      trend,
+      parameter: lab.parameter,
+      previous: show(earlier),
+      current: show(lab),
+      delta: `${delta > 0 ? '+' : ''}${formatLabNumber(delta)} ${now.unit}`.trim(),
+    });
+  }
+  for (const lab of before.values()) {
+    diffs.push({ trend: 'not-repeated', parameter: lab.parameter, previous: show(lab) });
+  }
+  return diffs;
+}
+
+function diffFindings(previous: PotentialError[], current: PotentialError[]): FindingDiff[] {
+  const unmatched = new Set(previous);
+  const diffs: FindingDiff[] = current.map(finding => {
+    const match = [...unmatched].find(earlier => findingSimilarity(earlier, finding) >= FINDING_SIMILARITY_THRESHOLD);
+    if (match) unmatched.delete(match);
+    return { change: match ? 'persisting' : 'new', finding };
+  });
+  return [...diffs, ...[...unmatched].map(finding => ({ change: 'resolved' as const, finding }))];
+}
+
+/** Diffs two analyses of the same patient: regimen changes, lab trends and findings raised or resolved. */
+export function compareAnalyses(previous: AnalysisResult, current: AnalysisResult): CaseComparison {
+  return {
+    drugs: diffDrugs(previous.drugInformation, current.drugInformation),
+    labs: diffLabs(previous.labInterpretation, current.labInterpretation),
+    findings: diffFindings(previous.potentialErrors, current.potentialErrors),
+  };
+}
@@ -0,0 +1,39 @@
+import type { SavedCase } from '../types';
+import { CASES_STORE, withStore } from './localDb';
+
+export async function saveCase(entry: Omit<SavedCase, 'id' | 'createdAt'>): Promise<SavedCase> {
+  const saved: SavedCase = { ...entry, id: crypto.randomUUID(), createdAt: new Date().toISOString() };
+  await withStore(CASES_STORE, 'readwrite', store => store.put(saved));
+  return saved;
+}
+
+/** All saved cases, newest first. */
+export async function listCases(): Promise<SavedCase[]> {
+  const cases = await withStore<SavedCase[]>(CASES_STORE, 'readonly', store => store.getAll());
+  return cases.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function deleteCase(id: string): Promise<void> {
+  await withStore(CASES_STORE, 'readwrite', store => store.delete(id));
+}
+
+/** The most recent case with the same label saved before `current`, if any. */
+export function findPreviousCase(cases: SavedCase[], current: SavedCase): SavedCase | undefined {
+  const label = current.label.trim().toLowerCase();
+  if (!label) return undefined;
+  return cases.find(other => other.id !== current.id && other.label.trim().toLowerCase() === label && other.createdAt < current.createdAt);
+}
+
+export function matchesSearch(saved: SavedCase, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  const haystack = [
+    saved.label,
+    new Date(saved.createdAt).toLocaleString(),
+    saved.input.text ?? '',
+    ...saved.result.drugInformation.map(drug => drug.drugName),
+    ...saved.result.potentialErrors.map(finding => finding.error),
+    ...(saved.patientContext?.diagnoses ?? []),
+  ].join(' ').toLowerCase();
+  return haystack.includes(needle);
+}
@@ -0,0 +1,43 @@
+export type ProviderKind = 'gemini' | 'mock' | 'local';
+
+export interface AnalysisConfig {
+  provider: ProviderKind;
+  geminiApiKey?: string;
+  geminiModel: string;
+  localBaseUrl: string;
+  localModel: string;
+  localApiKey?: string;
+  timeoutMs: number;
+  /** Providers that consensus runs rotate through; empty to repeat the configured provider. */
+  consensusProviders: ProviderKind[];
+}
+
+const providerKinds: ProviderKind[] = ['gemini', 'mock', 'local'];
+
+function parseProviderList(value: string): ProviderKind[] {
+  const kinds = value.split(',').map(kind => kind.trim().toLowerCase()).filter(Boolean) as ProviderKind[];
+  const unknown = kinds.filter(kind => !providerKinds.includes(kind));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown provider in CONSENSUS_PROVIDERS: ${unknown.map(kind => `"${kind}"`).join(', ')}. Expected one of: ${providerKinds.join(', ')}.`);
+  }
+  return kinds;
+}
+
+// Read at run time by the API server, the CLI and the evaluation runner; none of it is bundled into the browser app.
+export function getAnalysisConfig(): AnalysisConfig {
+  const requested = (process.env.ANALYSIS_PROVIDER || 'gemini').toLowerCase() as ProviderKind;
+  if (!providerKinds.includes(requested)) {
+    throw new Error(`Unknown ANALYSIS_PROVIDER "${requested}". Expected one of: ${providerKinds.join(', ')}.`);
+  }
+
+  return {
+    provider: requested,
+    geminiApiKey: process.env.GEMINI_API_KEY || process.env.API_KEY || undefined,
+    geminiModel: process.env.GEMINI_MODEL || 'gemini-3-pro-preview',
+    localBaseUrl: process.env.LOCAL_LLM_URL || 'http://localhost:11434/v1',
+    localModel: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+    localApiKey: process.env.LOCAL_LLM_API_KEY || undefined,
+    timeoutMs: Number(process.env.ANALYSIS_TIMEOUT_MS) || 120_000,
+    consensusProviders: parseProviderList(process.env.CONSENSUS_PROVIDERS || ''),
+  };
+}
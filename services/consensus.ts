@@ -0,0 +1,89 @@
+import { RISK_LEVELS, type AnalysisResult, type FindingAgreement, type FindingSource, type PotentialError, type RiskLevel } from '../types';
+import { FINDING_SIMILARITY_THRESHOLD, findingSimilarity } from './caseComparison';
+
+export interface ConsensusRun {
+  result: AnalysisResult;
+  /** Name of the provider that produced the run. */
+  provider: string;
+}
+
+interface Cluster {
+  /** One finding per run at most, keyed by run index. */
+  members: Map<number, PotentialError>;
+}
+
+const sourcePrecedence: FindingSource[] = ['ai-only', 'rule-only', 'rule-confirmed'];
+
+/** The most common risk level; a tie goes to the higher risk, so disagreement never talks a finding down. */
+function majorityRisk(votes: Partial<Record<RiskLevel, number>>): RiskLevel {
+  return [...RISK_LEVELS].reverse().reduce((best, level) => ((votes[level] ?? 0) > (votes[best] ?? 0) ? level : best), 'High' as RiskLevel);
+}
+
+/** Low agreement: no more than half of the runs reported the finding. */
+export function isLowAgreement(agreement: FindingAgreement): boolean {
+  return agreement.runs * 2 <= agreement.totalRuns;
+}
+
+/** Whether the runs that reported a finding gave it different risk levels. */
+export function hasRiskSplit(agreement: FindingAgreement): boolean {
+  return Object.keys(agreement.riskVotes).length > 1;
+}
+
+function clusterFindings(runs: ConsensusRun[]): Cluster[] {
+  const clusters: Cluster[] = [];
+  runs.forEach(({ result }, run) => {
+    for (const finding of result.potentialErrors) {
+      // Greedy: join the most similar cluster that has nothing from this run yet.
+      let best: { cluster: Cluster; score: number } | undefined;
+      for (const cluster of clusters) {
+        if (cluster.members.has(run)) continue;
+        const score = Math.max(...[...cluster.members.values()].map(member => findingSimilarity(member, finding)));
+        if (score >= FINDING_SIMILARITY_THRESHOLD && score > (best?.score ?? 0)) best = { cluster, score };
+      }
+      if (best) best.cluster.members.set(run, finding);
+      else clusters.push({ members: new Map([[run, finding]]) });
+    }
+  });
+  return clusters;
+}
+
+/**
+ * Merges repeated analyses of the same input. Equivalent findings are clustered across runs; each cluster becomes
+ * one finding carrying how many runs reported it and the risk level each gave. The drug and lab sections come
+ * from the run that agrees most with the others.
+ */
+export function mergeConsensusRuns(runs: ConsensusRun[], failedRuns = 0): AnalysisResult {
+  const clusters = clusterFindings(runs);
+  const support = runs.map((_, run) => clusters.reduce((sum, cluster) => sum + (cluster.members.has(run) ? cluster.members.size : 0), 0));
+  const base = support.indexOf(Math.max(...support));
+
+  const potentialErrors = clusters
+    .map(cluster => {
+      const members = [...cluster.members.values()];
+      const riskVotes: Partial<Record<RiskLevel, number>> = {};
+      members.forEach(member => { riskVotes[member.riskLevel] = (riskVotes[member.riskLevel] ?? 0) + 1; });
+      const representative = cluster.members.get(base) ?? members[0];
+      const ruleIds = [...new Set(members.flatMap(member => member.ruleIds ?? []))];
+      const source = members
+        .map(member => member.source)
+        .reduce<FindingSource | undefined>((best, next) => (next && (!best || sourcePrecedence.indexOf(next) > sourcePrecedence.indexOf(best)) ? next : best), undefined);
+      const finding: PotentialError = {
+        ...representative,
+        riskLevel: majorityRisk(riskVotes),
+        ...(source && { source }),
+        ...(ruleIds.length > 0 && { ruleIds }),
+        agreement: { runs: members.length, totalRuns: runs.length, riskVotes },
+      };
+      return finding;
+    })
+    // Most-agreed findings first; within equal agreement, keep the order the base run gave them.
+    .map((finding, index) => ({ finding, index }))
+    .sort((a, b) => b.finding.agreement!.runs - a.finding.agreement!.runs || a.index - b.index)
+    .map(({ finding }) => finding);
+
+  return {
+    ...runs[base].result,
+    potentialErrors,
+    consensus: { runs: runs.length, failedRuns, providers: runs.map(run => run.provider) },
+  };
+}
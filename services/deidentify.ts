@@ -0,0 +1,211 @@
+import type { PhiCategory, TextRedaction } from '../types';
+
+/** Placeholder → the identifier it stands for. Only ever held in memory for the duration of a request. */
+export type PlaceholderMap = Map<string, string>;
+
+const placeholderLabels: Record<PhiCategory, string> = {
+  name: 'NAME',
+  id: 'ID',
+  date: 'DATE',
+  phone: 'PHONE',
+  email: 'EMAIL',
+  other: 'REDACTED',
+};
+
+const placeholderPattern = new RegExp(`\\[(?:${Object.values(placeholderLabels).join('|')})-\\d+\\]`, 'g');
+
+const NAME_WORD = "[A-Z][A-Za-z'’-]+";
+const leadingName = new RegExp(`^${NAME_WORD}(?: ${NAME_WORD}){0,2}`);
+const nameLabels = [
+  /\b(?:(?:patient(?:'s)?|pt\.?|full|first|last|family|given)\s+name|(?<!(?:brand|drug|generic|trade|product)\s+)name|surname|patient)[ \t]*:[ \t]*/gi,
+  // Titles are matched case-sensitively so that e.g. "MS" (multiple sclerosis) is not taken for one.
+  /\b(?:Mr|Mrs|Ms|Miss|Mx|Dr)\b\.?[ \t]+/g,
+];
+// Capitalised words that follow a label in headings, or start the next field, rather than being part of a name.
+const notNames = new Set([
+  'details', 'information', 'info', 'history', 'name', 'summary', 'notes', 'id', 'no', 'number', 'age', 'sex', 'gender', 'dob',
+  'mrn', 'nhs', 'ur', 'urn', 'tel', 'phone', 'email', 'address', 'ward', 'bed', 'hospital', 'consultant',
+  'is', 'was', 'has', 'with', 'on', 'the', 'presents', 'admitted', 'reports',
+]);
+
+const idPattern = /\b(?:MRN|MR\s*No|URN?|UR\s*No|hospital\s+(?:no|number)|NHS\s+(?:no|number)|medical\s+record\s+(?:no|number)|patient\s+ID|ID)\b\.?[ \t]*[:#]?[ \t]*([A-Z0-9][A-Z0-9-]{3,})/gi;
+const emailPattern = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+// A run of digit groups of any length, e.g. "07700900123", "07700 900123" or "+44 7700 900123", matched whole and then
+// kept if it has 9–15 digits. Runs followed by a dose unit ("1000 1000 1000 units") are doses, not numbers.
+const DOSE_UNIT = '(?:mg|mcg|micrograms?|µg|ug|g|kg|ml|l|units?|iu|mmol|nmol|tablets?|tabs?|capsules?|caps?|puffs?|drops?)(?![a-z])|%';
+const phonePattern = new RegExp(`(?<!\\w|\\d\\.)(?:\\+\\d{1,3}[ -]?)?(?:\\(\\d{1,5}\\)[ -]?)?\\d+(?:[ -]\\d+)*(?!\\w|[. -]\\d|\\s*(?:${DOSE_UNIT}))`, 'gi');
+const MONTH = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+const datePatterns = [
+  /\b\d{1,2}[/.-]\d{1,2}[/.-](?:\d{4}|\d{2})\b/g,
+  /\b\d{4}-\d{2}-\d{2}\b/g,
+  new RegExp(`\\b\\d{1,2}(?:st|nd|rd|th)?\\s+${MONTH}\\s+\\d{4}\\b`, 'gi'),
+  new RegExp(`\\b${MONTH}\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}\\b`, 'gi'),
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+function detectNames(text: string): TextRedaction[] {
+  const found: TextRedaction[] = [];
+  for (const label of nameLabels.flatMap(pattern => [...text.matchAll(pattern)])) {
+    const from = label.index! + label[0].length;
+    const words = (leadingName.exec(text.slice(from))?.[0] ?? '').split(' ');
+    const kept = words.findIndex(word => notNames.has(word.toLowerCase()));
+    const name = words.slice(0, kept === -1 ? words.length : kept).join(' ');
+    if (!name) continue;
+    found.push({ start: from, end: from + name.length, category: 'name' });
+  }
+  return found;
+}
+
+function detectIds(text: string): TextRedaction[] {
+  return [...text.matchAll(idPattern)]
+    .filter(match => /\d/.test(match[1]))
+    .map(match => {
+      const start = match.index! + match[0].length - match[1].length;
+      return { start, end: start + match[1].length, category: 'id' as const };
+    });
+}
+
+function detectPattern(text: string, pattern: RegExp, category: PhiCategory, accept: (value: string) => boolean = () => true): TextRedaction[] {
+  return [...text.matchAll(pattern)]
+    .filter(match => accept(match[0]))
+    .map(match => ({ start: match.index!, end: match.index! + match[0].length, category }));
+}
+
+/** Every occurrence of `term` in `text`, matched case-insensitively on word boundaries. */
+export function findTermRedactions(text: string, term: string, category: PhiCategory = 'other'): TextRedaction[] {
+  const needle = term.trim();
+  if (!needle) return [];
+  const pattern = new RegExp(`(?<![\\w])${escapeRegExp(needle).replace(/\s+/g, '\\s+')}(?![\\w])`, 'gi');
+  return detectPattern(text, pattern, category);
+}
+
+/** Sorts redactions and drops any that overlap an earlier, longer one. */
+export function mergeRedactions(redactions: TextRedaction[]): TextRedaction[] {
+  const sorted = [...redactions].sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+  const merged: TextRedaction[] = [];
+  for (const redaction of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && redaction.start < last.end) continue;
+    merged.push(redaction);
+  }
+  return merged;
+}
+
+/**
+ * Finds likely identifiers in free text: labelled names and record numbers, dates, phone numbers and email addresses.
+ * Each identifier found once is redacted wherever else it appears, including a name's individual words.
+ * Pattern-based, so it will miss some identifiers and flag some clinical text; the reviewer checks the preview.
+ */
+export function detectPhi(text: string): TextRedaction[] {
+  const detected = [
+    ...detectNames(text),
+    ...detectIds(text),
+    ...detectPattern(text, emailPattern, 'email'),
+    ...datePatterns.flatMap(pattern => detectPattern(text, pattern, 'date')),
+    ...detectPattern(text, phonePattern, 'phone', value => {
+      const digits = value.replace(/\D/g, '').length;
+      return digits >= 9 && digits <= 15;
+    }),
+  ];
+
+  const terms = new Map<string, PhiCategory>();
+  for (const redaction of detected) {
+    if (redaction.category === 'date') continue;
+    const value = text.slice(redaction.start, redaction.end);
+    terms.set(value, redaction.category);
+    if (redaction.category === 'name') {
+      for (const word of value.split(/\s+/)) {
+        if (word.length >= 3) terms.set(word, 'name');
+      }
+    }
+  }
+  const repeats = [...terms].flatMap(([term, category]) => findTermRedactions(text, term, category));
+
+  // A name's words found on their own should only match where they are capitalised, e.g. "Rose" but not "rose".
+  const capitalised = repeats.filter(redaction => redaction.category !== 'name' || /^[A-Z]/.test(text[redaction.start]));
+  return mergeRedactions([...detected, ...capitalised]);
+}
+
+/**
+ * Replaces each redacted run with a placeholder such as `[NAME-1]`. The same identifier always gets the same
+ * placeholder, so the model can still tell that two mentions refer to one person.
+ */
+export function pseudonymize(text: string, redactions: TextRedaction[]): { text: string; placeholders: PlaceholderMap } {
+  const placeholders: PlaceholderMap = new Map();
+  const byValue = new Map<string, string>();
+  const counts = new Map<PhiCategory, number>();
+
+  let output = '';
+  let cursor = 0;
+  for (const redaction of mergeRedactions(redactions)) {
+    const original = text.slice(redaction.start, redaction.end);
+    const key = `${redaction.category}:${normalize(original)}`;
+    let placeholder = byValue.get(key);
+    if (!placeholder) {
+      const count = (counts.get(redaction.category) ?? 0) + 1;
+      counts.set(redaction.category, count);
+      placeholder = `[${placeholderLabels[redaction.category]}-${count}]`;
+      byValue.set(key, placeholder);
+      placeholders.set(placeholder, original);
+    }
+    output += text.slice(cursor, redaction.start) + placeholder;
+    cursor = redaction.end;
+  }
+  return { text: output + text.slice(cursor), placeholders };
+}
+
+/** Replaces every known identifier in `text` with its placeholder, e.g. in a reviewer's follow-up question. */
+export function applyPlaceholders(text: string, placeholders: PlaceholderMap): string {
+  const byLength = [...placeholders].sort((a, b) => b[1].length - a[1].length);
+  return byLength.reduce(
+    (current, [placeholder, original]) => current.replace(new RegExp(`(?<![\\w])${escapeRegExp(original)}(?![\\w])`, 'gi'), placeholder),
+    text
+  );
+}
+
+function mapStrings<T>(value: T, map: (text: string) => string): T {
+  if (typeof value === 'string') return map(value) as T;
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, map)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)])) as T;
+  }
+  return value;
+}
+
+/** Puts the original identifiers back into every string of a model response. */
+export function reidentify<T>(value: T, placeholders: PlaceholderMap): T {
+  if (placeholders.size === 0) return value;
+  return mapStrings(value, text => text.replace(placeholderPattern, placeholder => placeholders.get(placeholder) ?? placeholder));
+}
+
+/** Replaces known identifiers with their placeholders in every string of a value, e.g. an analysis sent back to the model. */
+export function pseudonymizeStrings<T>(value: T, placeholders: PlaceholderMap): T {
+  if (placeholders.size === 0) return value;
+  return mapStrings(value, text => applyPlaceholders(text, placeholders));
+}
+
+/** The reviewer's adjustments to automatic detection, kept per session rather than per case. */
+export interface RedactionSettings {
+  enabled: boolean;
+  /** Detected identifiers (normalised) the reviewer chose to send unchanged. */
+  excluded: string[];
+  /** Extra terms to redact wherever they appear, e.g. a street name the patterns missed. */
+  added: string[];
+}
+
+export const defaultRedactionSettings: RedactionSettings = { enabled: true, excluded: [], added: [] };
+
+/** Key used to group a redaction with other mentions of the same identifier. */
+export const redactionKey = (text: string, redaction: TextRedaction) => normalize(text.slice(redaction.start, redaction.end));
+
+/** The redactions to apply to `text` once the reviewer's adjustments are taken into account. */
+export function resolveRedactions(text: string, settings: RedactionSettings, detected: TextRedaction[] = detectPhi(text)): TextRedaction[] {
+  if (!settings.enabled) return [];
+  const excluded = new Set(settings.excluded);
+  return mergeRedactions([
+    ...settings.added.flatMap(term => findTermRedactions(text, term)),
+    ...detected.filter(redaction => !excluded.has(redactionKey(text, redaction))),
+  ]);
+}
@@ -0,0 +1,109 @@
+import type { DocumentPage } from '../types';
+
+// Renders PDF pages at roughly 150 dpi: legible for handwriting without bloating the request.
+const PDF_RENDER_SCALE = 2;
+
+let nextPageId = 0;
+
+function readAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = error => reject(error);
+  });
+}
+
+function splitDataUrl(dataUrl: string): { mimeType: string; data: string } {
+  const mimeType = dataUrl.split(';')[0].split(':')[1];
+  const data = dataUrl.split(',')[1];
+  return { mimeType, data };
+}
+
+function toPage(dataUrl: string, fileName: string, pageInFile?: number): DocumentPage {
+  return {
+    id: `page-${++nextPageId}`,
+    fileName,
+    pageInFile,
+    previewUrl: dataUrl,
+    ...splitDataUrl(dataUrl),
+  };
+}
+
+async function rasterizePdf(file: File): Promise<DocumentPage[]> {
+  // pdf.js is large, so it is only loaded once someone actually uploads a PDF.
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const pages: DocumentPage[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+    const canvas = document.createElement('canvas');
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+    pages.push(toPage(canvas.toDataURL('image/png'), file.name, pageNumber));
+  }
+  await pdf.destroy();
+  return pages;
+}
+
+/** Turns an uploaded image or PDF into one or more image pages ready to preview and send to the model. */
+export async function fileToPages(file: File): Promise<DocumentPage[]> {
+  if (file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) {
+    return rasterizePdf(file);
+  }
+  if (!file.type.startsWith('image/')) {
+    throw new Error(`${file.name} is not an image or PDF.`);
+  }
+  return [toPage(await readAsDataUrl(file), file.name)];
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('The page image could not be loaded.'));
+    image.src = url;
+  });
+}
+
+/** True when no page has a masked region; text de-identification cannot reach page images. */
+export const isUnmasked = (pages: DocumentPage[]) => pages.every(page => !page.masks?.length);
+
+/** Asked before unmasked pages are sent, in the single-case view and in batch mode. */
+export const UNMASKED_UPLOAD_WARNING = 'Images and PDFs are sent to the model as they are, including any names, record numbers or barcodes on them. Analyze anyway?';
+
+/**
+ * Paints `masks` over the page as solid black boxes, so the hidden regions never reach the model.
+ * Masks are always drawn on the page as uploaded, so editing them can also uncover a region again.
+ */
+export async function maskPage(page: DocumentPage, masks: [number, number, number, number][]): Promise<DocumentPage> {
+  const unmaskedUrl = page.unmaskedUrl ?? page.previewUrl;
+  if (masks.length === 0) {
+    return { ...page, ...splitDataUrl(unmaskedUrl), previewUrl: unmaskedUrl, masks: undefined, unmaskedUrl: undefined };
+  }
+
+  const image = await loadImage(unmaskedUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const context = canvas.getContext('2d')!;
+  context.drawImage(image, 0, 0);
+  context.fillStyle = '#000';
+  for (const [ymin, xmin, ymax, xmax] of masks) {
+    const x = Math.floor((xmin / 1000) * canvas.width);
+    const y = Math.floor((ymin / 1000) * canvas.height);
+    context.fillRect(x, y, Math.ceil((xmax / 1000) * canvas.width) - x, Math.ceil((ymax / 1000) * canvas.height) - y);
+  }
+
+  const dataUrl = canvas.toDataURL(page.mimeType === 'image/jpeg' ? 'image/jpeg' : 'image/png');
+  return { ...page, ...splitDataUrl(dataUrl), previewUrl: dataUrl, masks, unmaskedUrl };
+}
+
+/** Short label for a page thumbnail, e.g. "discharge.pdf p.2". */
+export function describePageSource(page: DocumentPage): string {
+  return page.pageInFile ? `${page.fileName} p.${page.pageInFile}` : page.fileName;
+}
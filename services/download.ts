@@ -0,0 +1,16 @@
+/** Saves generated content as a file through a temporary object URL. */
+export function downloadFile(fileName: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/** Date-stamped file name such as "pharmacist-review-2026-10-19.json". */
+export function datedFileName(prefix: string, extension: string, date = new Date()): string {
+  return `${prefix}-${date.toISOString().slice(0, 10)}.${extension}`;
+}
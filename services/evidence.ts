@@ -0,0 +1,96 @@
+import type { AnalysisResult, SourceSpan } from '../types';
+
+/** What the model was shown, so its evidence can be checked against it. */
+export type EvidenceInput =
+  | { kind: 'text'; text: string }
+  | { kind: 'pages'; pageCount: number };
+
+interface Evidenced {
+  evidence?: SourceSpan[];
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Finds `quote` in `text`, ignoring case and runs of whitespace, and returns offsets into the original text.
+ * Returns undefined when the quote does not occur, which is the signal that the model made it up.
+ */
+export function locateQuote(text: string, quote: string, hint?: number): { start: number; end: number } | undefined {
+  const needle = normalize(quote);
+  if (!needle) return undefined;
+
+  // Map every character of the whitespace-collapsed, lower-cased text back to its offset in the original.
+  const offsets: number[] = [];
+  let collapsed = '';
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i])) {
+      if (collapsed.length === 0 || collapsed.endsWith(' ')) continue;
+      collapsed += ' ';
+    } else {
+      collapsed += text[i].toLowerCase();
+    }
+    offsets.push(i);
+  }
+
+  // Prefer the occurrence closest to where the model said it was.
+  let best: number | undefined;
+  for (let index = collapsed.indexOf(needle); index !== -1; index = collapsed.indexOf(needle, index + 1)) {
+    if (best === undefined || (hint !== undefined && Math.abs(offsets[index] - hint) < Math.abs(offsets[best] - hint))) {
+      best = index;
+    }
+    if (hint === undefined) break;
+  }
+  if (best === undefined) return undefined;
+  return { start: offsets[best], end: offsets[best + needle.length - 1] + 1 };
+}
+
+function isValidBox(box: unknown): box is [number, number, number, number] {
+  if (!Array.isArray(box) || box.length !== 4 || !box.every(value => typeof value === 'number' && value >= 0 && value <= 1000)) {
+    return false;
+  }
+  const [ymin, xmin, ymax, xmax] = box;
+  return ymin < ymax && xmin < xmax;
+}
+
+function resolveSpan(span: SourceSpan, input: EvidenceInput): SourceSpan | undefined {
+  if (!span.quote?.trim()) return undefined;
+
+  if (input.kind === 'text') {
+    // Offsets from the model are only trusted if they point at the quoted text.
+    if (span.start !== undefined && span.end !== undefined && normalize(input.text.slice(span.start, span.end)) === normalize(span.quote)) {
+      return { quote: span.quote, start: span.start, end: span.end };
+    }
+    const located = locateQuote(input.text, span.quote, span.start);
+    return located && { quote: span.quote, ...located };
+  }
+
+  if (!isValidBox(span.box)) return undefined;
+  const page = input.pageCount === 1 ? 1 : span.page;
+  if (page === undefined || page < 1 || page > input.pageCount) return undefined;
+  return { quote: span.quote, page, box: span.box };
+}
+
+function resolveItem<T extends Evidenced>(item: T, input: EvidenceInput): T {
+  const evidence = (item.evidence ?? [])
+    .map(span => resolveSpan(span, input))
+    .filter((span): span is SourceSpan => Boolean(span));
+  return { ...item, evidence };
+}
+
+/**
+ * Keeps only the evidence that can be located in the input: quotes must occur in text input (offsets are corrected),
+ * and boxes must be well-formed and on an existing page. Items left without evidence are "unverified".
+ */
+export function resolveEvidence(result: AnalysisResult, input: EvidenceInput): AnalysisResult {
+  return {
+    ...result,
+    potentialErrors: result.potentialErrors.map(item => resolveItem(item, input)),
+    drugInformation: result.drugInformation.map(item => resolveItem(item, input)),
+    labInterpretation: result.labInterpretation.map(item => resolveItem(item, input)),
+  };
+}
+
+/** Evidence is resolved on the final result only, so an item is unverified once resolution left it with nothing. */
+export function isUnverified(item: Evidenced): boolean {
+  return item.evidence !== undefined && item.evidence.length === 0;
+}
@@ -0,0 +1,198 @@
+import type { AnalysisResult, DrugInfo, LabStatus, LabValue, PotentialError, ReviewSignOff, RiskLevel } from '../types';
+import { checkLabValue } from './labValues';
+import { codedIngredients, containsTerm } from './terminology';
+
+// Minimal FHIR R4 shapes for the resources this export produces; not a full model of the spec.
+interface Reference {
+  reference: string;
+  display?: string;
+}
+
+interface Coding {
+  system: string;
+  code: string;
+  display?: string;
+}
+
+interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+type FhirResource = { resourceType: string } & Record<string, unknown>;
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: 'collection';
+  timestamp: string;
+  entry: { fullUrl: string; resource: FhirResource }[];
+}
+
+const LOINC = 'http://loinc.org';
+const UCUM = 'http://unitsofmeasure.org';
+const INTERPRETATION = 'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation';
+const OBSERVATION_CATEGORY = 'http://terminology.hl7.org/CodeSystem/observation-category';
+const RXNORM = 'http://www.nlm.nih.gov/research/umls/rxnorm';
+const ATC = 'http://www.whocc.no/atc';
+
+const severityMap: Record<RiskLevel, 'high' | 'moderate' | 'low'> = {
+  High: 'high',
+  Moderate: 'moderate',
+  Low: 'low',
+};
+
+const interpretationMap: Record<LabStatus, Coding> = {
+  High: { system: INTERPRETATION, code: 'H', display: 'High' },
+  Low: { system: INTERPRETATION, code: 'L', display: 'Low' },
+  Normal: { system: INTERPRETATION, code: 'N', display: 'Normal' },
+  Abnormal: { system: INTERPRETATION, code: 'A', display: 'Abnormal' },
+};
+
+// Display units from the analyte table and common report spellings, mapped to UCUM codes.
+const ucumCodes: Record<string, string> = {
+  'mg/dl': 'mg/dL',
+  'g/dl': 'g/dL',
+  'g/l': 'g/L',
+  'mg/l': 'mg/L',
+  'µmol/l': 'umol/L',
+  'umol/l': 'umol/L',
+  'mmol/l': 'mmol/L',
+  'mmol/mol': 'mmol/mol',
+  'meq/l': 'meq/L',
+  'nmol/l': 'nmol/L',
+  'ng/ml': 'ng/mL',
+  'u/l': 'U/L',
+  'iu/l': '[IU]/L',
+  'µiu/ml': 'u[IU]/mL',
+  'uiu/ml': 'u[IU]/mL',
+  'miu/l': 'm[IU]/L',
+  '%': '%',
+  'ml/min/1.73m²': 'mL/min/{1.73_m2}',
+  'ml/min/1.73m2': 'mL/min/{1.73_m2}',
+  '10³/µl': '10*3/uL',
+  '10^3/ul': '10*3/uL',
+  'k/ul': '10*3/uL',
+  '10⁹/l': '10*9/L',
+  '10^9/l': '10*9/L',
+};
+
+const fullUrl = (id: string) => `urn:uuid:${id}`;
+
+function valueQuantity(lab: LabValue, value: number, comparator?: '<' | '>') {
+  const ucum = ucumCodes[lab.unit.trim().toLowerCase()];
+  return {
+    value,
+    ...(comparator && { comparator }),
+    unit: lab.unit,
+    ...(ucum && { system: UCUM, code: ucum }),
+  };
+}
+
+// Only a single-ingredient mapping identifies the medication; a combination product's codes each describe one part.
+function medicationCodings(drug: DrugInfo): Coding[] {
+  const codings = drug.terminology?.codings ?? [];
+  if (codings.length !== 1) return [];
+  const [{ ingredient, rxcui, atc }] = codings;
+  return [
+    ...(rxcui ? [{ system: RXNORM, code: rxcui, display: ingredient }] : []),
+    ...atc.map(code => ({ system: ATC, code, display: ingredient })),
+  ];
+}
+
+function medicationStatement(drug: DrugInfo, patient: Reference): FhirResource {
+  const coding = medicationCodings(drug);
+  return {
+    resourceType: 'MedicationStatement',
+    status: 'active',
+    medicationCodeableConcept: { ...(coding.length > 0 && { coding }), text: drug.drugName },
+    subject: patient,
+    ...(drug.indication && { reasonCode: [{ text: drug.indication }] }),
+    dosage: [{ text: drug.prescribedDose }],
+    note: [{ text: `Standard dose: ${drug.standardDose}. Monitoring: ${drug.monitoring}` }],
+  };
+}
+
+function observation(lab: LabValue, patient: Reference, result: AnalysisResult): FhirResource {
+  const check = checkLabValue(lab, { age: result.patientContext?.age, sex: result.patientContext?.sex });
+  const code: CodeableConcept = check.analyte
+    ? { coding: [{ system: LOINC, code: check.analyte.code, display: check.analyte.name }], text: lab.parameter }
+    : { text: lab.parameter };
+  const status = check.computedStatus ?? lab.status;
+  return {
+    resourceType: 'Observation',
+    status: 'final',
+    category: [{ coding: [{ system: OBSERVATION_CATEGORY, code: 'laboratory' }] }],
+    code,
+    subject: patient,
+    ...(check.parsed
+      ? { valueQuantity: valueQuantity(lab, check.parsed.value, check.parsed.comparator) }
+      : { valueString: `${lab.value} ${lab.unit}`.trim() }),
+    interpretation: [{ coding: [interpretationMap[status]], text: status }],
+    note: [{ text: lab.interpretation }],
+  };
+}
+
+function detectedIssue(
+  finding: PotentialError,
+  patient: Reference,
+  author: Reference,
+  statements: { drug: DrugInfo; reference: Reference }[],
+  identifiedAt: string
+): FhirResource {
+  const text = `${finding.error} ${finding.explanation}`;
+  const implicated = statements
+    .filter(({ drug }) => [drug.drugName.split(/\s+/)[0], ...codedIngredients(drug)].some(term => containsTerm(text, term)))
+    .map(({ reference }) => reference);
+  const provenance = [
+    finding.source && `Source: ${finding.source}`,
+    finding.ruleIds?.length && `Rules: ${finding.ruleIds.join(', ')}`,
+  ].filter(Boolean).join('. ');
+  return {
+    resourceType: 'DetectedIssue',
+    status: 'final',
+    code: { text: finding.errorType },
+    severity: severityMap[finding.riskLevel],
+    patient,
+    identifiedDateTime: identifiedAt,
+    author,
+    ...(implicated.length > 0 && { implicated }),
+    detail: provenance ? `${finding.error} (${provenance})` : finding.error,
+    mitigation: [{ action: { text: finding.explanation }, date: identifiedAt, author }],
+  };
+}
+
+/**
+ * Maps a signed-off review to a FHIR R4 collection Bundle: one Patient and Practitioner,
+ * a MedicationStatement per drug, an Observation per lab value and a DetectedIssue per finding.
+ */
+export function buildFhirBundle(result: AnalysisResult, signOff: ReviewSignOff): FhirBundle {
+  const entry: FhirBundle['entry'] = [];
+  const add = (resource: FhirResource): Reference => {
+    const id = crypto.randomUUID();
+    entry.push({ fullUrl: fullUrl(id), resource: { resourceType: resource.resourceType, id, ...resource } });
+    return { reference: fullUrl(id) };
+  };
+
+  const context = result.patientContext;
+  const patient = add({
+    resourceType: 'Patient',
+    ...(context?.sex && { gender: context.sex }),
+    ...(context?.age !== undefined && {
+      extension: [{ url: 'http://hl7.org/fhir/StructureDefinition/patient-age', valueAge: { value: context.age, unit: 'a', system: UCUM, code: 'a' } }],
+    }),
+  });
+  const author = {
+    ...add({
+      resourceType: 'Practitioner',
+      name: [{ text: signOff.pharmacistName }],
+      ...(signOff.registrationNumber && { identifier: [{ value: signOff.registrationNumber }] }),
+    }),
+    display: signOff.pharmacistName,
+  };
+
+  const statements = result.drugInformation.map(drug => ({ drug, reference: add(medicationStatement(drug, patient)) }));
+  result.labInterpretation.forEach(lab => add(observation(lab, patient, result)));
+  result.potentialErrors.forEach(finding => add(detectedIssue(finding, patient, author, statements, signOff.signedAt)));
+
+  return { resourceType: 'Bundle', type: 'collection', timestamp: signOff.signedAt, entry };
+}
@@ -0,0 +1,179 @@
+import type { Allergy, AllergyReaction, PatientContext } from '../../types';
+import { ageFromBirthDate, emptyPatientContext } from '../patientContext';
+import type { ImportedLab, ImportedMedication, StructuredRecord } from './types';
+
+// FHIR resources are read loosely: only the elements used below are assumed, and every one may be missing.
+type Resource = Record<string, any>;
+
+const LOINC_BODY_WEIGHT = '29463-7';
+const LOINC_BODY_HEIGHT = '8302-2';
+
+function conceptText(concept: Resource | undefined): string | undefined {
+  if (!concept) return undefined;
+  return concept.text ?? concept.coding?.find((coding: Resource) => coding.display)?.display ?? concept.coding?.[0]?.code;
+}
+
+function quantityText(quantity: Resource | undefined): string | undefined {
+  if (quantity?.value === undefined) return undefined;
+  return `${quantity.value}${quantity.unit ?? quantity.code ? ` ${quantity.unit ?? quantity.code}` : ''}`;
+}
+
+function timingText(timing: Resource | undefined): string | undefined {
+  if (!timing) return undefined;
+  if (timing.code) return conceptText(timing.code);
+  const repeat = timing.repeat;
+  if (!repeat?.frequency || !repeat.period || !repeat.periodUnit) return undefined;
+  const units: Record<string, string> = { h: 'hours', d: 'day', wk: 'week', mo: 'month' };
+  const per = repeat.period === 1 ? units[repeat.periodUnit] ?? repeat.periodUnit : `${repeat.period} ${units[repeat.periodUnit] ?? repeat.periodUnit}`;
+  return `${repeat.frequency} time${repeat.frequency === 1 ? '' : 's'} per ${per}`;
+}
+
+function resolveMedicationName(resource: Resource, byReference: Map<string, Resource>): string | undefined {
+  if (resource.medicationCodeableConcept) return conceptText(resource.medicationCodeableConcept);
+  const reference = resource.medicationReference?.reference;
+  const medication = reference ? byReference.get(reference) : undefined;
+  return medication ? conceptText(medication.code) : resource.medicationReference?.display;
+}
+
+function toMedication(resource: Resource, byReference: Map<string, Resource>): ImportedMedication | undefined {
+  const name = resolveMedicationName(resource, byReference);
+  if (!name) return undefined;
+  const dosage = (resource.dosageInstruction ?? resource.dosage)?.[0];
+  const doseAndRate = dosage?.doseAndRate?.[0];
+  return {
+    name,
+    dose: quantityText(doseAndRate?.doseQuantity),
+    route: conceptText(dosage?.route),
+    frequency: timingText(dosage?.timing),
+    instructions: dosage?.text,
+    status: resource.status,
+  };
+}
+
+function toLab(resource: Resource): ImportedLab | undefined {
+  const parameter = conceptText(resource.code);
+  if (!parameter) return undefined;
+  const quantity = resource.valueQuantity;
+  const value = quantity
+    ? `${quantity.comparator ?? ''}${quantity.value}`
+    : resource.valueString ?? resource.valueCodeableConcept?.text ?? (resource.valueInteger !== undefined ? String(resource.valueInteger) : undefined);
+  if (value === undefined) return undefined;
+  const range = resource.referenceRange?.[0];
+  const rangeText = range?.text ?? (range?.low || range?.high ? `${range.low?.value ?? ''}–${range.high?.value ?? ''}` : undefined);
+  return {
+    parameter,
+    value,
+    unit: quantity?.unit ?? quantity?.code ?? '',
+    code: resource.code?.coding?.[0]?.code,
+    referenceRange: rangeText,
+    flag: resource.interpretation?.[0]?.coding?.[0]?.code,
+    observedAt: resource.effectiveDateTime,
+  };
+}
+
+function toAllergy(resource: Resource): Allergy | undefined {
+  const substance = conceptText(resource.code);
+  if (!substance) return undefined;
+  const manifestations = (resource.reaction ?? [])
+    .flatMap((reaction: Resource) => reaction.manifestation ?? [])
+    .map((manifestation: Resource) => conceptText(manifestation)?.toLowerCase() ?? '')
+    .join(' ');
+  let reaction: AllergyReaction = 'unknown';
+  if (/anaphyla/.test(manifestations)) reaction = 'anaphylaxis';
+  else if (/angioedema|swelling/.test(manifestations)) reaction = 'angioedema';
+  else if (/rash|urticaria|hives/.test(manifestations)) reaction = 'rash';
+  else if (resource.type === 'intolerance') reaction = 'intolerance';
+  else if (manifestations) reaction = 'other';
+  return { substance, reaction };
+}
+
+const isInactive = (resource: Resource) =>
+  ['inactive', 'resolved', 'remission', 'refuted', 'entered-in-error'].includes(
+    resource.clinicalStatus?.coding?.[0]?.code ?? resource.verificationStatus?.coding?.[0]?.code
+  );
+
+/** Parses a FHIR R4 Bundle (or a single resource) into a structured record. */
+export function parseFhirBundle(json: unknown): StructuredRecord {
+  const root = json as Resource;
+  if (!root || typeof root !== 'object' || typeof root.resourceType !== 'string') {
+    throw new Error('This is not a FHIR resource: "resourceType" is missing.');
+  }
+  const resources: Resource[] = root.resourceType === 'Bundle'
+    ? (root.entry ?? []).map((entry: Resource) => entry.resource).filter(Boolean)
+    : [root];
+
+  // Bundles reference each other by fullUrl, "Type/id" or (inside the bundle) either form.
+  const byReference = new Map<string, Resource>();
+  (root.entry ?? []).forEach((entry: Resource) => {
+    if (!entry.resource) return;
+    if (entry.fullUrl) byReference.set(entry.fullUrl, entry.resource);
+    if (entry.resource.id) byReference.set(`${entry.resource.resourceType}/${entry.resource.id}`, entry.resource);
+  });
+
+  const medications: ImportedMedication[] = [];
+  const labs: ImportedLab[] = [];
+  const warnings: string[] = [];
+  const context: PatientContext = { ...emptyPatientContext, allergies: [], diagnoses: [], homeMedications: [] };
+  const skipped = new Map<string, number>();
+
+  for (const resource of resources) {
+    switch (resource.resourceType) {
+      case 'Patient': {
+        if (resource.gender === 'male' || resource.gender === 'female') context.sex = resource.gender;
+        if (resource.birthDate) context.age = ageFromBirthDate(resource.birthDate);
+        break;
+      }
+      case 'MedicationRequest': {
+        if (['cancelled', 'stopped', 'entered-in-error', 'completed'].includes(resource.status)) {
+          warnings.push(`Skipped ${resource.status} MedicationRequest for ${resolveMedicationName(resource, byReference) ?? 'an unnamed medication'}.`);
+          break;
+        }
+        const medication = toMedication(resource, byReference);
+        if (medication) medications.push(medication);
+        else warnings.push('Skipped a MedicationRequest without a medication name.');
+        break;
+      }
+      case 'MedicationStatement': {
+        const medication = toMedication(resource, byReference);
+        if (medication && resource.status !== 'stopped') {
+          context.homeMedications.push([medication.name, medication.dose, medication.frequency ?? medication.instructions].filter(Boolean).join(' '));
+        }
+        break;
+      }
+      case 'Observation': {
+        const code = resource.code?.coding?.[0]?.code;
+        if (code === LOINC_BODY_WEIGHT && resource.valueQuantity?.value !== undefined) {
+          context.weightKg = resource.valueQuantity.unit === 'g' ? resource.valueQuantity.value / 1000 : resource.valueQuantity.value;
+          break;
+        }
+        if (code === LOINC_BODY_HEIGHT && resource.valueQuantity?.value !== undefined) {
+          context.heightCm = resource.valueQuantity.unit === 'm' ? resource.valueQuantity.value * 100 : resource.valueQuantity.value;
+          break;
+        }
+        const lab = toLab(resource);
+        if (lab) labs.push(lab);
+        else warnings.push(`Skipped an Observation without a code or value${resource.id ? ` (${resource.id})` : ''}.`);
+        break;
+      }
+      case 'AllergyIntolerance': {
+        if (isInactive(resource)) break;
+        const allergy = toAllergy(resource);
+        if (allergy) context.allergies.push(allergy);
+        break;
+      }
+      case 'Condition': {
+        if (isInactive(resource)) break;
+        const diagnosis = conceptText(resource.code);
+        if (diagnosis) context.diagnoses.push(diagnosis);
+        break;
+      }
+      case 'Medication':
+        break;
+      default:
+        skipped.set(resource.resourceType, (skipped.get(resource.resourceType) ?? 0) + 1);
+    }
+  }
+
+  skipped.forEach((count, type) => warnings.push(`Ignored ${count} ${type} resource${count === 1 ? '' : 's'}.`));
+  return { format: 'fhir', medications, labs, patientContext: context, warnings };
+}
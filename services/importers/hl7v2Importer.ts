@@ -0,0 +1,213 @@
+import type { AllergyReaction, PatientContext } from '../../types';
+import { ageFromBirthDate, emptyPatientContext } from '../patientContext';
+import type { ImportedLab, ImportedMedication, StructuredRecord } from './types';
+
+interface Delimiters {
+  field: string;
+  component: string;
+  repetition: string;
+  escape: string;
+  subcomponent: string;
+}
+
+type Segment = { id: string; fields: string[] };
+
+const LOINC_BODY_WEIGHT = '29463-7';
+const LOINC_BODY_HEIGHT = '8302-2';
+
+function readDelimiters(msh: string): Delimiters {
+  const encoding = msh.slice(4, 8);
+  return {
+    field: msh[3],
+    component: encoding[0] ?? '^',
+    repetition: encoding[1] ?? '~',
+    escape: encoding[2] ?? '\\',
+    subcomponent: encoding[3] ?? '&',
+  };
+}
+
+function unescape(text: string, d: Delimiters): string {
+  const e = d.escape;
+  return text
+    .split(`${e}F${e}`).join(d.field)
+    .split(`${e}S${e}`).join(d.component)
+    .split(`${e}R${e}`).join(d.repetition)
+    .split(`${e}T${e}`).join(d.subcomponent)
+    .split(`${e}E${e}`).join(e)
+    .split(`${e}.br${e}`).join(' ');
+}
+
+/** Splits the message so that `fields[n]` is HL7 field n (MSH-1 being the field separator itself). */
+function parseSegments(message: string, d: Delimiters): Segment[] {
+  return message
+    .split(/\r\n|\r|\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const parts = line.split(d.field);
+      const id = parts[0];
+      // MSH-1 is the separator itself, so MSH fields are shifted by one compared with every other segment.
+      const fields = id === 'MSH' ? [id, d.field, ...parts.slice(1)] : parts;
+      return { id, fields };
+    });
+}
+
+function component(field: string | undefined, index: number, d: Delimiters): string {
+  const first = (field ?? '').split(d.repetition)[0];
+  return unescape(first.split(d.component)[index - 1] ?? '', d).trim();
+}
+
+/** Unit identifiers (CE) are usually UCUM-like in the code and spelled out in the text, so prefer the code. */
+function unitText(field: string | undefined, d: Delimiters): string {
+  return component(field, 1, d) || component(field, 2, d);
+}
+
+/** Text of a coded element (CE/CWE): the description, falling back to the code. */
+function codedText(field: string | undefined, d: Delimiters): string {
+  return component(field, 2, d) || component(field, 1, d);
+}
+
+const allergySeverity: Record<string, AllergyReaction> = { SV: 'anaphylaxis', MO: 'other', MI: 'other' };
+
+function allergyReaction(severity: string, reaction: string): AllergyReaction {
+  const text = reaction.toLowerCase();
+  if (/anaphyla/.test(text)) return 'anaphylaxis';
+  if (/angioedema|swelling/.test(text)) return 'angioedema';
+  if (/rash|urticaria|hives/.test(text)) return 'rash';
+  if (/intoleran|nausea|gi upset/.test(text)) return 'intolerance';
+  return allergySeverity[severity] ?? (text ? 'other' : 'unknown');
+}
+
+function hl7Date(value: string): string | undefined {
+  const match = value.match(/^(\d{4})(\d{2})?(\d{2})?/);
+  if (!match) return undefined;
+  return [match[1], match[2] ?? '01', match[3] ?? '01'].join('-');
+}
+
+function hl7DateTime(value: string): string | undefined {
+  const date = hl7Date(value);
+  const time = value.match(/^\d{8}(\d{2})(\d{2})/);
+  return date && time ? `${date}T${time[1]}:${time[2]}` : date;
+}
+
+/** Parses an HL7 v2 pharmacy order (RDE/RXO-bearing) or lab result (ORU) message into a structured record. */
+export function parseHl7v2Message(message: string): StructuredRecord {
+  const start = message.indexOf('MSH');
+  if (start === -1) {
+    throw new Error('This is not an HL7 v2 message: no MSH segment was found.');
+  }
+  const text = message.slice(start);
+  const delimiters = readDelimiters(text);
+  const segments = parseSegments(text, delimiters);
+  const d = delimiters;
+
+  const medications: ImportedMedication[] = [];
+  const labs: ImportedLab[] = [];
+  const warnings: string[] = [];
+  const context: PatientContext = { ...emptyPatientContext, allergies: [], diagnoses: [], homeMedications: [] };
+
+  const messageType = component(segments[0].fields[9], 1, d);
+  if (!['RDE', 'ORU', 'ORM', 'OMP', 'RAS', 'RDS'].includes(messageType)) {
+    warnings.push(`Message type ${messageType || 'unknown'} is not a pharmacy or result message; only recognised segments were read.`);
+  }
+
+  let current: ImportedMedication | undefined;
+  const skipped = new Set<string>();
+
+  for (const { id, fields } of segments) {
+    switch (id) {
+      case 'MSH':
+      case 'EVN':
+      case 'PV1':
+      case 'ORC':
+      case 'OBR':
+      case 'NTE':
+        break;
+      case 'PID': {
+        const birthDate = hl7Date(component(fields[7], 1, d));
+        if (birthDate) context.age = ageFromBirthDate(birthDate);
+        const sex = component(fields[8], 1, d);
+        if (sex === 'M') context.sex = 'male';
+        if (sex === 'F') context.sex = 'female';
+        break;
+      }
+      case 'AL1': {
+        const substance = codedText(fields[3], d);
+        if (substance) {
+          context.allergies.push({ substance, reaction: allergyReaction(component(fields[4], 1, d), codedText(fields[5], d)) });
+        }
+        break;
+      }
+      case 'DG1': {
+        const diagnosis = codedText(fields[3], d) || component(fields[4], 1, d);
+        if (diagnosis) context.diagnoses.push(diagnosis);
+        break;
+      }
+      case 'RXE':
+      case 'RXO': {
+        // RXE-2 / RXO-1 give code, RXE-3 / RXO-2 amount, RXE-5 / RXO-4 units; RXE-1 is the legacy quantity/timing field.
+        const isRxe = id === 'RXE';
+        const name = codedText(fields[isRxe ? 2 : 1], d);
+        if (!name) {
+          warnings.push(`Skipped an ${id} segment without a drug name.`);
+          current = undefined;
+          break;
+        }
+        const amount = component(fields[isRxe ? 3 : 2], 1, d);
+        const units = unitText(fields[isRxe ? 5 : 4], d);
+        const sig = codedText(fields[7], d);
+        current = {
+          name,
+          dose: amount ? `${amount}${units ? ` ${units}` : ''}` : undefined,
+          frequency: isRxe ? component(fields[1], 2, d) || undefined : undefined,
+          instructions: sig || undefined,
+        };
+        medications.push(current);
+        break;
+      }
+      case 'TQ1': {
+        const repeat = codedText(fields[3], d);
+        if (current && repeat) current.frequency = repeat;
+        break;
+      }
+      case 'RXR': {
+        const route = codedText(fields[1], d);
+        if (current && route) current.route = route;
+        break;
+      }
+      case 'OBX': {
+        const code = component(fields[3], 1, d);
+        const parameter = codedText(fields[3], d);
+        const value = component(fields[5], 1, d);
+        const unit = unitText(fields[6], d);
+        if (!parameter || !value) {
+          warnings.push(`Skipped an OBX segment without an identifier or value (set ID ${fields[1] || '?'}).`);
+          break;
+        }
+        if (code === LOINC_BODY_WEIGHT && !isNaN(Number(value))) {
+          context.weightKg = Number(value);
+          break;
+        }
+        if (code === LOINC_BODY_HEIGHT && !isNaN(Number(value))) {
+          context.heightCm = Number(value);
+          break;
+        }
+        labs.push({
+          parameter,
+          value,
+          unit,
+          code: code || undefined,
+          referenceRange: component(fields[7], 1, d) || undefined,
+          flag: component(fields[8], 1, d) || undefined,
+          observedAt: hl7DateTime(component(fields[14], 1, d)),
+        });
+        break;
+      }
+      default:
+        skipped.add(id);
+    }
+  }
+
+  if (skipped.size > 0) warnings.push(`Ignored segments: ${[...skipped].join(', ')}.`);
+  return { format: 'hl7v2', medications, labs, patientContext: context, warnings };
+}
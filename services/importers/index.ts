@@ -0,0 +1,65 @@
+import { parseFhirBundle } from './fhirImporter';
+import { parseHl7v2Message } from './hl7v2Importer';
+import type { ImportFormat, StructuredRecord } from './types';
+
+export type { ImportedLab, ImportedMedication, ImportFormat, StructuredRecord } from './types';
+export { parseFhirBundle, parseHl7v2Message };
+
+export function detectImportFormat(text: string): ImportFormat | undefined {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) return 'fhir';
+  if (/^MSH./.test(trimmed)) return 'hl7v2';
+  return undefined;
+}
+
+/** Parses pasted or uploaded FHIR JSON or an HL7 v2 message; throws with a reviewer-facing message when neither fits. */
+export function parseStructuredImport(text: string): StructuredRecord {
+  const format = detectImportFormat(text);
+  if (format === 'fhir') {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`The FHIR JSON could not be read: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return parseFhirBundle(json);
+  }
+  if (format === 'hl7v2') return parseHl7v2Message(text);
+  throw new Error('Paste a FHIR Bundle (JSON starting with "{") or an HL7 v2 message (starting with "MSH").');
+}
+
+export function isStructuredRecordEmpty(record: StructuredRecord): boolean {
+  return record.medications.length === 0 && record.labs.length === 0;
+}
+
+/** Renders the imported data as the analysis input; the patient context is sent separately. */
+export function formatStructuredRecordForPrompt(record: StructuredRecord): string {
+  const source = record.format === 'fhir' ? 'a FHIR R4 Bundle' : 'an HL7 v2 message';
+  const medicationLines = record.medications.map(medication => {
+    const details = [
+      medication.dose && `dose ${medication.dose}`,
+      medication.route && `route ${medication.route}`,
+      medication.frequency && `frequency ${medication.frequency}`,
+      medication.instructions && `sig "${medication.instructions}"`,
+      medication.status && `status ${medication.status}`,
+    ].filter(Boolean);
+    return `  - ${medication.name}${details.length > 0 ? ` (${details.join('; ')})` : ''}`;
+  });
+  const labLines = record.labs.map(lab => {
+    const details = [
+      lab.code && `code ${lab.code}`,
+      lab.referenceRange && `reference ${lab.referenceRange}`,
+      lab.flag && `flag ${lab.flag}`,
+      lab.observedAt && `observed ${lab.observedAt}`,
+    ].filter(Boolean);
+    return `  - ${lab.parameter}: ${lab.value} ${lab.unit}`.trimEnd() + (details.length > 0 ? ` (${details.join('; ')})` : '');
+  });
+
+  return `The medical information below was parsed from ${source} exported by the patient's EHR. The values are exact; do not reinterpret or correct drug names, doses or lab results.
+
+Active medication orders:
+${medicationLines.length > 0 ? medicationLines.join('\n') : '  (none)'}
+
+Lab results:
+${labLines.length > 0 ? labLines.join('\n') : '  (none)'}`;
+}
@@ -0,0 +1,36 @@
+import type { PatientContext } from '../../types';
+
+export type ImportFormat = 'fhir' | 'hl7v2';
+
+export interface ImportedMedication {
+  name: string;
+  /** Dose per administration as written, e.g. "500 mg". */
+  dose?: string;
+  route?: string;
+  frequency?: string;
+  /** Free-text sig when the source carries one. */
+  instructions?: string;
+  status?: string;
+}
+
+export interface ImportedLab {
+  parameter: string;
+  value: string;
+  unit: string;
+  /** LOINC or local code from the source system. */
+  code?: string;
+  referenceRange?: string;
+  /** Abnormal flag from the source system, e.g. "H", "L", "A". */
+  flag?: string;
+  observedAt?: string;
+}
+
+/** Medications, labs and patient details parsed locally from a structured EHR message. */
+export interface StructuredRecord {
+  format: ImportFormat;
+  medications: ImportedMedication[];
+  labs: ImportedLab[];
+  patientContext: PatientContext;
+  /** Segments or resources that were skipped or only partly understood. */
+  warnings: string[];
+}
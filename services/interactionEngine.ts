@@ -0,0 +1,328 @@
+import { RISK_LEVELS, type AnalysisResult, type DrugInfo, type InstitutionalPolicy, type PatientContext, type PotentialError, type RiskLevel } from '../types';
+import { INTERACTION_KB_VERSION, drugGroups, duplicationRules, interactionRules } from './knowledge/interactionKnowledgeBase';
+import { maxDailyDoseTable } from './knowledge/maxDailyDoseTable';
+import { atcDuplicationExemptions } from './knowledge/terminologyIndex';
+import { estimateEgfr } from './organFunction';
+import { calculatePaediatricDoses } from './paediatricDosing';
+import { POLICY_ERROR_TYPE } from './policy';
+import { dailyDoseMg, describeSig, orderForDrug } from './sigParser';
+import { atcClassName, codedIngredients, containsTerm, ingredientTerms, mapDrugName } from './terminology';
+
+export interface RuleFinding extends PotentialError {
+  ruleId: string;
+  /** One list of terms per side of the finding; an AI finding confirms the rule only if it mentions every side. */
+  matchTerms: string[][];
+}
+
+function membersOf(ref: string): string[] {
+  return drugGroups[ref]?.members ?? [ref];
+}
+
+function maxRisk(a: RiskLevel, b: RiskLevel): RiskLevel {
+  return RISK_LEVELS.indexOf(a) >= RISK_LEVELS.indexOf(b) ? a : b;
+}
+
+/**
+ * Runs the bundled interaction and duplication rules over the extracted drug list, then flags the same ingredient
+ * in two products and two drugs sharing an ATC chemical subgroup.
+ */
+export function runInteractionRules(drugs: DrugInfo[]): RuleFinding[] {
+  const resolved = drugs.map(drug => ({
+    name: drug.drugName,
+    ingredients: codedIngredients(drug),
+    atc: drug.terminology?.codings.flatMap(coding => coding.atc.map(code => ({ ingredient: coding.ingredient, atcClass: code.slice(0, 5) }))) ?? [],
+    evidence: drug.evidence ?? [],
+  }));
+  const findings: RuleFinding[] = [];
+  // Drug names already reported together as duplicates, so the ATC pass does not report them again.
+  const covered: Set<string>[] = [];
+
+  for (const rule of interactionRules) {
+    const membersA = membersOf(rule.a);
+    const membersB = membersOf(rule.b);
+    for (let i = 0; i < resolved.length; i++) {
+      for (let j = i + 1; j < resolved.length; j++) {
+        const [first, second] = [resolved[i], resolved[j]];
+        const pair =
+          matchPair(first.ingredients, second.ingredients, membersA, membersB) ??
+          swap(matchPair(second.ingredients, first.ingredients, membersA, membersB));
+        if (!pair) continue;
+        const [ingredientA, ingredientB] = pair;
+        if (ingredientA === ingredientB) continue;
+        findings.push({
+          ruleId: rule.id,
+          errorType: 'Drug-Drug Interaction',
+          riskLevel: rule.riskLevel,
+          error: `${first.name} + ${second.name}: ${rule.summary}.`,
+          explanation: rule.rationale,
+          // A rule finding is only as grounded as the drugs it was derived from.
+          evidence: [...first.evidence, ...second.evidence],
+          matchTerms: [ingredientTerms(ingredientA), ingredientTerms(ingredientB)],
+        });
+      }
+    }
+  }
+
+  for (const rule of duplicationRules) {
+    const group = drugGroups[rule.group];
+    const involved = resolved
+      .map(drug => ({ ...drug, ingredient: drug.ingredients.find(ingredient => group.members.includes(ingredient)) }))
+      .filter((drug): drug is typeof drug & { ingredient: string } => Boolean(drug.ingredient));
+    if (new Set(involved.map(drug => drug.ingredient)).size < 2) continue;
+    findings.push({
+      ruleId: rule.id,
+      errorType: 'Duplicate Therapy',
+      riskLevel: rule.riskLevel,
+      error: `${involved.map(drug => drug.name).join(' + ')}: more than one drug from ${group.label}.`,
+      explanation: rule.rationale,
+      evidence: involved.flatMap(drug => drug.evidence),
+      matchTerms: [
+        ['duplicate', 'duplication', 'duplicated'],
+        ...[...new Set(involved.map(drug => drug.ingredient))].map(ingredientTerms),
+      ],
+    });
+    covered.push(new Set(involved.map(drug => drug.name)));
+  }
+
+  // The same ingredient in two products, e.g. paracetamol on its own and in a combination analgesic.
+  for (const ingredient of new Set(resolved.flatMap(drug => drug.ingredients))) {
+    const involved = resolved.filter(drug => drug.ingredients.includes(ingredient));
+    if (involved.length < 2) continue;
+    findings.push({
+      ruleId: `same-ingredient-${ingredient}`,
+      errorType: 'Duplicate Therapy',
+      riskLevel: 'Moderate',
+      error: `${involved.map(drug => drug.name).join(' + ')}: ${ingredient} is prescribed in more than one product.`,
+      explanation: 'The same ingredient in two products is easily given twice, and the combined dose can exceed its maximum. Confirm whether both are intended and check the total daily dose.',
+      evidence: involved.flatMap(drug => drug.evidence),
+      matchTerms: [['duplicate', 'duplication', 'duplicated', 'twice', 'both contain'], ingredientTerms(ingredient)],
+    });
+    covered.push(new Set(involved.map(drug => drug.name)));
+  }
+
+  // Class-level duplication from the ATC codes, for classes the hand-written groups above do not cover.
+  const atcClasses = new Set(resolved.flatMap(drug => drug.atc.map(code => code.atcClass)));
+  for (const atcClass of atcClasses) {
+    if (atcClass in atcDuplicationExemptions) continue;
+    const involved = resolved
+      .map(drug => ({ ...drug, ingredient: drug.atc.find(code => code.atcClass === atcClass)?.ingredient }))
+      .filter((drug): drug is typeof drug & { ingredient: string } => Boolean(drug.ingredient));
+    const ingredients = [...new Set(involved.map(drug => drug.ingredient))];
+    if (ingredients.length < 2 || covered.some(names => involved.every(drug => names.has(drug.name)))) continue;
+    findings.push({
+      ruleId: `atc-duplicate-${atcClass}`,
+      errorType: 'Duplicate Therapy',
+      riskLevel: 'Moderate',
+      error: `${involved.map(drug => drug.name).join(' + ')}: more than one drug from ATC class ${atcClass} (${atcClassName(atcClass) ?? 'same chemical subgroup'}).`,
+      explanation: 'Drugs in the same ATC chemical subgroup act the same way, so a second one adds adverse effects with little extra benefit. Confirm whether both are intended, for example during a switch, or stop one.',
+      evidence: involved.flatMap(drug => drug.evidence),
+      matchTerms: [['duplicate', 'duplication', 'duplicated', 'same class'], ...ingredients.map(ingredientTerms)],
+    });
+  }
+
+  return findings;
+}
+
+const formatMg = (mg: number) => (mg >= 1000 ? `${+(mg / 1000).toFixed(2)} g` : mg < 1 ? `${+(mg * 1000).toFixed(1)} micrograms` : `${+mg.toFixed(1)} mg`);
+
+/**
+ * Compares each drug's parsed total daily dose with the bundled maximum. Only single-ingredient oral (or
+ * route-unstated) orders with a mass strength and a known frequency are checked, so a combination product or
+ * weight-based dose is never flagged on a guess. A weekly-dosed drug ordered more often than weekly is reported as a
+ * frequency error instead, as that is the error to correct.
+ */
+export function runMaxDoseRules(drugs: DrugInfo[]): RuleFinding[] {
+  const findings: RuleFinding[] = [];
+  for (const drug of drugs) {
+    const order = drug.medicationOrder;
+    const ingredients = codedIngredients(drug);
+    const entry = ingredients.length === 1 ? maxDailyDoseTable[ingredients[0]] : undefined;
+    if (!order || !entry || (order.route && order.route !== 'PO')) continue;
+    const daily = dailyDoseMg(order);
+    if (daily === undefined) continue;
+
+    const weekly = entry.per === 'week';
+    const total = weekly ? daily * 7 : daily;
+    if (weekly && order.dosesPerDay !== undefined && order.dosesPerDay > 1 / 7) {
+      findings.push({
+        ruleId: `weekly-frequency-${ingredients[0]}`,
+        errorType: 'Incorrect Frequency',
+        riskLevel: 'High',
+        error: `${drug.drugName} ${describeSig(order)}: a once-weekly drug ordered ${order.frequency ?? 'more often than weekly'}, ${formatMg(total)}/week.`,
+        explanation: entry.note,
+        evidence: drug.evidence ?? [],
+        matchTerms: [['daily', 'frequency', 'weekly', 'once a week', 'every day'], ingredientTerms(ingredients[0])],
+      });
+      continue;
+    }
+    if (total <= entry.maxMg) continue;
+    const period = weekly ? 'week' : 'day';
+    findings.push({
+      ruleId: `max-dose-${ingredients[0]}`,
+      errorType: 'Incorrect Dose',
+      riskLevel: entry.narrowMargin || total >= entry.maxMg * 1.5 ? 'High' : 'Moderate',
+      error: `${drug.drugName} ${describeSig(order)}: ${formatMg(total)}/${period}${order.prn ? ' if taken as often as allowed' : ''}, above the usual maximum of ${formatMg(entry.maxMg)}/${period}.`,
+      explanation: entry.note,
+      evidence: drug.evidence ?? [],
+      matchTerms: [['incorrect dose', 'maximum', 'max', 'exceed', 'exceeds', 'exceeding', 'overdose', 'too high', 'supratherapeutic'], ingredientTerms(ingredients[0])],
+    });
+  }
+  return findings;
+}
+
+const overdoseTerms = ['incorrect dose', 'maximum', 'max', 'exceed', 'exceeds', 'exceeding', 'overdose', 'too high', 'supratherapeutic', 'mg/kg'];
+const underdoseTerms = ['incorrect dose', 'underdose', 'subtherapeutic', 'too low', 'low dose', 'mg/kg'];
+const tenfoldTerms = ['tenfold', 'ten-fold', '10-fold', '10x', 'ten times', '10 times', 'decimal'];
+
+/**
+ * Replaces the adult maximum-dose check for paediatric patients: each drug's dose per kg (or per m²) is compared with
+ * the range for the child's age. Tenfold errors are always High risk.
+ */
+export function runPaediatricDoseRules(drugs: DrugInfo[], patient: PatientContext): RuleFinding[] {
+  const findings: RuleFinding[] = [];
+  calculatePaediatricDoses(drugs, patient).forEach((calculation, index) => {
+    const { ingredient, band, status } = calculation;
+    if (!ingredient || !band || status === 'within' || status === 'not-checked') return;
+    const drug = drugs[index];
+    const value = (band.basis === 'kg' ? calculation.mgPerKgDay : calculation.mgPerM2Day)!;
+    const tenfold = status === 'tenfold-over' || status === 'tenfold-under';
+    const over = status === 'tenfold-over' || status === 'above';
+    const riskLevel: RiskLevel = tenfold || value >= band.dailyMax * 1.5 ? 'High' : over || value < band.dailyMin / 2 ? 'Moderate' : 'Low';
+    findings.push({
+      ruleId: `paediatric-${tenfold ? 'tenfold' : 'dose'}-${ingredient}`,
+      errorType: 'Incorrect Dose',
+      riskLevel,
+      error: `${[drug.drugName, calculation.writtenAs, drug.medicationOrder && describeSig(drug.medicationOrder)].filter(Boolean).join(' ')} for ${patient.weightKg} kg: ${calculation.message}`,
+      explanation: band.note,
+      evidence: drug.evidence ?? [],
+      matchTerms: [[...(tenfold ? tenfoldTerms : []), ...(over ? overdoseTerms : underdoseTerms)], ingredientTerms(ingredient)],
+    });
+  });
+  return findings;
+}
+
+/** A policy entry applies to a drug mapped to that ingredient, or whose name mentions it when the drug is unmapped. */
+function policyApplies(drug: DrugInfo, ingredients: string[], policyDrug: string): boolean {
+  return ingredients.includes(policyDrug) || ingredientTerms(policyDrug).some(term => containsTerm(drug.drugName, term));
+}
+
+const policyTerms = ['policy', 'formulary', 'non-formulary', 'restricted', 'approval', 'substitute', 'substitution', 'protocol'];
+
+/**
+ * Checks the drug list against the hospital's formulary, restricted list, preferred substitutes and local renal
+ * protocols. A non-formulary drug with a preferred substitute is reported once, as a substitution.
+ */
+export function runPolicyRules(drugs: DrugInfo[], policy: InstitutionalPolicy, egfr?: number): RuleFinding[] {
+  const findings: RuleFinding[] = [];
+  const formulary = new Set(policy.formulary);
+  const finding = (ruleId: string, drug: DrugInfo, riskLevel: RiskLevel, error: string, explanation: string, terms: string[]): RuleFinding => ({
+    ruleId: `policy-${ruleId}`,
+    errorType: POLICY_ERROR_TYPE,
+    riskLevel,
+    error,
+    explanation,
+    evidence: drug.evidence ?? [],
+    matchTerms: [policyTerms, terms],
+  });
+
+  for (const drug of drugs) {
+    const ingredients = codedIngredients(drug);
+    const key = ingredients.join('+') || drug.drugName.toLowerCase();
+    const terms = ingredients.length > 0 ? ingredients.flatMap(ingredientTerms) : [drug.drugName];
+
+    const substitution = policy.substitutions.find(entry => policyApplies(drug, ingredients, entry.drug));
+    const onFormulary = ingredients.length > 0
+      ? ingredients.every(ingredient => formulary.has(ingredient))
+      : [...formulary].some(entry => containsTerm(drug.drugName, entry));
+    if (substitution) {
+      findings.push(finding(`substitute-${key}`, drug, 'Low',
+        `${drug.drugName}: the formulary substitute is ${substitution.substitute}.`,
+        substitution.note ?? `${policy.name} substitutes ${substitution.substitute} for ${substitution.drug}.`, terms));
+    } else if (formulary.size > 0 && !onFormulary) {
+      findings.push(finding(`nonformulary-${key}`, drug, 'Low',
+        `${drug.drugName} is not on the ${policy.name} formulary.`,
+        'Non-formulary drugs need a non-formulary request, or a formulary alternative.', terms));
+    }
+
+    for (const entry of policy.restricted.filter(entry => policyApplies(drug, ingredients, entry.drug))) {
+      findings.push(finding(`restricted-${entry.drug}`, drug, 'Moderate',
+        `${drug.drugName} is restricted: it needs ${entry.approval} approval.`,
+        entry.note ?? `${policy.name} restricts ${entry.drug} to prescriptions approved by ${entry.approval}.`, terms));
+    }
+
+    if (egfr === undefined) continue;
+    for (const entry of policy.renalProtocols.filter(entry => egfr < entry.belowEgfr && policyApplies(drug, ingredients, entry.drug))) {
+      findings.push(finding(`renal-${entry.drug}`, drug, 'Moderate',
+        `${drug.drugName} with eGFR ${Math.round(egfr)}: the local renal protocol applies below ${entry.belowEgfr}.`,
+        entry.note, [...terms, 'renal', 'egfr', 'kidney']));
+    }
+  }
+  return findings;
+}
+
+function matchPair(left: string[], right: string[], membersA: string[], membersB: string[]): [string, string] | null {
+  const a = left.find(ingredient => membersA.includes(ingredient));
+  const b = right.find(ingredient => membersB.includes(ingredient));
+  return a && b ? [a, b] : null;
+}
+
+function swap(pair: [string, string] | null): [string, string] | null {
+  return pair ? [pair[1], pair[0]] : null;
+}
+
+/**
+ * Merges rule findings into the model's `potentialErrors`: model findings that a rule reproduces are marked
+ * "rule-confirmed", the rest "ai-only", and rule findings the model missed are appended as "rule-only".
+ * Each drug is first mapped to ingredient codes (keeping manual corrections) and its sig parsed into a
+ * `medicationOrder`, so every rule works from the same coded drug list. With a `policy`, its rules run too; for a
+ * paediatric patient, doses are checked per kg against the paediatric ranges instead of the adult maxima.
+ */
+export function crossCheckFindings(result: AnalysisResult, policy?: InstitutionalPolicy | null): AnalysisResult {
+  const drugInformation = result.drugInformation.map(drug => ({
+    ...drug,
+    terminology: drug.terminology?.match === 'manual' ? drug.terminology : mapDrugName(drug.drugName),
+    medicationOrder: orderForDrug(drug),
+  }));
+  const ruleFindings = [
+    ...runInteractionRules(drugInformation),
+    ...(result.patientContext?.paediatric ? runPaediatricDoseRules(drugInformation, result.patientContext) : runMaxDoseRules(drugInformation)),
+    ...(policy ? runPolicyRules(drugInformation, policy, estimateEgfr(result.labInterpretation, result.patientContext)) : []),
+  ];
+  const confirmed = new Set<RuleFinding>();
+
+  const aiFindings = result.potentialErrors.map((finding): PotentialError => {
+    const text = `${finding.errorType} ${finding.error} ${finding.explanation}`;
+    const matches = ruleFindings.filter(rule => rule.matchTerms.every(side => side.some(term => containsTerm(text, term))));
+    if (matches.length === 0) {
+      return { ...finding, source: 'ai-only' };
+    }
+    matches.forEach(rule => confirmed.add(rule));
+    return {
+      ...finding,
+      // The rules are the safety net, so never let the model talk a finding down.
+      riskLevel: matches.reduce((level, rule) => maxRisk(level, rule.riskLevel), finding.riskLevel),
+      source: 'rule-confirmed',
+      ruleIds: matches.map(rule => rule.ruleId),
+    };
+  });
+
+  const ruleOnly = ruleFindings
+    .filter(rule => !confirmed.has(rule))
+    .map(({ ruleId, matchTerms, ...finding }): PotentialError => ({ ...finding, source: 'rule-only', ruleIds: [ruleId] }));
+
+  return {
+    ...result,
+    drugInformation,
+    potentialErrors: [...aiFindings, ...ruleOnly],
+    ruleBaseVersion: INTERACTION_KB_VERSION,
+    policy: policy ? { name: policy.name, ...(policy.version && { version: policy.version }) } : undefined,
+  };
+}
+
+/**
+ * Re-runs the rules after a drug's mapping is corrected: earlier rule-only findings are dropped and re-derived,
+ * with the policy currently loaded.
+ */
+export function recheckFindings(result: AnalysisResult, policy?: InstitutionalPolicy | null): AnalysisResult {
+  return crossCheckFindings({ ...result, potentialErrors: result.potentialErrors.filter(finding => finding.source !== 'rule-only') }, policy);
+}
@@ -0,0 +1,88 @@
+import type { InterventionAuditEntry, PotentialError, SavedCase } from '../types';
+import { AUDIT_STORE, withStore } from './localDb';
+
+export type InterventionInput = Pick<InterventionAuditEntry, 'decision' | 'category' | 'reason' | 'notes' | 'reviewer'>;
+
+/** Appends a review action for one finding of a saved case. There is deliberately no update or delete. */
+export async function recordIntervention(
+  saved: SavedCase,
+  findingIndex: number,
+  finding: PotentialError,
+  input: InterventionInput
+): Promise<InterventionAuditEntry> {
+  if (!input.reviewer.trim()) {
+    throw new Error('Enter the reviewer name before recording an intervention.');
+  }
+  if (input.decision === 'rejected' && !input.reason?.trim()) {
+    throw new Error('Give a reason for rejecting the finding.');
+  }
+  const entry: InterventionAuditEntry = {
+    id: crypto.randomUUID(),
+    caseId: saved.id,
+    caseLabel: saved.label,
+    findingIndex,
+    errorType: finding.errorType,
+    riskLevel: finding.riskLevel,
+    findingSource: finding.source,
+    error: finding.error,
+    decision: input.decision,
+    category: input.category,
+    reason: input.reason?.trim() || undefined,
+    notes: input.notes?.trim() || undefined,
+    reviewer: input.reviewer.trim(),
+    recordedAt: new Date().toISOString(),
+  };
+  await withStore(AUDIT_STORE, 'readwrite', store => store.add(entry));
+  return entry;
+}
+
+/** Audit entries, oldest first; limited to one case when `caseId` is given. */
+export async function listInterventions(caseId?: string): Promise<InterventionAuditEntry[]> {
+  const entries = await withStore<InterventionAuditEntry[]>(AUDIT_STORE, 'readonly', store =>
+    caseId ? store.index('caseId').getAll(caseId) : store.getAll()
+  );
+  return entries.sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+}
+
+/** The current review of each finding, keyed by finding index. */
+export function latestReviews(entries: InterventionAuditEntry[]): Map<number, InterventionAuditEntry> {
+  const latest = new Map<number, InterventionAuditEntry>();
+  for (const entry of entries) {
+    const current = latest.get(entry.findingIndex);
+    if (!current || current.recordedAt <= entry.recordedAt) latest.set(entry.findingIndex, entry);
+  }
+  return latest;
+}
+
+const csvColumns: [string, (entry: InterventionAuditEntry) => string | number | undefined][] = [
+  ['recorded_at', entry => entry.recordedAt],
+  ['reviewer', entry => entry.reviewer],
+  ['case_id', entry => entry.caseId],
+  ['case_label', entry => entry.caseLabel],
+  ['finding_number', entry => entry.findingIndex + 1],
+  ['error_type', entry => entry.errorType],
+  ['risk_level', entry => entry.riskLevel],
+  ['finding_source', entry => entry.findingSource],
+  ['finding', entry => entry.error],
+  ['decision', entry => entry.decision],
+  ['intervention_category', entry => entry.category],
+  ['reason', entry => entry.reason],
+  ['notes', entry => entry.notes],
+];
+
+/**
+ * Free text such as notes or a model-written finding can start with `=`, `+`, `-` or `@`, which spreadsheets run as a
+ * formula when the file is opened; such cells get a leading apostrophe so they are shown as text.
+ */
+function csvCell(value: string | number | undefined): string {
+  const raw = value === undefined ? '' : String(value);
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** RFC 4180 CSV, one row per audit entry, for intervention statistics. */
+export function interventionsToCsv(entries: InterventionAuditEntry[]): string {
+  const header = csvColumns.map(([name]) => name).join(',');
+  const rows = entries.map(entry => csvColumns.map(([, read]) => csvCell(read(entry))).join(','));
+  return [header, ...rows].join('\r\n') + '\r\n';
+}
@@ -0,0 +1,361 @@
+import type { RiskLevel } from '../../types';
+
+/** Bump whenever rules, groups or aliases change so findings can be traced to the rule set that produced them. */
+export const INTERACTION_KB_VERSION = '2026.10.3';
+
+export interface DrugGroup {
+  label: string;
+  members: string[];
+}
+
+export interface InteractionRule {
+  id: string;
+  /** An ingredient name or a key of `drugGroups`. */
+  a: string;
+  b: string;
+  riskLevel: RiskLevel;
+  summary: string;
+  rationale: string;
+}
+
+export interface DuplicationRule {
+  id: string;
+  group: string;
+  riskLevel: RiskLevel;
+  rationale: string;
+}
+
+/** Brand names and spelling variants mapped to the ingredient names used throughout the rules. */
+export const drugAliases: Record<string, string[]> = {
+  warfarin: ['coumadin', 'jantoven', 'marevan'],
+  apixaban: ['eliquis'],
+  rivaroxaban: ['xarelto'],
+  dabigatran: ['pradaxa'],
+  edoxaban: ['lixiana', 'savaysa'],
+  aspirin: ['acetylsalicylic', 'asa', 'ecosprin', 'disprin'],
+  clopidogrel: ['plavix'],
+  ticagrelor: ['brilinta', 'brilique'],
+  ibuprofen: ['brufen', 'advil', 'motrin', 'nurofen'],
+  naproxen: ['aleve', 'naprosyn'],
+  diclofenac: ['voltaren', 'voltarol'],
+  celecoxib: ['celebrex'],
+  ketorolac: ['toradol'],
+  indomethacin: ['indocin', 'indometacin'],
+  meloxicam: ['mobic'],
+  lisinopril: ['zestril', 'prinivil'],
+  enalapril: ['vasotec', 'renitec'],
+  ramipril: ['altace', 'tritace'],
+  perindopril: ['coversyl', 'aceon'],
+  losartan: ['cozaar'],
+  valsartan: ['diovan'],
+  telmisartan: ['micardis'],
+  candesartan: ['atacand'],
+  spironolactone: ['aldactone'],
+  eplerenone: ['inspra'],
+  amiloride: ['midamor'],
+  'potassium chloride': ['k-dur', 'slow-k', 'klor-con'],
+  simvastatin: ['zocor'],
+  atorvastatin: ['lipitor'],
+  rosuvastatin: ['crestor'],
+  lovastatin: ['mevacor'],
+  pravastatin: ['pravachol'],
+  clarithromycin: ['biaxin', 'klacid'],
+  erythromycin: ['erythrocin'],
+  azithromycin: ['zithromax', 'azithral'],
+  ciprofloxacin: ['cipro', 'ciproxin'],
+  levofloxacin: ['levaquin', 'tavanic'],
+  moxifloxacin: ['avelox'],
+  fluconazole: ['diflucan'],
+  itraconazole: ['sporanox'],
+  ketoconazole: ['nizoral'],
+  metronidazole: ['flagyl'],
+  trimethoprim: ['bactrim', 'septra', 'co-trimoxazole', 'cotrimoxazole'],
+  amiodarone: ['cordarone', 'pacerone'],
+  digoxin: ['lanoxin'],
+  verapamil: ['calan', 'isoptin'],
+  omeprazole: ['prilosec', 'losec'],
+  esomeprazole: ['nexium'],
+  pantoprazole: ['protonix', 'pantoloc'],
+  lansoprazole: ['prevacid'],
+  fluoxetine: ['prozac'],
+  sertraline: ['zoloft'],
+  citalopram: ['celexa', 'cipramil'],
+  escitalopram: ['lexapro', 'cipralex'],
+  paroxetine: ['paxil', 'seroxat'],
+  phenelzine: ['nardil'],
+  selegiline: ['eldepryl', 'emsam'],
+  linezolid: ['zyvox'],
+  tramadol: ['ultram', 'tramal'],
+  methotrexate: ['trexall', 'rheumatrex'],
+  lithium: ['lithobid', 'priadel', 'camcolit'],
+  hydrochlorothiazide: ['hctz', 'microzide'],
+  furosemide: ['lasix', 'frusemide'],
+  sildenafil: ['viagra', 'revatio'],
+  tadalafil: ['cialis'],
+  'glyceryl trinitrate': ['nitroglycerin', 'gtn', 'nitrostat'],
+  'isosorbide mononitrate': ['imdur', 'ismo'],
+  allopurinol: ['zyloprim', 'zyloric'],
+  azathioprine: ['imuran'],
+  mercaptopurine: ['purinethol'],
+  theophylline: ['theo-24', 'uniphyllin'],
+  colchicine: ['colcrys'],
+  alprazolam: ['xanax'],
+  diazepam: ['valium'],
+  lorazepam: ['ativan'],
+  clonazepam: ['klonopin', 'rivotril'],
+  morphine: ['ms contin', 'oramorph'],
+  oxycodone: ['oxycontin', 'roxicodone'],
+  codeine: [],
+  fentanyl: ['duragesic'],
+  methadone: ['dolophine'],
+  haloperidol: ['haldol'],
+  ondansetron: ['zofran'],
+  metformin: ['glucophage'],
+  gliclazide: ['diamicron'],
+  glimepiride: ['amaryl'],
+  glipizide: ['glucotrol'],
+  metoprolol: ['lopressor', 'toprol', 'betaloc'],
+  atenolol: ['tenormin'],
+  bisoprolol: ['concor', 'zebeta'],
+  carvedilol: ['coreg'],
+  paracetamol: ['acetaminophen', 'tylenol', 'panadol', 'calpol'],
+  gabapentin: ['neurontin'],
+  pregabalin: ['lyrica'],
+  sitagliptin: ['januvia'],
+  nitrofurantoin: ['macrobid', 'macrodantin'],
+  chlorphenamine: ['chlorpheniramine', 'piriton'],
+  diphenhydramine: ['benadryl', 'nytol'],
+  zopiclone: ['zimovane'],
+  zolpidem: ['ambien', 'stilnoct'],
+  macrogol: ['movicol', 'laxido', 'polyethylene glycol', 'miralax'],
+  senna: ['senokot'],
+  'folic acid': ['folate'],
+};
+
+export const drugGroups: Record<string, DrugGroup> = {
+  nsaid: {
+    label: 'NSAIDs',
+    members: ['ibuprofen', 'naproxen', 'diclofenac', 'celecoxib', 'ketorolac', 'indomethacin', 'meloxicam'],
+  },
+  vka: { label: 'Vitamin K antagonists', members: ['warfarin'] },
+  doac: {
+    label: 'Direct oral anticoagulants',
+    members: ['apixaban', 'rivaroxaban', 'dabigatran', 'edoxaban'],
+  },
+  anticoagulant: {
+    label: 'Oral anticoagulants',
+    members: ['warfarin', 'apixaban', 'rivaroxaban', 'dabigatran', 'edoxaban'],
+  },
+  antiplatelet: { label: 'Antiplatelets', members: ['aspirin', 'clopidogrel', 'ticagrelor'] },
+  acei: {
+    label: 'ACE inhibitors',
+    members: ['lisinopril', 'enalapril', 'ramipril', 'perindopril'],
+  },
+  arb: {
+    label: 'Angiotensin receptor blockers',
+    members: ['losartan', 'valsartan', 'telmisartan', 'candesartan'],
+  },
+  raas: {
+    label: 'RAAS blockers',
+    members: ['lisinopril', 'enalapril', 'ramipril', 'perindopril', 'losartan', 'valsartan', 'telmisartan', 'candesartan'],
+  },
+  potassiumRaising: {
+    label: 'Potassium-sparing diuretics and potassium supplements',
+    members: ['spironolactone', 'eplerenone', 'amiloride', 'potassium chloride'],
+  },
+  cyp3a4Statin: { label: 'CYP3A4-metabolised statins', members: ['simvastatin', 'lovastatin', 'atorvastatin'] },
+  statin: {
+    label: 'Statins',
+    members: ['simvastatin', 'atorvastatin', 'rosuvastatin', 'lovastatin', 'pravastatin'],
+  },
+  strongCyp3a4Inhibitor: {
+    label: 'Strong CYP3A4 inhibitors',
+    members: ['clarithromycin', 'erythromycin', 'itraconazole', 'ketoconazole'],
+  },
+  inrPotentiator: {
+    label: 'Drugs that potentiate warfarin',
+    members: ['clarithromycin', 'erythromycin', 'fluconazole', 'metronidazole', 'trimethoprim', 'amiodarone', 'ciprofloxacin'],
+  },
+  ssri: {
+    label: 'SSRIs',
+    members: ['fluoxetine', 'sertraline', 'citalopram', 'escitalopram', 'paroxetine'],
+  },
+  maoi: { label: 'MAO inhibitors', members: ['phenelzine', 'selegiline', 'linezolid'] },
+  qtProlonging: {
+    label: 'QT-prolonging drugs',
+    members: ['azithromycin', 'clarithromycin', 'erythromycin', 'ciprofloxacin', 'levofloxacin', 'moxifloxacin', 'haloperidol', 'ondansetron', 'citalopram', 'escitalopram', 'amiodarone', 'methadone'],
+  },
+  digoxinRaising: { label: 'Drugs that raise digoxin levels', members: ['amiodarone', 'verapamil', 'clarithromycin'] },
+  lithiumRaising: {
+    label: 'Drugs that raise lithium levels',
+    members: ['ibuprofen', 'naproxen', 'diclofenac', 'celecoxib', 'ketorolac', 'indomethacin', 'meloxicam', 'lisinopril', 'enalapril', 'ramipril', 'perindopril', 'losartan', 'valsartan', 'telmisartan', 'candesartan', 'hydrochlorothiazide'],
+  },
+  pde5Inhibitor: { label: 'PDE5 inhibitors', members: ['sildenafil', 'tadalafil'] },
+  nitrate: { label: 'Nitrates', members: ['glyceryl trinitrate', 'isosorbide mononitrate'] },
+  thiopurine: { label: 'Thiopurines', members: ['azathioprine', 'mercaptopurine'] },
+  cyp2c19Ppi: { label: 'CYP2C19-inhibiting PPIs', members: ['omeprazole', 'esomeprazole'] },
+  ppi: {
+    label: 'Proton pump inhibitors',
+    members: ['omeprazole', 'esomeprazole', 'pantoprazole', 'lansoprazole'],
+  },
+  benzodiazepine: {
+    label: 'Benzodiazepines',
+    members: ['alprazolam', 'diazepam', 'lorazepam', 'clonazepam'],
+  },
+  opioid: {
+    label: 'Opioids',
+    members: ['morphine', 'oxycodone', 'codeine', 'fentanyl', 'methadone', 'tramadol'],
+  },
+  sulfonylurea: { label: 'Sulfonylureas', members: ['gliclazide', 'glimepiride', 'glipizide'] },
+  betaBlocker: {
+    label: 'Beta-blockers',
+    members: ['metoprolol', 'atenolol', 'bisoprolol', 'carvedilol'],
+  },
+  sedatingAntihistamine: {
+    label: 'First-generation antihistamines',
+    members: ['chlorphenamine', 'diphenhydramine', 'hydroxyzine', 'promethazine'],
+  },
+  tricyclic: {
+    label: 'Tricyclic antidepressants',
+    members: ['amitriptyline', 'nortriptyline', 'imipramine', 'clomipramine', 'dosulepin'],
+  },
+  antipsychotic: { label: 'Antipsychotics', members: ['haloperidol', 'quetiapine', 'olanzapine', 'risperidone'] },
+  zDrug: { label: 'Z-drug hypnotics', members: ['zopiclone', 'zolpidem', 'zaleplon'] },
+  muscleRelaxant: {
+    label: 'Skeletal muscle relaxants',
+    members: ['methocarbamol', 'cyclobenzaprine', 'carisoprodol', 'orphenadrine'],
+  },
+  sglt2Inhibitor: { label: 'SGLT2 inhibitors', members: ['dapagliflozin', 'empagliflozin', 'canagliflozin'] },
+  laxative: { label: 'Laxatives', members: ['senna', 'macrogol', 'lactulose', 'docusate', 'bisacodyl'] },
+  anticholinergic: {
+    label: 'Drugs with strong anticholinergic effects',
+    members: ['amitriptyline', 'nortriptyline', 'imipramine', 'clomipramine', 'dosulepin', 'paroxetine', 'chlorphenamine', 'diphenhydramine', 'hydroxyzine', 'promethazine', 'olanzapine', 'quetiapine', 'oxybutynin', 'tolterodine', 'solifenacin', 'hyoscine'],
+  },
+};
+
+export const interactionRules: InteractionRule[] = [
+  {
+    id: 'DDI-001', a: 'vka', b: 'nsaid', riskLevel: 'High',
+    summary: 'Increased bleeding risk',
+    rationale: 'NSAIDs impair platelet function and injure the GI mucosa; with warfarin this markedly increases the risk of major and GI bleeding. Prefer paracetamol; if unavoidable, add gastroprotection and monitor INR.',
+  },
+  {
+    id: 'DDI-002', a: 'doac', b: 'nsaid', riskLevel: 'Moderate',
+    summary: 'Increased bleeding risk',
+    rationale: 'Concomitant NSAID use roughly doubles the bleeding risk on a DOAC. Avoid chronic use; consider gastroprotection.',
+  },
+  {
+    id: 'DDI-003', a: 'anticoagulant', b: 'antiplatelet', riskLevel: 'High',
+    summary: 'Additive bleeding risk',
+    rationale: 'Combining an anticoagulant with an antiplatelet increases major bleeding. Confirm a documented indication (e.g. recent ACS or stent) and a defined duration.',
+  },
+  {
+    id: 'DDI-004', a: 'warfarin', b: 'inrPotentiator', riskLevel: 'High',
+    summary: 'INR elevation and bleeding risk',
+    rationale: 'Inhibition of warfarin metabolism (CYP2C9/3A4) or gut flora effects raise INR. Consider an alternative or reduce the warfarin dose and check INR within 3–5 days.',
+  },
+  {
+    id: 'DDI-005', a: 'doac', b: 'strongCyp3a4Inhibitor', riskLevel: 'High',
+    summary: 'Raised DOAC exposure',
+    rationale: 'Strong CYP3A4/P-gp inhibitors increase apixaban, rivaroxaban and dabigatran concentrations and bleeding risk. Avoid or use an alternative antimicrobial.',
+  },
+  {
+    id: 'DDI-006', a: 'raas', b: 'potassiumRaising', riskLevel: 'High',
+    summary: 'Hyperkalaemia',
+    rationale: 'RAAS blockade reduces potassium excretion; adding potassium-sparing diuretics or supplements can cause life-threatening hyperkalaemia, especially in CKD. Monitor potassium and creatinine closely.',
+  },
+  {
+    id: 'DDI-007', a: 'raas', b: 'nsaid', riskLevel: 'Moderate',
+    summary: 'Acute kidney injury and reduced antihypertensive effect',
+    rationale: 'NSAIDs reduce renal perfusion; with ACE inhibitors or ARBs (particularly plus a diuretic, the "triple whammy") they precipitate AKI. Avoid, or monitor renal function.',
+  },
+  {
+    id: 'DDI-008', a: 'acei', b: 'arb', riskLevel: 'High',
+    summary: 'Dual RAAS blockade',
+    rationale: 'ACE inhibitor plus ARB increases hyperkalaemia, hypotension and AKI without outcome benefit (ONTARGET, VA NEPHRON-D). Avoid the combination.',
+  },
+  {
+    id: 'DDI-009', a: 'cyp3a4Statin', b: 'strongCyp3a4Inhibitor', riskLevel: 'High',
+    summary: 'Myopathy and rhabdomyolysis',
+    rationale: 'Strong CYP3A4 inhibitors greatly increase simvastatin, lovastatin and atorvastatin levels. Withhold the statin during the course or switch to pravastatin/rosuvastatin.',
+  },
+  {
+    id: 'DDI-010', a: 'simvastatin', b: 'amiodarone', riskLevel: 'Moderate',
+    summary: 'Myopathy risk',
+    rationale: 'Amiodarone increases simvastatin exposure; do not exceed simvastatin 20 mg daily.',
+  },
+  {
+    id: 'DDI-011', a: 'ssri', b: 'maoi', riskLevel: 'High',
+    summary: 'Serotonin syndrome',
+    rationale: 'Combining SSRIs with MAO inhibitors (including linezolid) can cause serotonin syndrome. Contraindicated; observe washout periods.',
+  },
+  {
+    id: 'DDI-012', a: 'ssri', b: 'tramadol', riskLevel: 'Moderate',
+    summary: 'Serotonin syndrome and seizure risk',
+    rationale: 'Tramadol has serotonergic activity and lowers the seizure threshold; use the lowest dose and monitor for serotonergic toxicity.',
+  },
+  {
+    id: 'DDI-013', a: 'qtProlonging', b: 'qtProlonging', riskLevel: 'Moderate',
+    summary: 'Additive QT prolongation',
+    rationale: 'Two or more QT-prolonging drugs increase the risk of torsades de pointes. Check a baseline ECG and electrolytes (K, Mg).',
+  },
+  {
+    id: 'DDI-014', a: 'digoxin', b: 'digoxinRaising', riskLevel: 'High',
+    summary: 'Digoxin toxicity',
+    rationale: 'These drugs raise serum digoxin concentrations (P-gp inhibition). Reduce the digoxin dose by about half and monitor levels.',
+  },
+  {
+    id: 'DDI-015', a: 'lithium', b: 'lithiumRaising', riskLevel: 'High',
+    summary: 'Lithium toxicity',
+    rationale: 'NSAIDs, RAAS blockers and thiazides reduce renal lithium clearance. Avoid or monitor lithium levels closely after any change.',
+  },
+  {
+    id: 'DDI-016', a: 'pde5Inhibitor', b: 'nitrate', riskLevel: 'High',
+    summary: 'Severe hypotension',
+    rationale: 'PDE5 inhibitors potentiate nitrate-induced vasodilation. The combination is contraindicated.',
+  },
+  {
+    id: 'DDI-017', a: 'allopurinol', b: 'thiopurine', riskLevel: 'High',
+    summary: 'Thiopurine toxicity (myelosuppression)',
+    rationale: 'Allopurinol inhibits xanthine oxidase, the main thiopurine clearance pathway. Reduce the thiopurine dose to 25–33% or avoid.',
+  },
+  {
+    id: 'DDI-018', a: 'methotrexate', b: 'trimethoprim', riskLevel: 'High',
+    summary: 'Methotrexate toxicity',
+    rationale: 'Trimethoprim has additive antifolate effects and reduces methotrexate clearance, causing bone-marrow suppression. Avoid the combination.',
+  },
+  {
+    id: 'DDI-019', a: 'clopidogrel', b: 'cyp2c19Ppi', riskLevel: 'Moderate',
+    summary: 'Reduced antiplatelet effect',
+    rationale: 'Omeprazole and esomeprazole inhibit CYP2C19 activation of clopidogrel. Prefer pantoprazole.',
+  },
+  {
+    id: 'DDI-020', a: 'benzodiazepine', b: 'opioid', riskLevel: 'High',
+    summary: 'Respiratory depression',
+    rationale: 'Combined CNS depression can cause profound sedation, respiratory depression and death (FDA boxed warning). Limit doses and duration.',
+  },
+  {
+    id: 'DDI-021', a: 'colchicine', b: 'strongCyp3a4Inhibitor', riskLevel: 'High',
+    summary: 'Colchicine toxicity',
+    rationale: 'CYP3A4/P-gp inhibition raises colchicine levels, with fatal toxicity reported. Avoid, particularly in renal or hepatic impairment.',
+  },
+  {
+    id: 'DDI-022', a: 'theophylline', b: 'ciprofloxacin', riskLevel: 'Moderate',
+    summary: 'Theophylline toxicity',
+    rationale: 'Ciprofloxacin inhibits CYP1A2 and raises theophylline levels. Monitor levels or choose another antibiotic.',
+  },
+];
+
+export const duplicationRules: DuplicationRule[] = [
+  { id: 'DUP-001', group: 'nsaid', riskLevel: 'High', rationale: 'Two NSAIDs add GI, renal and cardiovascular toxicity without additional benefit.' },
+  { id: 'DUP-002', group: 'anticoagulant', riskLevel: 'High', rationale: 'Two oral anticoagulants should not be co-prescribed outside a planned transition.' },
+  { id: 'DUP-003', group: 'acei', riskLevel: 'Moderate', rationale: 'Two ACE inhibitors duplicate the same mechanism.' },
+  { id: 'DUP-004', group: 'arb', riskLevel: 'Moderate', rationale: 'Two ARBs duplicate the same mechanism.' },
+  { id: 'DUP-005', group: 'statin', riskLevel: 'Moderate', rationale: 'Two statins increase myopathy risk without added lipid-lowering benefit.' },
+  { id: 'DUP-006', group: 'ssri', riskLevel: 'High', rationale: 'Two SSRIs increase the risk of serotonin syndrome.' },
+  { id: 'DUP-007', group: 'ppi', riskLevel: 'Low', rationale: 'Two PPIs provide no additional acid suppression.' },
+  { id: 'DUP-008', group: 'benzodiazepine', riskLevel: 'Moderate', rationale: 'Two benzodiazepines add sedation, falls and dependence risk.' },
+  { id: 'DUP-009', group: 'opioid', riskLevel: 'Moderate', rationale: 'Concurrent opioids increase respiratory depression risk; confirm a deliberate long-acting plus breakthrough regimen.' },
+  { id: 'DUP-010', group: 'sulfonylurea', riskLevel: 'Moderate', rationale: 'Two sulfonylureas increase hypoglycaemia risk.' },
+  { id: 'DUP-011', group: 'betaBlocker', riskLevel: 'Moderate', rationale: 'Two beta-blockers risk bradycardia and hypotension.' },
+];
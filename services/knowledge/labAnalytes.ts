@@ -0,0 +1,193 @@
+import type { Sex } from '../../types';
+
+export const LAB_ANALYTES_VERSION = '2026.10.0';
+
+export interface ReferenceRange {
+  sex?: Sex;
+  minAge?: number;
+  /** Exclusive upper age bound in years. */
+  maxAge?: number;
+  /** Bounds in the analyte's conventional unit; either may be open. */
+  low?: number;
+  high?: number;
+}
+
+export interface LabAnalyte {
+  /** LOINC-style code for the canonical analyte. */
+  code: string;
+  name: string;
+  patterns: RegExp[];
+  exclude?: RegExp;
+  conventionalUnit: string;
+  siUnit: string;
+  /** SI value = conventional value × factor + offset. */
+  factor: number;
+  offset?: number;
+  /** Other spellings seen on reports, mapped to the unit system they belong to. */
+  unitAliases?: Record<string, 'conventional' | 'si'>;
+  /** Most specific range first; the first one matching the patient's age and sex wins. */
+  ranges: ReferenceRange[];
+}
+
+const countUnits: Record<string, 'conventional' | 'si'> = {
+  'k/ul': 'conventional', '10^3/ul': 'conventional', '10*3/ul': 'conventional', 'x10^3/ul': 'conventional', '/nl': 'si',
+  '10^9/l': 'si', 'x10^9/l': 'si', '10*9/l': 'si', 'x109/l': 'si', '109/l': 'si',
+};
+
+// Order matters: an analyte is matched by the first entry whose patterns fit, so the more specific ones come first.
+export const labAnalytes: LabAnalyte[] = [
+  {
+    code: '98979-8', name: 'eGFR (CKD-EPI 2021)', patterns: [/\begfr\b/, /\bgfr\b/, /glomerular filtration/],
+    conventionalUnit: 'mL/min/1.73m²', siUnit: 'mL/min/1.73m²', factor: 1,
+    unitAliases: { 'ml/min/1.73m2': 'conventional', 'ml/min/1.73 m2': 'conventional', 'ml/min': 'conventional' },
+    ranges: [{ low: 60 }],
+  },
+  {
+    code: '2160-0', name: 'Creatinine', patterns: [/creatinine/, /\bcreat\b/, /\bscr\b/],
+    exclude: /clearance|urin|ratio|kinase|\bgfr\b/,
+    conventionalUnit: 'mg/dL', siUnit: 'µmol/L', factor: 88.4,
+    ranges: [{ sex: 'female', low: 0.59, high: 1.04 }, { sex: 'male', low: 0.74, high: 1.35 }, { low: 0.59, high: 1.35 }],
+  },
+  {
+    code: '3094-0', name: 'Urea nitrogen (BUN)', patterns: [/\bbun\b/, /urea/],
+    exclude: /urin|ratio/,
+    conventionalUnit: 'mg/dL', siUnit: 'mmol/L', factor: 0.357,
+    ranges: [{ minAge: 60, low: 8, high: 23 }, { low: 7, high: 20 }],
+  },
+  {
+    code: '2951-2', name: 'Sodium', patterns: [/sodium/, /^na\+?$/],
+    conventionalUnit: 'mEq/L', siUnit: 'mmol/L', factor: 1,
+    ranges: [{ low: 135, high: 145 }],
+  },
+  {
+    code: '2823-3', name: 'Potassium', patterns: [/potassium/, /^k\+?$/],
+    conventionalUnit: 'mEq/L', siUnit: 'mmol/L', factor: 1,
+    ranges: [{ low: 3.5, high: 5.1 }],
+  },
+  {
+    code: '2075-0', name: 'Chloride', patterns: [/chloride/, /^cl-?$/],
+    conventionalUnit: 'mEq/L', siUnit: 'mmol/L', factor: 1,
+    ranges: [{ low: 98, high: 107 }],
+  },
+  {
+    code: '1963-8', name: 'Bicarbonate', patterns: [/bicarbonate/, /^hco3-?$/, /total co2/],
+    conventionalUnit: 'mEq/L', siUnit: 'mmol/L', factor: 1,
+    ranges: [{ low: 22, high: 29 }],
+  },
+  {
+    code: '4548-4', name: 'Hemoglobin A1c', patterns: [/a1c/, /glycated h(a)?emoglobin/, /glycosylated/],
+    conventionalUnit: '%', siUnit: 'mmol/mol', factor: 10.929, offset: -23.5,
+    ranges: [{ low: 4.0, high: 5.6 }],
+  },
+  {
+    code: '2345-7', name: 'Glucose', patterns: [/glucose/, /blood sugar/, /\bfbs\b/, /\brbs\b/],
+    exclude: /urin/,
+    conventionalUnit: 'mg/dL', siUnit: 'mmol/L', factor: 0.0555,
+    ranges: [{ low: 70, high: 99 }],
+  },
+  {
+    code: '718-7', name: 'Hemoglobin', patterns: [/h(a)?emoglobin/, /^hg?b$/],
+    exclude: /a1c|glycat|glycos/,
+    conventionalUnit: 'g/dL', siUnit: 'g/L', factor: 10,
+    ranges: [{ sex: 'female', low: 12.0, high: 15.5 }, { sex: 'male', low: 13.5, high: 17.5 }, { low: 12.0, high: 17.5 }],
+  },
+  {
+    code: '6690-2', name: 'Leukocytes (WBC)', patterns: [/\bwbc\b/, /white (blood )?cell/, /leukocyte/, /\btlc\b/],
+    conventionalUnit: '10³/µL', siUnit: '10⁹/L', factor: 1, unitAliases: countUnits,
+    ranges: [{ low: 4.5, high: 11.0 }],
+  },
+  {
+    code: '777-3', name: 'Platelets', patterns: [/platelet/, /^plt$/],
+    conventionalUnit: '10³/µL', siUnit: '10⁹/L', factor: 1, unitAliases: countUnits,
+    ranges: [{ low: 150, high: 400 }],
+  },
+  {
+    code: '1975-2', name: 'Bilirubin, total', patterns: [/bilirubin/, /\btbil\b/],
+    exclude: /direct|indirect|conjugated|urin/,
+    conventionalUnit: 'mg/dL', siUnit: 'µmol/L', factor: 17.1,
+    ranges: [{ low: 0.1, high: 1.2 }],
+  },
+  {
+    code: '1751-7', name: 'Albumin', patterns: [/albumin/],
+    exclude: /urin|micro|ratio|globulin/,
+    conventionalUnit: 'g/dL', siUnit: 'g/L', factor: 10,
+    ranges: [{ low: 3.5, high: 5.0 }],
+  },
+  {
+    code: '1742-6', name: 'ALT', patterns: [/\balt\b/, /sgpt/, /alanine aminotransferase/],
+    conventionalUnit: 'U/L', siUnit: 'U/L', factor: 1, unitAliases: { 'iu/l': 'conventional' },
+    ranges: [{ sex: 'female', low: 7, high: 45 }, { low: 7, high: 56 }],
+  },
+  {
+    code: '1920-8', name: 'AST', patterns: [/\bast\b/, /sgot/, /aspartate aminotransferase/],
+    conventionalUnit: 'U/L', siUnit: 'U/L', factor: 1, unitAliases: { 'iu/l': 'conventional' },
+    ranges: [{ low: 8, high: 48 }],
+  },
+  {
+    code: '6768-6', name: 'Alkaline phosphatase', patterns: [/\balp\b/, /alkaline phosphatase/],
+    conventionalUnit: 'U/L', siUnit: 'U/L', factor: 1, unitAliases: { 'iu/l': 'conventional' },
+    ranges: [{ low: 40, high: 129 }],
+  },
+  {
+    code: '6301-6', name: 'INR', patterns: [/\binr\b/, /international normali[sz]ed ratio/],
+    conventionalUnit: '', siUnit: '', factor: 1, unitAliases: { ratio: 'conventional' },
+    ranges: [{ low: 0.8, high: 1.2 }],
+  },
+  {
+    code: '3016-3', name: 'TSH', patterns: [/\btsh\b/, /thyroid stimulating/],
+    conventionalUnit: 'µIU/mL', siUnit: 'mIU/L', factor: 1,
+    ranges: [{ low: 0.4, high: 4.0 }],
+  },
+  {
+    code: '19123-9', name: 'Magnesium', patterns: [/magnesium/, /^mg$/],
+    conventionalUnit: 'mg/dL', siUnit: 'mmol/L', factor: 0.4114,
+    ranges: [{ low: 1.7, high: 2.2 }],
+  },
+  {
+    code: '17861-6', name: 'Calcium', patterns: [/calcium/, /^ca$/],
+    exclude: /ionized|ionised|urin/,
+    conventionalUnit: 'mg/dL', siUnit: 'mmol/L', factor: 0.2495,
+    ranges: [{ low: 8.6, high: 10.3 }],
+  },
+  {
+    code: '13457-7', name: 'LDL cholesterol', patterns: [/\bldl\b/, /low density/],
+    conventionalUnit: 'mg/dL', siUnit: 'mmol/L', factor: 0.02586,
+    ranges: [{ high: 129 }],
+  },
+  {
+    code: '2085-9', name: 'HDL cholesterol', patterns: [/\bhdl\b/, /high density/],
+    conventionalUnit: 'mg/dL', siUnit: 'mmol/L', factor: 0.02586,
+    ranges: [{ sex: 'female', low: 50 }, { low: 40 }],
+  },
+  {
+    code: '2093-3', name: 'Cholesterol, total', patterns: [/cholesterol/],
+    conventionalUnit: 'mg/dL', siUnit: 'mmol/L', factor: 0.02586,
+    ranges: [{ high: 199 }],
+  },
+  {
+    code: '2571-8', name: 'Triglycerides', patterns: [/triglyceride/, /^tg$/],
+    conventionalUnit: 'mg/dL', siUnit: 'mmol/L', factor: 0.01129,
+    ranges: [{ high: 149 }],
+  },
+  {
+    code: '3084-1', name: 'Uric acid', patterns: [/uric acid/, /urate/],
+    exclude: /urin/,
+    conventionalUnit: 'mg/dL', siUnit: 'µmol/L', factor: 59.48,
+    ranges: [{ sex: 'female', low: 2.4, high: 6.0 }, { sex: 'male', low: 3.4, high: 7.0 }, { low: 2.4, high: 7.0 }],
+  },
+  {
+    code: '1988-5', name: 'C-reactive protein', patterns: [/\bcrp\b/, /c-? ?reactive protein/],
+    conventionalUnit: 'mg/L', siUnit: 'mg/L', factor: 1,
+    ranges: [{ high: 10 }],
+  },
+  {
+    code: '10535-3', name: 'Digoxin', patterns: [/digoxin/],
+    conventionalUnit: 'ng/mL', siUnit: 'nmol/L', factor: 1.281, unitAliases: { 'mcg/l': 'conventional', 'ug/l': 'conventional' },
+    ranges: [{ low: 0.5, high: 2.0 }],
+  },
+  {
+    code: '14334-7', name: 'Lithium', patterns: [/lithium/],
+    conventionalUnit: 'mEq/L', siUnit: 'mmol/L', factor: 1,
+    ranges: [{ low: 0.6, high: 1.2 }],
+  },
+];
@@ -0,0 +1,67 @@
+export interface MaxDoseEntry {
+  /** Usual adult oral maximum in mg over `per`. */
+  maxMg: number;
+  /** Defaults to a day; weekly-dosed drugs are checked against their weekly total. */
+  per?: 'day' | 'week';
+  /** Any excess is High risk, not only doses well above the ceiling. */
+  narrowMargin?: boolean;
+  note: string;
+}
+
+export const MAX_DAILY_DOSE_TABLE_VERSION = '2026.10.0';
+
+/** Adult oral maxima, keyed by the ingredient names used in `interactionKnowledgeBase.ts`. */
+export const maxDailyDoseTable: Record<string, MaxDoseEntry> = {
+  paracetamol: { maxMg: 4000, narrowMargin: true, note: 'Hepatotoxic above 4 g/day; use 2–3 g/day under 50 kg, with regular alcohol use or hepatic impairment.' },
+  ibuprofen: { maxMg: 2400, note: 'Usual maximum 2.4 g/day; higher doses add GI and cardiovascular risk.' },
+  naproxen: { maxMg: 1250, note: 'Usual maximum 1 g/day, up to 1.25 g/day for acute gout or musculoskeletal pain.' },
+  diclofenac: { maxMg: 150, note: 'Maximum 150 mg/day.' },
+  celecoxib: { maxMg: 400, note: 'Maximum 400 mg/day.' },
+  meloxicam: { maxMg: 15, note: 'Maximum 15 mg/day.' },
+  ketorolac: { maxMg: 40, narrowMargin: true, note: 'Oral maximum 40 mg/day for no more than 5 days.' },
+  aspirin: { maxMg: 4000, note: 'Analgesic maximum 4 g/day; antiplatelet doses are 75–325 mg.' },
+  clopidogrel: { maxMg: 75, note: 'Maintenance 75 mg daily; 300–600 mg loading doses are given once.' },
+  ticagrelor: { maxMg: 180, note: 'Maintenance 90 mg twice daily.' },
+  apixaban: { maxMg: 20, narrowMargin: true, note: '10 mg twice daily only for the first 7 days of VTE treatment; otherwise at most 5 mg twice daily.' },
+  rivaroxaban: { maxMg: 30, narrowMargin: true, note: '15 mg twice daily only for the first 21 days of VTE treatment; otherwise at most 20 mg daily.' },
+  dabigatran: { maxMg: 300, narrowMargin: true, note: 'Maximum 150 mg twice daily.' },
+  edoxaban: { maxMg: 60, narrowMargin: true, note: 'Maximum 60 mg once daily.' },
+  digoxin: { maxMg: 0.25, narrowMargin: true, note: 'Maintenance 62.5–250 micrograms daily; loading doses are given once.' },
+  metformin: { maxMg: 3000, note: 'Maximum 3 g/day (2.55 g/day for immediate release in US labelling).' },
+  gliclazide: { maxMg: 320, note: 'Maximum 320 mg/day (120 mg/day for modified release).' },
+  sitagliptin: { maxMg: 100, note: 'Maximum 100 mg daily.' },
+  atorvastatin: { maxMg: 80, note: 'Maximum 80 mg daily.' },
+  rosuvastatin: { maxMg: 40, note: 'Maximum 40 mg daily.' },
+  simvastatin: { maxMg: 80, note: 'Maximum 80 mg daily, and new patients should not start above 40 mg (myopathy).' },
+  pravastatin: { maxMg: 80, note: 'Maximum 80 mg daily.' },
+  lisinopril: { maxMg: 80, note: 'Maximum 80 mg daily.' },
+  ramipril: { maxMg: 10, note: 'Maximum 10 mg daily.' },
+  enalapril: { maxMg: 40, note: 'Maximum 40 mg daily.' },
+  perindopril: { maxMg: 10, note: 'Maximum 8 mg daily (erbumine) or 10 mg daily (arginine).' },
+  losartan: { maxMg: 150, note: 'Maximum 100 mg daily for hypertension, 150 mg for heart failure.' },
+  bisoprolol: { maxMg: 20, note: 'Maximum 20 mg daily (10 mg in heart failure).' },
+  metoprolol: { maxMg: 400, note: 'Maximum 400 mg/day.' },
+  atenolol: { maxMg: 100, note: 'Maximum 100 mg daily.' },
+  spironolactone: { maxMg: 400, note: 'Up to 400 mg/day for resistant oedema; 25–50 mg in heart failure.' },
+  sertraline: { maxMg: 200, note: 'Maximum 200 mg daily.' },
+  citalopram: { maxMg: 40, note: 'Maximum 40 mg daily (20 mg over 65) because of dose-dependent QT prolongation.' },
+  escitalopram: { maxMg: 20, note: 'Maximum 20 mg daily (10 mg over 65) because of dose-dependent QT prolongation.' },
+  fluoxetine: { maxMg: 60, note: 'Maximum 60 mg daily.' },
+  paroxetine: { maxMg: 60, note: 'Maximum 50 mg daily for depression, 60 mg for OCD and panic disorder.' },
+  tramadol: { maxMg: 400, narrowMargin: true, note: 'Maximum 400 mg/day; seizure and serotonin toxicity risk rises above it.' },
+  codeine: { maxMg: 240, note: 'Maximum 240 mg/day.' },
+  gabapentin: { maxMg: 3600, note: 'Maximum 3.6 g/day.' },
+  pregabalin: { maxMg: 600, note: 'Maximum 600 mg/day.' },
+  allopurinol: { maxMg: 900, note: 'Maximum 900 mg/day, titrated to urate.' },
+  colchicine: { maxMg: 2, narrowMargin: true, note: 'Gout flare 500 micrograms two to four times daily, no more than 6 mg per course.' },
+  methotrexate: { maxMg: 25, per: 'week', narrowMargin: true, note: 'Given once weekly for inflammatory disease; daily dosing in error has caused fatal toxicity.' },
+  omeprazole: { maxMg: 80, note: 'Maximum 80 mg/day outside Zollinger–Ellison syndrome.' },
+  esomeprazole: { maxMg: 80, note: 'Maximum 80 mg/day outside Zollinger–Ellison syndrome.' },
+  pantoprazole: { maxMg: 80, note: 'Maximum 80 mg/day outside Zollinger–Ellison syndrome.' },
+  lansoprazole: { maxMg: 60, note: 'Maximum 60 mg/day outside Zollinger–Ellison syndrome.' },
+  haloperidol: { maxMg: 20, note: 'Oral maximum 20 mg/day (5 mg/day in the elderly).' },
+  ondansetron: { maxMg: 24, note: 'Oral maximum 24 mg/day; QT prolongation is dose-dependent.' },
+  ciprofloxacin: { maxMg: 1500, note: 'Oral maximum 750 mg twice daily.' },
+  clarithromycin: { maxMg: 1000, note: 'Maximum 500 mg twice daily.' },
+  nitrofurantoin: { maxMg: 400, note: 'Maximum 100 mg four times daily (modified release 100 mg twice daily).' },
+};
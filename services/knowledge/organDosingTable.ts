@@ -0,0 +1,151 @@
+export type ChildPughClass = 'A' | 'B' | 'C';
+
+export interface RenalDoseBand {
+  /** The band applies when the renal measure is below this value (mL/min or mL/min/1.73m²). */
+  below: number;
+  /** Maximum total daily dose in mg; 0 means avoid. */
+  maxDailyMg: number;
+  note: string;
+}
+
+export interface HepaticDoseBand {
+  childPugh: ChildPughClass;
+  maxDailyMg: number;
+  note: string;
+}
+
+export interface OrganDosingEntry {
+  /** Which renal estimate the product labelling is based on. */
+  renalBasis?: 'CrCl' | 'eGFR';
+  /** Ordered from the most to the least severe band. */
+  renal?: RenalDoseBand[];
+  hepatic?: HepaticDoseBand[];
+}
+
+export const ORGAN_DOSING_TABLE_VERSION = '2026.10.0';
+
+/** Keyed by the ingredient names used in `interactionKnowledgeBase.ts`. */
+export const organDosingTable: Record<string, OrganDosingEntry> = {
+  metformin: {
+    renalBasis: 'eGFR',
+    renal: [
+      { below: 30, maxDailyMg: 0, note: 'Contraindicated below eGFR 30 (lactic acidosis).' },
+      { below: 45, maxDailyMg: 1000, note: 'Do not initiate; maximum 1000 mg/day for eGFR 30–44.' },
+    ],
+    hepatic: [{ childPugh: 'C', maxDailyMg: 0, note: 'Avoid in severe hepatic impairment (lactic acidosis).' }],
+  },
+  sitagliptin: {
+    renalBasis: 'eGFR',
+    renal: [
+      { below: 30, maxDailyMg: 25, note: '25 mg once daily below eGFR 30.' },
+      { below: 45, maxDailyMg: 50, note: '50 mg once daily for eGFR 30–44.' },
+    ],
+  },
+  gabapentin: {
+    renalBasis: 'CrCl',
+    renal: [
+      { below: 15, maxDailyMg: 300, note: '100–300 mg/day below CrCl 15.' },
+      { below: 30, maxDailyMg: 700, note: '200–700 mg/day for CrCl 15–29.' },
+      { below: 60, maxDailyMg: 1400, note: '400–1400 mg/day for CrCl 30–59.' },
+    ],
+  },
+  pregabalin: {
+    renalBasis: 'CrCl',
+    renal: [
+      { below: 15, maxDailyMg: 75, note: '25–75 mg/day below CrCl 15.' },
+      { below: 30, maxDailyMg: 150, note: '25–150 mg/day for CrCl 15–29.' },
+      { below: 60, maxDailyMg: 300, note: '75–300 mg/day for CrCl 30–59.' },
+    ],
+  },
+  rivaroxaban: {
+    renalBasis: 'CrCl',
+    renal: [
+      { below: 15, maxDailyMg: 0, note: 'Avoid below CrCl 15.' },
+      { below: 50, maxDailyMg: 15, note: 'AF: 15 mg once daily for CrCl 15–49.' },
+    ],
+    hepatic: [
+      { childPugh: 'C', maxDailyMg: 0, note: 'Contraindicated in Child-Pugh C.' },
+      { childPugh: 'B', maxDailyMg: 0, note: 'Contraindicated in Child-Pugh B with coagulopathy.' },
+    ],
+  },
+  dabigatran: {
+    renalBasis: 'CrCl',
+    renal: [{ below: 30, maxDailyMg: 0, note: 'Contraindicated below CrCl 30.' }],
+  },
+  apixaban: {
+    hepatic: [{ childPugh: 'C', maxDailyMg: 0, note: 'Not recommended in Child-Pugh C.' }],
+  },
+  ciprofloxacin: {
+    renalBasis: 'CrCl',
+    renal: [
+      { below: 30, maxDailyMg: 500, note: '250–500 mg every 18–24 h below CrCl 30.' },
+      { below: 50, maxDailyMg: 1000, note: '250–500 mg every 12 h for CrCl 30–49.' },
+    ],
+  },
+  levofloxacin: {
+    renalBasis: 'CrCl',
+    renal: [
+      { below: 20, maxDailyMg: 250, note: 'Reduced maintenance dosing below CrCl 20.' },
+      { below: 50, maxDailyMg: 500, note: 'Reduced maintenance dosing for CrCl 20–49.' },
+    ],
+  },
+  nitrofurantoin: {
+    renalBasis: 'eGFR',
+    renal: [{ below: 30, maxDailyMg: 0, note: 'Avoid below eGFR 30 (ineffective, toxic metabolites).' }],
+  },
+  spironolactone: {
+    renalBasis: 'eGFR',
+    renal: [{ below: 30, maxDailyMg: 0, note: 'Avoid below eGFR 30 (hyperkalaemia).' }],
+  },
+  allopurinol: {
+    renalBasis: 'CrCl',
+    renal: [
+      { below: 20, maxDailyMg: 100, note: 'Start at 100 mg/day or less below CrCl 20.' },
+      { below: 40, maxDailyMg: 200, note: 'Titrate cautiously from low doses for CrCl 20–39.' },
+    ],
+  },
+  digoxin: {
+    renalBasis: 'CrCl',
+    renal: [{ below: 50, maxDailyMg: 0.125, note: 'Maintenance 62.5–125 micrograms/day below CrCl 50; monitor levels.' }],
+  },
+  colchicine: {
+    renalBasis: 'CrCl',
+    renal: [{ below: 30, maxDailyMg: 0.3, note: 'Maximum 0.3 mg/day below CrCl 30; avoid repeat courses within 14 days.' }],
+    hepatic: [{ childPugh: 'C', maxDailyMg: 0.3, note: 'Reduce dose and monitor in severe hepatic impairment.' }],
+  },
+  ibuprofen: {
+    renalBasis: 'eGFR',
+    renal: [{ below: 30, maxDailyMg: 0, note: 'Avoid NSAIDs below eGFR 30.' }],
+    hepatic: [{ childPugh: 'C', maxDailyMg: 0, note: 'Avoid NSAIDs in severe hepatic impairment.' }],
+  },
+  naproxen: {
+    renalBasis: 'eGFR',
+    renal: [{ below: 30, maxDailyMg: 0, note: 'Avoid NSAIDs below eGFR 30.' }],
+    hepatic: [{ childPugh: 'C', maxDailyMg: 0, note: 'Avoid NSAIDs in severe hepatic impairment.' }],
+  },
+  diclofenac: {
+    renalBasis: 'eGFR',
+    renal: [{ below: 30, maxDailyMg: 0, note: 'Avoid NSAIDs below eGFR 30.' }],
+    hepatic: [{ childPugh: 'C', maxDailyMg: 0, note: 'Avoid NSAIDs in severe hepatic impairment.' }],
+  },
+  paracetamol: {
+    hepatic: [
+      { childPugh: 'C', maxDailyMg: 2000, note: 'Maximum 2 g/day in hepatic impairment.' },
+      { childPugh: 'B', maxDailyMg: 2000, note: 'Maximum 2 g/day in hepatic impairment.' },
+    ],
+  },
+  simvastatin: {
+    hepatic: [{ childPugh: 'C', maxDailyMg: 0, note: 'Contraindicated in decompensated liver disease.' }],
+  },
+  atorvastatin: {
+    hepatic: [{ childPugh: 'C', maxDailyMg: 0, note: 'Contraindicated in decompensated liver disease.' }],
+  },
+  ondansetron: {
+    hepatic: [{ childPugh: 'C', maxDailyMg: 8, note: 'Maximum 8 mg/day in severe hepatic impairment.' }],
+  },
+  tramadol: {
+    renalBasis: 'CrCl',
+    renal: [{ below: 30, maxDailyMg: 200, note: 'Every 12 h dosing, maximum 200 mg/day below CrCl 30.' }],
+    hepatic: [{ childPugh: 'C', maxDailyMg: 100, note: '50 mg every 12 h in cirrhosis.' }],
+  },
+};
@@ -0,0 +1,78 @@
+export interface PaediatricDoseBand {
+  /** The band applies from this age (inclusive) up to `maxAgeYears` (exclusive); one month is 1/12. */
+  minAgeYears: number;
+  maxAgeYears: number;
+  /** Whether the range is per kilogram of body weight or per square metre of body surface area. */
+  basis: 'kg' | 'm2';
+  /** Usual total daily dose range in mg per kg (or per m²) per day. */
+  dailyMin: number;
+  dailyMax: number;
+  /** Absolute daily ceiling in mg, which applies however heavy the child is. */
+  maxDailyMg?: number;
+  note: string;
+}
+
+export const PAEDIATRIC_DOSE_TABLE_VERSION = '2026.10.0';
+
+const MONTH = 1 / 12;
+
+/**
+ * Usual oral paediatric daily doses by age band, keyed by the ingredient names used in `interactionKnowledgeBase.ts`.
+ * Ranges span the common indications; a dose outside them is worth a second look rather than necessarily wrong.
+ */
+export const paediatricDoseTable: Record<string, PaediatricDoseBand[]> = {
+  paracetamol: [
+    { minAgeYears: MONTH, maxAgeYears: 3 * MONTH, basis: 'kg', dailyMin: 30, dailyMax: 60, note: '15 mg/kg every 6–8 hours; at most 60 mg/kg/day under 3 months.' },
+    { minAgeYears: 3 * MONTH, maxAgeYears: 18, basis: 'kg', dailyMin: 40, dailyMax: 75, maxDailyMg: 4000, note: '15 mg/kg every 4–6 hours, at most 4 doses (75 mg/kg, no more than 4 g) a day.' },
+  ],
+  ibuprofen: [
+    { minAgeYears: 3 * MONTH, maxAgeYears: 18, basis: 'kg', dailyMin: 20, dailyMax: 30, maxDailyMg: 2400, note: '5–10 mg/kg three or four times daily, at most 30 mg/kg/day; not under 3 months or 5 kg.' },
+  ],
+  amoxicillin: [
+    { minAgeYears: MONTH, maxAgeYears: 18, basis: 'kg', dailyMin: 40, dailyMax: 90, maxDailyMg: 4000, note: '40–90 mg/kg/day in 2–3 divided doses; the upper end for pneumonia and otitis media.' },
+  ],
+  azithromycin: [
+    { minAgeYears: 6 * MONTH, maxAgeYears: 18, basis: 'kg', dailyMin: 5, dailyMax: 12, maxDailyMg: 500, note: '10 mg/kg once daily for 3 days (12 mg/kg for streptococcal pharyngitis), at most 500 mg a day.' },
+  ],
+  clarithromycin: [
+    { minAgeYears: MONTH, maxAgeYears: 12, basis: 'kg', dailyMin: 12, dailyMax: 16, maxDailyMg: 1000, note: '7.5 mg/kg twice daily, at most 500 mg a dose.' },
+  ],
+  cefalexin: [
+    { minAgeYears: MONTH, maxAgeYears: 18, basis: 'kg', dailyMin: 25, dailyMax: 100, maxDailyMg: 4000, note: '25 mg/kg/day in divided doses, up to 100 mg/kg/day (at most 4 g) for severe infection.' },
+  ],
+  trimethoprim: [
+    { minAgeYears: MONTH, maxAgeYears: 18, basis: 'kg', dailyMin: 2, dailyMax: 8, maxDailyMg: 400, note: '2 mg/kg at night for prophylaxis; 4 mg/kg twice daily for treatment.' },
+  ],
+  metronidazole: [
+    { minAgeYears: MONTH, maxAgeYears: 18, basis: 'kg', dailyMin: 20, dailyMax: 30, maxDailyMg: 1200, note: '7.5 mg/kg three times daily, at most 400 mg a dose.' },
+  ],
+  fluconazole: [
+    { minAgeYears: MONTH, maxAgeYears: 18, basis: 'kg', dailyMin: 3, dailyMax: 12, maxDailyMg: 800, note: '3 mg/kg daily for mucosal candidiasis, 6–12 mg/kg daily for invasive infection.' },
+  ],
+  prednisolone: [
+    { minAgeYears: MONTH, maxAgeYears: 18, basis: 'kg', dailyMin: 1, dailyMax: 2, maxDailyMg: 60, note: '1–2 mg/kg once daily (at most 40 mg for asthma, 60 mg for nephrotic syndrome).' },
+  ],
+  ondansetron: [
+    { minAgeYears: 6 * MONTH, maxAgeYears: 18, basis: 'm2', dailyMin: 5, dailyMax: 15, maxDailyMg: 24, note: '5 mg/m² before chemotherapy and up to every 12 hours after, at most 8 mg a dose.' },
+  ],
+  omeprazole: [
+    { minAgeYears: MONTH, maxAgeYears: 18, basis: 'kg', dailyMin: 0.7, dailyMax: 3, maxDailyMg: 40, note: '0.7–3 mg/kg once daily, at most 40 mg.' },
+  ],
+  levetiracetam: [
+    { minAgeYears: MONTH, maxAgeYears: 6 * MONTH, basis: 'kg', dailyMin: 14, dailyMax: 42, note: '7 mg/kg twice daily, increased to at most 21 mg/kg twice daily.' },
+    { minAgeYears: 6 * MONTH, maxAgeYears: 18, basis: 'kg', dailyMin: 20, dailyMax: 60, maxDailyMg: 3000, note: '10 mg/kg twice daily, increased to at most 30 mg/kg (1.5 g) twice daily.' },
+  ],
+  carbamazepine: [
+    { minAgeYears: MONTH, maxAgeYears: 12, basis: 'kg', dailyMin: 5, dailyMax: 20, note: 'Start at 5 mg/kg at night; usual maintenance 10–20 mg/kg/day in divided doses.' },
+  ],
+  valproate: [
+    { minAgeYears: MONTH, maxAgeYears: 12, basis: 'kg', dailyMin: 10, dailyMax: 40, note: 'Start at 10–15 mg/kg/day; usual maintenance 25–30 mg/kg/day, up to 40 mg/kg/day.' },
+  ],
+  phenytoin: [
+    { minAgeYears: MONTH, maxAgeYears: 12, basis: 'kg', dailyMin: 4, dailyMax: 8, maxDailyMg: 300, note: 'Usual maintenance 4–8 mg/kg/day; adjust to levels, as small changes give large rises.' },
+  ],
+  morphine: [
+    { minAgeYears: MONTH, maxAgeYears: 1, basis: 'kg', dailyMin: 0.48, dailyMax: 1.2, note: '80–200 micrograms/kg every 4 hours, adjusted to response; monitor breathing.' },
+    { minAgeYears: 1, maxAgeYears: 12, basis: 'kg', dailyMin: 1.2, dailyMax: 2.4, note: '200–400 micrograms/kg every 4 hours, adjusted to response.' },
+  ],
+};
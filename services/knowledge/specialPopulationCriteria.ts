@@ -0,0 +1,387 @@
+import type { RiskLevel } from '../../types';
+
+export type ScreeningSource = 'Beers 2023' | 'STOPP v2' | 'START v2';
+
+/** An explicit criterion for older adults: a potentially inappropriate drug (Beers, STOPP) or an omission (START). */
+export interface ScreeningCriterion {
+  /** The criterion's ID in its source, e.g. "STOPP D5"; Beers entries are named after their table. */
+  id: string;
+  source: ScreeningSource;
+  /** "inappropriate" flags a prescribed drug; "omission" flags that none of `drugs` is prescribed. */
+  kind: 'inappropriate' | 'omission';
+  /** Ingredients or `drugGroups` keys. */
+  drugs: string[];
+  /** Diagnosis terms; when given, the criterion applies only if a diagnosis mentions one of them. */
+  conditions?: string[];
+  /** The criterion applies only when one of these is prescribed as well. */
+  alsoTaking?: string[];
+  /** The criterion does not apply when one of these is prescribed, e.g. gastroprotection. */
+  unlessTaking?: string[];
+  /** The criterion applies only below this eGFR (mL/min/1.73m²). */
+  belowEgfr?: number;
+  /** Flag only when at least this many different drugs from `drugs` are prescribed together. */
+  minCount?: number;
+  description: string;
+  recommendation: string;
+  riskLevel: RiskLevel;
+}
+
+export type PregnancyRiskCategory = 'contraindicated' | 'avoid' | 'caution';
+
+export interface PregnancyRisk {
+  risk: PregnancyRiskCategory;
+  /** The entry applies from this week of gestation (inclusive) to `untilWeek` (exclusive); throughout when omitted. */
+  fromWeek?: number;
+  untilWeek?: number;
+  note: string;
+}
+
+export interface LactationRisk {
+  risk: 'avoid' | 'caution';
+  note: string;
+}
+
+export const SPECIAL_POPULATION_CRITERIA_VERSION = '2026.10.0';
+
+/** Beers and STOPP/START are written for patients of this age and over. */
+export const OLDER_ADULT_AGE = 65;
+
+const ATRIAL_FIBRILLATION = ['atrial fibrillation', 'af', 'afib'];
+const HEART_FAILURE = ['heart failure', 'hf', 'hfref', 'chf', 'ccf', 'lvsd'];
+const VASCULAR_DISEASE = ['coronary artery disease', 'cad', 'ischaemic heart disease', 'ischemic heart disease', 'ihd', 'myocardial infarction', 'mi', 'angina', 'stroke', 'tia', 'peripheral arterial disease', 'peripheral vascular disease', 'pad', 'pvd'];
+const DEMENTIA = ['dementia', 'alzheimer', 'cognitive impairment'];
+const DELIRIUM = ['delirium', 'acute confusion'];
+const FALLS = ['falls', 'fall', 'fracture', 'fractures', 'syncope'];
+const PEPTIC_ULCER = ['peptic ulcer', 'gastric ulcer', 'duodenal ulcer', 'gi bleed', 'gi bleeding', 'gastrointestinal bleed', 'gastrointestinal bleeding'];
+const PARKINSONISM = ['parkinson', 'parkinsonism', 'lewy body'];
+const DIABETIC_KIDNEY_DISEASE = ['diabetic nephropathy', 'diabetic kidney disease', 'albuminuria', 'proteinuria'];
+
+/**
+ * A bundled subset of the AGS Beers Criteria (2023) and STOPP/START version 2 (O'Mahony et al., 2015), limited to the
+ * criteria that can be checked from the drug list, diagnoses and eGFR. Duration and indication are not known, so
+ * criteria that depend on them are phrased as prompts to check.
+ */
+export const olderAdultCriteria: ScreeningCriterion[] = [
+  // Beers Table 2: potentially inappropriate in most older adults.
+  {
+    id: 'BEERS-T2-antihistamines', source: 'Beers 2023', kind: 'inappropriate', drugs: ['sedatingAntihistamine'], riskLevel: 'Moderate',
+    description: 'First-generation antihistamine: highly anticholinergic, with confusion, constipation and dry mouth; clearance falls with age.',
+    recommendation: 'Avoid. Use a non-sedating antihistamine for allergy.',
+  },
+  {
+    id: 'BEERS-T2-warfarin', source: 'Beers 2023', kind: 'inappropriate', drugs: ['warfarin'], riskLevel: 'Low',
+    description: 'Warfarin as initial therapy for atrial fibrillation or venous thromboembolism carries more major bleeding than a DOAC.',
+    recommendation: 'Avoid starting warfarin unless DOACs are contraindicated; a patient stable on warfarin may reasonably continue.',
+  },
+  {
+    id: 'BEERS-T2-rivaroxaban', source: 'Beers 2023', kind: 'inappropriate', drugs: ['rivaroxaban'], riskLevel: 'Moderate',
+    description: 'Rivaroxaban for long-term atrial fibrillation or venous thromboembolism has more major and GI bleeding in older adults than other DOACs.',
+    recommendation: 'Prefer apixaban for long-term treatment.',
+  },
+  {
+    id: 'BEERS-T2-amiodarone', source: 'Beers 2023', kind: 'inappropriate', drugs: ['amiodarone'], riskLevel: 'Moderate',
+    description: 'Amiodarone as first-line therapy for atrial fibrillation: more toxicity (thyroid, pulmonary, QT) than other antiarrhythmics.',
+    recommendation: 'Avoid first-line unless the patient also has heart failure or substantial left ventricular hypertrophy.',
+  },
+  {
+    id: 'BEERS-T2-digoxin', source: 'Beers 2023', kind: 'inappropriate', drugs: ['digoxin'], riskLevel: 'Moderate',
+    description: 'Digoxin as first-line therapy for atrial fibrillation or heart failure; toxicity is more likely with reduced renal clearance.',
+    recommendation: 'Avoid first-line; if used, avoid more than 125 micrograms a day.',
+  },
+  {
+    id: 'BEERS-T2-tricyclics', source: 'Beers 2023', kind: 'inappropriate', drugs: ['tricyclic', 'paroxetine'], riskLevel: 'Moderate',
+    description: 'Strongly anticholinergic antidepressant: sedation, orthostatic hypotension and confusion.',
+    recommendation: 'Avoid. Prefer sertraline or another antidepressant with little anticholinergic activity.',
+  },
+  {
+    id: 'BEERS-T2-antipsychotics', source: 'Beers 2023', kind: 'inappropriate', drugs: ['antipsychotic'], riskLevel: 'Moderate',
+    description: 'Antipsychotic in an older adult: increased risk of stroke, cognitive decline and death in dementia.',
+    recommendation: 'Avoid, except for schizophrenia, bipolar disorder or short-term antiemetic use; never for behavioural symptoms of dementia unless non-drug options have failed and the patient is a danger.',
+  },
+  {
+    id: 'BEERS-T2-benzodiazepines', source: 'Beers 2023', kind: 'inappropriate', drugs: ['benzodiazepine'], riskLevel: 'Moderate',
+    description: 'Benzodiazepine: older adults are more sensitive to them, with cognitive impairment, delirium, falls, fractures and car accidents.',
+    recommendation: 'Avoid; taper if taken long-term.',
+  },
+  {
+    id: 'BEERS-T2-z-drugs', source: 'Beers 2023', kind: 'inappropriate', drugs: ['zDrug'], riskLevel: 'Moderate',
+    description: 'Z-drug hypnotic: adverse effects like those of benzodiazepines (delirium, falls, fractures) for little gain in sleep.',
+    recommendation: 'Avoid. Prefer non-drug treatment of insomnia.',
+  },
+  {
+    id: 'BEERS-T2-sulfonylureas', source: 'Beers 2023', kind: 'inappropriate', drugs: ['sulfonylurea'], riskLevel: 'Moderate',
+    description: 'Sulfonylurea: higher risk of cardiovascular events, death and prolonged hypoglycaemia than alternatives.',
+    recommendation: 'Avoid as first- or second-line treatment; if used, prefer a short-acting agent such as gliclazide or glipizide.',
+  },
+  {
+    id: 'BEERS-T2-metoclopramide', source: 'Beers 2023', kind: 'inappropriate', drugs: ['metoclopramide'], riskLevel: 'Moderate',
+    description: 'Metoclopramide: extrapyramidal effects, including tardive dyskinesia, are more likely in frail older adults.',
+    recommendation: 'Avoid, unless for gastroparesis for no more than 12 weeks.',
+  },
+  {
+    id: 'BEERS-T2-ppis', source: 'Beers 2023', kind: 'inappropriate', drugs: ['ppi'], riskLevel: 'Low',
+    description: 'Proton pump inhibitor: taken for more than 8 weeks, it raises the risk of C. difficile infection, pneumonia, bone loss and fractures.',
+    recommendation: 'Avoid beyond 8 weeks unless for high-risk patients (oral corticosteroids, chronic NSAIDs), Barrett\'s oesophagus or failed step-down.',
+  },
+  {
+    id: 'BEERS-T2-nsaids', source: 'Beers 2023', kind: 'inappropriate', drugs: ['nsaid'], riskLevel: 'Moderate',
+    description: 'Non-COX-selective NSAIDs and indometacin or ketorolac in particular: GI bleeding, peptic ulcer and acute kidney injury.',
+    recommendation: 'Avoid chronic use unless alternatives have failed and a PPI is given; never use indometacin or ketorolac.',
+  },
+  {
+    id: 'BEERS-T2-muscle-relaxants', source: 'Beers 2023', kind: 'inappropriate', drugs: ['muscleRelaxant'], riskLevel: 'Moderate',
+    description: 'Skeletal muscle relaxant: anticholinergic and sedating, with fracture risk, and poorly tolerated at effective doses.',
+    recommendation: 'Avoid.',
+  },
+  {
+    id: 'BEERS-T2-nitrofurantoin', source: 'Beers 2023', kind: 'inappropriate', drugs: ['nitrofurantoin'], belowEgfr: 30, riskLevel: 'Moderate',
+    description: 'Nitrofurantoin with eGFR below 30: inadequate urine concentrations and a risk of pulmonary and hepatic toxicity and neuropathy.',
+    recommendation: 'Avoid; choose another antibiotic for the urinary tract infection.',
+  },
+
+  // Beers Table 3: drug–disease interactions.
+  {
+    id: 'BEERS-T3-falls', source: 'Beers 2023', kind: 'inappropriate', conditions: FALLS, riskLevel: 'High',
+    drugs: ['benzodiazepine', 'zDrug', 'antipsychotic', 'tricyclic', 'ssri', 'opioid', 'gabapentin', 'pregabalin', 'carbamazepine', 'phenytoin', 'valproate', 'levetiracetam', 'lamotrigine'],
+    description: 'Drug that causes ataxia, impaired psychomotor function, syncope or further falls, in a patient with a history of falls or fractures.',
+    recommendation: 'Avoid unless safer alternatives are unavailable; review every CNS-active drug.',
+  },
+  {
+    id: 'BEERS-T3-dementia', source: 'Beers 2023', kind: 'inappropriate', conditions: [...DEMENTIA, ...DELIRIUM], riskLevel: 'High',
+    drugs: ['anticholinergic', 'benzodiazepine', 'zDrug', 'antipsychotic'],
+    description: 'Anticholinergic, benzodiazepine, Z-drug or antipsychotic in a patient with dementia or delirium: worsens cognition and can precipitate delirium.',
+    recommendation: 'Avoid; reserve antipsychotics for when non-drug options have failed and the patient is a danger to themselves or others.',
+  },
+  {
+    id: 'BEERS-T3-heart-failure', source: 'Beers 2023', kind: 'inappropriate', conditions: HEART_FAILURE, riskLevel: 'High',
+    drugs: ['nsaid', 'diltiazem', 'verapamil', 'pioglitazone', 'dronedarone'],
+    description: 'NSAID, non-dihydropyridine calcium channel blocker or thiazolidinedione in heart failure: fluid retention and worsening failure.',
+    recommendation: 'Avoid in symptomatic heart failure; use with caution otherwise.',
+  },
+
+  // Beers Tables 5 and 6: drug–drug interactions and renal function.
+  {
+    id: 'BEERS-T5-opioid-benzodiazepine', source: 'Beers 2023', kind: 'inappropriate', drugs: ['opioid'], alsoTaking: ['benzodiazepine', 'gabapentin', 'pregabalin'], riskLevel: 'High',
+    description: 'Opioid with a benzodiazepine or gabapentinoid: overdose, respiratory depression and death.',
+    recommendation: 'Avoid the combination, except when switching from one to the other or with a gabapentinoid to reduce opioid use.',
+  },
+  {
+    id: 'BEERS-T5-cns-active', source: 'Beers 2023', kind: 'inappropriate', minCount: 3, riskLevel: 'High',
+    drugs: ['benzodiazepine', 'zDrug', 'antipsychotic', 'tricyclic', 'ssri', 'venlafaxine', 'duloxetine', 'mirtazapine', 'opioid', 'gabapentin', 'pregabalin', 'carbamazepine', 'phenytoin', 'valproate', 'levetiracetam', 'lamotrigine', 'muscleRelaxant'],
+    description: 'Three or more CNS-active drugs together: falls and fractures.',
+    recommendation: 'Avoid; reduce the number of CNS-active drugs.',
+  },
+  {
+    id: 'BEERS-T6-renal', source: 'Beers 2023', kind: 'inappropriate', drugs: ['dabigatran', 'rivaroxaban', 'edoxaban', 'spironolactone', 'trimethoprim', 'gabapentin', 'pregabalin', 'tramadol'], belowEgfr: 30, riskLevel: 'Moderate',
+    description: 'Drug that needs dose reduction or avoidance with eGFR below 30 in older adults.',
+    recommendation: 'Check the renal dose; avoid spironolactone and dabigatran below 30.',
+  },
+
+  // STOPP v2.
+  {
+    id: 'STOPP B12', source: 'STOPP v2', kind: 'inappropriate', drugs: ['spironolactone', 'eplerenone'], alsoTaking: ['raas', 'amiloride', 'potassium chloride'], riskLevel: 'Moderate',
+    description: 'Aldosterone antagonist with a potassium-conserving drug (ACE inhibitor, ARB, amiloride) without potassium monitoring: hyperkalaemia.',
+    recommendation: 'Monitor potassium at least every 6 months.',
+  },
+  {
+    id: 'STOPP C5', source: 'STOPP v2', kind: 'inappropriate', drugs: ['aspirin'], alsoTaking: ['anticoagulant'], riskLevel: 'High',
+    description: 'Aspirin with a vitamin K antagonist or DOAC in chronic atrial fibrillation: more bleeding without added benefit.',
+    recommendation: 'Stop the aspirin unless there is a separate, time-limited indication such as a recent coronary stent.',
+  },
+  {
+    id: 'STOPP C10', source: 'STOPP v2', kind: 'inappropriate', drugs: ['nsaid'], alsoTaking: ['anticoagulant'], riskLevel: 'High',
+    description: 'NSAID with a vitamin K antagonist or DOAC: major GI bleeding.',
+    recommendation: 'Avoid the combination; use paracetamol.',
+  },
+  {
+    id: 'STOPP C11', source: 'STOPP v2', kind: 'inappropriate', drugs: ['nsaid'], alsoTaking: ['antiplatelet'], unlessTaking: ['ppi'], riskLevel: 'Moderate',
+    description: 'NSAID with an antiplatelet agent without PPI prophylaxis: peptic ulcer disease.',
+    recommendation: 'Avoid the NSAID, or add a PPI.',
+  },
+  {
+    id: 'STOPP D1', source: 'STOPP v2', kind: 'inappropriate', drugs: ['tricyclic'], conditions: [...DEMENTIA, 'glaucoma', 'heart block', 'prostatism', 'urinary retention'], riskLevel: 'High',
+    description: 'Tricyclic antidepressant with dementia, narrow-angle glaucoma, cardiac conduction abnormality, prostatism or urinary retention.',
+    recommendation: 'Stop, and choose an antidepressant without anticholinergic effects.',
+  },
+  {
+    id: 'STOPP D5', source: 'STOPP v2', kind: 'inappropriate', drugs: ['benzodiazepine'], riskLevel: 'Moderate',
+    description: 'Benzodiazepine for 4 weeks or more: prolonged sedation, confusion, impaired balance and falls; no indication for longer treatment.',
+    recommendation: 'If taken for 4 weeks or more, taper gradually and stop.',
+  },
+  {
+    id: 'STOPP D6', source: 'STOPP v2', kind: 'inappropriate', drugs: ['haloperidol', 'olanzapine', 'risperidone'], conditions: PARKINSONISM, riskLevel: 'High',
+    description: 'Antipsychotic other than quetiapine or clozapine in parkinsonism or Lewy body disease: severe extrapyramidal symptoms.',
+    recommendation: 'Stop; if an antipsychotic is essential, use low-dose quetiapine or clozapine.',
+  },
+  {
+    id: 'STOPP D8', source: 'STOPP v2', kind: 'inappropriate', drugs: ['anticholinergic'], conditions: [...DEMENTIA, ...DELIRIUM], riskLevel: 'High',
+    description: 'Anticholinergic drug in delirium or dementia: exacerbates cognitive impairment.',
+    recommendation: 'Stop, or switch to a drug without anticholinergic effects.',
+  },
+  {
+    id: 'STOPP D14', source: 'STOPP v2', kind: 'inappropriate', drugs: ['sedatingAntihistamine'], riskLevel: 'Moderate',
+    description: 'First-generation antihistamine: safer, less toxic antihistamines are widely available.',
+    recommendation: 'Switch to a non-sedating antihistamine.',
+  },
+  {
+    id: 'STOPP E1', source: 'STOPP v2', kind: 'inappropriate', drugs: ['digoxin'], belowEgfr: 30, riskLevel: 'High',
+    description: 'Digoxin at a long-term dose above 125 micrograms a day with eGFR below 30: toxicity unless levels are monitored.',
+    recommendation: 'Reduce the dose and check the digoxin level.',
+  },
+  {
+    id: 'STOPP E3', source: 'STOPP v2', kind: 'inappropriate', drugs: ['dabigatran'], belowEgfr: 30, riskLevel: 'High',
+    description: 'Direct thrombin inhibitor with eGFR below 30: bleeding.',
+    recommendation: 'Stop; choose an anticoagulant suitable for the renal function.',
+  },
+  {
+    id: 'STOPP E4', source: 'STOPP v2', kind: 'inappropriate', drugs: ['apixaban', 'rivaroxaban', 'edoxaban'], belowEgfr: 15, riskLevel: 'High',
+    description: 'Factor Xa inhibitor with eGFR below 15: bleeding.',
+    recommendation: 'Stop; seek specialist advice on anticoagulation.',
+  },
+  {
+    id: 'STOPP E5', source: 'STOPP v2', kind: 'inappropriate', drugs: ['nsaid'], belowEgfr: 50, riskLevel: 'High',
+    description: 'NSAID with eGFR below 50: deterioration of renal function.',
+    recommendation: 'Stop; use paracetamol or a topical NSAID.',
+  },
+  {
+    id: 'STOPP E6', source: 'STOPP v2', kind: 'inappropriate', drugs: ['colchicine'], belowEgfr: 10, riskLevel: 'High',
+    description: 'Colchicine with eGFR below 10: colchicine toxicity.',
+    recommendation: 'Stop; use a corticosteroid for acute gout.',
+  },
+  {
+    id: 'STOPP E7', source: 'STOPP v2', kind: 'inappropriate', drugs: ['metformin'], belowEgfr: 30, riskLevel: 'High',
+    description: 'Metformin with eGFR below 30: lactic acidosis.',
+    recommendation: 'Stop the metformin.',
+  },
+  {
+    id: 'STOPP G2', source: 'STOPP v2', kind: 'inappropriate', drugs: ['propranolol'], conditions: ['asthma'], riskLevel: 'High',
+    description: 'Non-selective beta-blocker with a history of asthma requiring treatment: bronchospasm.',
+    recommendation: 'Stop; if a beta-blocker is needed, use a cardioselective one with caution.',
+  },
+  {
+    id: 'STOPP H1', source: 'STOPP v2', kind: 'inappropriate', drugs: ['ibuprofen', 'naproxen', 'diclofenac', 'ketorolac', 'indomethacin', 'meloxicam'], conditions: PEPTIC_ULCER, unlessTaking: ['ppi'], riskLevel: 'High',
+    description: 'Non-COX-2-selective NSAID with a history of peptic ulcer or GI bleeding, without a PPI: ulcer relapse.',
+    recommendation: 'Stop the NSAID, or add a PPI if it cannot be avoided.',
+  },
+  {
+    id: 'STOPP H2', source: 'STOPP v2', kind: 'inappropriate', drugs: ['nsaid'], conditions: [...HEART_FAILURE, 'severe hypertension'], riskLevel: 'High',
+    description: 'NSAID with severe hypertension or heart failure: exacerbation.',
+    recommendation: 'Stop; use paracetamol.',
+  },
+  {
+    id: 'STOPP J1', source: 'STOPP v2', kind: 'inappropriate', drugs: ['glimepiride', 'glibenclamide', 'chlorpropamide'], riskLevel: 'Moderate',
+    description: 'Long-acting sulfonylurea in type 2 diabetes: prolonged hypoglycaemia.',
+    recommendation: 'Switch to gliclazide or a drug with lower hypoglycaemia risk.',
+  },
+  {
+    id: 'STOPP J2', source: 'STOPP v2', kind: 'inappropriate', drugs: ['pioglitazone'], conditions: HEART_FAILURE, riskLevel: 'High',
+    description: 'Thiazolidinedione in heart failure: worsening heart failure.',
+    recommendation: 'Stop the pioglitazone.',
+  },
+  {
+    id: 'STOPP K1', source: 'STOPP v2', kind: 'inappropriate', drugs: ['benzodiazepine'], conditions: FALLS, riskLevel: 'High',
+    description: 'Benzodiazepine in a patient who has fallen: sedation and impaired balance.',
+    recommendation: 'Taper and stop.',
+  },
+  {
+    id: 'STOPP K2', source: 'STOPP v2', kind: 'inappropriate', drugs: ['antipsychotic'], conditions: FALLS, riskLevel: 'High',
+    description: 'Antipsychotic in a patient who has fallen: gait dyspraxia and parkinsonism.',
+    recommendation: 'Review the indication; reduce or stop.',
+  },
+  {
+    id: 'STOPP K4', source: 'STOPP v2', kind: 'inappropriate', drugs: ['zDrug'], conditions: FALLS, riskLevel: 'High',
+    description: 'Z-drug hypnotic in a patient who has fallen: protracted daytime sedation and ataxia.',
+    recommendation: 'Taper and stop.',
+  },
+  {
+    id: 'STOPP L1', source: 'STOPP v2', kind: 'inappropriate', drugs: ['morphine', 'oxycodone', 'fentanyl', 'methadone'], riskLevel: 'Low',
+    description: 'Strong oral or transdermal opioid as first-line therapy for mild pain: the WHO analgesic ladder is not followed.',
+    recommendation: 'Check the indication; use paracetamol or a weaker analgesic first for mild pain.',
+  },
+  {
+    id: 'STOPP M1', source: 'STOPP v2', kind: 'inappropriate', drugs: ['anticholinergic'], minCount: 2, riskLevel: 'High',
+    description: 'Two or more drugs with anticholinergic properties: anticholinergic toxicity (confusion, urinary retention, constipation).',
+    recommendation: 'Reduce the anticholinergic burden; stop or switch at least one.',
+  },
+
+  // START v2: omissions in older adults.
+  {
+    id: 'START A1', source: 'START v2', kind: 'omission', drugs: ['anticoagulant'], conditions: ATRIAL_FIBRILLATION, riskLevel: 'High',
+    description: 'Atrial fibrillation without a vitamin K antagonist or DOAC.',
+    recommendation: 'Start an oral anticoagulant unless contraindicated (document the CHA₂DS₂-VASc and bleeding risk).',
+  },
+  {
+    id: 'START A5', source: 'START v2', kind: 'omission', drugs: ['statin'], conditions: VASCULAR_DISEASE, riskLevel: 'Moderate',
+    description: 'Coronary, cerebral or peripheral vascular disease without a statin.',
+    recommendation: 'Start a statin unless the patient is at the end of life or aged over 85.',
+  },
+  {
+    id: 'START A6', source: 'START v2', kind: 'omission', drugs: ['raas'], conditions: HEART_FAILURE, riskLevel: 'Moderate',
+    description: 'Systolic heart failure without an ACE inhibitor (or an ARB if the ACE inhibitor is not tolerated).',
+    recommendation: 'Start an ACE inhibitor, or an ARB if intolerant, and titrate with renal function and potassium.',
+  },
+  {
+    id: 'START A8', source: 'START v2', kind: 'omission', drugs: ['bisoprolol', 'carvedilol', 'metoprolol', 'nebivolol'], conditions: HEART_FAILURE, riskLevel: 'Moderate',
+    description: 'Stable systolic heart failure without an evidence-based beta-blocker.',
+    recommendation: 'Start bisoprolol, carvedilol, metoprolol or nebivolol once the patient is euvolaemic.',
+  },
+  {
+    id: 'START E7', source: 'START v2', kind: 'omission', drugs: ['folic acid'], alsoTaking: ['methotrexate'], riskLevel: 'Moderate',
+    description: 'Methotrexate without folic acid supplementation.',
+    recommendation: 'Add folic acid, typically 5 mg once weekly on a different day from the methotrexate.',
+  },
+  {
+    id: 'START F1', source: 'START v2', kind: 'omission', drugs: ['raas'], conditions: DIABETIC_KIDNEY_DISEASE, riskLevel: 'Moderate',
+    description: 'Diabetes with evidence of renal disease (proteinuria or albuminuria) without an ACE inhibitor or ARB.',
+    recommendation: 'Start an ACE inhibitor or ARB if tolerated.',
+  },
+  {
+    id: 'START H2', source: 'START v2', kind: 'omission', drugs: ['laxative'], alsoTaking: ['opioid'], riskLevel: 'Moderate',
+    description: 'Regular opioid without a laxative.',
+    recommendation: 'Prescribe a laxative (e.g. senna with macrogol) alongside regular opioids.',
+  },
+];
+
+/** Pregnancy risks keyed by ingredient or `drugGroups` key. Drugs not listed are not thereby shown to be safe. */
+export const pregnancyRiskTable: Record<string, PregnancyRisk> = {
+  warfarin: { risk: 'contraindicated', note: 'Embryopathy in weeks 6–12 and fetal or neonatal bleeding near term; switch to low-molecular-weight heparin (mechanical valves need specialist advice).' },
+  acei: { risk: 'contraindicated', note: 'Fetal renal failure, oligohydramnios and skull ossification defects in the second and third trimesters; switch to labetalol or nifedipine.' },
+  arb: { risk: 'contraindicated', note: 'Fetotoxic like ACE inhibitors; switch to labetalol or nifedipine.' },
+  methotrexate: { risk: 'contraindicated', note: 'Teratogenic and abortifacient; stop and seek specialist advice.' },
+  valproate: { risk: 'contraindicated', note: 'Neural tube defects and neurodevelopmental disorders in about 30–40% of exposed children; only under a pregnancy prevention programme with specialist review.' },
+  mycophenolate: { risk: 'contraindicated', note: 'Miscarriage and congenital malformations; stop and seek specialist advice.' },
+  isotretinoin: { risk: 'contraindicated', note: 'Severe malformations; stop immediately.' },
+  misoprostol: { risk: 'contraindicated', note: 'Induces uterine contractions and miscarriage unless used for that purpose.' },
+  statin: { risk: 'avoid', note: 'Cholesterol synthesis is needed for fetal development; stop for the pregnancy.' },
+  doac: { risk: 'avoid', note: 'Insufficient safety data and placental transfer; use low-molecular-weight heparin.' },
+  sglt2Inhibitor: { risk: 'avoid', note: 'Renal effects in animal studies in the second and third trimesters; switch to insulin.' },
+  amiodarone: { risk: 'avoid', note: 'Fetal hypothyroidism, goitre and bradycardia; use only for life-threatening arrhythmias.' },
+  doxycycline: { risk: 'avoid', note: 'Tetracyclines discolour fetal teeth and affect bone growth from the second trimester.' },
+  nsaid: { risk: 'avoid', fromWeek: 20, note: 'Fetal renal dysfunction and oligohydramnios from 20 weeks, and premature ductus closure from 30 weeks; use paracetamol.' },
+  nitrofurantoin: { risk: 'avoid', fromWeek: 36, note: 'Neonatal haemolysis if taken at term; choose another antibiotic.' },
+  trimethoprim: { risk: 'caution', untilWeek: 13, note: 'Folate antagonist; avoid in the first trimester, or give folic acid.' },
+  fluconazole: { risk: 'caution', untilWeek: 13, note: 'High or prolonged doses in the first trimester are linked to malformations; use a topical azole.' },
+  paroxetine: { risk: 'caution', untilWeek: 13, note: 'First-trimester exposure is linked to cardiac malformations; prefer sertraline.' },
+  lithium: { risk: 'caution', note: 'Cardiac malformations (Ebstein anomaly) with first-trimester exposure, and changing levels through pregnancy; needs specialist monitoring.' },
+  carbamazepine: { risk: 'caution', note: 'Neural tube defects; give folic acid 5 mg and review with the specialist, but do not stop abruptly.' },
+  phenytoin: { risk: 'caution', note: 'Fetal hydantoin syndrome; give folic acid 5 mg, monitor levels and do not stop abruptly.' },
+  topiramate: { risk: 'caution', note: 'Cleft lip and palate and low birth weight; review with the specialist.' },
+  ciprofloxacin: { risk: 'caution', note: 'Quinolones are avoided in pregnancy unless there is no alternative.' },
+  levofloxacin: { risk: 'caution', note: 'Quinolones are avoided in pregnancy unless there is no alternative.' },
+};
+
+/** Breastfeeding risks keyed by ingredient or `drugGroups` key. Drugs not listed are not thereby shown to be safe. */
+export const lactationRiskTable: Record<string, LactationRisk> = {
+  codeine: { risk: 'avoid', note: 'Ultra-rapid CYP2D6 metabolisers pass enough morphine to cause infant sedation, respiratory depression and death.' },
+  amiodarone: { risk: 'avoid', note: 'Large amounts of iodine and drug reach the milk; infant thyroid suppression.' },
+  lithium: { risk: 'avoid', note: 'Infant serum levels can reach half the mother\'s; only with specialist monitoring of the infant.' },
+  methotrexate: { risk: 'avoid', note: 'Accumulates in infant tissues; avoid except for low weekly doses with specialist advice.' },
+  mycophenolate: { risk: 'avoid', note: 'No safety data; avoid.' },
+  doac: { risk: 'avoid', note: 'Passes into milk with no safety data; use warfarin or low-molecular-weight heparin.' },
+  sglt2Inhibitor: { risk: 'avoid', note: 'Animal data show effects on the developing kidney; avoid.' },
+  tramadol: { risk: 'caution', note: 'Active metabolite passes into milk; use the lowest dose for the shortest time and watch the infant for sedation.' },
+  fluoxetine: { risk: 'caution', note: 'Long half-life and active metabolite accumulate in the infant; sertraline is preferred.' },
+  atenolol: { risk: 'caution', note: 'Renally cleared and accumulates in the infant (bradycardia, cyanosis); metoprolol or propranolol is preferred.' },
+  aspirin: { risk: 'caution', note: 'Avoid regular analgesic doses: possible Reye\'s syndrome and impaired platelet function in the infant; low-dose aspirin is acceptable.' },
+  benzodiazepine: { risk: 'caution', note: 'Infant sedation and poor feeding, particularly with long-acting diazepam; use short courses of a short-acting drug.' },
+};
@@ -0,0 +1,236 @@
+export interface TerminologyEntry {
+  /** RxNorm ingredient concept (RxCUI); omitted for ingredients without a US ingredient concept. */
+  rxcui?: string;
+  /** ATC level-5 codes; drugs with more than one therapeutic use carry one code per use. */
+  atc: string[];
+  /** Brand names and spellings beyond the aliases in `interactionKnowledgeBase.ts`, including combination products. */
+  synonyms?: string[];
+}
+
+export const TERMINOLOGY_INDEX_VERSION = '2026.10.0';
+
+/** Keyed by the ingredient names used in `interactionKnowledgeBase.ts`, plus common drugs the rules do not cover. */
+export const terminologyIndex: Record<string, TerminologyEntry> = {
+  warfarin: { rxcui: '11289', atc: ['B01AA03'] },
+  apixaban: { rxcui: '1364430', atc: ['B01AF02'] },
+  rivaroxaban: { rxcui: '1114195', atc: ['B01AF01'] },
+  dabigatran: { atc: ['B01AE07'] },
+  edoxaban: { rxcui: '1599538', atc: ['B01AF03'] },
+  heparin: { rxcui: '5224', atc: ['B01AB01'] },
+  enoxaparin: { rxcui: '67108', atc: ['B01AB05'], synonyms: ['clexane', 'lovenox'] },
+  aspirin: { rxcui: '1191', atc: ['B01AC06', 'N02BA01'] },
+  clopidogrel: { rxcui: '32968', atc: ['B01AC04'] },
+  ticagrelor: { rxcui: '1116632', atc: ['B01AC24'] },
+  ibuprofen: { rxcui: '5640', atc: ['M01AE01'] },
+  naproxen: { rxcui: '7258', atc: ['M01AE02'] },
+  diclofenac: { rxcui: '3355', atc: ['M01AB05'] },
+  celecoxib: { rxcui: '140587', atc: ['M01AH01'] },
+  ketorolac: { rxcui: '35827', atc: ['M01AB15'] },
+  indomethacin: { rxcui: '5781', atc: ['M01AB01'] },
+  meloxicam: { rxcui: '41493', atc: ['M01AC06'] },
+  lisinopril: { rxcui: '29046', atc: ['C09AA03'] },
+  enalapril: { rxcui: '3827', atc: ['C09AA02'] },
+  ramipril: { rxcui: '35296', atc: ['C09AA05'] },
+  perindopril: { rxcui: '54552', atc: ['C09AA04'] },
+  losartan: { rxcui: '52175', atc: ['C09CA01'] },
+  valsartan: { rxcui: '69749', atc: ['C09CA03'] },
+  telmisartan: { rxcui: '73494', atc: ['C09CA07'] },
+  candesartan: { rxcui: '214354', atc: ['C09CA06'] },
+  spironolactone: { rxcui: '9997', atc: ['C03DA01'] },
+  eplerenone: { rxcui: '298869', atc: ['C03DA04'] },
+  amiloride: { rxcui: '644', atc: ['C03DB01'] },
+  'potassium chloride': { rxcui: '8591', atc: ['A12BA01'] },
+  hydrochlorothiazide: { rxcui: '5487', atc: ['C03AA03'] },
+  furosemide: { rxcui: '4603', atc: ['C03CA01'] },
+  simvastatin: { rxcui: '36567', atc: ['C10AA01'] },
+  atorvastatin: { rxcui: '83367', atc: ['C10AA05'] },
+  rosuvastatin: { rxcui: '301542', atc: ['C10AA07'] },
+  lovastatin: { rxcui: '6472', atc: ['C10AA02'] },
+  pravastatin: { rxcui: '42463', atc: ['C10AA03'] },
+  clarithromycin: { rxcui: '21212', atc: ['J01FA09'] },
+  erythromycin: { rxcui: '4053', atc: ['J01FA01'] },
+  azithromycin: { rxcui: '18631', atc: ['J01FA10'] },
+  ciprofloxacin: { rxcui: '2551', atc: ['J01MA02'] },
+  levofloxacin: { rxcui: '82122', atc: ['J01MA12'] },
+  moxifloxacin: { rxcui: '139462', atc: ['J01MA14'] },
+  amoxicillin: { rxcui: '723', atc: ['J01CA04'], synonyms: ['amoxil', 'amoxycillin'] },
+  doxycycline: { rxcui: '3640', atc: ['J01AA02'], synonyms: ['vibramycin'] },
+  cefalexin: { rxcui: '2231', atc: ['J01DB01'], synonyms: ['cephalexin', 'keflex'] },
+  fluconazole: { rxcui: '4450', atc: ['J02AC01'] },
+  itraconazole: { rxcui: '28031', atc: ['J02AC02'] },
+  ketoconazole: { rxcui: '6135', atc: ['J02AB02'] },
+  metronidazole: { rxcui: '6922', atc: ['J01XD01', 'P01AB01'] },
+  trimethoprim: { rxcui: '10829', atc: ['J01EA01'] },
+  nitrofurantoin: { rxcui: '7454', atc: ['J01XE01'] },
+  linezolid: { rxcui: '190376', atc: ['J01XX08'] },
+  amiodarone: { rxcui: '703', atc: ['C01BD01'] },
+  digoxin: { rxcui: '3407', atc: ['C01AA05'] },
+  verapamil: { rxcui: '11170', atc: ['C08DA01'] },
+  diltiazem: { rxcui: '3443', atc: ['C08DB01'], synonyms: ['cardizem', 'tildiem'] },
+  amlodipine: { rxcui: '17767', atc: ['C08CA01'], synonyms: ['norvasc', 'istin'] },
+  nifedipine: { rxcui: '7417', atc: ['C08CA05'], synonyms: ['adalat', 'procardia'] },
+  'glyceryl trinitrate': { rxcui: '4917', atc: ['C01DA02'] },
+  'isosorbide mononitrate': { rxcui: '6058', atc: ['C01DA14'] },
+  metoprolol: { rxcui: '6918', atc: ['C07AB02'] },
+  atenolol: { rxcui: '1202', atc: ['C07AB03'] },
+  bisoprolol: { rxcui: '19484', atc: ['C07AB07'] },
+  carvedilol: { rxcui: '20352', atc: ['C07AG02'] },
+  propranolol: { rxcui: '8787', atc: ['C07AA05'], synonyms: ['inderal'] },
+  omeprazole: { rxcui: '7646', atc: ['A02BC01'] },
+  esomeprazole: { rxcui: '283742', atc: ['A02BC05'] },
+  pantoprazole: { rxcui: '40790', atc: ['A02BC02'] },
+  lansoprazole: { rxcui: '17128', atc: ['A02BC03'] },
+  ondansetron: { rxcui: '26225', atc: ['A04AA01'] },
+  metformin: { rxcui: '6809', atc: ['A10BA02'] },
+  gliclazide: { atc: ['A10BB09'] },
+  glimepiride: { rxcui: '25789', atc: ['A10BB12'] },
+  glipizide: { rxcui: '4821', atc: ['A10BB07'] },
+  sitagliptin: { rxcui: '593411', atc: ['A10BH01'] },
+  dapagliflozin: { rxcui: '1488564', atc: ['A10BK01'], synonyms: ['farxiga', 'forxiga'] },
+  empagliflozin: { rxcui: '1545653', atc: ['A10BK03'], synonyms: ['jardiance'] },
+  levothyroxine: { rxcui: '10582', atc: ['H03AA01'], synonyms: ['synthroid', 'eltroxin', 'thyroxine'] },
+  prednisolone: { rxcui: '8638', atc: ['H02AB06'] },
+  prednisone: { rxcui: '8640', atc: ['H02AB07'] },
+  salbutamol: { rxcui: '435', atc: ['R03AC02'], synonyms: ['albuterol', 'ventolin', 'proventil'] },
+  salmeterol: { rxcui: '36117', atc: ['R03AC12'], synonyms: ['serevent'] },
+  theophylline: { rxcui: '10438', atc: ['R03DA04'] },
+  fluoxetine: { rxcui: '4493', atc: ['N06AB03'] },
+  sertraline: { rxcui: '36437', atc: ['N06AB06'] },
+  citalopram: { rxcui: '2556', atc: ['N06AB04'] },
+  escitalopram: { rxcui: '321988', atc: ['N06AB10'] },
+  paroxetine: { rxcui: '32937', atc: ['N06AB05'] },
+  amitriptyline: { rxcui: '704', atc: ['N06AA09'], synonyms: ['elavil'] },
+  mirtazapine: { rxcui: '15996', atc: ['N06AX11'], synonyms: ['remeron', 'zispin'] },
+  venlafaxine: { rxcui: '39786', atc: ['N06AX16'], synonyms: ['effexor'] },
+  duloxetine: { rxcui: '72625', atc: ['N06AX21'], synonyms: ['cymbalta'] },
+  phenelzine: { rxcui: '8123', atc: ['N06AF03'] },
+  selegiline: { rxcui: '9639', atc: ['N04BD01'] },
+  lithium: { atc: ['N05AN01'] },
+  haloperidol: { rxcui: '5093', atc: ['N05AD01'] },
+  quetiapine: { rxcui: '51272', atc: ['N05AH04'], synonyms: ['seroquel'] },
+  olanzapine: { rxcui: '61381', atc: ['N05AH03'], synonyms: ['zyprexa'] },
+  risperidone: { rxcui: '35636', atc: ['N05AX08'], synonyms: ['risperdal'] },
+  alprazolam: { rxcui: '596', atc: ['N05BA12'] },
+  diazepam: { rxcui: '3322', atc: ['N05BA01'] },
+  lorazepam: { rxcui: '6470', atc: ['N05BA06'] },
+  clonazepam: { rxcui: '2598', atc: ['N03AE01'] },
+  gabapentin: { rxcui: '25480', atc: ['N03AX12'] },
+  pregabalin: { rxcui: '187832', atc: ['N03AX16'] },
+  levetiracetam: { rxcui: '114477', atc: ['N03AX14'], synonyms: ['keppra'] },
+  lamotrigine: { rxcui: '28439', atc: ['N03AX09'], synonyms: ['lamictal'] },
+  carbamazepine: { rxcui: '2002', atc: ['N03AF01'], synonyms: ['tegretol'] },
+  phenytoin: { rxcui: '8183', atc: ['N03AB02'], synonyms: ['dilantin', 'epanutin'] },
+  valproate: { rxcui: '11118', atc: ['N03AG01'], synonyms: ['valproic acid', 'sodium valproate', 'depakote', 'epilim'] },
+  paracetamol: { rxcui: '161', atc: ['N02BE01'], synonyms: ['co-codamol', 'percocet'] },
+  morphine: { rxcui: '7052', atc: ['N02AA01'] },
+  oxycodone: { rxcui: '7804', atc: ['N02AA05'], synonyms: ['percocet'] },
+  codeine: { rxcui: '2670', atc: ['R05DA04'], synonyms: ['co-codamol'] },
+  fentanyl: { rxcui: '4337', atc: ['N02AB03'] },
+  methadone: { rxcui: '6813', atc: ['N07BC02'] },
+  tramadol: { rxcui: '10689', atc: ['N02AX02'] },
+  methotrexate: { rxcui: '6851', atc: ['L04AX03', 'L01BA01'] },
+  azathioprine: { rxcui: '1256', atc: ['L04AX01'] },
+  mercaptopurine: { rxcui: '103', atc: ['L01BB02'] },
+  allopurinol: { rxcui: '519', atc: ['M04AA01'] },
+  colchicine: { rxcui: '2683', atc: ['M04AC01'] },
+  sildenafil: { rxcui: '136411', atc: ['G04BE03'] },
+  tadalafil: { rxcui: '358263', atc: ['G04BE08'] },
+  tamsulosin: { rxcui: '77492', atc: ['G04CA02'], synonyms: ['flomax'] },
+};
+
+/** ATC level-4 (chemical subgroup) names for the classes in the index. */
+export const atcClassNames: Record<string, string> = {
+  A02BC: 'Proton pump inhibitors',
+  A04AA: '5-HT3 antagonists',
+  A10BA: 'Biguanides',
+  A10BB: 'Sulfonylureas',
+  A10BH: 'DPP-4 inhibitors',
+  A10BK: 'SGLT2 inhibitors',
+  A12BA: 'Potassium supplements',
+  B01AA: 'Vitamin K antagonists',
+  B01AB: 'Heparins',
+  B01AC: 'Platelet aggregation inhibitors',
+  B01AE: 'Direct thrombin inhibitors',
+  B01AF: 'Direct factor Xa inhibitors',
+  C01AA: 'Digitalis glycosides',
+  C01BD: 'Class III antiarrhythmics',
+  C01DA: 'Organic nitrates',
+  C03AA: 'Thiazides',
+  C03CA: 'Loop diuretics',
+  C03DA: 'Aldosterone antagonists',
+  C03DB: 'Potassium-sparing diuretics',
+  C07AA: 'Non-selective beta blockers',
+  C07AB: 'Selective beta blockers',
+  C07AG: 'Alpha and beta blockers',
+  C08CA: 'Dihydropyridine calcium channel blockers',
+  C08DA: 'Phenylalkylamine calcium channel blockers',
+  C08DB: 'Benzothiazepine calcium channel blockers',
+  C09AA: 'ACE inhibitors',
+  C09CA: 'Angiotensin II receptor blockers',
+  C10AA: 'Statins',
+  G04BE: 'Drugs for erectile dysfunction',
+  G04CA: 'Alpha-1 blockers',
+  H02AB: 'Glucocorticoids',
+  H03AA: 'Thyroid hormones',
+  J01AA: 'Tetracyclines',
+  J01CA: 'Extended-spectrum penicillins',
+  J01DB: 'First-generation cephalosporins',
+  J01EA: 'Trimethoprim and derivatives',
+  J01FA: 'Macrolides',
+  J01MA: 'Fluoroquinolones',
+  J01XD: 'Imidazole antibacterials',
+  J01XE: 'Nitrofurans',
+  J01XX: 'Other antibacterials',
+  J02AB: 'Imidazole antifungals',
+  J02AC: 'Triazole antifungals',
+  L01BA: 'Folic acid analogues',
+  L01BB: 'Purine analogues',
+  L04AX: 'Other immunosuppressants',
+  M01AB: 'Acetic acid NSAIDs',
+  M01AC: 'Oxicam NSAIDs',
+  M01AE: 'Propionic acid NSAIDs',
+  M01AH: 'Coxibs',
+  M04AA: 'Xanthine oxidase inhibitors',
+  M04AC: 'Gout preparations without effect on uric acid',
+  N02AA: 'Natural opium alkaloids',
+  N02AB: 'Phenylpiperidine opioids',
+  N02AX: 'Other opioids',
+  N02BA: 'Salicylates',
+  N02BE: 'Anilides',
+  N03AB: 'Hydantoins',
+  N03AE: 'Benzodiazepine antiepileptics',
+  N03AF: 'Carboxamide antiepileptics',
+  N03AG: 'Fatty acid antiepileptics',
+  N03AX: 'Other antiepileptics',
+  N04BD: 'MAO-B inhibitors',
+  N05AD: 'Butyrophenone antipsychotics',
+  N05AH: 'Diazepine, oxazepine and thiazepine antipsychotics',
+  N05AN: 'Lithium',
+  N05AX: 'Other antipsychotics',
+  N05BA: 'Benzodiazepine anxiolytics',
+  N06AA: 'Tricyclic antidepressants',
+  N06AB: 'SSRIs',
+  N06AF: 'Non-selective MAO inhibitors',
+  N06AX: 'Other antidepressants',
+  N07BC: 'Drugs used in opioid dependence',
+  P01AB: 'Nitroimidazole antiprotozoals',
+  R03AC: 'Selective beta-2 agonists',
+  R03DA: 'Xanthines',
+  R05DA: 'Opium alkaloid antitussives',
+};
+
+/**
+ * Classes where two members together are usually intended, or whose members are too unlike each other for a
+ * shared code to mean duplication. Two drugs in these classes are not flagged as class duplicates.
+ */
+export const atcDuplicationExemptions: Record<string, string> = {
+  B01AC: 'Dual antiplatelet therapy is standard after ACS and stenting.',
+  C01DA: 'A PRN short-acting nitrate alongside a regular long-acting one is usual.',
+  R03AC: 'Short- and long-acting beta-2 agonists are prescribed together.',
+  N02AX: 'Catch-all class of unrelated opioids.',
+  N03AX: 'Catch-all class; antiepileptic polytherapy is common.',
+  N05AX: 'Catch-all class of unrelated antipsychotics.',
+  N06AX: 'Catch-all class of unrelated antidepressants.',
+  J01XX: 'Catch-all class of unrelated antibacterials.',
+  L04AX: 'Catch-all class of unrelated immunosuppressants.',
+};
@@ -0,0 +1,143 @@
+import type { LabStatus, LabValue, Sex } from '../types';
+import { labAnalytes, type LabAnalyte, type ReferenceRange } from './knowledge/labAnalytes';
+
+export type UnitSystem = 'conventional' | 'si';
+
+export interface ParsedNumber {
+  value: number;
+  /** Set for censored results such as "<0.5" or ">90". */
+  comparator?: '<' | '>';
+}
+
+export interface MeasuredValue {
+  value: number;
+  unit: string;
+}
+
+export interface LabCheck {
+  lab: LabValue;
+  analyte?: LabAnalyte;
+  parsed?: ParsedNumber;
+  /** Which unit system the reported unit belongs to; undefined when the unit was not recognised. */
+  reportedSystem?: UnitSystem;
+  conventional?: MeasuredValue;
+  si?: MeasuredValue;
+  range?: ReferenceRange;
+  computedStatus?: LabStatus;
+  /** True when the locally computed status contradicts the model's `status`. */
+  discrepancy: boolean;
+}
+
+/** Reads the first number in a lab result, keeping a leading "<" or ">" and ignoring thousands separators and flags. */
+export function parseLabNumber(text: string): ParsedNumber | undefined {
+  const match = text.replace(/(\d),(\d{3})\b/g, '$1$2').match(/([<>])?\s*=?\s*(-?\d+(?:\.\d+)?)/);
+  if (!match) return undefined;
+  return { value: Number(match[2]), comparator: match[1] as ParsedNumber['comparator'] };
+}
+
+function normalizeParameter(parameter: string): string {
+  return parameter.toLowerCase().replace(/[()[\]:,]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/** Lower-cases and unifies micro signs, superscripts and spacing so "µmol/L", "umol/l" and "μmol / L" compare equal. */
+export function normalizeUnit(unit: string): string {
+  return unit
+    .toLowerCase()
+    .replace(/[µμ]|mc(?=g|mol|l)/g, 'u')
+    .replace(/³/g, '3').replace(/⁹/g, '9').replace(/²/g, '2')
+    .replace(/×/g, 'x')
+    .replace(/meq/g, 'mmol')
+    .replace(/\s+/g, '');
+}
+
+export function findAnalyte(parameter: string): LabAnalyte | undefined {
+  const name = normalizeParameter(parameter);
+  return labAnalytes.find(analyte => analyte.patterns.some(pattern => pattern.test(name)) && !analyte.exclude?.test(name));
+}
+
+function unitSystemOf(analyte: LabAnalyte, unit: string): UnitSystem | undefined {
+  const normalized = normalizeUnit(unit);
+  const alias = Object.entries(analyte.unitAliases ?? {}).find(([spelling]) => normalizeUnit(spelling) === normalized);
+  if (alias) return alias[1];
+  if (normalized === normalizeUnit(analyte.conventionalUnit)) return 'conventional';
+  if (normalized === normalizeUnit(analyte.siUnit)) return 'si';
+  return undefined;
+}
+
+export function toConventional(analyte: LabAnalyte, siValue: number): number {
+  return (siValue - (analyte.offset ?? 0)) / analyte.factor;
+}
+
+export function toSi(analyte: LabAnalyte, conventionalValue: number): number {
+  return conventionalValue * analyte.factor + (analyte.offset ?? 0);
+}
+
+export function selectReferenceRange(analyte: LabAnalyte, age?: number, sex?: Sex): ReferenceRange | undefined {
+  return analyte.ranges.find(range =>
+    (!range.sex || range.sex === sex) &&
+    (range.minAge === undefined || (age !== undefined && age >= range.minAge)) &&
+    (range.maxAge === undefined || (age !== undefined && age < range.maxAge))
+  );
+}
+
+function classify(value: ParsedNumber, range: ReferenceRange): LabStatus {
+  // A censored result is only classifiable when the whole censored interval lies on one side of a bound.
+  if (range.low !== undefined && value.value < range.low && value.comparator !== '>') return 'Low';
+  if (range.high !== undefined && value.value > range.high && value.comparator !== '<') return 'High';
+  return 'Normal';
+}
+
+function statusesAgree(model: LabStatus, computed: LabStatus): boolean {
+  if (model === computed) return true;
+  return model === 'Abnormal' && computed !== 'Normal';
+}
+
+/** Maps a model-reported lab value to its canonical analyte, converts it to both unit systems and re-derives its status. */
+export function checkLabValue(lab: LabValue, patient: { age?: number; sex?: Sex } = {}): LabCheck {
+  const analyte = findAnalyte(lab.parameter);
+  const parsed = parseLabNumber(lab.value);
+  if (!analyte || !parsed) {
+    return { lab, analyte, parsed, discrepancy: false };
+  }
+
+  const reportedSystem = unitSystemOf(analyte, lab.unit);
+  if (!reportedSystem) {
+    return { lab, analyte, parsed, discrepancy: false };
+  }
+
+  const conventionalValue = reportedSystem === 'conventional' ? parsed.value : toConventional(analyte, parsed.value);
+  const conventional = { value: conventionalValue, unit: analyte.conventionalUnit };
+  const si = { value: toSi(analyte, conventionalValue), unit: analyte.siUnit };
+
+  const range = selectReferenceRange(analyte, patient.age, patient.sex);
+  const computedStatus = range ? classify({ ...parsed, value: conventionalValue }, range) : undefined;
+
+  return {
+    lab,
+    analyte,
+    parsed,
+    reportedSystem,
+    conventional,
+    si,
+    range,
+    computedStatus,
+    discrepancy: computedStatus !== undefined && !statusesAgree(lab.status, computedStatus),
+  };
+}
+
+export function formatLabNumber(value: number): string {
+  if (value === 0) return '0';
+  const magnitude = Math.abs(value);
+  const digits = magnitude >= 100 ? 0 : magnitude >= 10 ? 1 : magnitude >= 1 ? 2 : 3;
+  return String(Number(value.toFixed(digits)));
+}
+
+export function formatReferenceRange(analyte: LabAnalyte, range: ReferenceRange, system: UnitSystem): string {
+  const convert = (value: number) => formatLabNumber(system === 'si' ? toSi(analyte, value) : value);
+  const unit = system === 'si' ? analyte.siUnit : analyte.conventionalUnit;
+  const bounds =
+    range.low !== undefined && range.high !== undefined ? `${convert(range.low)}–${convert(range.high)}`
+    : range.low !== undefined ? `≥ ${convert(range.low)}`
+    : `≤ ${convert(range.high!)}`;
+  return `${bounds} ${unit}`.trim();
+}
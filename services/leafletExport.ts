@@ -0,0 +1,68 @@
+import { DOSE_TIMES, type PatientLeaflet } from '../types';
+import { escapeHtml } from './reportExport';
+
+const rightToLeftLanguages = /^(arabic|hebrew|persian|farsi|urdu|pashto|dari|kurdish|sorani|yiddish)\b/i;
+
+/** Whether the leaflet's language is written right to left, so the handout can be mirrored. */
+export function isRightToLeft(language: string): boolean {
+  return rightToLeftLanguages.test(language.trim());
+}
+
+// Sized to fit a typical four- to six-drug regimen on one A4 or Letter page.
+const styles = `
+  @page { margin: 12mm; }
+  body { font-family: -apple-system, 'Segoe UI', Roboto, 'Noto Sans', sans-serif; color: #1e293b; font-size: 11.5px; line-height: 1.35; margin: 16px; }
+  h1 { font-size: 20px; margin: 0 0 2px; }
+  h2 { font-size: 13px; margin: 10px 0 2px; }
+  table { width: 100%; border-collapse: collapse; margin: 8px 0; }
+  th, td { border: 1px solid #94a3b8; padding: 4px 6px; text-align: start; }
+  th { background: #e2e8f0; }
+  td.dose { text-align: center; font-weight: 600; }
+  .meta { color: #64748b; }
+  .drug { page-break-inside: avoid; border-top: 1px solid #cbd5e1; padding-top: 4px; margin-top: 6px; }
+  .drug p { margin: 2px 0; }
+  ul { margin: 2px 0; padding-inline-start: 18px; }
+  .urgent { color: #b91c1c; }
+  @media print { body { margin: 0; } }
+`;
+
+const list = (items: string[]) => items.length > 0 ? `<ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>` : '';
+
+/** Renders the leaflet as a self-contained, printable HTML handout: a dose schedule table, then one section per drug. */
+export function buildLeafletHtml(leaflet: PatientLeaflet, caseLabel?: string): string {
+  const { headings } = leaflet;
+  const scheduleRows = leaflet.drugs.map(drug => `
+    <tr>
+      <td><strong>${escapeHtml(drug.drugName)}</strong>${drug.scheduleNote ? `<br /><span class="meta">${escapeHtml(drug.scheduleNote)}</span>` : ''}</td>
+      ${DOSE_TIMES.map(time => `<td class="dose">${escapeHtml(drug.schedule[time])}</td>`).join('')}
+    </tr>`).join('');
+
+  const drugSections = leaflet.drugs.map(drug => `
+    <div class="drug">
+      <h2>${escapeHtml(drug.drugName)}</h2>
+      <p><strong>${escapeHtml(headings.purpose)}:</strong> ${escapeHtml(drug.purpose)}</p>
+      <p><strong>${escapeHtml(headings.howToTake)}:</strong> ${escapeHtml(drug.howToTake)}</p>
+      ${drug.sideEffects.length > 0 ? `<p><strong>${escapeHtml(headings.sideEffects)}:</strong></p>${list(drug.sideEffects)}` : ''}
+      ${drug.seekHelpIf.length > 0 ? `<p class="urgent"><strong>${escapeHtml(headings.seekHelpIf)}:</strong></p>${list(drug.seekHelpIf)}` : ''}
+      ${drug.foodAndAlcohol.length > 0 ? `<p><strong>${escapeHtml(headings.foodAndAlcohol)}:</strong></p>${list(drug.foodAndAlcohol)}` : ''}
+    </div>`).join('');
+
+  return `<!DOCTYPE html>
+<html dir="${isRightToLeft(leaflet.language) ? 'rtl' : 'ltr'}">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(leaflet.title)}</title>
+<style>${styles}</style>
+</head>
+<body>
+  <h1>${escapeHtml(leaflet.title)}</h1>
+  <p class="meta">${caseLabel ? `${escapeHtml(caseLabel)} · ` : ''}${escapeHtml(new Date().toLocaleDateString())}</p>
+  <table>
+    <thead><tr><th>${escapeHtml(headings.medicine)}</th>${DOSE_TIMES.map(time => `<th>${escapeHtml(headings[time])}</th>`).join('')}</tr></thead>
+    <tbody>${scheduleRows}</tbody>
+  </table>
+  ${drugSections}
+  ${leaflet.generalAdvice.length > 0 ? `<h2>${escapeHtml(headings.generalAdvice)}</h2>${list(leaflet.generalAdvice)}` : ''}
+</body>
+</html>`;
+}
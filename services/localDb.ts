@@ -0,0 +1,54 @@
+const DB_NAME = 'ai-clinical-pharmacist';
+const DB_VERSION = 3;
+
+export const CASES_STORE = 'cases';
+export const AUDIT_STORE = 'interventionAudit';
+/** Key-value store for settings such as the institutional policy. */
+export const SETTINGS_STORE = 'settings';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = event => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        const store = db.createObjectStore(CASES_STORE, { keyPath: 'id' });
+        store.createIndex('label', 'label');
+        store.createIndex('createdAt', 'createdAt');
+      }
+      if (event.oldVersion < 2) {
+        const audit = db.createObjectStore(AUDIT_STORE, { keyPath: 'id' });
+        audit.createIndex('caseId', 'caseId');
+        audit.createIndex('recordedAt', 'recordedAt');
+      }
+      if (event.oldVersion < 3) {
+        db.createObjectStore(SETTINGS_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+/**
+ * Runs one request against a store of the local database. A write resolves only once its transaction has committed:
+ * the request can succeed and the transaction still abort (e.g. over quota), which would otherwise lose an audit entry silently.
+ */
+export async function withStore<T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    if (mode === 'readonly') request.onsuccess = () => resolve(request.result);
+    else transaction.oncomplete = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('The local database transaction was aborted.'));
+  });
+}
@@ -0,0 +1,204 @@
+import type { DrugInfo, LabValue, PatientContext, Sex } from '../types';
+import { checkLabValue, parseLabNumber } from './labValues';
+import { dailyDoseMg, parseSig } from './sigParser';
+import { codedIngredients } from './terminology';
+import { organDosingTable, type ChildPughClass } from './knowledge/organDosingTable';
+
+export type ClinicalGrade = 'none' | 'mild' | 'severe';
+export type InputSource = 'lab' | 'context' | 'manual';
+
+export interface SourcedValue<T> {
+  value: T;
+  source: InputSource;
+  /** The original lab text, e.g. "159 µmol/L", when the value was extracted from a result. */
+  raw?: string;
+}
+
+export interface OrganFunctionInputs {
+  age?: SourcedValue<number>;
+  weightKg?: SourcedValue<number>;
+  sex?: SourcedValue<Sex>;
+  creatinineMgDl?: SourcedValue<number>;
+  bilirubinMgDl?: SourcedValue<number>;
+  albuminGDl?: SourcedValue<number>;
+  inr?: SourcedValue<number>;
+  ascites?: SourcedValue<ClinicalGrade>;
+  encephalopathy?: SourcedValue<ClinicalGrade>;
+}
+
+export interface ChildPughResult {
+  score: number;
+  class: ChildPughClass;
+  points: Record<'bilirubin' | 'albumin' | 'inr' | 'ascites' | 'encephalopathy', number>;
+}
+
+export interface OrganFunctionAssessment {
+  inputs: OrganFunctionInputs;
+  /** Cockcroft-Gault creatinine clearance, mL/min, using actual body weight. */
+  crcl?: number;
+  /** CKD-EPI 2021 (race-free) eGFR, mL/min/1.73m². */
+  egfr?: number;
+  childPugh?: ChildPughResult;
+  /** Human-readable names of inputs still needed for each calculation. */
+  missing: { renal: string[]; hepatic: string[] };
+}
+
+export interface DoseAdjustmentFlag {
+  drugName: string;
+  prescribedDose: string;
+  dailyDoseMg?: number;
+  maxDailyMg: number;
+  basis: string;
+  note: string;
+  status: 'avoid' | 'exceeds' | 'unparsed';
+}
+
+function findLab(labs: LabValue[], include: RegExp): LabValue | undefined {
+  return labs.find(lab => include.test(lab.parameter));
+}
+
+function labNumber(lab: LabValue | undefined, convert: (value: number, unit: string) => number): SourcedValue<number> | undefined {
+  if (!lab) return undefined;
+  const parsed = parseLabNumber(lab.value);
+  if (!parsed) return undefined;
+  return { value: convert(parsed.value, lab.unit.toLowerCase()), source: 'lab', raw: `${lab.value} ${lab.unit}`.trim() };
+}
+
+/** The first result for the given analyte code, in its conventional unit; results with unrecognised units are skipped. */
+function analyteValue(labs: LabValue[], code: string): SourcedValue<number> | undefined {
+  for (const lab of labs) {
+    const check = checkLabValue(lab);
+    if (check.analyte?.code === code && check.conventional) {
+      return { value: check.conventional.value, source: 'lab', raw: `${lab.value} ${lab.unit}`.trim() };
+    }
+  }
+  return undefined;
+}
+
+/** Pulls the inputs needed for renal and hepatic estimates out of the interpreted lab results. */
+export function extractOrganFunctionInputs(labs: LabValue[]): OrganFunctionInputs {
+  const sexLab = findLab(labs, /\b(sex|gender)\b/i);
+  const sexText = sexLab?.value.trim().toLowerCase();
+  const sex: Sex | undefined = sexText?.startsWith('f') ? 'female' : sexText?.startsWith('m') ? 'male' : undefined;
+
+  return {
+    age: labNumber(findLab(labs, /^\s*age\b/i), value => value),
+    weightKg: labNumber(findLab(labs, /\b(body )?weight\b/i), (value, unit) => (/lb/.test(unit) ? value * 0.4536 : value)),
+    sex: sex && sexLab ? { value: sex, source: 'lab', raw: sexLab.value } : undefined,
+    creatinineMgDl: analyteValue(labs, '2160-0'),
+    bilirubinMgDl: analyteValue(labs, '1975-2'),
+    albuminGDl: analyteValue(labs, '1751-7'),
+    inr: analyteValue(labs, '6301-6'),
+  };
+}
+
+/** eGFR for rule checks: a reported eGFR result, else CKD-EPI 2021 from creatinine with age and sex from the context or the labs. */
+export function estimateEgfr(labs: LabValue[], patientContext?: PatientContext): number | undefined {
+  const reported = analyteValue(labs, '98979-8');
+  if (reported) return reported.value;
+  const fromLabs = extractOrganFunctionInputs(labs);
+  const age = patientContext?.age ?? fromLabs.age?.value;
+  const sex = patientContext?.sex ?? fromLabs.sex?.value;
+  const creatinine = fromLabs.creatinineMgDl?.value;
+  return age !== undefined && sex && creatinine !== undefined ? ckdEpi2021(age, creatinine, sex) : undefined;
+}
+
+export function cockcroftGault(age: number, weightKg: number, creatinineMgDl: number, sex: Sex): number {
+  const crcl = ((140 - age) * weightKg) / (72 * creatinineMgDl);
+  return sex === 'female' ? crcl * 0.85 : crcl;
+}
+
+export function ckdEpi2021(age: number, creatinineMgDl: number, sex: Sex): number {
+  const kappa = sex === 'female' ? 0.7 : 0.9;
+  const alpha = sex === 'female' ? -0.241 : -0.302;
+  const ratio = creatinineMgDl / kappa;
+  const egfr = 142 * Math.pow(Math.min(ratio, 1), alpha) * Math.pow(Math.max(ratio, 1), -1.2) * Math.pow(0.9938, age);
+  return sex === 'female' ? egfr * 1.012 : egfr;
+}
+
+const gradePoints: Record<ClinicalGrade, number> = { none: 1, mild: 2, severe: 3 };
+
+export function childPugh(bilirubinMgDl: number, albuminGDl: number, inr: number, ascites: ClinicalGrade, encephalopathy: ClinicalGrade): ChildPughResult {
+  const points = {
+    bilirubin: bilirubinMgDl < 2 ? 1 : bilirubinMgDl <= 3 ? 2 : 3,
+    albumin: albuminGDl > 3.5 ? 1 : albuminGDl >= 2.8 ? 2 : 3,
+    inr: inr < 1.7 ? 1 : inr <= 2.3 ? 2 : 3,
+    ascites: gradePoints[ascites],
+    encephalopathy: gradePoints[encephalopathy],
+  };
+  const score = Object.values(points).reduce((sum, value) => sum + value, 0);
+  return { score, class: score <= 6 ? 'A' : score <= 9 ? 'B' : 'C', points };
+}
+
+export function assessOrganFunction(inputs: OrganFunctionInputs): OrganFunctionAssessment {
+  const { age, weightKg, sex, creatinineMgDl, bilirubinMgDl, albuminGDl, inr, ascites, encephalopathy } = inputs;
+  const missing = { renal: [] as string[], hepatic: [] as string[] };
+  const need = (list: string[], label: string, present: unknown) => { if (present === undefined) list.push(label); };
+
+  need(missing.renal, 'serum creatinine', creatinineMgDl);
+  need(missing.renal, 'age', age);
+  need(missing.renal, 'sex', sex);
+  need(missing.renal, 'weight', weightKg);
+
+  const egfr = creatinineMgDl && age && sex ? ckdEpi2021(age.value, creatinineMgDl.value, sex.value) : undefined;
+  const crcl = creatinineMgDl && age && sex && weightKg
+    ? cockcroftGault(age.value, weightKg.value, creatinineMgDl.value, sex.value)
+    : undefined;
+
+  const hepaticInputs = { bilirubin: bilirubinMgDl, albumin: albuminGDl, INR: inr, ascites, encephalopathy };
+  Object.entries(hepaticInputs).forEach(([label, value]) => need(missing.hepatic, label, value));
+  const result = bilirubinMgDl && albuminGDl && inr && ascites && encephalopathy
+    ? childPugh(bilirubinMgDl.value, albuminGDl.value, inr.value, ascites.value, encephalopathy.value)
+    : undefined;
+
+  return { inputs, crcl, egfr, childPugh: result, missing };
+}
+
+/** Rough total daily dose in mg from a free-text dose such as "500 mg PO BID"; undefined when it cannot be read. */
+export function estimateDailyDoseMg(prescribedDose: string): number | undefined {
+  const order = parseSig(prescribedDose);
+  return order && dailyDoseMg(order);
+}
+
+/** Compares each drug's prescribed dose with the renal/hepatic ceiling from the local dosing table. */
+export function checkOrganDosing(drugs: DrugInfo[], assessment: OrganFunctionAssessment): DoseAdjustmentFlag[] {
+  const flags: DoseAdjustmentFlag[] = [];
+
+  for (const drug of drugs) {
+    for (const ingredient of codedIngredients(drug)) {
+      const entry = organDosingTable[ingredient];
+      if (!entry) continue;
+
+      const renalValue = entry.renalBasis === 'CrCl' ? assessment.crcl : assessment.egfr;
+      const renalBand = renalValue !== undefined ? entry.renal?.find(band => renalValue < band.below) : undefined;
+      const hepaticBand = assessment.childPugh ? entry.hepatic?.find(band => band.childPugh === assessment.childPugh!.class) : undefined;
+
+      const candidates = [
+        renalBand && { band: renalBand, basis: `${entry.renalBasis} ${Math.round(renalValue!)} (< ${renalBand.below})` },
+        hepaticBand && { band: hepaticBand, basis: `Child-Pugh ${hepaticBand.childPugh}` },
+      ].filter(Boolean) as { band: { maxDailyMg: number; note: string }; basis: string }[];
+      if (candidates.length === 0) continue;
+
+      const strictest = candidates.reduce((a, b) => (b.band.maxDailyMg < a.band.maxDailyMg ? b : a));
+      const dailyDose = (drug.medicationOrder && dailyDoseMg(drug.medicationOrder)) ?? estimateDailyDoseMg(drug.prescribedDose);
+      const base = {
+        drugName: drug.drugName,
+        prescribedDose: drug.prescribedDose,
+        dailyDoseMg: dailyDose,
+        maxDailyMg: strictest.band.maxDailyMg,
+        basis: strictest.basis,
+        note: strictest.band.note,
+      };
+
+      if (strictest.band.maxDailyMg === 0) {
+        flags.push({ ...base, status: 'avoid' });
+      } else if (dailyDose === undefined) {
+        flags.push({ ...base, status: 'unparsed' });
+      } else if (dailyDose > strictest.band.maxDailyMg) {
+        flags.push({ ...base, status: 'exceeds' });
+      }
+    }
+  }
+
+  return flags;
+}
@@ -0,0 +1,106 @@
+import type { DrugInfo, PatientContext } from '../types';
+import { paediatricDoseTable, type PaediatricDoseBand } from './knowledge/paediatricDoseTable';
+import { convertDose, dailyDoseMg, normalizeSig } from './sigParser';
+import { codedIngredients } from './terminology';
+
+export type PaediatricDoseStatus = 'within' | 'below' | 'above' | 'tenfold-over' | 'tenfold-under' | 'not-checked';
+
+/** One drug's weight- and surface-area-based dose, compared with the bundled range for the child's age. */
+export interface PaediatricDoseCalculation {
+  drugName: string;
+  ingredient?: string;
+  /** Total daily dose in mg, from the parsed sig or, for orders written per kg or per m², multiplied out. */
+  dailyDoseMg?: number;
+  mgPerKgDay?: number;
+  mgPerM2Day?: number;
+  /** The order as written per kg or per m², e.g. "15 mg/kg", when the prescriber dosed that way. */
+  writtenAs?: string;
+  band?: PaediatricDoseBand;
+  status: PaediatricDoseStatus;
+  message: string;
+}
+
+/** Body surface area in m² by the Mosteller formula. */
+export function mostellerBsa(weightKg: number, heightCm: number): number {
+  return Math.sqrt((heightCm * weightKg) / 3600);
+}
+
+const weightBasedPattern = /(\d+(?:\.\d+)?)\s*(mg|mcg|g)\s*\/\s*(kg|m2|m²)(?![a-z])/;
+
+/** A dose written per kilogram or per square metre ("15 mg/kg QDS"), which the sig parser leaves without a strength. */
+function readWeightBasedDose(drug: DrugInfo): { mg: number; per: 'kg' | 'm2'; text: string } | undefined {
+  for (const text of [...(drug.evidence ?? []).map(span => span.quote), drug.prescribedDose]) {
+    const match = text && normalizeSig(text).match(weightBasedPattern);
+    const mg = match && convertDose(Number(match[1]), match[2], 'mg');
+    if (match && mg !== undefined) return { mg, per: match[3] === 'kg' ? 'kg' : 'm2', text: match[0] };
+  }
+  return undefined;
+}
+
+function findBand(bands: PaediatricDoseBand[], age?: number): PaediatricDoseBand | undefined {
+  if (age === undefined) return bands.length === 1 ? bands[0] : undefined;
+  return bands.find(band => age >= band.minAgeYears && age < band.maxAgeYears);
+}
+
+const round = (value: number) => (value >= 10 ? Math.round(value) : +value.toFixed(2));
+
+export const formatRange = (band: PaediatricDoseBand) => `${band.dailyMin}–${band.dailyMax} mg/${band.basis === 'kg' ? 'kg' : 'm²'}/day`;
+
+// A dose is a tenfold error when moving the decimal point by one place puts it back within (or just outside) the range.
+const TENFOLD_TOLERANCE = 1.25;
+
+/**
+ * Works out each drug's daily dose per kg and per m² and compares it with the paediatric range for the patient's age.
+ * Needs the weight; the height is only needed for drugs dosed by body surface area. Only single-ingredient oral (or
+ * route-unstated) orders are checked, as the bundled ranges are oral ones.
+ */
+export function calculatePaediatricDoses(drugs: DrugInfo[], patient: PatientContext): PaediatricDoseCalculation[] {
+  const { weightKg, heightCm, age } = patient;
+  const bsa = weightKg && heightCm ? mostellerBsa(weightKg, heightCm) : undefined;
+
+  return drugs.map((drug): PaediatricDoseCalculation => {
+    const ingredients = codedIngredients(drug);
+    const ingredient = ingredients.length === 1 ? ingredients[0] : undefined;
+    const order = drug.medicationOrder;
+    const weightBased = readWeightBasedDose(drug);
+    const perDose = weightBased && (weightBased.per === 'kg' ? weightKg && weightBased.mg * weightKg : bsa && weightBased.mg * bsa);
+    const daily = (order && dailyDoseMg(order)) ?? (perDose && order?.dosesPerDay ? perDose * order.dosesPerDay : undefined);
+    const calculation: PaediatricDoseCalculation = {
+      drugName: drug.drugName,
+      ingredient,
+      dailyDoseMg: daily,
+      mgPerKgDay: daily !== undefined && weightKg ? daily / weightKg : undefined,
+      mgPerM2Day: daily !== undefined && bsa ? daily / bsa : undefined,
+      writtenAs: weightBased?.text,
+      status: 'not-checked',
+      message: '',
+    };
+    const notChecked = (message: string) => ({ ...calculation, message });
+
+    if (!weightKg) return notChecked('Needs the patient\'s weight.');
+    if (daily === undefined) return notChecked('The daily dose could not be read from the order.');
+    const bands = ingredient ? paediatricDoseTable[ingredient] : undefined;
+    if (!bands) return notChecked('No bundled paediatric range for this drug.');
+    if (order?.route && order.route !== 'PO') return notChecked(`The bundled ranges are oral; ${order.route} dosing is not checked.`);
+    const band = findBand(bands, age);
+    if (!band) return notChecked(age === undefined ? 'Needs the patient\'s age to choose the dose band.' : `No bundled range at ${age} years.`);
+
+    const value = band.basis === 'kg' ? calculation.mgPerKgDay : calculation.mgPerM2Day;
+    if (value === undefined) return { ...calculation, band, message: 'Needs the patient\'s height for the body surface area.' };
+    const unit = band.basis === 'kg' ? 'mg/kg/day' : 'mg/m²/day';
+    const checked = (status: PaediatricDoseStatus, message: string) => ({ ...calculation, band, status, message });
+
+    if (value > band.dailyMax && value / 10 <= band.dailyMax * TENFOLD_TOLERANCE && value / 10 >= band.dailyMin / TENFOLD_TOLERANCE) {
+      return checked('tenfold-over', `Ten times the usual dose: ${round(value)} ${unit} is ${round(value / 10)} ${unit} with the decimal point moved, inside the usual ${formatRange(band)}. Check for a misplaced decimal point.`);
+    }
+    if (value < band.dailyMin && value * 10 >= band.dailyMin / TENFOLD_TOLERANCE && value * 10 <= band.dailyMax * TENFOLD_TOLERANCE) {
+      return checked('tenfold-under', `A tenth of the usual dose: ${round(value)} ${unit} is ${round(value * 10)} ${unit} with the decimal point moved, inside the usual ${formatRange(band)}. Check for a misplaced decimal point.`);
+    }
+    if (value > band.dailyMax) return checked('above', `${round(value)} ${unit} is above the usual ${formatRange(band)}.`);
+    if (band.maxDailyMg !== undefined && daily > band.maxDailyMg) {
+      return checked('above', `${round(daily)} mg/day is above the ceiling of ${band.maxDailyMg} mg/day, whatever the weight.`);
+    }
+    if (value < band.dailyMin) return checked('below', `${round(value)} ${unit} is below the usual ${formatRange(band)}.`);
+    return checked('within', `Within the usual ${formatRange(band)}.`);
+  });
+}
@@ -0,0 +1,146 @@
+import type { AnalysisResult } from '../types';
+import { validateAnalysisItem } from './analysisValidator';
+
+export const ANALYSIS_SECTIONS = ['potentialErrors', 'drugInformation', 'labInterpretation'] as const;
+export type AnalysisSection = typeof ANALYSIS_SECTIONS[number];
+
+export interface SectionProgress {
+  status: 'waiting' | 'streaming' | 'done';
+  /** Items received in full so far. */
+  count: number;
+}
+
+/** What can be shown of a response that is still arriving: only fully received items that pass validation are included. */
+export interface PartialAnalysis {
+  result: Pick<AnalysisResult, AnalysisSection>;
+  sections: Record<AnalysisSection, SectionProgress>;
+}
+
+interface Parsed {
+  value: unknown;
+  complete: boolean;
+  /** For an incomplete object, the member that was still being received. */
+  openKey?: string;
+}
+
+/**
+ * Parses the longest valid prefix of a JSON document. Arrays keep only their complete items;
+ * objects keep complete members plus a trailing object or array that is still open.
+ */
+function parsePrefix(text: string): Parsed {
+  let i = 0;
+  const skipWhitespace = () => { while (i < text.length && /\s/.test(text[i])) i++; };
+  const incomplete = (value: unknown = undefined): Parsed => ({ value, complete: false });
+
+  function parseString(): Parsed {
+    const start = i;
+    i++;
+    while (i < text.length) {
+      if (text[i] === '\\') i += 2;
+      else if (text[i] === '"') {
+        i++;
+        return { value: JSON.parse(text.slice(start, i)), complete: true };
+      } else i++;
+    }
+    return incomplete();
+  }
+
+  function parseLiteral(): Parsed {
+    const match = /^(-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/.exec(text.slice(i));
+    if (!match) throw new SyntaxError(`Unexpected character at ${i}`);
+    i += match[0].length;
+    // A number running into the end of the text may still be missing digits.
+    if (i >= text.length) return incomplete();
+    return { value: JSON.parse(match[0]), complete: true };
+  }
+
+  function parseArray(): Parsed {
+    const items: unknown[] = [];
+    i++;
+    for (;;) {
+      skipWhitespace();
+      if (i >= text.length) return incomplete(items);
+      if (text[i] === ']') {
+        i++;
+        return { value: items, complete: true };
+      }
+      const item = parseValue();
+      if (!item.complete) return incomplete(items);
+      items.push(item.value);
+      skipWhitespace();
+      if (text[i] === ',') i++;
+    }
+  }
+
+  function parseObject(): Parsed {
+    const members: Record<string, unknown> = {};
+    i++;
+    for (;;) {
+      skipWhitespace();
+      if (i >= text.length) return incomplete(members);
+      if (text[i] === '}') {
+        i++;
+        return { value: members, complete: true };
+      }
+      if (text[i] !== '"') throw new SyntaxError(`Expected a key at ${i}`);
+      const key = parseString();
+      if (!key.complete) return incomplete(members);
+      skipWhitespace();
+      if (text[i] !== ':') return incomplete(members);
+      i++;
+      const member = parseValue();
+      if (!member.complete) {
+        if (member.value !== null && typeof member.value === 'object') members[key.value as string] = member.value;
+        return { value: members, complete: false, openKey: key.value as string };
+      }
+      members[key.value as string] = member.value;
+      skipWhitespace();
+      if (text[i] === ',') i++;
+    }
+  }
+
+  function parseValue(): Parsed {
+    skipWhitespace();
+    if (i >= text.length) return incomplete();
+    switch (text[i]) {
+      case '{': return parseObject();
+      case '[': return parseArray();
+      case '"': return parseString();
+      default: return parseLiteral();
+    }
+  }
+
+  return parseValue();
+}
+
+/** Reads whatever sections can already be shown from a streamed model response. */
+export function readPartialAnalysis(text: string): PartialAnalysis {
+  const result: PartialAnalysis['result'] = { potentialErrors: [], drugInformation: [], labInterpretation: [] };
+  const sections = Object.fromEntries(
+    ANALYSIS_SECTIONS.map(section => [section, { status: 'waiting', count: 0 }])
+  ) as Record<AnalysisSection, SectionProgress>;
+
+  // Models sometimes wrap the JSON in prose or a code fence; start at the first brace.
+  const start = text.indexOf('{');
+  if (start === -1) return { result, sections };
+
+  let root: unknown;
+  let openKey: string | undefined;
+  try {
+    ({ value: root, openKey } = parsePrefix(text.slice(start)));
+  } catch {
+    // Malformed so far; the final validation pass will report it.
+    return { result, sections };
+  }
+  if (!root || typeof root !== 'object') return { result, sections };
+
+  const members = root as Record<string, unknown>;
+  for (const section of ANALYSIS_SECTIONS) {
+    const items = members[section];
+    if (!Array.isArray(items)) continue;
+    // Shown items are rendered straight away, so one missing a required field must not reach the tables.
+    (result[section] as unknown[]) = items.flatMap(item => validateAnalysisItem(section, item) ?? []);
+    sections[section] = { status: openKey === section ? 'streaming' : 'done', count: items.length };
+  }
+  return { result, sections };
+}
@@ -0,0 +1,112 @@
+import type { PatientContext } from '../types';
+import { OLDER_ADULT_AGE } from './knowledge/specialPopulationCriteria';
+import { mostellerBsa } from './paediatricDosing';
+
+export const emptyPatientContext: PatientContext = {
+  allergies: [],
+  pregnancy: 'unknown',
+  lactating: false,
+  diagnoses: [],
+  homeMedications: [],
+};
+
+const nonEmpty = (items: string[]) => items.map(item => item.trim()).filter(Boolean);
+
+/** Drops blank list entries left over from editing so the prompt and the echo only show real data. */
+export function normalizePatientContext(context: PatientContext): PatientContext {
+  return {
+    ...context,
+    allergies: context.allergies.filter(allergy => allergy.substance.trim()),
+    diagnoses: nonEmpty(context.diagnoses),
+    homeMedications: nonEmpty(context.homeMedications),
+  };
+}
+
+/** Age in whole years on `today`; undefined for unparseable or future dates. */
+export function ageFromBirthDate(birthDate: string, today = new Date()): number | undefined {
+  const born = new Date(birthDate);
+  if (isNaN(born.getTime())) return undefined;
+  let age = today.getFullYear() - born.getFullYear();
+  const beforeBirthday = today.getMonth() < born.getMonth() || (today.getMonth() === born.getMonth() && today.getDate() < born.getDate());
+  if (beforeBirthday) age--;
+  return age >= 0 ? age : undefined;
+}
+
+export function isPatientContextEmpty(context: PatientContext): boolean {
+  const normalized = normalizePatientContext(context);
+  return (
+    normalized.age === undefined &&
+    normalized.sex === undefined &&
+    normalized.weightKg === undefined &&
+    normalized.heightCm === undefined &&
+    !normalized.paediatric &&
+    normalized.allergies.length === 0 &&
+    normalized.pregnancy === 'unknown' &&
+    !normalized.lactating &&
+    normalized.diagnoses.length === 0 &&
+    normalized.homeMedications.length === 0
+  );
+}
+
+/** Fills the gaps in `primary` from `fallback`; list fields are combined without duplicates. */
+export function mergePatientContext(primary: PatientContext, fallback: PatientContext): PatientContext {
+  const a = normalizePatientContext(primary);
+  const b = normalizePatientContext(fallback);
+  const union = (left: string[], right: string[]) =>
+    [...left, ...right.filter(item => !left.some(other => other.toLowerCase() === item.toLowerCase()))];
+  return {
+    age: a.age ?? b.age,
+    sex: a.sex ?? b.sex,
+    weightKg: a.weightKg ?? b.weightKg,
+    heightCm: a.heightCm ?? b.heightCm,
+    paediatric: a.paediatric || b.paediatric,
+    allergies: [
+      ...a.allergies,
+      ...b.allergies.filter(allergy => !a.allergies.some(other => other.substance.toLowerCase() === allergy.substance.toLowerCase())),
+    ],
+    pregnancy: a.pregnancy !== 'unknown' ? a.pregnancy : b.pregnancy,
+    gestationWeeks: a.pregnancy !== 'unknown' ? a.gestationWeeks : b.gestationWeeks,
+    lactating: a.lactating || b.lactating,
+    diagnoses: union(a.diagnoses, b.diagnoses),
+    homeMedications: union(a.homeMedications, b.homeMedications),
+  };
+}
+
+/** One line per recorded field; shared by the prompt block and the results summary. */
+export function describePatientContext(context: PatientContext): [string, string][] {
+  const { age, sex, weightKg, heightCm, paediatric, allergies, pregnancy, gestationWeeks, lactating, diagnoses, homeMedications } =
+    normalizePatientContext(context);
+  const lines: [string, string][] = [];
+
+  if (age !== undefined) lines.push(['Age', `${age} years`]);
+  if (sex) lines.push(['Sex', sex]);
+  if (weightKg !== undefined) lines.push(['Weight', `${weightKg} kg`]);
+  if (heightCm !== undefined) lines.push(['Height', `${heightCm} cm`]);
+  if (paediatric) {
+    const bsa = weightKg && heightCm ? `; body surface area ${mostellerBsa(weightKg, heightCm).toFixed(2)} m² (Mosteller)` : '';
+    lines.push(['Dosing', `paediatric, by weight${bsa}`]);
+  }
+  if (allergies.length > 0) {
+    lines.push(['Allergies', allergies.map(allergy => `${allergy.substance.trim()} (${allergy.reaction})`).join('; ')]);
+  }
+  if (pregnancy !== 'unknown') {
+    lines.push(['Pregnancy', pregnancy === 'pregnant' ? `pregnant${gestationWeeks ? ` (${gestationWeeks} weeks)` : ''}` : 'not pregnant']);
+  }
+  if (lactating) lines.push(['Lactation', 'breastfeeding']);
+  if (diagnoses.length > 0) lines.push(['Diagnoses', diagnoses.join('; ')]);
+  if (homeMedications.length > 0) lines.push(['Current home medications', homeMedications.join('; ')]);
+
+  return lines;
+}
+
+export function formatPatientContextForPrompt(context: PatientContext): string {
+  const lines = describePatientContext(context);
+  if (lines.length === 0) return '';
+  return `
+  **Patient Context** (entered by the reviewing clinician; treat it as authoritative and use it for allergy, pregnancy/lactation, renal dosing and interaction checks, including against the home medications):
+${lines.map(([label, value]) => `  - ${label}: ${value}`).join('\n')}
+${context.paediatric ? `  This is a paediatric patient: check every dose in mg/kg/day (mg/m²/day where dosed by surface area) against the paediatric range for the age rather than adult doses, give paediatric doses in "standardDose", and report any dose about ten times too high or too low as a suspected tenfold (decimal point) error.
+` : ''}${context.age !== undefined && context.age >= OLDER_ADULT_AGE ? `  This is an older adult: report potentially inappropriate medications and clear prescribing omissions by the Beers 2023 and STOPP/START v2 criteria, naming the criterion.
+` : ''}${context.pregnancy === 'pregnant' || context.lactating ? `  Check every drug for safety ${context.pregnancy === 'pregnant' ? `in pregnancy${context.gestationWeeks ? ` at ${context.gestationWeeks} weeks` : ''}` : ''}${context.pregnancy === 'pregnant' && context.lactating ? ' and ' : ''}${context.lactating ? 'while breastfeeding' : ''}, and report any that should be avoided as a potential error rather than only in "precautions".
+` : ''}`;
+}
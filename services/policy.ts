@@ -0,0 +1,168 @@
+import type { InstitutionalPolicy, RenalProtocol, RestrictedDrug, TherapeuticSubstitution } from '../types';
+import { parseCsv } from './csv';
+import { SETTINGS_STORE, withStore } from './localDb';
+import { resolveIngredients } from './terminology';
+
+/** The `errorType` of every finding raised by the institutional policy, so the Error Analysis tab can set them apart. */
+export const POLICY_ERROR_TYPE = 'Institutional Policy';
+
+const POLICY_KEY = 'institutionalPolicy';
+
+const policyRules = ['formulary', 'restricted', 'substitute', 'renal'] as const;
+
+/** Stores drugs as the ingredient names the rules use, so "Augmentin" and "co-amoxiclav" are the same entry. */
+function normalizeDrug(name: string): string {
+  const ingredients = resolveIngredients(name);
+  return ingredients.length === 1 ? ingredients[0] : name.trim().toLowerCase();
+}
+
+function formularyIngredients(name: string): string[] {
+  const ingredients = resolveIngredients(name);
+  return ingredients.length > 0 ? ingredients : [name.trim().toLowerCase()];
+}
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '');
+const optionalText = (value: unknown) => text(value) || undefined;
+
+function requireText(value: unknown, what: string): string {
+  const result = text(value);
+  if (!result) throw new Error(`${what} is missing.`);
+  return result;
+}
+
+function requireThreshold(value: unknown, what: string): number {
+  const number = typeof value === 'number' ? value : parseFloat(text(value));
+  if (!Number.isFinite(number) || number <= 0) throw new Error(`${what} needs an eGFR threshold above 0.`);
+  return number;
+}
+
+function entries(value: unknown, key: string): Record<string, unknown>[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some(item => !item || typeof item !== 'object')) throw new Error(`"${key}" must be a list of objects.`);
+  return value as Record<string, unknown>[];
+}
+
+function parseJsonPolicy(json: unknown, fileName: string): InstitutionalPolicy {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) throw new Error(`${fileName} must contain a JSON object.`);
+  const source = json as Record<string, unknown>;
+  if (source.formulary !== undefined && (!Array.isArray(source.formulary) || source.formulary.some(item => typeof item !== 'string'))) {
+    throw new Error('"formulary" must be a list of drug names.');
+  }
+  return {
+    name: text(source.name) || fileName.replace(/\.[^.]+$/, ''),
+    version: optionalText(source.version),
+    formulary: ((source.formulary as string[] | undefined) ?? []).filter(name => name.trim()).flatMap(formularyIngredients),
+    restricted: entries(source.restricted, 'restricted').map((item, i): RestrictedDrug => ({
+      drug: normalizeDrug(requireText(item.drug, `restricted[${i}].drug`)),
+      approval: requireText(item.approval, `restricted[${i}].approval`),
+      note: optionalText(item.note),
+    })),
+    substitutions: entries(source.substitutions, 'substitutions').map((item, i): TherapeuticSubstitution => ({
+      drug: normalizeDrug(requireText(item.drug, `substitutions[${i}].drug`)),
+      substitute: requireText(item.substitute, `substitutions[${i}].substitute`),
+      note: optionalText(item.note),
+    })),
+    renalProtocols: entries(source.renalProtocols, 'renalProtocols').map((item, i): RenalProtocol => ({
+      drug: normalizeDrug(requireText(item.drug, `renalProtocols[${i}].drug`)),
+      belowEgfr: requireThreshold(item.belowEgfr, `renalProtocols[${i}]`),
+      note: requireText(item.note, `renalProtocols[${i}].note`),
+    })),
+    importedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * One rule per row under a `rule,drug,value,note` header. `value` is the approval for "restricted", the preferred
+ * drug for "substitute" and the eGFR threshold for "renal"; "formulary" rows need only the drug.
+ */
+function parseCsvPolicy(csv: string, fileName: string): InstitutionalPolicy {
+  const [header, ...rows] = parseCsv(csv);
+  const columns = (header ?? []).map(column => column.trim().toLowerCase());
+  if (!['rule', 'drug'].every(column => columns.includes(column))) {
+    throw new Error(`${fileName} needs a header row with "rule", "drug", "value" and "note" columns.`);
+  }
+  const policy: InstitutionalPolicy = {
+    name: fileName.replace(/\.[^.]+$/, ''),
+    formulary: [],
+    restricted: [],
+    substitutions: [],
+    renalProtocols: [],
+    importedAt: new Date().toISOString(),
+  };
+
+  rows.forEach((cells, index) => {
+    const cell = (column: string) => (cells[columns.indexOf(column)] ?? '').trim();
+    const where = `${fileName} row ${index + 2}`;
+    const rule = cell('rule').toLowerCase();
+    const drug = requireText(cell('drug'), `${where}: the drug`);
+    const note = cell('note') || undefined;
+    switch (rule as typeof policyRules[number]) {
+      case 'formulary':
+        policy.formulary.push(...formularyIngredients(drug));
+        break;
+      case 'restricted':
+        policy.restricted.push({ drug: normalizeDrug(drug), approval: requireText(cell('value'), `${where}: the approval`), note });
+        break;
+      case 'substitute':
+        policy.substitutions.push({ drug: normalizeDrug(drug), substitute: requireText(cell('value'), `${where}: the substitute`), note });
+        break;
+      case 'renal':
+        policy.renalProtocols.push({ drug: normalizeDrug(drug), belowEgfr: requireThreshold(cell('value'), where), note: requireText(note, `${where}: the note`) });
+        break;
+      default:
+        throw new Error(`${where}: unknown rule "${cell('rule')}". Expected one of: ${policyRules.join(', ')}.`);
+    }
+  });
+  return policy;
+}
+
+/** Reads a policy file exported as JSON or CSV; throws with a reviewer-facing message naming the offending entry. */
+export function parsePolicyFile(content: string, fileName: string): InstitutionalPolicy {
+  let policy: InstitutionalPolicy;
+  if (content.trim().startsWith('{')) {
+    let json: unknown;
+    try {
+      json = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`${fileName} could not be read as JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    policy = parseJsonPolicy(json, fileName);
+  } else {
+    policy = parseCsvPolicy(content, fileName);
+  }
+  policy.formulary = [...new Set(policy.formulary)].sort();
+  if (policy.formulary.length + policy.restricted.length + policy.substitutions.length + policy.renalProtocols.length === 0) {
+    throw new Error(`${fileName} contains no formulary entries or rules.`);
+  }
+  return policy;
+}
+
+export function describePolicy(policy: Pick<InstitutionalPolicy, 'name' | 'version'>): string {
+  return `${policy.name}${policy.version ? ` (${policy.version})` : ''}`;
+}
+
+/** The policy as prompt instructions, so the model applies the same local rules the engine checks. */
+export function formatPolicyForPrompt(policy: InstitutionalPolicy): string {
+  const lines = [
+    policy.formulary.length > 0 && `  - Formulary (anything else is non-formulary and needs a non-formulary request): ${policy.formulary.join(', ')}`,
+    ...policy.restricted.map(entry => `  - Restricted: ${entry.drug} needs ${entry.approval} approval${entry.note ? `. ${entry.note}` : ''}`),
+    ...policy.substitutions.map(entry => `  - Substitution: use ${entry.substitute} instead of ${entry.drug}${entry.note ? `. ${entry.note}` : ''}`),
+    ...policy.renalProtocols.map(entry => `  - Local renal protocol for ${entry.drug} below eGFR ${entry.belowEgfr}: ${entry.note}`),
+  ].filter(Boolean);
+  return `
+  **Institutional Policy** (${describePolicy(policy)}; the hospital's own formulary and prescribing rules, which apply on top of the guidelines). Report each breach as a separate error with errorType "${POLICY_ERROR_TYPE}":
+${lines.join('\n')}
+`;
+}
+
+export async function loadPolicy(): Promise<InstitutionalPolicy | null> {
+  return (await withStore<InstitutionalPolicy | undefined>(SETTINGS_STORE, 'readonly', store => store.get(POLICY_KEY))) ?? null;
+}
+
+export async function savePolicy(policy: InstitutionalPolicy): Promise<void> {
+  await withStore(SETTINGS_STORE, 'readwrite', store => store.put(policy, POLICY_KEY));
+}
+
+export async function clearPolicy(): Promise<void> {
+  await withStore(SETTINGS_STORE, 'readwrite', store => store.delete(POLICY_KEY));
+}
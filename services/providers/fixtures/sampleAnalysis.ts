@@ -0,0 +1,95 @@
+import type { AnalysisResult } from '../../../types';
+
+// Canned result for offline development and demos. Keep it clinically plausible:
+// it is what reviewers see when the app runs with ANALYSIS_PROVIDER=mock.
+export const sampleAnalysis: AnalysisResult = {
+  potentialErrors: [
+    {
+      errorType: 'Drug-Drug Interaction',
+      riskLevel: 'High',
+      error: 'Warfarin co-prescribed with Ibuprofen.',
+      explanation: 'NSAIDs inhibit platelet function and can cause GI mucosal injury; combined with warfarin this substantially increases the risk of major bleeding. Prefer paracetamol for analgesia and monitor INR closely if an NSAID is unavoidable.',
+    },
+    {
+      errorType: 'Contraindication',
+      riskLevel: 'High',
+      error: 'Metformin 1000 mg BID prescribed with eGFR 25 mL/min/1.73m².',
+      explanation: 'Per KDIGO 2022, metformin should be discontinued when eGFR falls below 30 mL/min/1.73m² because of the risk of lactic acidosis.',
+    },
+    {
+      errorType: 'Monitoring Gap',
+      riskLevel: 'Low',
+      error: 'No recent potassium result documented for a patient on Lisinopril with reduced renal function.',
+      explanation: 'ACE inhibitors can cause hyperkalaemia, particularly in CKD. Check serum potassium and creatinine within 1–2 weeks of initiation or dose change.',
+    },
+  ],
+  drugInformation: [
+    {
+      drugName: 'Warfarin (Coumadin)',
+      drugClass: 'Vitamin K antagonist anticoagulant',
+      mechanismOfAction: 'Inhibits vitamin K epoxide reductase, reducing synthesis of clotting factors II, VII, IX and X.',
+      indication: 'Stroke prevention in atrial fibrillation',
+      prescribedDose: '5 mg PO once daily',
+      standardDose: '2–10 mg PO once daily, titrated to INR 2.0–3.0',
+      adverseEffects: 'Bleeding, skin necrosis, purple toe syndrome.',
+      monitoring: 'INR, signs of bleeding, haemoglobin.',
+      precautions: 'Many drug and dietary interactions; contraindicated in pregnancy.',
+    },
+    {
+      drugName: 'Ibuprofen (Brufen)',
+      drugClass: 'Non-steroidal anti-inflammatory drug',
+      mechanismOfAction: 'Non-selective inhibition of COX-1 and COX-2, reducing prostaglandin synthesis.',
+      indication: 'Musculoskeletal pain',
+      prescribedDose: '400 mg PO TID',
+      standardDose: '200–400 mg PO every 4–6 hours, max 1200 mg/day OTC',
+      adverseEffects: 'GI bleeding, renal impairment, fluid retention, hypertension.',
+      monitoring: 'Renal function, blood pressure, signs of GI bleeding.',
+      precautions: 'Avoid in CKD, with anticoagulants, and in the third trimester of pregnancy.',
+    },
+    {
+      drugName: 'Metformin (Glucophage)',
+      drugClass: 'Biguanide',
+      mechanismOfAction: 'Decreases hepatic glucose production and improves peripheral insulin sensitivity.',
+      indication: 'Type 2 diabetes mellitus',
+      prescribedDose: '1000 mg PO BID',
+      standardDose: '500–1000 mg PO BID; max 1000 mg/day if eGFR 30–45',
+      adverseEffects: 'GI upset, vitamin B12 deficiency, lactic acidosis (rare).',
+      monitoring: 'eGFR at least annually, HbA1c, vitamin B12.',
+      precautions: 'Contraindicated if eGFR < 30; withhold around iodinated contrast.',
+    },
+    {
+      drugName: 'Lisinopril (Zestril)',
+      drugClass: 'ACE inhibitor',
+      mechanismOfAction: 'Inhibits angiotensin-converting enzyme, reducing angiotensin II and aldosterone.',
+      indication: 'Hypertension',
+      prescribedDose: '10 mg PO once daily',
+      standardDose: '10–40 mg PO once daily',
+      adverseEffects: 'Dry cough, hyperkalaemia, angioedema, acute kidney injury.',
+      monitoring: 'Serum potassium, creatinine, blood pressure.',
+      precautions: 'Contraindicated in pregnancy; use with caution in renal artery stenosis.',
+    },
+  ],
+  labInterpretation: [
+    {
+      parameter: 'Serum Creatinine',
+      value: '2.1',
+      unit: 'mg/dL',
+      status: 'High',
+      interpretation: 'Elevated creatinine indicates reduced renal clearance; renally eliminated drugs such as metformin need review.',
+    },
+    {
+      parameter: 'eGFR',
+      value: '25',
+      unit: 'mL/min/1.73m²',
+      status: 'Low',
+      interpretation: 'CKD stage 4. Metformin is contraindicated and NSAIDs should be avoided.',
+    },
+    {
+      parameter: 'INR',
+      value: '2.6',
+      unit: '',
+      status: 'Normal',
+      interpretation: 'Within the therapeutic range for atrial fibrillation, but adding an NSAID raises bleeding risk regardless of INR.',
+    },
+  ],
+};
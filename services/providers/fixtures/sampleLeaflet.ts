@@ -0,0 +1,69 @@
+import type { PatientLeaflet } from '../../../types';
+
+// Canned leaflet for the drugs in sampleAnalysis. The mock always answers in English at the standard level,
+// whatever language or reading level was requested.
+export const sampleLeaflet: PatientLeaflet = {
+  language: 'English',
+  readingLevel: 'standard',
+  title: 'Your medicines',
+  headings: {
+    medicine: 'Medicine',
+    morning: 'Morning',
+    noon: 'Noon',
+    evening: 'Evening',
+    night: 'Night',
+    purpose: 'What it is for',
+    howToTake: 'How to take it',
+    sideEffects: 'Possible side effects',
+    seekHelpIf: 'Get medical help straight away if',
+    foodAndAlcohol: 'Food, drink and other medicines',
+    generalAdvice: 'Good to know',
+  },
+  drugs: [
+    {
+      drugName: 'Warfarin (Coumadin)',
+      purpose: 'Warfarin is a blood thinner. It helps stop harmful blood clots from forming.',
+      howToTake: 'Take it at the same time each evening, with or without food. Your dose may change after each blood test (INR).',
+      schedule: { morning: '', noon: '', evening: '5 mg', night: '' },
+      sideEffects: ['Bruising more easily than usual.', 'Small cuts may bleed for longer.'],
+      seekHelpIf: ['You have black or bloody stools, or blood in your urine.', 'You vomit blood or have a severe headache.', 'You have a fall or hit your head.'],
+      foodAndAlcohol: [
+        'Keep the amount of green leafy vegetables you eat about the same each week.',
+        'Avoid cranberry juice and grapefruit juice.',
+        'Limit alcohol, and do not binge drink.',
+        'Do not take aspirin or ibuprofen for pain unless your doctor says so; paracetamol is usually safer.',
+      ],
+    },
+    {
+      drugName: 'Ibuprofen (Brufen)',
+      purpose: 'Ibuprofen eases pain and swelling.',
+      howToTake: 'Take it with or just after food to protect your stomach.',
+      schedule: { morning: '400 mg', noon: '400 mg', evening: '400 mg', night: '' },
+      sideEffects: ['Indigestion or stomach pain.', 'Feeling sick.'],
+      seekHelpIf: ['You have black stools or vomit blood.', 'You have swelling of the face or difficulty breathing.'],
+      foodAndAlcohol: ['Avoid alcohol, which makes stomach bleeding more likely.'],
+    },
+    {
+      drugName: 'Metformin (Glucophage)',
+      purpose: 'Metformin lowers your blood sugar to treat type 2 diabetes.',
+      howToTake: 'Take it with breakfast and with your evening meal. Swallow the tablets whole.',
+      schedule: { morning: '1000 mg', noon: '', evening: '1000 mg', night: '' },
+      sideEffects: ['Upset stomach, diarrhoea or a metallic taste, usually in the first few weeks.'],
+      seekHelpIf: ['You are being sick, have severe diarrhoea or cannot keep fluids down; stop metformin and call your doctor.', 'You feel very weak, breathless or cold.'],
+      foodAndAlcohol: ['Avoid drinking a lot of alcohol.'],
+    },
+    {
+      drugName: 'Lisinopril (Zestril)',
+      purpose: 'Lisinopril lowers your blood pressure and protects your heart and kidneys.',
+      howToTake: 'Take it once a day, at the same time each morning.',
+      schedule: { morning: '10 mg', noon: '', evening: '', night: '' },
+      sideEffects: ['A dry, tickly cough.', 'Feeling dizzy when you stand up quickly.'],
+      seekHelpIf: ['Your lips, tongue or face swell.', 'You faint.'],
+      foodAndAlcohol: ['Do not use salt substitutes that contain potassium.', 'Alcohol can make you feel more dizzy.'],
+    },
+  ],
+  generalAdvice: [
+    'Keep an up-to-date list of your medicines and show it to every doctor, nurse or pharmacist you see.',
+    'Do not stop any medicine without talking to your doctor or pharmacist first.',
+  ],
+};
@@ -0,0 +1,63 @@
+import { GoogleGenAI } from "@google/genai";
+import { AnalysisError } from '../analysisErrors';
+import { analysisSchema } from '../analysisSchema';
+import type { AnalysisProvider } from './types';
+
+type GeminiResponse = {
+  text?: string;
+  promptFeedback?: { blockReason?: string };
+  candidates?: { finishReason?: string }[];
+};
+
+function checkBlocked(response: GeminiResponse): void {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || finishReason === 'SAFETY' || finishReason === 'PROHIBITED_CONTENT') {
+    throw new AnalysisError('refusal', `The model declined to analyze this input (${blockReason ?? finishReason}).`);
+  }
+}
+
+export function createGeminiProvider(apiKey: string | undefined, model: string): AnalysisProvider {
+  // The client is created on first use so the app can load without a key.
+  let ai: GoogleGenAI | null = null;
+
+  return {
+    name: 'gemini',
+    async generate(contents, options = {}) {
+      if (!apiKey) {
+        throw new Error("GEMINI_API_KEY environment variable not set");
+      }
+      ai ??= new GoogleGenAI({ apiKey });
+
+      const request = {
+        model,
+        contents,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: options.schema ?? analysisSchema,
+          abortSignal: options.signal,
+        }
+      };
+
+      let text = '';
+      if (options.onText) {
+        for await (const chunk of await ai.models.generateContentStream(request)) {
+          checkBlocked(chunk);
+          if (chunk.text) {
+            text += chunk.text;
+            options.onText(text);
+          }
+        }
+      } else {
+        const response = await ai.models.generateContent(request);
+        checkBlocked(response);
+        text = response.text ?? '';
+      }
+
+      if (!text) {
+        throw new Error("API returned an empty response.");
+      }
+      return text;
+    },
+  };
+}
@@ -0,0 +1,19 @@
+import { getAnalysisConfig, type AnalysisConfig } from '../config';
+import { createGeminiProvider } from './geminiProvider';
+import { createLocalLlmProvider } from './localLlmProvider';
+import { createMockProvider } from './mockProvider';
+import type { AnalysisProvider } from './types';
+
+export type { AnalysisContents, AnalysisProvider, ContentPart, GenerateOptions } from './types';
+export { createGeminiProvider, createLocalLlmProvider, createMockProvider };
+
+export function createAnalysisProvider(config: AnalysisConfig = getAnalysisConfig()): AnalysisProvider {
+  switch (config.provider) {
+    case 'mock':
+      return createMockProvider();
+    case 'local':
+      return createLocalLlmProvider(config.localBaseUrl, config.localModel, config.localApiKey);
+    case 'gemini':
+      return createGeminiProvider(config.geminiApiKey, config.geminiModel);
+  }
+}
@@ -0,0 +1,92 @@
+import { AnalysisError } from '../analysisErrors';
+import { analysisSchema, toJsonSchema } from '../analysisSchema';
+import type { AnalysisProvider, ContentPart } from './types';
+
+/** Reads an OpenAI-style server-sent event stream, reporting the accumulated message content. */
+async function readEventStream(body: ReadableStream<Uint8Array>, onText: (textSoFar: string) => void): Promise<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+      const delta: string | undefined = JSON.parse(data)?.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onText(text);
+      }
+    }
+  }
+  return text;
+}
+
+type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+function toChatPart(part: ContentPart): ChatContentPart {
+  if ('text' in part) {
+    return { type: 'text', text: part.text };
+  }
+  const { mimeType, data } = part.inlineData;
+  return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } };
+}
+
+/**
+ * Talks to any OpenAI-compatible `/chat/completions` endpoint (Ollama, LM Studio, vLLM, llama.cpp server),
+ * so analyses can run entirely on the hospital network.
+ */
+export function createLocalLlmProvider(baseUrl: string, model: string, apiKey?: string): AnalysisProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: 'local',
+    async generate(contents, options = {}) {
+      const stream = Boolean(options.onText);
+      const response = await fetch(endpoint, {
+        signal: options.signal,
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          temperature: 0,
+          stream,
+          messages: [{ role: 'user', content: contents.parts.map(toChatPart) }],
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: options.schema ? 'response' : 'analysis_result', schema: toJsonSchema(options.schema ?? analysisSchema) },
+          },
+        }),
+      });
+
+      if (response.status === 429) {
+        throw new AnalysisError('quota', 'The local LLM endpoint is rate limiting requests. Wait a moment and try again.');
+      }
+      if (!response.ok) {
+        throw new Error(`Local LLM endpoint returned ${response.status} ${response.statusText}.`);
+      }
+
+      let text: string | undefined;
+      if (stream && response.body) {
+        text = await readEventStream(response.body, options.onText!);
+      } else {
+        const payload = await response.json();
+        text = payload?.choices?.[0]?.message?.content;
+      }
+      if (!text) {
+        throw new Error("Local LLM endpoint returned an empty response.");
+      }
+      return text;
+    },
+  };
+}
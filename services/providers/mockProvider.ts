@@ -0,0 +1,56 @@
+import type { AnalysisResult } from '../../types';
+import { analysisSchema, leafletSchema } from '../analysisSchema';
+import { sampleAnalysis } from './fixtures/sampleAnalysis';
+import { sampleLeaflet } from './fixtures/sampleLeaflet';
+import type { AnalysisProvider } from './types';
+
+const STREAM_CHUNKS = 20;
+
+const followUpReply = {
+  reply: 'The mock provider answers every follow-up question with this fixed reply. Configure a real provider to ask about the analysis.',
+};
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The request was aborted.', 'AbortError'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The request was aborted.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Deterministic provider that calls no model, for the API server in development and for headless runs such as the CLI
+ * and the evaluation runner. It answers each kind of request with the same fixture, after an optional delay so loading
+ * states can be exercised. When streaming, the delay is spread over the chunks.
+ */
+export function createMockProvider(fixture: AnalysisResult = sampleAnalysis, delayMs = 600): AnalysisProvider {
+  return {
+    name: 'mock',
+    async generate(_contents, options = {}) {
+      const response = !options.schema || options.schema === analysisSchema ? fixture
+        : options.schema === leafletSchema ? sampleLeaflet
+        : followUpReply;
+      const text = JSON.stringify(response);
+      if (!options.onText) {
+        if (delayMs > 0) await wait(delayMs, options.signal);
+        return text;
+      }
+      const chunkSize = Math.ceil(text.length / STREAM_CHUNKS);
+      for (let end = chunkSize; end < text.length + chunkSize; end += chunkSize) {
+        await wait(delayMs / STREAM_CHUNKS, options.signal);
+        options.onText(text.slice(0, end));
+      }
+      return text;
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import type { AnalysisProvider } from './types';
+
+/**
+ * Answers with previously recorded responses, one per call and in order, so a run can be repeated exactly without a
+ * model. Rejects once the recording is used up, e.g. when the pipeline now retries where the recorded run did not.
+ */
+export function createReplayProvider(responses: string[], name = 'replay'): AnalysisProvider {
+  let next = 0;
+  return {
+    name,
+    async generate(_contents, options = {}) {
+      if (next >= responses.length) {
+        throw new Error(`The recording has ${responses.length} response(s) and all have been replayed.`);
+      }
+      const text = responses[next++];
+      options.onText?.(text);
+      return text;
+    },
+  };
+}
+
+/** Passes calls through to `provider` and reports each raw response, for saving as a recording. */
+export function withRecording(provider: AnalysisProvider, onResponse: (text: string) => void): AnalysisProvider {
+  return {
+    name: provider.name,
+    async generate(contents, options) {
+      const text = await provider.generate(contents, options);
+      onResponse(text);
+      return text;
+    },
+  };
+}
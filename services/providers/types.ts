@@ -0,0 +1,23 @@
+export type ContentPart =
+  | { text: string }
+  | { inlineData: { data: string; mimeType: string } };
+
+export interface AnalysisContents {
+  parts: ContentPart[];
+}
+
+export interface GenerateOptions {
+  /** Aborts the request; the provider rejects as soon as it notices. */
+  signal?: AbortSignal;
+  /** When set, the provider streams and reports the text received so far after every chunk. */
+  onText?: (textSoFar: string) => void;
+  /** Response schema in `analysisSchema` form; defaults to the analysis schema. */
+  schema?: unknown;
+}
+
+export interface AnalysisProvider {
+  /** Short identifier shown in logs and error messages. */
+  readonly name: string;
+  /** Sends the prompt parts to the backend and resolves with the raw JSON text it produced. */
+  generate(contents: AnalysisContents, options?: GenerateOptions): Promise<string>;
+}
@@ -0,0 +1,154 @@
+import { RISK_LEVELS, type AnalysisResult, type ReviewSignOff } from '../types';
+import { checkLabValue, formatReferenceRange } from './labValues';
+import { isUnverified } from './evidence';
+import { describePatientContext } from './patientContext';
+
+const DISCLAIMER =
+  'This review was prepared with the assistance of an AI clinical decision support tool and verified by the signing pharmacist. ' +
+  'It does not replace professional judgement; confirm all recommendations against current guidelines and the full patient record.';
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const sourceLabels: Record<string, string> = {
+  'rule-confirmed': 'Rule-confirmed',
+  'ai-only': 'AI-only',
+  'rule-only': 'Rule-only',
+};
+
+const styles = `
+  body { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; color: #1e293b; font-size: 12px; margin: 24px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 15px; border-bottom: 1px solid #cbd5e1; padding-bottom: 4px; margin-top: 24px; }
+  h3 { font-size: 13px; margin: 12px 0 4px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 8px; }
+  th, td { border: 1px solid #e2e8f0; padding: 4px 6px; text-align: left; vertical-align: top; }
+  th { background: #f1f5f9; }
+  .meta { color: #64748b; }
+  .finding { border-left: 4px solid; padding: 6px 10px; margin: 8px 0; page-break-inside: avoid; }
+  .High { border-color: #f87171; background: #fef2f2; }
+  .Moderate { border-color: #facc15; background: #fefce8; }
+  .Low { border-color: #60a5fa; background: #eff6ff; }
+  .monograph { page-break-inside: avoid; margin-bottom: 10px; }
+  .signoff { margin-top: 24px; padding: 10px; border: 1px solid #94a3b8; }
+  .disclaimer { margin-top: 16px; font-size: 10px; color: #64748b; }
+  @media print { body { margin: 0; } }
+`;
+
+/** Renders a complete, self-contained HTML document for the signed-off pharmacist review. */
+export function buildReviewReportHtml(result: AnalysisResult, signOff: ReviewSignOff, caseLabel?: string): string {
+  const contextLines = result.patientContext ? describePatientContext(result.patientContext) : [];
+  const findingsByRisk = [...RISK_LEVELS].reverse().map(level => ({
+    level,
+    findings: result.potentialErrors.filter(finding => finding.riskLevel === level),
+  }));
+  const patient = { age: result.patientContext?.age, sex: result.patientContext?.sex };
+
+  const contextHtml = contextLines.length > 0
+    ? `<table>${contextLines.map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join('')}</table>`
+    : '<p class="meta">No structured patient context was provided.</p>';
+
+  const findingsHtml = result.potentialErrors.length > 0
+    ? findingsByRisk.filter(group => group.findings.length > 0).map(group => `
+        <h3>${group.level} risk (${group.findings.length})</h3>
+        ${group.findings.map(finding => `
+          <div class="finding ${finding.riskLevel}">
+            <strong>${escapeHtml(finding.errorType)}</strong>
+            ${finding.source ? `<span class="meta"> · ${sourceLabels[finding.source]}${finding.ruleIds?.length ? ` (${finding.ruleIds.join(', ')})` : ''}</span>` : ''}
+            ${isUnverified(finding) ? '<span class="meta"> · Unverified: no supporting text located in the input</span>' : ''}
+            <p>${escapeHtml(finding.error)}</p>
+            <p class="meta">${escapeHtml(finding.explanation)}</p>
+          </div>`).join('')}
+      `).join('')
+    : '<p>No potential medication errors were identified.</p>';
+
+  const drugsHtml = result.drugInformation.length > 0
+    ? result.drugInformation.map(drug => `
+        <div class="monograph">
+          <h3>${escapeHtml(drug.drugName)} <span class="meta">— ${escapeHtml(drug.drugClass)}</span></h3>
+          <table>
+            <tr><th>Indication</th><td>${escapeHtml(drug.indication)}</td></tr>
+            <tr><th>Prescribed dose</th><td>${escapeHtml(drug.prescribedDose)}</td></tr>
+            <tr><th>Standard dose</th><td>${escapeHtml(drug.standardDose)}</td></tr>
+            <tr><th>Mechanism</th><td>${escapeHtml(drug.mechanismOfAction)}</td></tr>
+            <tr><th>Adverse effects</th><td>${escapeHtml(drug.adverseEffects)}</td></tr>
+            <tr><th>Monitoring</th><td>${escapeHtml(drug.monitoring)}</td></tr>
+            <tr><th>Precautions</th><td>${escapeHtml(drug.precautions)}</td></tr>
+          </table>
+        </div>`).join('')
+    : '<p>No drugs were identified.</p>';
+
+  const labsHtml = result.labInterpretation.length > 0
+    ? `<table>
+        <tr><th>Parameter</th><th>Result</th><th>Reference</th><th>Status</th><th>Interpretation</th></tr>
+        ${result.labInterpretation.map(lab => {
+          const check = checkLabValue(lab, patient);
+          const reference = check.analyte && check.range
+            ? formatReferenceRange(check.analyte, check.range, check.reportedSystem ?? 'conventional')
+            : '';
+          const status = check.discrepancy ? `${check.computedStatus} (model: ${lab.status})` : check.computedStatus ?? lab.status;
+          return `<tr><td>${escapeHtml(lab.parameter)}</td><td>${escapeHtml(`${lab.value} ${lab.unit}`)}</td><td>${escapeHtml(reference)}</td><td>${escapeHtml(status)}</td><td>${escapeHtml(lab.interpretation)}</td></tr>`;
+        }).join('')}
+      </table>`
+    : '<p>No lab values were identified.</p>';
+
+  const signedAt = new Date(signOff.signedAt).toLocaleString();
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>Pharmacist Medication Review${caseLabel ? ` — ${escapeHtml(caseLabel)}` : ''}</title>
+<style>${styles}</style>
+</head>
+<body>
+  <h1>Pharmacist Medication Review</h1>
+  <p class="meta">${caseLabel ? `${escapeHtml(caseLabel)} · ` : ''}Signed ${escapeHtml(signedAt)}${result.ruleBaseVersion ? ` · Interaction rules v${escapeHtml(result.ruleBaseVersion)}` : ''}</p>
+
+  <h2>Patient Context</h2>
+  ${contextHtml}
+
+  <h2>Findings (${result.potentialErrors.length})</h2>
+  ${findingsHtml}
+
+  <h2>Drug Monographs</h2>
+  ${drugsHtml}
+
+  <h2>Laboratory Results</h2>
+  ${labsHtml}
+
+  <div class="signoff">
+    <strong>Reviewed and signed off by:</strong> ${escapeHtml(signOff.pharmacistName)}${signOff.registrationNumber ? ` (Reg. ${escapeHtml(signOff.registrationNumber)})` : ''}<br />
+    <strong>Date:</strong> ${escapeHtml(signedAt)}
+    ${signOff.comments ? `<p><strong>Comments:</strong> ${escapeHtml(signOff.comments)}</p>` : ''}
+  </div>
+  <p class="disclaimer">${DISCLAIMER}</p>
+</body>
+</html>`;
+}
+
+/** Opens an HTML document in a new window and starts the browser's print dialog, from which it can be saved as PDF. */
+export function printHtmlDocument(html: string): void {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('The print window was blocked. Allow pop-ups for this site to print.');
+  }
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  let printed = false;
+  const print = () => {
+    if (printed) return;
+    printed = true;
+    printWindow.print();
+  };
+  printWindow.onload = print;
+  // Some browsers never fire onload for document.write content.
+  setTimeout(print, 500);
+}
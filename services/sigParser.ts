@@ -0,0 +1,225 @@
+import type { DrugInfo, MedicationOrder } from '../types';
+
+const units: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19,
+};
+const tens: Record<string, number> = { twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90 };
+
+const isNumberWord = (word: string) => word in units || word in tens || word === 'hundred' || word === 'thousand';
+
+/** Turns spelled-out numbers into digits: "five hundred" → "500", "one point five" → "1.5", "two and a half" → "2.5". */
+function wordsToDigits(text: string): string {
+  const words = text.replace(/([a-z])-([a-z])/g, '$1 $2').split(/\s+/);
+  const out: string[] = [];
+  for (let i = 0; i < words.length; i++) {
+    if (!isNumberWord(words[i])) {
+      out.push(words[i] === 'half' ? '0.5' : words[i]);
+      continue;
+    }
+    let total = 0;
+    let current = 0;
+    for (; i < words.length; i++) {
+      const word = words[i];
+      if (word in units) current += units[word];
+      else if (word in tens) current += tens[word];
+      else if (word === 'hundred') current = (current || 1) * 100;
+      else if (word === 'thousand') {
+        total += (current || 1) * 1000;
+        current = 0;
+      } else if (word === 'and' && isNumberWord(words[i + 1] ?? '')) continue;
+      else break;
+    }
+    let value = String(total + current);
+    if (words[i] === 'point') {
+      let decimals = '';
+      while (words[i + 1] in units && units[words[i + 1]] < 10) decimals += units[words[++i]];
+      if (decimals) {
+        value += `.${decimals}`;
+        i++;
+      }
+    } else if (words[i] === 'and' && words[i + 1] === 'a' && words[i + 2] === 'half') {
+      value = String(total + current + 0.5);
+      i += 3;
+    }
+    out.push(value);
+    i--;
+  }
+  return out.join(' ');
+}
+
+const unitWords: [RegExp, string][] = [
+  [/\bmilli ?gram(me)?s?\b/g, 'mg'],
+  [/\b(micro ?gram(me)?s?|µg|ug)\b/g, 'mcg'],
+  [/\bgram(me)?s?\b/g, 'g'],
+  [/\bmilli ?lit(re|er)s?\b|\bmils\b/g, 'ml'],
+  [/\binternational units?\b|\biu\b/g, 'units'],
+  [/\bunit\b/g, 'units'],
+  [/\bmilli ?moles?\b/g, 'mmol'],
+];
+
+// Dictation and handwriting split abbreviations into letters ("b i d", "p.r.n."); only these are rejoined.
+const letterAbbreviations = ['qhs', 'qam', 'qpm', 'bid', 'tid', 'qid', 'tds', 'qds', 'prn', 'bd', 'od', 'qd', 'hs', 'po', 'iv', 'im', 'sc', 'sl', 'pr'];
+
+/** Splits run-together letters into known abbreviations ("pobid" → ["po", "bid"]); undefined if any letters are left over. */
+function segmentLetters(letters: string): string[] | undefined {
+  if (!letters) return [];
+  for (const abbreviation of letterAbbreviations) {
+    if (!letters.startsWith(abbreviation)) continue;
+    const rest = segmentLetters(letters.slice(abbreviation.length));
+    if (rest) return [abbreviation, ...rest];
+  }
+  return undefined;
+}
+
+/** Lower-cases a sig and rewrites dictated numbers, unit words and spelled-out abbreviations into their written forms. */
+export function normalizeSig(text: string): string {
+  let sig = wordsToDigits(text.toLowerCase().replace(/[,;]/g, ' ').trim());
+  for (const [pattern, unit] of unitWords) sig = sig.replace(pattern, unit);
+  const rejoin = (letters: string) => segmentLetters(letters.replace(/[\s.]/g, ''))?.join(' ') ?? letters;
+  return sig
+    .replace(/\b[a-z]{1,3}(?:\.[a-z]{1,3})+\.?/g, rejoin)
+    .replace(/\b[a-z](?: [a-z]\b)+/g, rejoin)
+    .replace(/\b([a-z]{2,4})\./g, (match, word) => (letterAbbreviations.includes(word) ? word : match))
+    .replace(/\bq\.\s*(\d+)\s*\.?\s*h\b\.?/g, 'q$1h')
+    .replace(/(\d)\s+\.\s*(\d)/g, '$1.$2')
+    .replace(/\s+/g, ' ');
+}
+
+const routes: [RegExp, string][] = [
+  [/\b(po|oral|orally|by mouth)\b/, 'PO'],
+  [/\b(iv|intravenous|intravenously)\b/, 'IV'],
+  [/\b(im|intramuscular|intramuscularly)\b/, 'IM'],
+  [/\b(sc|sq|subcut|subcutaneous|subcutaneously)\b/, 'SC'],
+  [/\b(sl|sublingual|sublingually)\b/, 'SL'],
+  [/\b(pr|rectal|rectally|per rectum)\b/, 'PR'],
+  [/\b(inh|inhaled|inhaler|nebulised|nebulized)\b/, 'INH'],
+  [/\b(td|transdermal|patch)\b/, 'TD'],
+  [/\b(topical|topically|apply)\b/, 'TOP'],
+];
+
+// Ordered so "twice daily" is read as BID before the bare "daily" rule sees it.
+const frequencies: [RegExp, (match: RegExpMatchArray) => { code: string; perDay?: number }][] = [
+  [/\b(?:q|every)\s*(\d+)\s*(?:-|to)\s*(\d+)\s*(?:h|hrs?|hours?)\b/, m => ({ code: `Q${m[1]}-${m[2]}H`, perDay: 24 / Number(m[1]) })],
+  [/\b(?:q|every)\s*(\d+(?:\.\d+)?)\s*(?:h|hrs?|hours?)\b|\b(\d+)\s*hourly\b/, m => {
+    const hours = Number(m[1] ?? m[2]);
+    return { code: `Q${hours}H`, perDay: 24 / hours };
+  }],
+  [/\b(qid|qds|4 times (a |per )?day|4 times daily)\b/, () => ({ code: 'QID', perDay: 4 })],
+  [/\b(tid|tds|3 times (a |per )?day|3 times daily)\b/, () => ({ code: 'TID', perDay: 3 })],
+  [/\b(bid|bd|twice (a |per )?day|twice daily|2 times (a |per )?day|2 times daily)\b/, () => ({ code: 'BID', perDay: 2 })],
+  [/\b(weekly|once (a |per )?week|every week)\b/, () => ({ code: 'WEEKLY', perDay: 1 / 7 })],
+  [/\b(every other day|alternate days|qod)\b/, () => ({ code: 'QOD', perDay: 0.5 })],
+  [/\b(od|qd|once (a |per )?day|once daily|daily|every day|nocte|at night|at bedtime|qhs|hs|mane|in the morning|qam|qpm)\b/, () => ({ code: 'DAILY', perDay: 1 })],
+  [/\b(stat|once only|single dose)\b/, () => ({ code: 'STAT' })],
+];
+
+const amount = String.raw`(\d+(?:\.\d+)?)(?:\s*(?:-|to|or)\s*(\d+(?:\.\d+)?))?`;
+const strengthPattern = new RegExp(String.raw`${amount}\s*(mg|mcg|g|units|ml|mmol)\b(?!\s*\/\s*(?:kg|m2))`);
+const concentrationPattern = /(\d+(?:\.\d+)?)\s*(mg|mcg|g)\s*(?:\/|in|per)\s*(\d+(?:\.\d+)?)?\s*ml\b/;
+const volumePattern = new RegExp(String.raw`${amount}\s*ml\b`);
+const quantityPattern = new RegExp(String.raw`\b${amount}\s*(?:tabs?|tablets?|caps?|capsules?|puffs?|drops?|sachets?|pills?)\b`);
+const maxPattern = new RegExp(String.raw`\bmax(?:imum)?\.?\s*(?:of\s*)?${amount}\s*(mg|mcg|g|units|ml|mmol|tabs?|tablets?|caps?|capsules?|doses?)?\s*(?:\/|per|in|a|every)\s*(?:24\s*h\w*|day|d)\b`);
+
+const upper = (match: RegExpMatchArray) => Number(match[2] ?? match[1]);
+
+function durationDays(sig: string): number | undefined {
+  const words = sig.match(/\b(?:for|x)\s*(\d+)\s*(days?|d|weeks?|wks?|w|months?)\b/);
+  if (words) return Number(words[1]) * (words[2].startsWith('m') ? 30 : words[2].startsWith('w') ? 7 : 1);
+  const fraction = sig.match(/\b(\d{1,2})\s*\/\s*(7|52|12)\b(?!\s*\d)/);
+  if (fraction) return Number(fraction[1]) * (fraction[2] === '7' ? 1 : fraction[2] === '52' ? 7 : 30);
+  return undefined;
+}
+
+function readDose(sig: string): { value: number; unit: string } | undefined {
+  // Liquids state a concentration ("250 mg/5 ml") and a volume ("10 ml"); the dose is their product.
+  const concentration = sig.match(concentrationPattern);
+  const volume = concentration && sig.replace(concentration[0], ' ').match(volumePattern);
+  if (concentration && volume) {
+    return { value: (Number(concentration[1]) / Number(concentration[3] ?? 1)) * upper(volume), unit: concentration[2] };
+  }
+  const strength = sig.match(strengthPattern);
+  return strength ? { value: upper(strength), unit: strength[3] } : undefined;
+}
+
+/**
+ * Reads a free-text or dictated sig into a `MedicationOrder`. Returns undefined when neither a strength nor a
+ * frequency can be found, so callers can fall back to another source for the same drug.
+ */
+export function parseSig(text: string, drug = ''): MedicationOrder | undefined {
+  const normalized = normalizeSig(text);
+  // A stated ceiling ("max 4 g/24 h") must not be mistaken for the dose or the frequency.
+  const maxMatch = normalized.match(maxPattern);
+  const sig = maxMatch ? normalized.replace(maxMatch[0], ' ') : normalized;
+
+  const dose = readDose(sig);
+  const quantityMatch = sig.match(quantityPattern);
+  const frequency = frequencies.map(([pattern, read]) => {
+    const match = sig.match(pattern);
+    return match && read(match);
+  }).find(Boolean);
+  if (!dose && !frequency) return undefined;
+
+  const order: MedicationOrder = {
+    drug,
+    strength: dose?.value,
+    unit: dose?.unit,
+    quantity: quantityMatch ? upper(quantityMatch) : 1,
+    route: routes.find(([pattern]) => pattern.test(sig))?.[1],
+    frequency: frequency?.code,
+    dosesPerDay: frequency?.perDay,
+    prn: /\b(prn|as needed|as required|when required|if needed)\b/.test(sig),
+    durationDays: durationDays(sig),
+  };
+
+  if (order.strength !== undefined && order.dosesPerDay !== undefined) {
+    order.totalDailyDose = order.strength * order.quantity * order.dosesPerDay;
+  }
+  if (order.prn && maxMatch && order.strength !== undefined) {
+    const [, , , maxUnit] = maxMatch;
+    const stated = maxUnit && strengthPattern.test(`1 ${maxUnit}`)
+      ? convertDose(upper(maxMatch), maxUnit, order.unit!)
+      : upper(maxMatch) * order.strength * (maxUnit?.startsWith('dose') ? order.quantity : 1);
+    if (stated !== undefined) order.totalDailyDose = stated;
+  }
+  return order;
+}
+
+const massInMg: Record<string, number> = { g: 1000, mg: 1, mcg: 0.001 };
+
+/** Converts between mass units; undefined when either unit is not a mass (units, mL, mmol). */
+export function convertDose(value: number, from: string, to: string): number | undefined {
+  if (from === to) return value;
+  if (!(from in massInMg) || !(to in massInMg)) return undefined;
+  return (value * massInMg[from]) / massInMg[to];
+}
+
+/** Total daily dose of an order in mg, when its strength is a mass and its frequency is known. */
+export function dailyDoseMg(order: MedicationOrder): number | undefined {
+  return order.totalDailyDose !== undefined && order.unit ? convertDose(order.totalDailyDose, order.unit, 'mg') : undefined;
+}
+
+/** The order written back as a normalised sig, e.g. "500 mg × 2 PO BID for 5 days". */
+export function describeSig(order: MedicationOrder): string {
+  const dose = order.strength !== undefined ? `${order.strength} ${order.unit}${order.quantity !== 1 ? ` × ${order.quantity}` : ''}` : '';
+  const parts = [dose, order.route, order.frequency, order.prn && 'PRN', order.durationDays !== undefined && `for ${order.durationDays} days`];
+  return parts.filter(Boolean).join(' ');
+}
+
+/** The normalised sig followed by the total daily dose, e.g. "500 mg × 2 PO BID · 2000 mg/day". */
+export function describeOrder(order: MedicationOrder): string {
+  const sig = describeSig(order);
+  return order.totalDailyDose !== undefined ? `${sig} · ${+order.totalDailyDose.toFixed(2)} ${order.unit}/day` : sig;
+}
+
+/**
+ * The order for an extracted drug, read from its verbatim evidence first (the prescriber's own words, including
+ * dictation) and from the model's `prescribedDose` when no quote gives a complete daily dose.
+ */
+export function orderForDrug(drug: DrugInfo): MedicationOrder | undefined {
+  const candidates = [...(drug.evidence ?? []).map(span => span.quote), drug.prescribedDose]
+    .filter(Boolean)
+    .map(text => parseSig(text, drug.drugName))
+    .filter((order): order is MedicationOrder => Boolean(order));
+  return candidates.find(order => order.totalDailyDose !== undefined) ?? candidates[candidates.length - 1];
+}
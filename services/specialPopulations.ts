@@ -0,0 +1,160 @@
+import type { DrugInfo, LabValue, PatientContext, RiskLevel } from '../types';
+import { drugGroups } from './knowledge/interactionKnowledgeBase';
+import {
+  OLDER_ADULT_AGE,
+  lactationRiskTable,
+  olderAdultCriteria,
+  pregnancyRiskTable,
+  type PregnancyRisk,
+  type PregnancyRiskCategory,
+  type ScreeningCriterion,
+} from './knowledge/specialPopulationCriteria';
+import { estimateEgfr } from './organFunction';
+import { codedIngredients, containsTerm, ingredientTerms, resolveIngredients } from './terminology';
+
+export type SpecialPopulationSection = 'Beers 2023' | 'STOPP v2' | 'START v2' | 'Pregnancy' | 'Lactation';
+
+export interface SpecialPopulationFinding {
+  criterionId: string;
+  section: SpecialPopulationSection;
+  kind: 'inappropriate' | 'omission';
+  /** The drugs the criterion flags; for an omission, the drugs that make it apply, if any. */
+  drugNames: string[];
+  description: string;
+  recommendation: string;
+  riskLevel: RiskLevel;
+}
+
+export interface SpecialPopulationScreen {
+  /** Which screens ran: Beers and STOPP/START from age 65, the pregnancy and lactation tables when recorded. */
+  olderAdult: boolean;
+  pregnant: boolean;
+  lactating: boolean;
+  /** Criteria with an eGFR threshold are skipped when it is unknown. */
+  egfr?: number;
+  findings: SpecialPopulationFinding[];
+}
+
+interface ScreenedDrug {
+  name: string;
+  ingredients: string[];
+}
+
+function membersOf(ref: string): string[] {
+  return drugGroups[ref]?.members ?? [ref];
+}
+
+/** Like a policy entry, a reference matches a drug mapped to one of its ingredients, or whose name mentions one. */
+function takes(drug: ScreenedDrug, ref: string): boolean {
+  return membersOf(ref).some(member => drug.ingredients.includes(member) || ingredientTerms(member).some(term => containsTerm(drug.name, term)));
+}
+
+const takesAny = (drug: ScreenedDrug, refs: string[]) => refs.some(ref => takes(drug, ref));
+
+/** The analysed drugs plus home medications that are not already among them. */
+function screenedDrugs(drugs: DrugInfo[], homeMedications: string[]): ScreenedDrug[] {
+  const analysed = drugs.map(drug => ({ name: drug.drugName, ingredients: codedIngredients(drug) }));
+  const known = new Set(analysed.map(drug => drug.ingredients.join('+')).filter(Boolean));
+  const home = homeMedications
+    .map(name => ({ name: `${name} (home)`, ingredients: resolveIngredients(name) }))
+    .filter(drug => drug.ingredients.length === 0 || !known.has(drug.ingredients.join('+')));
+  return [...analysed, ...home];
+}
+
+function applyCriterion(criterion: ScreeningCriterion, drugs: ScreenedDrug[], diagnoses: string[], egfr?: number): SpecialPopulationFinding | undefined {
+  if (criterion.conditions && !diagnoses.some(diagnosis => criterion.conditions!.some(term => containsTerm(diagnosis, term)))) return undefined;
+  if (criterion.belowEgfr !== undefined && (egfr === undefined || egfr >= criterion.belowEgfr)) return undefined;
+  if (criterion.unlessTaking && drugs.some(drug => takesAny(drug, criterion.unlessTaking!))) return undefined;
+  const companions = criterion.alsoTaking ? drugs.filter(drug => takesAny(drug, criterion.alsoTaking!)) : [];
+  if (criterion.alsoTaking && companions.length === 0) return undefined;
+
+  const matched = drugs.filter(drug => takesAny(drug, criterion.drugs));
+  const flagged = criterion.kind === 'omission' ? matched.length === 0 : matched.length >= (criterion.minCount ?? 1);
+  if (!flagged) return undefined;
+  return {
+    criterionId: criterion.id,
+    section: criterion.source,
+    kind: criterion.kind,
+    drugNames: [...new Set([...matched, ...companions].map(drug => drug.name))],
+    description: criterion.description,
+    recommendation: criterion.recommendation,
+    riskLevel: criterion.riskLevel,
+  };
+}
+
+const pregnancyRiskLevel: Record<PregnancyRiskCategory, RiskLevel> = { contraindicated: 'High', avoid: 'Moderate', caution: 'Low' };
+
+const pregnancyRiskText: Record<PregnancyRiskCategory, string> = {
+  contraindicated: 'contraindicated',
+  avoid: 'best avoided',
+  caution: 'used with caution',
+};
+
+/** Whether a pregnancy entry applies at this gestation; with the gestation unknown, every entry does. */
+function inWindow(entry: PregnancyRisk, weeks?: number): boolean {
+  if (weeks === undefined) return true;
+  return (entry.fromWeek === undefined || weeks >= entry.fromWeek) && (entry.untilWeek === undefined || weeks < entry.untilWeek);
+}
+
+function describeWindow(entry: PregnancyRisk): string {
+  if (entry.fromWeek !== undefined) return ` from week ${entry.fromWeek}`;
+  if (entry.untilWeek !== undefined) return ` before week ${entry.untilWeek}`;
+  return '';
+}
+
+const labelFor = (key: string) => drugGroups[key]?.label ?? key;
+
+/**
+ * Screens the drug list (and home medications) for a special population: Beers 2023 and STOPP/START v2 from age 65,
+ * and the pregnancy and lactation tables when the patient context records them. Runs locally, without the model.
+ */
+export function screenSpecialPopulations(drugs: DrugInfo[], patientContext: PatientContext, labs: LabValue[]): SpecialPopulationScreen {
+  const olderAdult = patientContext.age !== undefined && patientContext.age >= OLDER_ADULT_AGE;
+  const pregnant = patientContext.pregnancy === 'pregnant';
+  const lactating = patientContext.lactating;
+  const egfr = estimateEgfr(labs, patientContext);
+  const screened = screenedDrugs(drugs, patientContext.homeMedications);
+  const findings: SpecialPopulationFinding[] = [];
+
+  if (olderAdult) {
+    for (const criterion of olderAdultCriteria) {
+      const finding = applyCriterion(criterion, screened, patientContext.diagnoses, egfr);
+      if (finding) findings.push(finding);
+    }
+  }
+
+  if (pregnant) {
+    const weeks = patientContext.gestationWeeks;
+    for (const [key, entry] of Object.entries(pregnancyRiskTable)) {
+      const matched = screened.filter(drug => takes(drug, key));
+      if (matched.length === 0 || !inWindow(entry, weeks)) continue;
+      findings.push({
+        criterionId: `PREG-${key}`,
+        section: 'Pregnancy',
+        kind: 'inappropriate',
+        drugNames: matched.map(drug => drug.name),
+        description: `${labelFor(key)}: ${pregnancyRiskText[entry.risk]} in pregnancy${describeWindow(entry)}.`,
+        recommendation: entry.note,
+        riskLevel: pregnancyRiskLevel[entry.risk],
+      });
+    }
+  }
+
+  if (lactating) {
+    for (const [key, entry] of Object.entries(lactationRiskTable)) {
+      const matched = screened.filter(drug => takes(drug, key));
+      if (matched.length === 0) continue;
+      findings.push({
+        criterionId: `LACT-${key}`,
+        section: 'Lactation',
+        kind: 'inappropriate',
+        drugNames: matched.map(drug => drug.name),
+        description: `${labelFor(key)}: ${entry.risk === 'avoid' ? 'best avoided' : 'used with caution'} while breastfeeding.`,
+        recommendation: entry.note,
+        riskLevel: entry.risk === 'avoid' ? 'Moderate' : 'Low',
+      });
+    }
+  }
+
+  return { olderAdult, pregnant, lactating, egfr, findings };
+}
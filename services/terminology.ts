@@ -0,0 +1,123 @@
+import type { DrugCoding, DrugInfo, TerminologyMapping } from '../types';
+import { drugAliases } from './knowledge/interactionKnowledgeBase';
+import { atcClassNames, terminologyIndex } from './knowledge/terminologyIndex';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Whole-word, case-insensitive match so "arb" does not match "carbamazepine". */
+export function containsTerm(text: string, term: string): boolean {
+  return new RegExp(`(^|[^a-z])${escapeRegExp(term.toLowerCase())}([^a-z]|$)`).test(text.toLowerCase());
+}
+
+/** Every ingredient known to the rules or the terminology index, for pickers. */
+export const knownIngredients: string[] = [...new Set([...Object.keys(terminologyIndex), ...Object.keys(drugAliases)])].sort();
+
+/** The ingredient name with its brand names and spelling variants. */
+export function ingredientTerms(ingredient: string): string[] {
+  return [...new Set([ingredient, ...(drugAliases[ingredient] ?? []), ...(terminologyIndex[ingredient]?.synonyms ?? [])])];
+}
+
+const vocabulary: [string, string][] = knownIngredients.flatMap(ingredient =>
+  ingredientTerms(ingredient).map(term => [term, ingredient] as [string, string])
+);
+
+function codingFor(ingredient: string): DrugCoding {
+  const entry = terminologyIndex[ingredient];
+  return { ingredient, ...(entry?.rxcui && { rxcui: entry.rxcui }), atc: entry?.atc ?? [] };
+}
+
+/** Optimal string alignment distance: Levenshtein plus adjacent transpositions, the commonest typing slip. */
+function editDistance(a: string, b: string): number {
+  const d = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+    }
+  }
+  return d[a.length][b.length];
+}
+
+// Character confusions typical of OCR; each word is also compared with these undone.
+const ocrConfusions: [RegExp, string][] = [[/rn/g, 'm'], [/vv/g, 'w'], [/0/g, 'o'], [/1/g, 'l'], [/5/g, 's']];
+const undoOcr = (word: string) => ocrConfusions.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), word);
+
+// Words in drug names that are never the drug itself, so they are not fuzzy-matched against short ingredient names.
+const formulationWords = new Set([
+  'tablet', 'tablets', 'tabs', 'capsule', 'capsules', 'caps', 'oral', 'solution', 'suspension', 'syrup', 'injection',
+  'cream', 'ointment', 'inhaler', 'patch', 'extended', 'release', 'modified', 'delayed', 'sodium', 'potassium',
+  'calcium', 'magnesium', 'hydrochloride', 'brand', 'generic', 'with', 'daily',
+]);
+
+// Short names need an exact spelling; one slip in five letters is already another word.
+const maxDistance = (length: number) => (length <= 4 ? 0 : length <= 7 ? 1 : length <= 11 ? 2 : 3);
+
+/**
+ * Maps a free-text drug name to ingredient codes. Brand names, spelling variants and combination products are
+ * matched exactly first; otherwise each word (and pair of words) is compared with the index by edit distance, so
+ * OCR and dictation slips such as "atorvastatn" or "rnetformin" still map, with a confidence below 1.
+ */
+export function mapDrugName(drugName: string): TerminologyMapping {
+  const exact = [...new Set(vocabulary.filter(([term]) => containsTerm(drugName, term)).map(([, ingredient]) => ingredient))];
+  if (exact.length > 0) return { codings: exact.map(codingFor), match: 'exact', confidence: 1 };
+
+  const words = drugName.toLowerCase().split(/[^a-z0-9-]+/).filter(word => /^[a-z]/.test(word));
+  const candidates = [
+    ...words.filter(word => word.length >= 4 && !formulationWords.has(word)),
+    ...words.slice(1).map((word, i) => `${words[i]} ${word}`),
+  ];
+
+  const best = new Map<string, { confidence: number; text: string }>();
+  for (const candidate of candidates) {
+    // Only the closest term(s) for each word count, so "omeprazol" maps to omeprazole and not also to esomeprazole.
+    let closest: { distance: number; ingredients: string[]; length: number } | undefined;
+    const ocrReading = undoOcr(candidate);
+    for (const [term, ingredient] of vocabulary) {
+      if (term.length < 4 || Math.abs(term.length - candidate.length) > maxDistance(term.length)) continue;
+      // A match that needs an OCR correction is slightly less certain than a plain misspelling.
+      const distance = Math.min(editDistance(candidate, term), ocrReading === candidate ? Infinity : editDistance(ocrReading, term) + 0.5);
+      if (distance > maxDistance(term.length) || (closest && distance > closest.distance)) continue;
+      closest = closest && distance === closest.distance
+        ? { ...closest, ingredients: [...closest.ingredients, ingredient] }
+        : { distance, ingredients: [ingredient], length: term.length };
+    }
+    if (!closest) continue;
+    const confidence = 1 - closest.distance / closest.length;
+    for (const ingredient of closest.ingredients) {
+      if (confidence > (best.get(ingredient)?.confidence ?? 0)) best.set(ingredient, { confidence, text: candidate });
+    }
+  }
+  if (best.size === 0) return { codings: [], match: 'unmapped', confidence: 0 };
+
+  const matches = [...best.entries()];
+  return {
+    codings: matches.map(([ingredient]) => codingFor(ingredient)),
+    match: 'fuzzy',
+    confidence: Math.min(...matches.map(([, match]) => match.confidence)),
+    matchedText: [...new Set(matches.map(([, match]) => match.text))].join(', '),
+  };
+}
+
+/** A pharmacist's correction; an empty list records that the name is deliberately left unmapped. */
+export function manualMapping(ingredients: string[]): TerminologyMapping {
+  return { codings: ingredients.map(codingFor), match: 'manual', confidence: 1 };
+}
+
+/** Resolves a free-text drug name (brand, generic, combination or misspelt) to the ingredient names used by the rules. */
+export function resolveIngredients(drugName: string): string[] {
+  return mapDrugName(drugName).codings.map(coding => coding.ingredient);
+}
+
+/** The drug's ingredients, honouring a stored mapping (including a manual correction) over the drug name. */
+export function codedIngredients(drug: DrugInfo): string[] {
+  return drug.terminology ? drug.terminology.codings.map(coding => coding.ingredient) : resolveIngredients(drug.drugName);
+}
+
+/** "C09AA05" → "ACE inhibitors", from the code's level-4 chemical subgroup. */
+export function atcClassName(code: string): string | undefined {
+  return atcClassNames[code.slice(0, 5)];
+}
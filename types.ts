@@ -1,8 +1,84 @@
+export const RISK_LEVELS = ['Low', 'Moderate', 'High'] as const;
+export type RiskLevel = typeof RISK_LEVELS[number];
+
+export const LAB_STATUSES = ['Normal', 'Low', 'High', 'Abnormal'] as const;
+export type LabStatus = typeof LAB_STATUSES[number];
+
+/**
+ * Where in the input an item was read from. `quote` is the verbatim source text; `start`/`end` are character offsets
+ * into text or voice input, and `box` is [ymin, xmin, ymax, xmax] on a 0–1000 scale for uploaded pages.
+ */
+export interface SourceSpan {
+  quote: string;
+  start?: number;
+  end?: number;
+  /** 1-based page of an upload; omitted for single-page and text input. */
+  page?: number;
+  box?: [number, number, number, number];
+}
+
+/** Where a finding came from after the local rule engine cross-checked the model's output. */
+export type FindingSource = 'rule-confirmed' | 'ai-only' | 'rule-only';
+
+/** How many consensus runs reported a finding, and the risk level each of them gave it. */
+export interface FindingAgreement {
+  runs: number;
+  totalRuns: number;
+  riskVotes: Partial<Record<RiskLevel, number>>;
+}
+
 export interface PotentialError {
   errorType: string;
-  riskLevel: 'Low' | 'Moderate' | 'High';
+  riskLevel: RiskLevel;
   error: string;
   explanation: string;
+  source?: FindingSource;
+  ruleIds?: string[];
+  /** Set when the analysis was run in consensus mode. */
+  agreement?: FindingAgreement;
+  /** Located source spans; empty when the finding could not be traced back to the input. */
+  evidence?: SourceSpan[];
+}
+
+/**
+ * A prescription instruction ("sig") read locally into its parts, e.g. "500 mg PO BID" or the dictated
+ * "five hundred milligrams b i d". Fields the sig does not state are left undefined.
+ */
+export interface MedicationOrder {
+  drug: string;
+  /** Amount of one dose unit, e.g. 500 for "500 mg"; the upper bound of a range such as "1–2 g". */
+  strength?: number;
+  unit?: string;
+  /** Tablets, capsules, puffs… per administration; 1 when not stated. */
+  quantity: number;
+  route?: string;
+  /** Normalised frequency code, e.g. "BID", "Q6H" or "WEEKLY". */
+  frequency?: string;
+  dosesPerDay?: number;
+  prn: boolean;
+  durationDays?: number;
+  /** Strength × quantity × doses per day, in `unit`; for PRN orders, the most that could be taken in a day. */
+  totalDailyDose?: number;
+}
+
+/** One ingredient from the bundled terminology index. */
+export interface DrugCoding {
+  ingredient: string;
+  rxcui?: string;
+  atc: string[];
+}
+
+/**
+ * How a free-text `drugName` was mapped to ingredient codes. `codings` is empty when nothing matched; a
+ * "manual" mapping is a pharmacist's correction and is never overwritten by the matcher.
+ */
+export interface TerminologyMapping {
+  codings: DrugCoding[];
+  match: 'exact' | 'fuzzy' | 'manual' | 'unmapped';
+  /** 0–1; 1 for exact and manual mappings. */
+  confidence: number;
+  /** The part of the drug name a fuzzy match was made on, e.g. "atorvastatn". */
+  matchedText?: string;
 }
 
 export interface DrugInfo {
@@ -15,18 +91,228 @@ export interface DrugInfo {
   adverseEffects: string;
   monitoring: string;
   precautions: string;
+  /** 1-based page of a multi-page upload the drug was read from. */
+  sourcePage?: number;
+  evidence?: SourceSpan[];
+  /** Parsed locally from the source text or `prescribedDose` by the sig parser. */
+  medicationOrder?: MedicationOrder;
+  terminology?: TerminologyMapping;
 }
 
 export interface LabValue {
   parameter: string;
   value: string;
   unit: string;
-  status: 'Normal' | 'Low' | 'High' | 'Abnormal';
+  status: LabStatus;
   interpretation: string;
+  /** 1-based page of a multi-page upload the value was read from. */
+  sourcePage?: number;
+  evidence?: SourceSpan[];
+}
+
+export const DOSE_TIMES = ['morning', 'noon', 'evening', 'night'] as const;
+export type DoseTime = typeof DOSE_TIMES[number];
+
+export const READING_LEVELS = ['simple', 'standard', 'detailed'] as const;
+/** 'simple' aims at roughly a 9–11 year old's reading age, for low health literacy or a second language. */
+export type ReadingLevel = typeof READING_LEVELS[number];
+
+/** Plain-language counselling for one drug, written for the patient rather than the professional. */
+export interface LeafletDrug {
+  drugName: string;
+  purpose: string;
+  howToTake: string;
+  /** What to take at each time of day, e.g. "1 tablet"; empty when nothing is taken then. */
+  schedule: Record<DoseTime, string>;
+  /** For doses that do not fit the daily grid, e.g. "Only when needed for pain" or "Once a week on Mondays". */
+  scheduleNote?: string;
+  sideEffects: string[];
+  seekHelpIf: string[];
+  foodAndAlcohol: string[];
+}
+
+export const LEAFLET_HEADINGS = ['medicine', ...DOSE_TIMES, 'purpose', 'howToTake', 'sideEffects', 'seekHelpIf', 'foodAndAlcohol', 'generalAdvice'] as const;
+export type LeafletHeading = typeof LEAFLET_HEADINGS[number];
+
+export interface PatientLeaflet {
+  /** The language the leaflet is written in, as chosen by the reviewer (e.g. "Spanish"). */
+  language: string;
+  readingLevel: ReadingLevel;
+  title: string;
+  /** Section and table headings in the leaflet's language. */
+  headings: Record<LeafletHeading, string>;
+  drugs: LeafletDrug[];
+  generalAdvice: string[];
+}
+
+/** One image sent to the model; PDFs are rasterized into one page each. */
+export interface DocumentPage {
+  id: string;
+  fileName: string;
+  /** Page number inside the original PDF, if the page came from one. */
+  pageInFile?: number;
+  mimeType: string;
+  /** Base64 image data without the data-URL prefix, with any masks already painted over it. */
+  data: string;
+  previewUrl: string;
+  /** Regions blacked out before the page is sent, as [ymin, xmin, ymax, xmax] on a 0–1000 scale. */
+  masks?: [number, number, number, number][];
+  /** The page as uploaded, kept so masks can be edited or removed; never sent to the model. */
+  unmaskedUrl?: string;
+}
+
+export const PHI_CATEGORIES = ['name', 'id', 'date', 'phone', 'email', 'other'] as const;
+export type PhiCategory = typeof PHI_CATEGORIES[number];
+
+/** A run of input text replaced by a placeholder before it is sent to the model. */
+export interface TextRedaction {
+  start: number;
+  end: number;
+  category: PhiCategory;
+}
+
+export type Sex = 'male' | 'female';
+
+export const ALLERGY_REACTIONS = ['anaphylaxis', 'angioedema', 'rash', 'intolerance', 'other', 'unknown'] as const;
+export type AllergyReaction = typeof ALLERGY_REACTIONS[number];
+
+export interface Allergy {
+  substance: string;
+  reaction: AllergyReaction;
+}
+
+export type PregnancyStatus = 'unknown' | 'not-pregnant' | 'pregnant';
+
+/** Structured patient details entered by the reviewer and sent with every analysis. */
+export interface PatientContext {
+  age?: number;
+  sex?: Sex;
+  weightKg?: number;
+  heightCm?: number;
+  /** Doses are checked per kg (and per m² where the height is known) against paediatric ranges; needs `weightKg`. */
+  paediatric?: boolean;
+  allergies: Allergy[];
+  pregnancy: PregnancyStatus;
+  gestationWeeks?: number;
+  lactating: boolean;
+  diagnoses: string[];
+  homeMedications: string[];
+}
+
+/** A drug that may only be used with the named approval, such as a restricted antimicrobial. */
+export interface RestrictedDrug {
+  drug: string;
+  approval: string;
+  note?: string;
+}
+
+/** The formulary product to use instead of a non-formulary one. */
+export interface TherapeuticSubstitution {
+  drug: string;
+  substitute: string;
+  note?: string;
+}
+
+/** A local renal-dosing protocol that applies below an eGFR threshold. */
+export interface RenalProtocol {
+  drug: string;
+  belowEgfr: number;
+  note: string;
+}
+
+/** A hospital's formulary and local prescribing rules, imported in Settings. Drug names are stored as ingredients where the terminology index knows them. */
+export interface InstitutionalPolicy {
+  name: string;
+  version?: string;
+  /** Empty when the policy has no formulary list; the non-formulary check is then skipped. */
+  formulary: string[];
+  restricted: RestrictedDrug[];
+  substitutions: TherapeuticSubstitution[];
+  renalProtocols: RenalProtocol[];
+  importedAt: string;
 }
 
 export interface AnalysisResult {
   potentialErrors: PotentialError[];
   drugInformation: DrugInfo[];
   labInterpretation: LabValue[];
+  /** Version of the bundled interaction knowledge base used to cross-check `potentialErrors`. */
+  ruleBaseVersion?: string;
+  /** The patient context the analysis was run with, echoed for the reviewer. */
+  patientContext?: PatientContext;
+  /** Set when the analysis merges several runs; `providers` names the provider of each completed run. */
+  consensus?: { runs: number; failedRuns: number; providers: string[] };
+  /** The institutional policy the findings were checked against, if one was loaded. */
+  policy?: { name: string; version?: string };
+}
+
+/** 'import' cases keep the raw FHIR or HL7 v2 message in `input.text`. */
+export type CaseInputMode = 'upload' | 'text' | 'voice' | 'import';
+
+/** An analysis saved to the local case history. */
+export interface SavedCase {
+  id: string;
+  /** ISO timestamp of when the analysis completed. */
+  createdAt: string;
+  /** Reviewer-chosen label (bed, initials, local reference) used to group analyses of the same patient. Never sent to the model. */
+  label: string;
+  input: {
+    mode: CaseInputMode;
+    text?: string;
+    pages?: DocumentPage[];
+    /** Identifiers in `text` that were replaced by placeholders when the case was analysed. */
+    redactions?: TextRedaction[];
+  };
+  patientContext?: PatientContext;
+  result: AnalysisResult;
+}
+
+/** Who signed off a review, recorded on exported reports and FHIR bundles. */
+export interface ReviewSignOff {
+  pharmacistName: string;
+  registrationNumber?: string;
+  /** ISO timestamp of the sign-off. */
+  signedAt: string;
+  comments?: string;
+}
+
+export const REVIEW_DECISIONS = ['accepted', 'rejected', 'modified', 'escalated'] as const;
+/** What the pharmacist did with a finding; a finding with no audit entries is still pending. */
+export type ReviewDecision = typeof REVIEW_DECISIONS[number];
+
+export const INTERVENTION_CATEGORIES = [
+  'dose-reduced',
+  'dose-increased',
+  'frequency-changed',
+  'drug-stopped',
+  'drug-changed',
+  'drug-added',
+  'route-changed',
+  'monitoring-added',
+  'allergy-documented',
+  'patient-counselled',
+  'no-change',
+  'other',
+] as const;
+export type InterventionCategory = typeof INTERVENTION_CATEGORIES[number];
+
+/** One review action on a finding. Entries are only ever appended; the latest one per finding is its current state. */
+export interface InterventionAuditEntry {
+  id: string;
+  caseId: string;
+  caseLabel: string;
+  /** Position of the finding in the saved case's `potentialErrors`, which never change after saving. */
+  findingIndex: number;
+  errorType: string;
+  riskLevel: RiskLevel;
+  findingSource?: FindingSource;
+  error: string;
+  decision: ReviewDecision;
+  category?: InterventionCategory;
+  /** Required when the finding is rejected. */
+  reason?: string;
+  notes?: string;
+  reviewer: string;
+  /** ISO timestamp. */
+  recordedAt: string;
 }
@@ -4,15 +4,26 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Model credentials and provider settings are read by the API server (`npm run server`), never bundled here.
+    const apiProxy = {
+      '/api': {
+        target: env.API_SERVER_URL || 'http://127.0.0.1:8787',
+        changeOrigin: true,
+        rewrite: (url: string) => url.replace(/^\/api/, ''),
+      },
+    };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: apiProxy,
+      },
+      preview: {
+        proxy: apiProxy,
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL ?? '')
       },
       resolve: {
         alias: {